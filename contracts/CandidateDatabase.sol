@@ -15,7 +15,7 @@ import {ElectionUtils} from "./lib/ElectionUtils.sol";
  *      - Importing functionality from other candidate databases
  */
 
-/// @notice Thrown when a candidate under the age of 18 attempts to register
+/// @notice Thrown when a candidate under the minimum eligible age attempts to register
 error CandidateDatabase__NotEligible();
 
 /// @notice Thrown when a non-registered candidate tries to perform a restricted action
@@ -30,9 +30,16 @@ error CandidateDatabase__ImportFailed();
 /// @notice Thrown when an invalid address is provided
 error CandidateDatabase__InvalidAddress();
 
-contract CandidateDatabase is ICandidateDatabase, AdminManagement {
-    uint256 private constant MIN_ELIGIBLE_AGE = 18;
+/// @notice Thrown when a candidate is younger than the minimum age of an election on its date
+error CandidateDatabase__TooYoungForElection();
+
+/// @notice Thrown when a candidate does not have the gender the seat of an election is reserved for
+error CandidateDatabase__GenderRestricted();
+
+/// @notice Thrown when a candidate does not stand in the region an election is restricted to
+error CandidateDatabase__OutsideRegion();
 
+contract CandidateDatabase is ICandidateDatabase, AdminManagement {
     /**
      * @notice Stores details for a single candidate
      * @dev The registrationTimestamp serves as both a timestamp and a registration flag
@@ -47,6 +54,7 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
         Gender gender;
         uint256 dateOfBirthEpoch1900; // Date of birth in Epoch1900 format
         uint256 registrationTimestamp1900; // Registration time in Epoch1900 format
+        bytes32 region; // Region set by a registrar, 0 for none
     }
 
     /// @dev Main storage for candidate information
@@ -55,12 +63,15 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
     /// @dev Array of all registered candidate addresses for enumeration
     address[] private s_candidateAddresses;
 
+    /// @dev Minimum age to register, set at deployment and by the owner
+    uint256 private s_minEligibleAge;
+
     /**
      * @notice Ensures the candidate meets minimum age requirements
      * @param _dateOfBirthEpoch1900 Date of birth as Epoch1900 timestamp
      */
     modifier onlyEligible(uint256 _dateOfBirthEpoch1900) {
-        if (ElectionUtils.calculateAge(_dateOfBirthEpoch1900) < MIN_ELIGIBLE_AGE)
+        if (ElectionUtils.calculateAge(_dateOfBirthEpoch1900) < s_minEligibleAge)
             revert CandidateDatabase__NotEligible();
         _;
     }
@@ -95,6 +106,54 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
         _;
     }
 
+    /**
+     * @notice Contract constructor, sets the deployer as the owner
+     * @param _minEligibleAge Minimum age to register
+     */
+    constructor(uint256 _minEligibleAge) {
+        _setMinEligibleAge(_minEligibleAge);
+    }
+
+    /**
+     * @notice Initialize a proxied database, replaces the constructor
+     * @dev Called once by `ChainElectProxy` when it is deployed
+     * @param _owner Address of the owner of the database
+     * @param _minEligibleAge Minimum age to register
+     */
+    function initialize(address _owner, uint256 _minEligibleAge) external {
+        _initializeOwner(_owner);
+        _setMinEligibleAge(_minEligibleAge);
+    }
+
+    /**
+     * @notice Change the minimum age to register
+     * @dev Only owner can call this function, registered candidates are kept
+     * @param _minEligibleAge Minimum age to register
+     */
+    function setMinEligibleAge(
+        uint256 _minEligibleAge
+    ) external override onlyOwner {
+        _setMinEligibleAge(_minEligibleAge);
+    }
+
+    /**
+     * @notice Get the minimum age to register
+     * @return minEligibleAge Minimum age in years
+     */
+    function getMinEligibleAge()
+        external
+        view
+        override
+        returns (uint256 minEligibleAge)
+    {
+        return s_minEligibleAge;
+    }
+
+    function _setMinEligibleAge(uint256 _minEligibleAge) private {
+        s_minEligibleAge = _minEligibleAge;
+        emit MinEligibleAgeSet(_minEligibleAge, msg.sender);
+    }
+
     /**
      * @notice Internal function to add a new candidate to the database
      * @dev Used by both self-registration and admin functions
@@ -129,7 +188,8 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
             email: _email,
             qualifications: _qualifications,
             manifesto: _manifesto,
-            registrationTimestamp1900: ElectionUtils.getNowEpoch1900()
+            registrationTimestamp1900: ElectionUtils.getNowEpoch1900(),
+            region: bytes32(0)
         });
 
         s_candidateAddresses.push(_candidateAddress);
@@ -202,7 +262,7 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
      * @notice Register a new candidate in the system
      * @dev Self-registration function for candidates
      * @param _name Name of the candidate
-     * @param _dateOfBirthEpoch Date of birth as Unix timestamp
+     * @param _dateOfBirthEpoch Date of birth as Epoch1900 timestamp
      * @param _gender Gender of the candidate (0 for Male, 1 for Female)
      * @param _presentAddress Present address of the candidate
      * @param _email Email address of the candidate
@@ -217,7 +277,7 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
         string memory _email,
         string memory _qualifications,
         string memory _manifesto
-    ) external override {
+    ) external override whenNotPaused {
         _addCandidate(
             msg.sender,
             _name,
@@ -235,7 +295,7 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
      * @notice Update candidate information
      * @dev Self-update function for registered candidates
      * @param _name Updated name
-     * @param _dateOfBirthEpoch Updated date of birth as Unix timestamp
+     * @param _dateOfBirthEpoch Updated date of birth as Epoch1900 timestamp
      * @param _gender Updated gender
      * @param _presentAddress Updated address
      * @param _email Updated email
@@ -250,7 +310,7 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
         string memory _email,
         string memory _qualifications,
         string memory _manifesto
-    ) external override {
+    ) external override whenNotPaused {
         _updateCandidate(
             msg.sender,
             _name,
@@ -268,17 +328,17 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
      * @notice Allows a registered candidate to delete their own registration
      * @dev Self-removal function for registered candidates
      */
-    function deleteCandidate() external override {
+    function deleteCandidate() external override whenNotPaused {
         _deleteCandidate(msg.sender);
         emit CandidateDeleted(msg.sender);
     }
 
     /**
      * @notice Admin function to add a candidate directly
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _candidateAddress Address of the candidate to add
      * @param _name Name of the candidate
-     * @param _dateOfBirthEpoch Date of birth as Unix timestamp
+     * @param _dateOfBirthEpoch Date of birth as Epoch1900 timestamp
      * @param _gender Gender of the candidate
      * @param _presentAddress Present address of the candidate
      * @param _email Email address of the candidate
@@ -294,7 +354,12 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
         string memory _email,
         string memory _qualifications,
         string memory _manifesto
-    ) external override onlyAdmin onlyValidAddress(_candidateAddress) {
+    )
+        external
+        override
+        onlyRole(REGISTRAR_ROLE)
+        onlyValidAddress(_candidateAddress)
+    {
         _addCandidate(
             _candidateAddress,
             _name,
@@ -310,10 +375,10 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
 
     /**
      * @notice Admin function to update candidate details
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _candidateAddress Address of the candidate to update
      * @param _name Updated name
-     * @param _dateOfBirthEpoch Updated date of birth as Unix timestamp
+     * @param _dateOfBirthEpoch Updated date of birth as Epoch1900 timestamp
      * @param _gender Updated gender
      * @param _presentAddress Updated present address
      * @param _email Updated email address
@@ -329,7 +394,12 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
         string memory _email,
         string memory _qualifications,
         string memory _manifesto
-    ) external override onlyAdmin onlyValidAddress(_candidateAddress) {
+    )
+        external
+        override
+        onlyRole(REGISTRAR_ROLE)
+        onlyValidAddress(_candidateAddress)
+    {
         _updateCandidate(
             _candidateAddress,
             _name,
@@ -345,26 +415,57 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
 
     /**
      * @notice Admin function to remove a candidate
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _candidateAddress Address of the candidate to remove
      */
     function adminRemoveCandidate(
         address _candidateAddress
-    ) external override onlyAdmin onlyValidAddress(_candidateAddress) {
+    )
+        external
+        override
+        onlyRole(REGISTRAR_ROLE)
+        onlyValidAddress(_candidateAddress)
+    {
         _deleteCandidate(_candidateAddress);
         emit AdminRemovedCandidate(_candidateAddress, msg.sender);
     }
 
+    /**
+     * @notice Admin function to set the region a candidate stands in
+     * @dev Only REGISTRAR_ROLE holders can call this function
+     * @dev Elections restricted to a region only enroll candidates from it
+     * @param _candidateAddress Address of the candidate
+     * @param _region Region of the candidate, 0 for none
+     */
+    function adminSetCandidateRegion(
+        address _candidateAddress,
+        bytes32 _region
+    )
+        external
+        override
+        onlyRole(REGISTRAR_ROLE)
+        onlyRegistered(_candidateAddress)
+    {
+        s_candidates[_candidateAddress].region = _region;
+        emit AdminSetCandidateRegion(_candidateAddress, _region, msg.sender);
+    }
+
     /**
      * @notice Import a specific candidate from another CandidateDatabase contract
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _sourceContract The address of the source CandidateDatabase contract
      * @param _candidateAddress The address of the candidate to import
      */
     function adminImportCandidate(
         address _sourceContract,
         address _candidateAddress
-    ) external override onlyAdmin onlyNotRegistered(_candidateAddress) {
+    )
+        external
+        override
+        onlyRole(REGISTRAR_ROLE)
+        whenNotPaused
+        onlyNotRegistered(_candidateAddress)
+    {
         ICandidateDatabase source = ICandidateDatabase(_sourceContract);
 
         try source.getCandidateDetails(_candidateAddress) returns (
@@ -397,14 +498,14 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
 
     /**
      * @notice Batch import selected candidates from another CandidateDatabase contract
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _sourceContract The address of the source CandidateDatabase contract
      * @param _candidateAddresses Array of candidate addresses to import
      */
     function adminBatchImportCandidates(
         address _sourceContract,
         address[] calldata _candidateAddresses
-    ) external override onlyAdmin {
+    ) external override onlyRole(REGISTRAR_ROLE) whenNotPaused {
         ICandidateDatabase source = ICandidateDatabase(_sourceContract);
         uint256 importedCount = 0;
 
@@ -413,7 +514,7 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
             address candidateAddress = _candidateAddresses[i];
 
             // Skip if candidate is already registered
-            if (s_candidates[candidateAddress].registrationTimestamp > 0) {
+            if (s_candidates[candidateAddress].registrationTimestamp1900 > 0) {
                 unchecked {
                     ++i;
                 }
@@ -461,12 +562,12 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
 
     /**
      * @notice Import all candidates from another CandidateDatabase contract
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _sourceContract The address of the source CandidateDatabase contract
      */
     function adminImportAllCandidates(
         address _sourceContract
-    ) external override onlyAdmin {
+    ) external override onlyRole(REGISTRAR_ROLE) whenNotPaused {
         ICandidateDatabase source = ICandidateDatabase(_sourceContract);
         address[] memory candidates;
 
@@ -484,7 +585,7 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
             address candidateAddress = candidates[i];
 
             // Skip if candidate is already registered in this contract
-            if (s_candidates[candidateAddress].registrationTimestamp > 0) {
+            if (s_candidates[candidateAddress].registrationTimestamp1900 > 0) {
                 unchecked {
                     ++i;
                 }
@@ -575,7 +676,7 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
     /**
      * @notice Get your own candidate details
      * @return name Your name
-     * @return dateOfBirthEpoch Your date of birth as Unix timestamp
+     * @return dateOfBirthEpoch Your date of birth as Epoch1900 timestamp
      * @return gender Your gender
      * @return presentAddress Your present address
      * @return email Your email
@@ -602,13 +703,13 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
         Candidate memory candidate = s_candidates[msg.sender];
         return (
             candidate.name,
-            candidate.dateOfBirthEpoch,
+            candidate.dateOfBirthEpoch1900,
             candidate.gender,
             candidate.presentAddress,
             candidate.email,
             candidate.qualifications,
             candidate.manifesto,
-            candidate.registrationTimestamp
+            candidate.registrationTimestamp1900
         );
     }
 
@@ -648,7 +749,7 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
         override
         returns (bool isRegistered)
     {
-        return s_candidates[msg.sender].registrationTimestamp > 0;
+        return s_candidates[msg.sender].registrationTimestamp1900 > 0;
     }
 
     /**
@@ -659,7 +760,61 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
     function getCandidateRegistrationStatus(
         address _candidateAddress
     ) external view override returns (bool isRegistered) {
-        return s_candidates[_candidateAddress].registrationTimestamp > 0;
+        return s_candidates[_candidateAddress].registrationTimestamp1900 > 0;
+    }
+
+    /**
+     * @notice Get what the eligibility rules of an election are checked against
+     * @param _candidateAddress Address of the candidate
+     * @return dateOfBirthEpoch1900 Candidate's date of birth as Epoch1900 timestamp
+     * @return gender Candidate's gender
+     * @return region Region the candidate stands in, 0 for none
+     */
+    function getEligibilityProfile(
+        address _candidateAddress
+    )
+        external
+        view
+        override
+        onlyRegistered(_candidateAddress)
+        returns (uint256 dateOfBirthEpoch1900, Gender gender, bytes32 region)
+    {
+        Candidate storage candidate = s_candidates[_candidateAddress];
+        return (
+            candidate.dateOfBirthEpoch1900,
+            candidate.gender,
+            candidate.region
+        );
+    }
+
+    /**
+     * @notice Reverts unless a candidate meets the eligibility rules of an election
+     * @param _candidateAddress Address of the candidate
+     * @param _minAge Minimum age on the election date, 0 for none
+     * @param _genderRestricted Whether the seat is reserved for `_gender`
+     * @param _gender Gender the seat is reserved for
+     * @param _region Region the election is restricted to, 0 for any
+     * @param _atEpoch1900 Election date as Epoch1900 timestamp
+     */
+    function requireEligible(
+        address _candidateAddress,
+        uint256 _minAge,
+        bool _genderRestricted,
+        Gender _gender,
+        bytes32 _region,
+        uint256 _atEpoch1900
+    ) external view override onlyRegistered(_candidateAddress) {
+        Candidate storage candidate = s_candidates[_candidateAddress];
+        if (
+            ElectionUtils.calculateAgeAt(
+                candidate.dateOfBirthEpoch1900,
+                _atEpoch1900
+            ) < _minAge
+        ) revert CandidateDatabase__TooYoungForElection();
+        if (_genderRestricted && candidate.gender != _gender)
+            revert CandidateDatabase__GenderRestricted();
+        if (_region != bytes32(0) && candidate.region != _region)
+            revert CandidateDatabase__OutsideRegion();
     }
 
     /**
@@ -674,7 +829,7 @@ contract CandidateDatabase is ICandidateDatabase, AdminManagement {
     {
         return
             ElectionUtils.calculateAge(
-                s_candidates[msg.sender].dateOfBirthEpoch
+                s_candidates[msg.sender].dateOfBirthEpoch1900
             );
     }
 }
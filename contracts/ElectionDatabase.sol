@@ -12,6 +12,8 @@ pragma solidity ^0.8.8;
 import {IVoterDatabase} from "./interfaces/IVoterDatabase.sol";
 import {ICandidateDatabase} from "./interfaces/ICandidateDatabase.sol";
 import {AdminManagement} from "./shared/AdminManagement.sol";
+import {ElectoralRoll} from "./lib/ElectoralRoll.sol";
+import {ElectionUtils} from "./lib/ElectionUtils.sol";
 
 /// @notice Thrown when a voter is not registered in the voter database
 error ElectionDatabase__VoterNotRegistered();
@@ -40,6 +42,63 @@ error ElectionDatabase__ElectionHasNoContestant();
 /// @notice Thrown when an invalid address (0x0) is provided
 error ElectionDatabase__InvalidAddress();
 
+/// @notice Thrown when a voting function does not match the type of the election
+error ElectionDatabase__WrongElectionType();
+
+/// @notice Thrown when a ballot is empty, repeats a candidate or names a candidate not enrolled
+error ElectionDatabase__InvalidBallot();
+
+/// @notice Thrown when the result of an election has already been finalized
+error ElectionDatabase__ElectionAlreadyFinalized();
+
+/// @notice Thrown when an election schedule ends before it starts
+error ElectionDatabase__InvalidSchedule();
+
+/// @notice Thrown when a ballot is cast before the start or after the end of the schedule
+error ElectionDatabase__OutsideVotingWindow();
+
+/// @notice Thrown when the tie-break policy is changed after votes were cast
+error ElectionDatabase__TieBreakPolicyLocked();
+
+/// @notice Thrown when a tie is broken in a way the tie-break policy of the election does not allow
+error ElectionDatabase__WrongTieBreakPolicy();
+
+/// @notice Thrown when breaking a tie in an election whose leaders are not tied
+error ElectionDatabase__NoTie();
+
+/// @notice Thrown when the tie of an election has already been broken
+error ElectionDatabase__TieAlreadyBroken();
+
+/// @notice Thrown when an admin decides a tie for a candidate that is not one of the tied leaders
+error ElectionDatabase__NotTiedCandidate();
+
+/// @notice Thrown when revealing a vote that was never committed or was already revealed
+error ElectionDatabase__NothingToReveal();
+
+/// @notice Thrown when a revealed candidate and salt do not match the committed hash
+error ElectionDatabase__CommitmentMismatch();
+
+/// @notice Thrown when freezing the electoral roll of an election that already has one
+error ElectionDatabase__ElectoralRollAlreadyFrozen();
+
+/// @notice Thrown when an election is opened with an empty electoral roll root
+error ElectionDatabase__InvalidElectoralRoll();
+
+/// @notice Thrown when a voter is not on the frozen electoral roll of an election
+error ElectionDatabase__NotOnElectoralRoll();
+
+/// @notice Thrown when a signed ballot is submitted after its deadline
+error ElectionDatabase__SignatureExpired();
+
+/// @notice Thrown when a ballot signature is not from the voter, or was already used
+error ElectionDatabase__InvalidSignature();
+
+/// @notice Thrown when counting a ranked choice election nobody voted in
+error ElectionDatabase__NoVotes();
+
+/// @notice Thrown when withdrawing a candidate while committed votes are still to be revealed
+error ElectionDatabase__UnrevealedVotes();
+
 /**
  * @title ElectionDatabase Contract
  * @author Masum Reza
@@ -51,6 +110,61 @@ error ElectionDatabase__InvalidAddress();
  *      - Integration with VoterDatabase and CandidateDatabase
  */
 contract ElectionDatabase is AdminManagement {
+    /**
+     * @notice How ballots are cast and counted
+     * @dev Plurality: one candidate per ballot through `vote`, most votes wins
+     * @dev RankedChoice: an ordered list of candidates per ballot through `voteRanked`,
+     *      counted by instant-runoff in `adminFinalizeRankedElection`
+     * @dev Approval: any number of candidates per ballot through `voteApproval`,
+     *      most approvals wins
+     * @dev SecretBallot: one candidate per ballot, committed as a hash through `commitVote`
+     *      while open and counted once revealed through `revealVote` after closing
+     */
+    enum ElectionType {
+        Plurality,
+        RankedChoice,
+        Approval,
+        SecretBallot
+    }
+
+    /**
+     * @notice Outcome of the vote count, see `getWinners`
+     */
+    enum ResultStatus {
+        NoVotes,
+        Unique,
+        Tie
+    }
+
+    /**
+     * @notice How a tie between the leaders of an election is broken
+     * @dev EarliestEnrollment: the tied candidate who enrolled first wins, the default
+     * @dev AdminDecision: an admin picks one of the tied candidates through `adminDecideTie`
+     * @dev SeededRandom: a tied candidate is drawn from the seed set with the policy,
+     *      anyone can reproduce the draw from `getTieBreakPolicy`
+     */
+    enum TieBreakPolicy {
+        EarliestEnrollment,
+        AdminDecision,
+        SeededRandom
+    }
+
+    /**
+     * @notice Who may vote in and stand for an election, set when it is created
+     * @dev Ages are counted on the election date: the end of the voting window
+     *      if it has one, the time of the ballot or enrollment otherwise
+     * @dev A zero age or region leaves that rule out
+     */
+    struct EligibilityRules {
+        uint8 minVoterAge;
+        uint8 minCandidateAge;
+        // reserves the seat for candidates of `candidateGender`
+        bool genderRestricted;
+        ICandidateDatabase.Gender candidateGender;
+        // region voters and candidates must be registered in, see `adminSetVoterRegion`
+        bytes32 region;
+    }
+
     /**
      * @notice Stores details for a single election
      * @dev The registrationTimestamp serves as both a timestamp and a registration flag
@@ -72,16 +186,57 @@ contract ElectionDatabase is AdminManagement {
         uint256 totalVotes;
         // If > 0, election is registered. Acts as creation timestamp
         uint256 registrationTimestamp;
+        ElectionType electionType;
+        // ranked choice only: one ordered list of candidates per ballot
+        address[][] rankedBallots;
+        // ranked choice only: set once the instant-runoff count has run
+        bool isFinalized;
+        address rankedWinner;
+        // approval only: number of ballots by how many candidates they approve
+        uint256[] ballotsPerApprovalCount;
+        // optional voting window as Unix timestamps, 0 leaves that side open
+        uint256 startTime;
+        uint256 endTime;
+        // candidate -> position in enrollment order, starting at 1
+        mapping(address => uint256) candidateToEnrollmentIndex;
+        uint256 enrollmentCounter;
+        TieBreakPolicy tieBreakPolicy;
+        bytes32 tieBreakSeed;
+        // set once a tie is broken on-chain through `adminBreakTie` or `adminDecideTie`
+        address tieBreakWinner;
+        // secret ballot only: voter -> hash of the vote, see `getCommitment`
+        mapping(address => bytes32) voterToCommitment;
+        mapping(address => bool) voterHasRevealed;
+        address[] committers;
+        uint256 revealCount;
+        // Merkle root of the electoral roll frozen at open time, 0 for none
+        bytes32 rollRoot;
+        EligibilityRules eligibilityRules;
     }
 
-    /// @dev References to external databases
-    IVoterDatabase private immutable s_voterDB;
-    ICandidateDatabase private immutable s_candidateDB;
+    /// @dev References to external databases, storage so a proxy can set them
+    IVoterDatabase private s_voterDB;
+    ICandidateDatabase private s_candidateDB;
+
+    /// @dev EIP-712 type of the ballots accepted by `voteBySig`
+    bytes32 private constant BALLOT_TYPEHASH =
+        keccak256(
+            "Ballot(uint256 electionId,address candidate,address voter,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH =
+        keccak256(
+            "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+        );
+
+    /// @dev Marks a candidate missing from a list, see `_indexOfCandidate`
+    uint256 private constant NOT_FOUND = type(uint256).max;
 
     /// @dev Election storage and tracking
     uint256 private s_electionCounter;
     mapping(uint256 => Election) private s_elections;
     uint256[] private s_electionIds;
+    // voter -> number of signed ballots used, see `voteBySig`
+    mapping(address => uint256) private s_ballotNonces;
 
     /// @notice Emitted when a new election is created
     event AdminCreatedElection(
@@ -140,16 +295,89 @@ contract ElectionDatabase is AdminManagement {
     /// @notice Emitted when an election is opened for voting
     event ElectionOpened(uint256 indexed electionId, address indexed admin);
 
+    /// @notice Emitted when the electoral roll of an election is frozen
+    event ElectoralRollFrozen(uint256 indexed electionId, bytes32 root);
+
     /// @notice Emitted when an election is closed
     event ElectionClosed(uint256 indexed electionId, address indexed admin);
 
+    /// @notice Emitted when the tie-break policy of an election is set
+    event TieBreakPolicySet(
+        uint256 indexed electionId,
+        TieBreakPolicy policy,
+        bytes32 seed
+    );
+
+    /// @notice Emitted when a tie between the leaders of an election is broken
+    event TieBroken(
+        uint256 indexed electionId,
+        address indexed winner,
+        TieBreakPolicy policy,
+        address[] tiedCandidates
+    );
+
+    /// @notice Emitted when the voting window of an election is set
+    event ElectionScheduled(
+        uint256 indexed electionId,
+        uint256 startTime,
+        uint256 endTime
+    );
+
+    /// @notice Emitted when an election is created with eligibility rules
+    event EligibilityRulesSet(
+        uint256 indexed electionId,
+        EligibilityRules rules
+    );
+
+    /// @notice Emitted when a voter casts a ranked ballot, most preferred candidate first
+    event VoterRankedVoted(
+        uint256 indexed electionId,
+        address indexed voter,
+        address[] rankings
+    );
+
+    /// @notice Emitted when a voter casts an approval ballot
+    event VoterApprovalVoted(
+        uint256 indexed electionId,
+        address indexed voter,
+        address[] approvals
+    );
+
+    /// @notice Emitted when a voter commits a secret ballot, the choice stays hidden
+    event VoteCommitted(
+        uint256 indexed electionId,
+        address indexed voter,
+        bytes32 commitment
+    );
+
+    /// @notice Emitted when a secret ballot is revealed and counted
+    event VoteRevealed(
+        uint256 indexed electionId,
+        address indexed voter,
+        address indexed candidate
+    );
+
+    /// @notice Emitted for every candidate eliminated during an instant-runoff count
+    event RankedChoiceRound(
+        uint256 indexed electionId,
+        uint256 round,
+        address indexed eliminated,
+        uint256 votes
+    );
+
+    /// @notice Emitted when the instant-runoff count of an election is complete
+    event RankedChoiceFinalized(
+        uint256 indexed electionId,
+        address indexed winner,
+        uint256 rounds
+    );
+
     /**
      * @notice Ensures the election exists
      * @param _electionId ID of the election to check
      */
     modifier onlyRegisteredElection(uint256 _electionId) {
-        if (s_elections[_electionId].registrationTimestamp == 0)
-            revert ElectionDatabase__ElectionNotFound();
+        _requireRegisteredElection(_electionId);
         _;
     }
 
@@ -158,8 +386,18 @@ contract ElectionDatabase is AdminManagement {
      * @param _electionId ID of the election to check
      */
     modifier onlyOpenElection(uint256 _electionId) {
-        if (!s_elections[_electionId].isActive)
-            revert ElectionDatabase__ElectionClosed();
+        _requireActive(_electionId, true);
+        _;
+    }
+
+    /**
+     * @notice Ensures the current time is within the schedule of the election, if it has one
+     * @dev Applies on top of `onlyOpenElection`, an open election still rejects
+     *      ballots before `startTime` and from `endTime` on
+     * @param _electionId ID of the election to check
+     */
+    modifier onlyWithinVotingWindow(uint256 _electionId) {
+        _requireWithinVotingWindow(_electionId);
         _;
     }
 
@@ -168,8 +406,20 @@ contract ElectionDatabase is AdminManagement {
      * @param _electionId ID of the election to check
      */
     modifier onlyClosedElection(uint256 _electionId) {
-        if (s_elections[_electionId].isActive)
-            revert ElectionDatabase__ElectionActive();
+        _requireActive(_electionId, false);
+        _;
+    }
+
+    /**
+     * @notice Ensures the election counts ballots of the given type
+     * @param _electionId ID of the election to check
+     * @param _electionType Type the voting function is meant for
+     */
+    modifier onlyElectionType(
+        uint256 _electionId,
+        ElectionType _electionType
+    ) {
+        _requireElectionType(_electionId, _electionType);
         _;
     }
 
@@ -177,9 +427,7 @@ contract ElectionDatabase is AdminManagement {
      * @notice Ensures the caller is a registered voter
      */
     modifier onlyRegisteredVoter() {
-        if (!s_voterDB.adminGetRegistrationStatus(msg.sender)) {
-            revert ElectionDatabase__VoterNotRegistered();
-        }
+        _requireRegisteredVoter(msg.sender);
         _;
     }
 
@@ -188,9 +436,7 @@ contract ElectionDatabase is AdminManagement {
      * @param _candidate Address to check for registration in CandidateDatabase
      */
     modifier onlyRegisteredCandidate(address _candidate) {
-        if (!s_candidateDB.getCandidateRegistrationStatus(_candidate)) {
-            revert ElectionDatabase__CandidateNotRegistered();
-        }
+        _requireRegisteredCandidate(_candidate);
         _;
     }
 
@@ -200,6 +446,73 @@ contract ElectionDatabase is AdminManagement {
      * @param _candidate Address to check for enrollment
      */
     modifier onlyEnrolledCandidate(uint256 _electionId, address _candidate) {
+        _requireEnrolledCandidate(_electionId, _candidate);
+        _;
+    }
+
+    // modifiers are inlined at every use, so their checks live in functions
+    // to keep ElectionDatabase below the contract size limit
+
+    /**
+     * @dev Reverts unless the election exists
+     */
+    function _requireRegisteredElection(uint256 _electionId) internal view {
+        if (s_elections[_electionId].registrationTimestamp == 0)
+            revert ElectionDatabase__ElectionNotFound();
+    }
+
+    /**
+     * @dev Reverts unless the election is open (`_active`) or closed
+     */
+    function _requireActive(uint256 _electionId, bool _active) internal view {
+        if (s_elections[_electionId].isActive != _active) {
+            if (_active) revert ElectionDatabase__ElectionClosed();
+            revert ElectionDatabase__ElectionActive();
+        }
+    }
+
+    /**
+     * @dev Reverts outside the schedule of the election, if it has one
+     */
+    function _requireWithinVotingWindow(uint256 _electionId) internal view {
+        if (!_isWithinVotingWindow(s_elections[_electionId]))
+            revert ElectionDatabase__OutsideVotingWindow();
+    }
+
+    /**
+     * @dev Reverts unless the election counts ballots of the given type
+     */
+    function _requireElectionType(
+        uint256 _electionId,
+        ElectionType _electionType
+    ) internal view {
+        if (s_elections[_electionId].electionType != _electionType)
+            revert ElectionDatabase__WrongElectionType();
+    }
+
+    /**
+     * @dev Reverts unless the address is a registered voter
+     */
+    function _requireRegisteredVoter(address _voter) internal view {
+        if (!s_voterDB.adminGetRegistrationStatus(_voter))
+            revert ElectionDatabase__VoterNotRegistered();
+    }
+
+    /**
+     * @dev Reverts unless the address is a registered candidate
+     */
+    function _requireRegisteredCandidate(address _candidate) internal view {
+        if (!s_candidateDB.getCandidateRegistrationStatus(_candidate))
+            revert ElectionDatabase__CandidateNotRegistered();
+    }
+
+    /**
+     * @dev Reverts unless the candidate is enrolled in the election
+     */
+    function _requireEnrolledCandidate(
+        uint256 _electionId,
+        address _candidate
+    ) internal view {
         Election storage election = s_elections[_electionId];
         bool validCandidate = false;
         for (uint256 i = 0; i < election.candidates.length; i++) {
@@ -209,7 +522,6 @@ contract ElectionDatabase is AdminManagement {
             }
         }
         if (!validCandidate) revert ElectionDatabase__CandidateNotRegistered();
-        _;
     }
 
     /**
@@ -218,32 +530,131 @@ contract ElectionDatabase is AdminManagement {
      * @param _candidateDBAddress Address of the CandidateDatabase contract
      */
     constructor(address _voterDBAddress, address _candidateDBAddress) {
+        _setDatabases(_voterDBAddress, _candidateDBAddress);
+    }
+
+    /**
+     * @notice Initialize a proxied database, replaces the constructor
+     * @dev Called once by `ChainElectProxy` when it is deployed
+     * @param _owner Address of the owner of the database
+     * @param _voterDBAddress Address of the VoterDatabase contract
+     * @param _candidateDBAddress Address of the CandidateDatabase contract
+     */
+    function initialize(
+        address _owner,
+        address _voterDBAddress,
+        address _candidateDBAddress
+    ) external {
+        _initializeOwner(_owner);
+        _setDatabases(_voterDBAddress, _candidateDBAddress);
+    }
+
+    function _setDatabases(
+        address _voterDBAddress,
+        address _candidateDBAddress
+    ) private {
         if (_voterDBAddress == address(0) || _candidateDBAddress == address(0))
             revert ElectionDatabase__InvalidAddress();
 
         s_voterDB = IVoterDatabase(_voterDBAddress);
         s_candidateDB = ICandidateDatabase(_candidateDBAddress);
-        s_electionCounter = 0;
     }
 
     /**
-     * @notice Creates a new election with given name and description
-     * @dev Only owner/admins can call this function
+     * @notice Creates a new plurality election with given name and description
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
      * @param _name Name of the election
      * @param _description Description of the election
      */
     function adminCreateElection(
         string memory _name,
         string memory _description
-    ) external onlyAdmin {
+    ) external onlyRole(ELECTION_MANAGER_ROLE) {
+        _createElection(_name, _description, ElectionType.Plurality);
+    }
+
+    /**
+     * @notice Creates a new election of the given type
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @dev The type cannot be changed after creation
+     * @param _name Name of the election
+     * @param _description Description of the election
+     * @param _electionType How ballots are cast and counted
+     */
+    function adminCreateElection(
+        string memory _name,
+        string memory _description,
+        ElectionType _electionType
+    ) external onlyRole(ELECTION_MANAGER_ROLE) {
+        _createElection(_name, _description, _electionType);
+    }
+
+    /**
+     * @notice Creates a new election of the given type with a voting window
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @dev Ballots are accepted from `_startTime` until just before `_endTime`,
+     *      and only while the election is open. Pass 0 for either side to leave it open.
+     * @param _name Name of the election
+     * @param _description Description of the election
+     * @param _electionType How ballots are cast and counted
+     * @param _startTime Unix timestamp voting starts at, 0 for no start time
+     * @param _endTime Unix timestamp voting ends at, 0 for no end time
+     */
+    function adminCreateElection(
+        string memory _name,
+        string memory _description,
+        ElectionType _electionType,
+        uint256 _startTime,
+        uint256 _endTime
+    ) external onlyRole(ELECTION_MANAGER_ROLE) {
+        uint256 electionId = s_electionCounter;
+        _createElection(_name, _description, _electionType);
+        _scheduleElection(electionId, _startTime, _endTime);
+    }
+
+    /**
+     * @notice Creates a new election of the given type with a voting window and eligibility rules
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @dev The rules cannot be changed after creation, they apply on top of the
+     *      minimum age of the voter and candidate databases
+     * @param _name Name of the election
+     * @param _description Description of the election
+     * @param _electionType How ballots are cast and counted
+     * @param _startTime Unix timestamp voting starts at, 0 for no start time
+     * @param _endTime Unix timestamp voting ends at, 0 for no end time
+     * @param _rules Who may vote in and stand for the election
+     */
+    function adminCreateElection(
+        string memory _name,
+        string memory _description,
+        ElectionType _electionType,
+        uint256 _startTime,
+        uint256 _endTime,
+        EligibilityRules memory _rules
+    ) external onlyRole(ELECTION_MANAGER_ROLE) {
+        uint256 electionId = s_electionCounter;
+        _createElection(_name, _description, _electionType);
+        _scheduleElection(electionId, _startTime, _endTime);
+
+        s_elections[electionId].eligibilityRules = _rules;
+        emit EligibilityRulesSet(electionId, _rules);
+    }
+
+    /**
+     * @dev Internal function to register a new election
+     */
+    function _createElection(
+        string memory _name,
+        string memory _description,
+        ElectionType _electionType
+    ) internal {
         uint256 electionId = s_electionCounter;
 
         Election storage newElection = s_elections[electionId];
         newElection.name = _name;
         newElection.description = _description;
-        newElection.isActive = false;
-        newElection.totalVotes = 0;
         newElection.registrationTimestamp = block.timestamp; // Set timestamp to register the election
+        newElection.electionType = _electionType;
 
         s_electionIds.push(electionId);
         s_electionCounter++;
@@ -253,16 +664,57 @@ contract ElectionDatabase is AdminManagement {
 
     /**
      * @notice Updates an existing election's details
-     * @dev Only owner/admins can call this function
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @param _electionId ID of the election to update
+     * @param _name New name for the election
+     * @param _description New description for the election
+     */
+    function adminUpdateElection(
+        uint256 _electionId,
+        string memory _name,
+        string memory _description
+    )
+        external
+        onlyRole(ELECTION_MANAGER_ROLE)
+        onlyRegisteredElection(_electionId)
+    {
+        _updateElection(_electionId, _name, _description);
+    }
+
+    /**
+     * @notice Updates an existing election's details and voting window
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @dev Election must be in closed state, the window cannot move while ballots are cast
      * @param _electionId ID of the election to update
      * @param _name New name for the election
      * @param _description New description for the election
+     * @param _startTime Unix timestamp voting starts at, 0 for no start time
+     * @param _endTime Unix timestamp voting ends at, 0 for no end time
      */
     function adminUpdateElection(
+        uint256 _electionId,
+        string memory _name,
+        string memory _description,
+        uint256 _startTime,
+        uint256 _endTime
+    )
+        external
+        onlyRole(ELECTION_MANAGER_ROLE)
+        onlyRegisteredElection(_electionId)
+        onlyClosedElection(_electionId)
+    {
+        _scheduleElection(_electionId, _startTime, _endTime);
+        _updateElection(_electionId, _name, _description);
+    }
+
+    /**
+     * @dev Internal function to set the name and description of an election
+     */
+    function _updateElection(
         uint256 _electionId,
         string memory _name,
         string memory _description
-    ) external onlyAdmin onlyRegisteredElection(_electionId) {
+    ) internal {
         Election storage election = s_elections[_electionId];
 
         election.name = _name;
@@ -271,14 +723,36 @@ contract ElectionDatabase is AdminManagement {
         emit AdminUpdatedElection(_electionId, _name, msg.sender);
     }
 
+    /**
+     * @dev Internal function to set the voting window of an election
+     */
+    function _scheduleElection(
+        uint256 _electionId,
+        uint256 _startTime,
+        uint256 _endTime
+    ) internal {
+        if (_startTime != 0 && _endTime != 0 && _endTime <= _startTime)
+            revert ElectionDatabase__InvalidSchedule();
+
+        Election storage election = s_elections[_electionId];
+        election.startTime = _startTime;
+        election.endTime = _endTime;
+
+        emit ElectionScheduled(_electionId, _startTime, _endTime);
+    }
+
     /**
      * @notice Deletes an existing election
-     * @dev Only owner/admins can call this function
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
      * @param _electionId ID of the election to delete
      */
     function adminDeleteElection(
         uint256 _electionId
-    ) external onlyAdmin onlyRegisteredElection(_electionId) {
+    )
+        external
+        onlyRole(ELECTION_MANAGER_ROLE)
+        onlyRegisteredElection(_electionId)
+    {
         // Store the name before marking as not registered
         string memory electionName = s_elections[_electionId].name;
 
@@ -299,136 +773,944 @@ contract ElectionDatabase is AdminManagement {
 
     /**
      * @notice Opens an election for voting
-     * @dev Only owner/admins can call this function
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
      * @dev Election must have at least one candidate to be opened
      * @param _electionId ID of the election to open
      */
     function adminOpenElection(
         uint256 _electionId
-    ) external onlyAdmin onlyRegisteredElection(_electionId) {
-        Election storage election = s_elections[_electionId];
-
-        // Prevent opening elections with no candidates
-        if (election.candidates.length == 0) {
-            revert ElectionDatabase__ElectionHasNoContestant();
-        }
-
-        election.isActive = true;
-        emit ElectionOpened(_electionId, msg.sender);
-    }
-
-    /**
-     * @notice Closes an election from voting
-     * @dev Only owner/admins can call this function
-     * @param _electionId ID of the election to close
-     */
-    function adminCloseElection(
-        uint256 _electionId
-    ) external onlyAdmin onlyRegisteredElection(_electionId) {
-        Election storage election = s_elections[_electionId];
-        election.isActive = false;
-        emit ElectionClosed(_electionId, msg.sender);
+    )
+        external
+        onlyRole(ELECTION_MANAGER_ROLE)
+        onlyRegisteredElection(_electionId)
+    {
+        _openElection(_electionId);
     }
 
     /**
-     * @notice Allows a candidate to enroll themselves in an election
-     * @dev Candidate must be registered in CandidateDatabase
-     * @dev Election must be in closed state
-     * @param _electionId ID of the election to enroll in
+     * @notice Opens a plurality election for voting with a frozen electoral roll
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @dev From then on only voters on the roll can vote, with a Merkle proof,
+     *      whether they register or are removed from VoterDatabase later
+     * @dev Election must be in closed state, the roll cannot be changed once frozen
+     * @param _electionId ID of the election to open
+     * @param _rollRoot Merkle root of the registered voters, see lib/electoral-roll.ts
      */
-    function enrollCandidate(
-        uint256 _electionId
+    function adminOpenElection(
+        uint256 _electionId,
+        bytes32 _rollRoot
     )
         external
+        onlyRole(ELECTION_MANAGER_ROLE)
         onlyRegisteredElection(_electionId)
         onlyClosedElection(_electionId)
-        onlyRegisteredCandidate(msg.sender)
+        onlyElectionType(_electionId, ElectionType.Plurality)
     {
+        if (_rollRoot == bytes32(0))
+            revert ElectionDatabase__InvalidElectoralRoll();
         Election storage election = s_elections[_electionId];
+        if (election.rollRoot != bytes32(0))
+            revert ElectionDatabase__ElectoralRollAlreadyFrozen();
 
-        // Check if candidate is already registered in this election
-        for (uint256 i = 0; i < election.candidates.length; i++) {
-            if (election.candidates[i] == msg.sender) {
-                revert ElectionDatabase__CandidateAlreadyEnrolled();
-            }
-        }
-
-        election.candidates.push(msg.sender);
-
-        emit CandidateEnrolled(_electionId, msg.sender);
+        election.rollRoot = _rollRoot;
+        emit ElectoralRollFrozen(_electionId, _rollRoot);
+        _openElection(_electionId);
     }
 
     /**
-     * @notice Allows a candidate to withdraw themselves from an election
+     * @dev Reverts unless the voter is on the frozen roll of the election, or
+     *      registered in VoterDatabase if it has none
+     */
+    function _requireEligibleVoter(
+        uint256 _electionId,
+        address _voter,
+        bytes32[] memory _proof
+    ) internal view {
+        bytes32 root = s_elections[_electionId].rollRoot;
+        if (root == bytes32(0)) {
+            _requireRegisteredVoter(_voter);
+        } else if (!ElectoralRoll.contains(root, _voter, _proof)) {
+            revert ElectionDatabase__NotOnElectoralRoll();
+        }
+    }
+
+    /**
+     * @dev Reverts unless the voter meets the eligibility rules of the election,
+     *      checked by VoterDatabase so dates of birth stay private
+     * @dev Voters on a frozen roll must still be in VoterDatabase to be checked
+     */
+    function _requireVoterMeetsRules(
+        uint256 _electionId,
+        address _voter
+    ) internal view {
+        Election storage election = s_elections[_electionId];
+        EligibilityRules storage rules = election.eligibilityRules;
+        // elections without voter rules need nothing from VoterDatabase
+        if (rules.minVoterAge == 0 && rules.region == bytes32(0)) return;
+
+        s_voterDB.adminRequireEligible(
+            _voter,
+            rules.minVoterAge,
+            rules.region,
+            _electionDateEpoch1900(election)
+        );
+    }
+
+    /**
+     * @dev Reverts unless the candidate meets the eligibility rules of the election
+     */
+    function _requireCandidateMeetsRules(
+        Election storage _election,
+        address _candidate
+    ) internal view {
+        EligibilityRules storage rules = _election.eligibilityRules;
+        if (
+            rules.minCandidateAge == 0 &&
+            !rules.genderRestricted &&
+            rules.region == bytes32(0)
+        ) return;
+
+        s_candidateDB.requireEligible(
+            _candidate,
+            rules.minCandidateAge,
+            rules.genderRestricted,
+            rules.candidateGender,
+            rules.region,
+            _electionDateEpoch1900(_election)
+        );
+    }
+
+    /**
+     * @dev Date ages are counted on, the end of the voting window or now
+     */
+    function _electionDateEpoch1900(
+        Election storage _election
+    ) internal view returns (uint256) {
+        return
+            ElectionUtils.toEpoch1900(
+                _election.endTime != 0 ? _election.endTime : block.timestamp
+            );
+    }
+
+    /**
+     * @dev Internal function to open an election that has candidates
+     */
+    function _openElection(uint256 _electionId) internal {
+        Election storage election = s_elections[_electionId];
+
+        // Prevent opening elections with no candidates
+        if (election.candidates.length == 0) {
+            revert ElectionDatabase__ElectionHasNoContestant();
+        }
+
+        election.isActive = true;
+        emit ElectionOpened(_electionId, msg.sender);
+    }
+
+    /**
+     * @notice Closes an election from voting
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @param _electionId ID of the election to close
+     */
+    function adminCloseElection(
+        uint256 _electionId
+    )
+        external
+        onlyRole(ELECTION_MANAGER_ROLE)
+        onlyRegisteredElection(_electionId)
+    {
+        Election storage election = s_elections[_electionId];
+        election.isActive = false;
+        emit ElectionClosed(_electionId, msg.sender);
+    }
+
+    /**
+     * @notice Allows a candidate to enroll themselves in an election
+     * @dev Candidate must be registered in CandidateDatabase
+     * @dev Election must be in closed state
+     * @dev Candidate must meet the eligibility rules of the election, see `getEligibilityRules`
+     * @param _electionId ID of the election to enroll in
+     */
+    function enrollCandidate(
+        uint256 _electionId
+    )
+        external
+        whenNotPaused
+        onlyRegisteredElection(_electionId)
+        onlyClosedElection(_electionId)
+        onlyRegisteredCandidate(msg.sender)
+    {
+        _enrollCandidate(_electionId, msg.sender);
+        emit CandidateEnrolled(_electionId, msg.sender);
+    }
+
+    /**
+     * @dev Internal function to enroll a candidate who meets the eligibility rules
+     */
+    function _enrollCandidate(uint256 _electionId, address _candidate) internal {
+        Election storage election = s_elections[_electionId];
+
+        // Check if candidate is already registered in this election
+        for (uint256 i = 0; i < election.candidates.length; i++) {
+            if (election.candidates[i] == _candidate) {
+                revert ElectionDatabase__CandidateAlreadyEnrolled();
+            }
+        }
+        _requireCandidateMeetsRules(election, _candidate);
+
+        election.candidates.push(_candidate);
+        election.candidateToEnrollmentIndex[_candidate] = ++election
+            .enrollmentCounter;
+    }
+
+    /**
+     * @notice Allows a candidate to withdraw themselves from an election
      * @dev Election must be in closed state
      * @param _electionId ID of the election to withdraw from
      */
-    function withdrawCandidate(
+    function withdrawCandidate(
+        uint256 _electionId
+    )
+        external
+        whenNotPaused
+        onlyRegisteredElection(_electionId)
+        onlyClosedElection(_electionId)
+    {
+        _withdrawCandidate(_electionId, msg.sender);
+        emit CandidateWithdrawn(_electionId, msg.sender);
+    }
+
+    /**
+     * @dev Internal function to remove a candidate from an election
+     */
+    function _withdrawCandidate(
+        uint256 _electionId,
+        address _candidate
+    ) internal {
+        Election storage election = s_elections[_electionId];
+        // a committed vote for the candidate could no longer be revealed
+        if (election.committers.length > election.revealCount)
+            revert ElectionDatabase__UnrevealedVotes();
+
+        // Find and remove the candidate
+        bool found = false;
+        for (uint256 i = 0; i < election.candidates.length; i++) {
+            if (election.candidates[i] == _candidate) {
+                // Swap with last element and pop
+                election.candidates[i] = election.candidates[
+                    election.candidates.length - 1
+                ];
+                election.candidates.pop();
+                found = true;
+                break;
+            }
+        }
+
+        if (!found) {
+            revert ElectionDatabase__CandidateNotRegistered();
+        }
+    }
+
+    /**
+     * @notice Allows a registered voter to vote for a candidate in an active election
+     * @param _electionId ID of the election
+     * @param _candidate Address of the candidate to vote for
+     */
+    function vote(uint256 _electionId, address _candidate) external {
+        _vote(_electionId, msg.sender, _candidate, new bytes32[](0));
+    }
+
+    /**
+     * @notice Allows a voter on the frozen electoral roll to vote in an active election
+     * @param _electionId ID of the election
+     * @param _candidate Address of the candidate to vote for
+     * @param _proof Merkle proof of the caller on the roll, see `getElectoralRoll`
+     */
+    function vote(
+        uint256 _electionId,
+        address _candidate,
+        bytes32[] calldata _proof
+    ) external {
+        _vote(_electionId, msg.sender, _candidate, _proof);
+    }
+
+    /**
+     * @notice Casts a plurality ballot signed by the voter, so anyone can pay for the transaction
+     * @dev The signature is over the EIP-712 `Ballot` struct, with the domain name
+     *      "ElectionDatabase", version "1", the chain id and this contract address
+     * @dev Each signature can be used once, through the voter's nonce in `getBallotNonce`
+     * @dev Elections with a frozen electoral roll need a proof, so their voters must use `vote`
+     * @param _electionId ID of the election
+     * @param _candidate Address of the candidate to vote for
+     * @param _voter Address of the voter who signed the ballot
+     * @param _deadline Unix timestamp after which the signature is rejected
+     * @param _signature 65 byte signature of the voter
+     */
+    function voteBySig(
+        uint256 _electionId,
+        address _candidate,
+        address _voter,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) external {
+        if (block.timestamp > _deadline)
+            revert ElectionDatabase__SignatureExpired();
+        // malformed signatures recover to address(0), which must never pass as the voter
+        if (_voter == address(0)) revert ElectionDatabase__InvalidSignature();
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                BALLOT_TYPEHASH,
+                _electionId,
+                _candidate,
+                _voter,
+                s_ballotNonces[_voter]++,
+                _deadline
+            )
+        );
+        bytes32 digest = keccak256(
+            abi.encodePacked("\x19\x01", _domainSeparator(), structHash)
+        );
+        if (_recoverSigner(digest, _signature) != _voter)
+            revert ElectionDatabase__InvalidSignature();
+
+        _vote(_electionId, _voter, _candidate, new bytes32[](0));
+    }
+
+    /**
+     * @dev Internal function to cast a plurality ballot for `_voter`
+     */
+    function _vote(
+        uint256 _electionId,
+        address _voter,
+        address _candidate,
+        bytes32[] memory _proof
+    )
+        internal
+        whenNotPaused
+        onlyRegisteredElection(_electionId)
+        onlyOpenElection(_electionId)
+        onlyWithinVotingWindow(_electionId)
+        onlyElectionType(_electionId, ElectionType.Plurality)
+        onlyEnrolledCandidate(_electionId, _candidate)
+    {
+        _requireEligibleVoter(_electionId, _voter, _proof);
+        _recordVote(_electionId, _voter, _candidate);
+
+        emit VoterVoted(_electionId, _voter, _candidate);
+    }
+
+    /**
+     * @dev EIP-712 domain separator, computed on every call so it follows chain forks
+     */
+    function _domainSeparator() internal view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    EIP712_DOMAIN_TYPEHASH,
+                    keccak256("ElectionDatabase"),
+                    keccak256("1"),
+                    block.chainid,
+                    address(this)
+                )
+            );
+    }
+
+    /**
+     * @dev Recovers the signer of a digest, address(0) for malformed signatures
+     * @dev Signatures with a high s value are rejected, they are malleable copies
+     */
+    function _recoverSigner(
+        bytes32 _digest,
+        bytes calldata _signature
+    ) internal pure returns (address) {
+        if (_signature.length != 65) return address(0);
+
+        bytes32 r = bytes32(_signature[0:32]);
+        bytes32 s = bytes32(_signature[32:64]);
+        uint8 v = uint8(_signature[64]);
+        if (
+            uint256(s) >
+            0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0
+        ) return address(0);
+
+        return ecrecover(_digest, v, r, s);
+    }
+
+    /**
+     * @notice Allows a registered voter to cast a ranked ballot in an active ranked choice election
+     * @dev The ballot may rank any number of enrolled candidates, each at most once.
+     *      The first choice is counted in `getVotesOfCandidate` as the first round tally.
+     * @param _electionId ID of the election
+     * @param _rankings Enrolled candidates, most preferred first
+     */
+    function voteRanked(
+        uint256 _electionId,
+        address[] calldata _rankings
+    )
+        external
+        whenNotPaused
+        onlyRegisteredElection(_electionId)
+        onlyOpenElection(_electionId)
+        onlyWithinVotingWindow(_electionId)
+        onlyElectionType(_electionId, ElectionType.RankedChoice)
+        onlyRegisteredVoter
+    {
+        Election storage election = s_elections[_electionId];
+        // a reopened election must not change a result that was already counted
+        if (election.isFinalized)
+            revert ElectionDatabase__ElectionAlreadyFinalized();
+
+        _validateBallot(election.candidates, _rankings);
+
+        _recordVote(_electionId, msg.sender, _rankings[0]);
+        election.rankedBallots.push(_rankings);
+
+        emit VoterRankedVoted(_electionId, msg.sender, _rankings);
+    }
+
+    /**
+     * @notice Allows a registered voter to approve any number of candidates in an active approval election
+     * @dev Every approved candidate gets one vote, `getTotalVoteCount` counts ballots
+     * @param _electionId ID of the election
+     * @param _approvals Enrolled candidates the voter approves of, each at most once
+     */
+    function voteApproval(
+        uint256 _electionId,
+        address[] calldata _approvals
+    )
+        external
+        whenNotPaused
+        onlyRegisteredElection(_electionId)
+        onlyOpenElection(_electionId)
+        onlyWithinVotingWindow(_electionId)
+        onlyElectionType(_electionId, ElectionType.Approval)
+        onlyRegisteredVoter
+    {
+        Election storage election = s_elections[_electionId];
+        _validateBallot(election.candidates, _approvals);
+
+        _recordVote(_electionId, msg.sender, _approvals[0]);
+        for (uint256 i = 1; i < _approvals.length; i++) {
+            election.votesPerCandidate[_approvals[i]]++;
+        }
+
+        // ballotsPerApprovalCount[n] counts the ballots approving n candidates
+        while (election.ballotsPerApprovalCount.length <= _approvals.length) {
+            election.ballotsPerApprovalCount.push(0);
+        }
+        election.ballotsPerApprovalCount[_approvals.length]++;
+
+        emit VoterApprovalVoted(_electionId, msg.sender, _approvals);
+    }
+
+    /**
+     * @notice Commits a hidden vote in an active secret ballot election
+     * @dev The commitment is `getCommitment(electionId, voter, candidate, salt)` with a random
+     *      32 byte salt kept by the voter; the vote is only counted once revealed after closing
+     * @dev The voter counts as having voted from the commit on
+     * @param _electionId ID of the election
+     * @param _commitment Hash binding the election, the voter, the candidate and the salt
+     */
+    function commitVote(
+        uint256 _electionId,
+        bytes32 _commitment
+    )
+        external
+        whenNotPaused
+        onlyRegisteredElection(_electionId)
+        onlyOpenElection(_electionId)
+        onlyWithinVotingWindow(_electionId)
+        onlyElectionType(_electionId, ElectionType.SecretBallot)
+        onlyRegisteredVoter
+    {
+        Election storage election = s_elections[_electionId];
+
+        // Check if voter already voted in this specific election
+        if (election.voterToVoteTimestamp[msg.sender] > 0)
+            revert ElectionDatabase__VoterAlreadyVoted();
+        _requireVoterMeetsRules(_electionId, msg.sender);
+
+        election.voterToCommitment[msg.sender] = _commitment;
+        election.voterToVoteTimestamp[msg.sender] = block.timestamp;
+        election.committers.push(msg.sender);
+
+        // Mark the voter as having voted in the voter database
+        s_voterDB.adminMarkVoted(msg.sender);
+
+        emit VoteCommitted(_electionId, msg.sender, _commitment);
+    }
+
+    /**
+     * @notice Reveals and counts the caller's committed vote once the election is closed
+     * @param _electionId ID of the election
+     * @param _candidate Candidate the vote was committed for
+     * @param _salt Salt the commitment was made with
+     */
+    function revealVote(
+        uint256 _electionId,
+        address _candidate,
+        bytes32 _salt
+    ) external {
+        _revealVote(_electionId, msg.sender, _candidate, _salt);
+    }
+
+    /**
+     * @notice Reveals and counts a committed vote on behalf of the voter
+     * @dev Anyone holding the salt can reveal, it cannot change the committed choice
+     * @param _electionId ID of the election
+     * @param _voter Voter who committed the vote
+     * @param _candidate Candidate the vote was committed for
+     * @param _salt Salt the commitment was made with
+     */
+    function revealVoteFor(
+        uint256 _electionId,
+        address _voter,
+        address _candidate,
+        bytes32 _salt
+    ) external {
+        _revealVote(_electionId, _voter, _candidate, _salt);
+    }
+
+    /**
+     * @dev Internal function to check a reveal against the commitment and count the vote
+     */
+    function _revealVote(
+        uint256 _electionId,
+        address _voter,
+        address _candidate,
+        bytes32 _salt
+    )
+        internal
+        whenNotPaused
+        onlyRegisteredElection(_electionId)
+        onlyClosedElection(_electionId)
+        onlyElectionType(_electionId, ElectionType.SecretBallot)
+        onlyEnrolledCandidate(_electionId, _candidate)
+    {
+        Election storage election = s_elections[_electionId];
+        bytes32 commitment = election.voterToCommitment[_voter];
+        if (commitment == bytes32(0) || election.voterHasRevealed[_voter])
+            revert ElectionDatabase__NothingToReveal();
+        if (getCommitment(_electionId, _voter, _candidate, _salt) != commitment)
+            revert ElectionDatabase__CommitmentMismatch();
+
+        election.voterHasRevealed[_voter] = true;
+        election.revealCount++;
+        election.votesPerCandidate[_candidate]++;
+        election.voterToChosenCandidate[_voter] = _candidate;
+        election.totalVotes++;
+
+        emit VoteRevealed(_electionId, _voter, _candidate);
+    }
+
+    /**
+     * @dev Reverts unless the ballot names at least one enrolled candidate, each at most once
+     */
+    function _validateBallot(
+        address[] memory _candidates,
+        address[] calldata _ballot
+    ) internal pure {
+        if (_ballot.length == 0) revert ElectionDatabase__InvalidBallot();
+        for (uint256 i = 0; i < _ballot.length; i++) {
+            if (_indexOfCandidate(_candidates, _ballot[i]) == NOT_FOUND)
+                revert ElectionDatabase__InvalidBallot();
+            for (uint256 j = 0; j < i; j++) {
+                if (_ballot[j] == _ballot[i])
+                    revert ElectionDatabase__InvalidBallot();
+            }
+        }
+    }
+
+    /**
+     * @dev Internal function to record that the voter voted, counting `_candidate` once
+     * @dev `_candidate` is what `getVoterChoice` returns, the first choice of multi-candidate ballots
+     */
+    function _recordVote(
+        uint256 _electionId,
+        address _voter,
+        address _candidate
+    ) internal {
+        Election storage election = s_elections[_electionId];
+
+        // Check if voter already voted in this specific election
+        if (election.voterToVoteTimestamp[_voter] > 0)
+            revert ElectionDatabase__VoterAlreadyVoted();
+        _requireVoterMeetsRules(_electionId, _voter);
+
+        // Record the vote
+        election.votesPerCandidate[_candidate]++;
+        election.voterToChosenCandidate[_voter] = _candidate;
+        election.voterToVoteTimestamp[_voter] = block.timestamp;
+        election.totalVotes++;
+
+        // Mark the voter as having voted in the voter database, voters on a
+        // frozen roll may have been removed from it since
+        if (
+            election.rollRoot == bytes32(0) ||
+            s_voterDB.adminGetRegistrationStatus(_voter)
+        ) s_voterDB.adminMarkVoted(_voter);
+    }
+
+    /**
+     * @notice Sets how a tie between the leaders of an election is broken
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @dev The policy is locked once the first vote is cast or committed, so it cannot
+     *      be chosen with the result in sight
+     * @dev Ranked choice elections cannot use AdminDecision
+     * @param _electionId ID of the election
+     * @param _policy Tie-break policy
+     * @param _seed Seed of the draw for the SeededRandom policy, ignored by the other policies
+     */
+    function adminSetTieBreakPolicy(
+        uint256 _electionId,
+        TieBreakPolicy _policy,
+        bytes32 _seed
+    )
+        external
+        onlyRole(ELECTION_MANAGER_ROLE)
+        onlyRegisteredElection(_electionId)
+    {
+        Election storage election = s_elections[_electionId];
+        if (election.totalVotes > 0 || election.committers.length > 0)
+            revert ElectionDatabase__TieBreakPolicyLocked();
+        // the instant-runoff count breaks its ties in one go, it cannot wait for an admin
+        if (
+            _policy == TieBreakPolicy.AdminDecision &&
+            election.electionType == ElectionType.RankedChoice
+        ) revert ElectionDatabase__WrongTieBreakPolicy();
+
+        election.tieBreakPolicy = _policy;
+        election.tieBreakSeed = _seed;
+
+        emit TieBreakPolicySet(_electionId, _policy, _seed);
+    }
+
+    /**
+     * @notice Records the tie-break of a closed election with the EarliestEnrollment
+     *         or SeededRandom policy
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @dev `getWinner` applies these policies by itself, this records the outcome in an event
+     * @param _electionId ID of the election
+     */
+    function adminBreakTie(
+        uint256 _electionId
+    )
+        external
+        onlyRole(ELECTION_MANAGER_ROLE)
+        onlyRegisteredElection(_electionId)
+        onlyClosedElection(_electionId)
+    {
+        Election storage election = s_elections[_electionId];
+        if (election.tieBreakPolicy == TieBreakPolicy.AdminDecision)
+            revert ElectionDatabase__WrongTieBreakPolicy();
+
+        address[] memory leaders = _requireUnbrokenTie(_electionId);
+        _recordTieBreak(
+            _electionId,
+            _automaticTieBreak(election, leaders),
+            leaders
+        );
+    }
+
+    /**
+     * @notice Breaks the tie of a closed election with the AdminDecision policy
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @param _electionId ID of the election
+     * @param _winner One of the tied leaders
+     */
+    function adminDecideTie(
+        uint256 _electionId,
+        address _winner
+    )
+        external
+        onlyRole(ELECTION_MANAGER_ROLE)
+        onlyRegisteredElection(_electionId)
+        onlyClosedElection(_electionId)
+    {
+        Election storage election = s_elections[_electionId];
+        if (election.tieBreakPolicy != TieBreakPolicy.AdminDecision)
+            revert ElectionDatabase__WrongTieBreakPolicy();
+
+        address[] memory leaders = _requireUnbrokenTie(_electionId);
+        if (_indexOfCandidate(leaders, _winner) == NOT_FOUND)
+            revert ElectionDatabase__NotTiedCandidate();
+        _recordTieBreak(_electionId, _winner, leaders);
+    }
+
+    /**
+     * @dev Returns the tied leaders, reverting unless there is a tie left to break
+     */
+    function _requireUnbrokenTie(
+        uint256 _electionId
+    ) internal view returns (address[] memory) {
+        (address[] memory leaders, ResultStatus status) = _getLeaders(
+            _electionId
+        );
+        if (status != ResultStatus.Tie) revert ElectionDatabase__NoTie();
+
+        address recorded = s_elections[_electionId].tieBreakWinner;
+        if (
+            recorded != address(0) &&
+            _indexOfCandidate(leaders, recorded) != NOT_FOUND
+        ) revert ElectionDatabase__TieAlreadyBroken();
+        return leaders;
+    }
+
+    /**
+     * @dev Internal function to store the winner of a tie and emit the event recording it
+     */
+    function _recordTieBreak(
+        uint256 _electionId,
+        address _winner,
+        address[] memory _leaders
+    ) internal {
+        Election storage election = s_elections[_electionId];
+        election.tieBreakWinner = _winner;
+
+        emit TieBroken(
+            _electionId,
+            _winner,
+            election.tieBreakPolicy,
+            _leaders
+        );
+    }
+
+    /**
+     * @notice Runs the instant-runoff count of a closed ranked choice election
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @dev Every round, each ballot counts for its highest ranked candidate still in the race.
+     *      A candidate with more than half of the counted ballots wins; otherwise the candidate
+     *      with the fewest votes is eliminated. Ties for elimination go to the candidate with
+     *      fewer first choice votes, then to the tie-break policy: EarliestEnrollment eliminates
+     *      the one that enrolled last, SeededRandom the one with the higher hash
+     *      of the seed and its address.
+     * @dev Gas grows with ballots x rankings x rounds, meant for elections of modest size
+     * @param _electionId ID of the election
+     */
+    function adminFinalizeRankedElection(
         uint256 _electionId
     )
         external
+        onlyRole(ELECTION_MANAGER_ROLE)
         onlyRegisteredElection(_electionId)
         onlyClosedElection(_electionId)
+        onlyElectionType(_electionId, ElectionType.RankedChoice)
     {
         Election storage election = s_elections[_electionId];
+        if (election.isFinalized)
+            revert ElectionDatabase__ElectionAlreadyFinalized();
 
-        // Find and remove the candidate
-        bool found = false;
-        for (uint256 i = 0; i < election.candidates.length; i++) {
-            if (election.candidates[i] == msg.sender) {
-                // Swap with last element and pop
-                election.candidates[i] = election.candidates[
-                    election.candidates.length - 1
-                ];
-                election.candidates.pop();
-                found = true;
-                break;
+        address[] memory candidates = election.candidates;
+        if (candidates.length == 0)
+            revert ElectionDatabase__ElectionHasNoContestant();
+        if (election.totalVotes == 0) revert ElectionDatabase__NoVotes();
+
+        bool[] memory eliminated = new bool[](candidates.length);
+        uint256 remaining = candidates.length;
+        address winner = address(0);
+        uint256 round = 0;
+
+        while (winner == address(0)) {
+            round++;
+            (uint256[] memory tallies, uint256 counted) = _tallyRankedRound(
+                election.rankedBallots,
+                candidates,
+                eliminated
+            );
+
+            uint256 lowest = NOT_FOUND;
+            for (uint256 i = 0; i < candidates.length; i++) {
+                if (eliminated[i]) continue;
+                if (tallies[i] * 2 > counted || remaining == 1) {
+                    winner = candidates[i];
+                    break;
+                }
+                if (
+                    lowest == NOT_FOUND ||
+                    _isWeaker(
+                        election,
+                        candidates[i],
+                        tallies[i],
+                        candidates[lowest],
+                        tallies[lowest]
+                    )
+                ) {
+                    lowest = i;
+                }
             }
-        }
 
-        if (!found) {
-            revert ElectionDatabase__CandidateNotRegistered();
+            if (winner == address(0)) {
+                eliminated[lowest] = true;
+                remaining--;
+                emit RankedChoiceRound(
+                    _electionId,
+                    round,
+                    candidates[lowest],
+                    tallies[lowest]
+                );
+            }
         }
 
-        emit CandidateWithdrawn(_electionId, msg.sender);
+        election.isFinalized = true;
+        election.rankedWinner = winner;
+
+        emit RankedChoiceFinalized(_electionId, winner, round);
     }
 
     /**
-     * @notice Allows a registered voter to vote for a candidate in an active election
-     * @param _electionId ID of the election
-     * @param _candidate Address of the candidate to vote for
+     * @dev Whether candidate `_a` is eliminated before `_b`: fewer votes this round,
+     *      then fewer first choice votes, then the tie-break policy
      */
-    function vote(
-        uint256 _electionId,
-        address _candidate
+    function _isWeaker(
+        Election storage _election,
+        address _a,
+        uint256 _tallyA,
+        address _b,
+        uint256 _tallyB
+    ) internal view returns (bool) {
+        if (_tallyA != _tallyB) return _tallyA < _tallyB;
+        uint256 firstA = _election.votesPerCandidate[_a];
+        uint256 firstB = _election.votesPerCandidate[_b];
+        if (firstA != firstB) return firstA < firstB;
+
+        // the seeded draw eliminates the higher hash of the seed and the address
+        if (_election.tieBreakPolicy == TieBreakPolicy.SeededRandom)
+            return
+                keccak256(abi.encode(_election.tieBreakSeed, _a)) >
+                keccak256(abi.encode(_election.tieBreakSeed, _b));
+        return
+            _election.candidateToEnrollmentIndex[_a] >
+            _election.candidateToEnrollmentIndex[_b];
+    }
+
+    /**
+     * @dev Counts every ballot for its highest ranked candidate that is not eliminated
+     * @return tallies Votes per candidate, by index in `_candidates`
+     * @return counted Number of ballots that still rank a candidate in the race
+     */
+    function _tallyRankedRound(
+        address[][] storage _ballots,
+        address[] memory _candidates,
+        bool[] memory _eliminated
+    ) internal view returns (uint256[] memory tallies, uint256 counted) {
+        tallies = new uint256[](_candidates.length);
+        for (uint256 b = 0; b < _ballots.length; b++) {
+            address[] storage ballot = _ballots[b];
+            for (uint256 r = 0; r < ballot.length; r++) {
+                uint256 index = _indexOfCandidate(_candidates, ballot[r]);
+                // candidates withdrawn after voting are skipped like eliminated ones
+                if (index != NOT_FOUND && !_eliminated[index]) {
+                    tallies[index]++;
+                    counted++;
+                    break;
+                }
+            }
+        }
+    }
+
+    /**
+     * @dev Candidates with the most votes in enrollment order, and whether they are tied
+     */
+    function _getLeaders(
+        uint256 _electionId
     )
-        external
-        onlyRegisteredElection(_electionId)
-        onlyOpenElection(_electionId)
-        onlyEnrolledCandidate(_electionId, _candidate)
-        onlyRegisteredVoter
+        internal
+        view
+        returns (address[] memory leaders, ResultStatus status)
     {
         Election storage election = s_elections[_electionId];
 
-        // Check if voter already voted in this specific election
-        if (election.voterToVoteTimestamp[msg.sender] > 0)
-            revert ElectionDatabase__VoterAlreadyVoted();
+        // the instant-runoff count already produced a single winner
+        if (election.electionType == ElectionType.RankedChoice) {
+            if (election.rankedWinner == address(0))
+                return (new address[](0), ResultStatus.NoVotes);
+            leaders = new address[](1);
+            leaders[0] = election.rankedWinner;
+            return (leaders, ResultStatus.Unique);
+        }
 
-        // Record the vote
-        election.votesPerCandidate[_candidate]++;
-        election.voterToChosenCandidate[msg.sender] = _candidate;
-        election.voterToVoteTimestamp[msg.sender] = block.timestamp;
-        election.totalVotes++;
+        address[] memory candidates = election.candidates;
+        uint256 maxVotes = 0;
+        uint256 count = 0;
+        for (uint256 i = 0; i < candidates.length; i++) {
+            uint256 votes = election.votesPerCandidate[candidates[i]];
+            if (votes > maxVotes) {
+                maxVotes = votes;
+                count = 1;
+            } else if (votes == maxVotes && votes > 0) {
+                count++;
+            }
+        }
+        if (count == 0) return (new address[](0), ResultStatus.NoVotes);
+
+        // insertion by enrollment index, as withdrawals reorder `candidates`
+        leaders = new address[](count);
+        uint256 found = 0;
+        for (uint256 i = 0; i < candidates.length; i++) {
+            if (election.votesPerCandidate[candidates[i]] != maxVotes) continue;
+            uint256 j = found++;
+            while (
+                j > 0 &&
+                election.candidateToEnrollmentIndex[leaders[j - 1]] >
+                election.candidateToEnrollmentIndex[candidates[i]]
+            ) {
+                leaders[j] = leaders[j - 1];
+                j--;
+            }
+            leaders[j] = candidates[i];
+        }
 
-        // Mark the voter as having voted in the voter database
-        s_voterDB.adminMarkVoted(msg.sender);
+        return (leaders, count == 1 ? ResultStatus.Unique : ResultStatus.Tie);
+    }
+
+    /**
+     * @dev Winner of a tie under the EarliestEnrollment or SeededRandom policy
+     * @param _leaders Tied leaders in enrollment order, as returned by `_getLeaders`
+     */
+    function _automaticTieBreak(
+        Election storage _election,
+        address[] memory _leaders
+    ) internal view returns (address) {
+        if (_election.tieBreakPolicy == TieBreakPolicy.SeededRandom) {
+            uint256 draw = uint256(
+                keccak256(abi.encode(_election.tieBreakSeed, _leaders))
+            );
+            return _leaders[draw % _leaders.length];
+        }
+        return _leaders[0];
+    }
+
+    /**
+     * @dev Whether the current time is within the voting window, the end time is exclusive
+     */
+    function _isWithinVotingWindow(
+        Election storage _election
+    ) internal view returns (bool) {
+        if (_election.startTime != 0 && block.timestamp < _election.startTime)
+            return false;
+        if (_election.endTime != 0 && block.timestamp >= _election.endTime)
+            return false;
+        return true;
+    }
 
-        emit VoterVoted(_electionId, msg.sender, _candidate);
+    /**
+     * @dev Position of a candidate in the list, NOT_FOUND if absent
+     */
+    function _indexOfCandidate(
+        address[] memory _candidates,
+        address _candidate
+    ) internal pure returns (uint256) {
+        for (uint256 i = 0; i < _candidates.length; i++) {
+            if (_candidates[i] == _candidate) return i;
+        }
+        return NOT_FOUND;
     }
 
     /**
      * @notice Adds a candidate to a registered election by an admin
-     * @dev Only owner/admins can call this function
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
+     * @dev Candidate must meet the eligibility rules of the election, see `getEligibilityRules`
      * @param _electionId ID of the election
      * @param _candidate Address of the candidate to add
      */
@@ -437,54 +1719,29 @@ contract ElectionDatabase is AdminManagement {
         address _candidate
     )
         external
-        onlyAdmin
+        onlyRole(ELECTION_MANAGER_ROLE)
         onlyRegisteredElection(_electionId)
         onlyRegisteredCandidate(_candidate)
     {
-        Election storage election = s_elections[_electionId];
-
-        // Check if candidate is already registered in this election
-        for (uint256 i = 0; i < election.candidates.length; i++) {
-            if (election.candidates[i] == _candidate) {
-                revert ElectionDatabase__CandidateAlreadyEnrolled();
-            }
-        }
-
-        election.candidates.push(_candidate);
-
+        _enrollCandidate(_electionId, _candidate);
         emit AdminEnrolledCandidate(_electionId, _candidate, msg.sender);
     }
 
     /**
      * @notice Removes a candidate from an election by an admin
-     * @dev Only owner/admins can call this function
+     * @dev Only ELECTION_MANAGER_ROLE holders can call this function
      * @param _electionId ID of the election
      * @param _candidate Address of the candidate to remove
      */
     function adminWithdrawCandidate(
         uint256 _electionId,
         address _candidate
-    ) external onlyAdmin onlyRegisteredElection(_electionId) {
-        Election storage election = s_elections[_electionId];
-
-        // Find and remove the candidate
-        bool found = false;
-        for (uint256 i = 0; i < election.candidates.length; i++) {
-            if (election.candidates[i] == _candidate) {
-                // Swap with last element and pop
-                election.candidates[i] = election.candidates[
-                    election.candidates.length - 1
-                ];
-                election.candidates.pop();
-                found = true;
-                break;
-            }
-        }
-
-        if (!found) {
-            revert ElectionDatabase__CandidateNotRegistered();
-        }
-
+    )
+        external
+        onlyRole(ELECTION_MANAGER_ROLE)
+        onlyRegisteredElection(_electionId)
+    {
+        _withdrawCandidate(_electionId, _candidate);
         emit AdminRemovedCandidate(_electionId, _candidate, msg.sender);
     }
 
@@ -593,26 +1850,276 @@ contract ElectionDatabase is AdminManagement {
 
     /**
      * @notice Returns the winning candidate (highest votes) for a given election
+     * @dev For approval elections this is the candidate with the most approvals
+     * @dev For ranked choice elections this is the instant-runoff winner,
+     *      address(0) until `adminFinalizeRankedElection` has run
+     * @dev Ties are broken by the tie-break policy of the election; under
+     *      AdminDecision this is address(0) until `adminDecideTie` has run
      * @param _electionId ID of the election
-     * @return Address of the winning candidate
+     * @return Address of the winning candidate, address(0) without votes
      */
     function getWinner(
         uint256 _electionId
     ) external view onlyRegisteredElection(_electionId) returns (address) {
         Election storage election = s_elections[_electionId];
-        uint256 maxVotes = 0;
-        address winnerAddress = address(0);
+        (address[] memory leaders, ResultStatus status) = _getLeaders(
+            _electionId
+        );
 
-        for (uint256 i = 0; i < election.candidates.length; i++) {
-            address candidate = election.candidates[i];
-            uint256 votes = election.votesPerCandidate[candidate];
-            if (votes > maxVotes) {
-                maxVotes = votes;
-                winnerAddress = candidate;
+        if (status == ResultStatus.NoVotes) return address(0);
+        if (status == ResultStatus.Unique) return leaders[0];
+
+        // a recorded tie-break only stands while its winner is still tied for the lead
+        if (
+            election.tieBreakWinner != address(0) &&
+            _indexOfCandidate(leaders, election.tieBreakWinner) != NOT_FOUND
+        ) return election.tieBreakWinner;
+        if (election.tieBreakPolicy == TieBreakPolicy.AdminDecision)
+            return address(0);
+        return _automaticTieBreak(election, leaders);
+    }
+
+    /**
+     * @notice Returns every candidate sharing the highest vote count
+     * @dev For ranked choice elections this is the instant-runoff winner,
+     *      NoVotes until `adminFinalizeRankedElection` has run
+     * @param _electionId ID of the election
+     * @return leaders Candidates with the most votes, in enrollment order
+     * @return status NoVotes, Unique for a single leader or Tie
+     */
+    function getWinners(
+        uint256 _electionId
+    )
+        external
+        view
+        onlyRegisteredElection(_electionId)
+        returns (address[] memory leaders, ResultStatus status)
+    {
+        return _getLeaders(_electionId);
+    }
+
+    /**
+     * @notice Returns how ties between the leaders of an election are broken
+     * @param _electionId ID of the election
+     * @return policy Tie-break policy of the election
+     * @return seed Seed of the draw for the SeededRandom policy
+     * @return winner Candidate picked by `adminBreakTie` or `adminDecideTie`, address(0) if none
+     */
+    function getTieBreakPolicy(
+        uint256 _electionId
+    )
+        external
+        view
+        onlyRegisteredElection(_electionId)
+        returns (TieBreakPolicy policy, bytes32 seed, address winner)
+    {
+        Election storage election = s_elections[_electionId];
+        return (
+            election.tieBreakPolicy,
+            election.tieBreakSeed,
+            election.tieBreakWinner
+        );
+    }
+
+    /**
+     * @notice Returns how ballots are cast and counted in an election
+     * @param _electionId ID of the election
+     * @return Type of the election
+     */
+    function getElectionType(
+        uint256 _electionId
+    ) external view onlyRegisteredElection(_electionId) returns (ElectionType) {
+        return s_elections[_electionId].electionType;
+    }
+
+    /**
+     * @notice Returns every ranked ballot cast in a ranked choice election
+     * @dev Ballots are public like plurality votes, so anyone can verify the count
+     * @param _electionId ID of the election
+     * @return Ordered candidate lists, one per ballot in voting order
+     */
+    function getRankedBallots(
+        uint256 _electionId
+    )
+        external
+        view
+        onlyRegisteredElection(_electionId)
+        returns (address[][] memory)
+    {
+        return s_elections[_electionId].rankedBallots;
+    }
+
+    /**
+     * @notice Returns the voting window of an election
+     * @param _electionId ID of the election
+     * @return startTime Unix timestamp voting starts at, 0 if not set
+     * @return endTime Unix timestamp voting ends at, 0 if not set
+     */
+    function getElectionSchedule(
+        uint256 _electionId
+    )
+        external
+        view
+        onlyRegisteredElection(_electionId)
+        returns (uint256 startTime, uint256 endTime)
+    {
+        Election storage election = s_elections[_electionId];
+        return (election.startTime, election.endTime);
+    }
+
+    /**
+     * @notice Returns who may vote in and stand for an election
+     * @param _electionId ID of the election
+     * @return Eligibility rules of the election, all zero if it has none
+     */
+    function getEligibilityRules(
+        uint256 _electionId
+    )
+        external
+        view
+        onlyRegisteredElection(_electionId)
+        returns (EligibilityRules memory)
+    {
+        return s_elections[_electionId].eligibilityRules;
+    }
+
+    /**
+     * @notice Returns the nonce the next signed ballot of a voter must use
+     * @param _voter Address of the voter
+     * @return Number of signed ballots of the voter submitted so far
+     */
+    function getBallotNonce(address _voter) external view returns (uint256) {
+        return s_ballotNonces[_voter];
+    }
+
+    /**
+     * @notice Returns the Merkle root of the electoral roll frozen for an election
+     * @param _electionId ID of the election
+     * @return The root, 0 if eligibility is checked against VoterDatabase
+     */
+    function getElectoralRoll(
+        uint256 _electionId
+    ) external view onlyRegisteredElection(_electionId) returns (bytes32) {
+        return s_elections[_electionId].rollRoot;
+    }
+
+    /**
+     * @notice Returns whether a Merkle proof puts a voter on the frozen electoral roll
+     * @param _electionId ID of the election
+     * @param _voter Address of the voter
+     * @param _proof Merkle proof of the voter
+     * @return True if the proof is valid, false as well if the election has no roll
+     */
+    function isOnElectoralRoll(
+        uint256 _electionId,
+        address _voter,
+        bytes32[] calldata _proof
+    ) external view onlyRegisteredElection(_electionId) returns (bool) {
+        bytes32 root = s_elections[_electionId].rollRoot;
+        return
+            root != bytes32(0) && ElectoralRoll.contains(root, _voter, _proof);
+    }
+
+    /**
+     * @notice Returns whether an election accepts ballots right now
+     * @param _electionId ID of the election
+     * @return True if the election is open and the current time is within its schedule
+     */
+    function isAcceptingVotes(
+        uint256 _electionId
+    ) external view onlyRegisteredElection(_electionId) returns (bool) {
+        Election storage election = s_elections[_electionId];
+        return election.isActive && _isWithinVotingWindow(election);
+    }
+
+    /**
+     * @notice Computes the commitment of a secret ballot
+     * @dev Binding the election and the voter stops a commitment from being copied
+     * @param _electionId ID of the election
+     * @param _voter Voter casting the ballot
+     * @param _candidate Candidate voted for
+     * @param _salt Random salt kept secret until the reveal
+     * @return keccak256 of the ABI encoded arguments
+     */
+    function getCommitment(
+        uint256 _electionId,
+        address _voter,
+        address _candidate,
+        bytes32 _salt
+    ) public pure returns (bytes32) {
+        return
+            keccak256(abi.encode(_electionId, _voter, _candidate, _salt));
+    }
+
+    /**
+     * @notice Returns how many secret ballots were committed and revealed
+     * @param _electionId ID of the election
+     * @return commits Number of committed ballots
+     * @return reveals Number of those revealed and counted
+     */
+    function getCommitStats(
+        uint256 _electionId
+    )
+        external
+        view
+        onlyRegisteredElection(_electionId)
+        returns (uint256 commits, uint256 reveals)
+    {
+        Election storage election = s_elections[_electionId];
+        return (election.committers.length, election.revealCount);
+    }
+
+    /**
+     * @notice Returns the voters whose committed secret ballot is not revealed yet
+     * @param _electionId ID of the election
+     * @return Addresses of the voters, in commit order
+     */
+    function getUnrevealedVoters(
+        uint256 _electionId
+    )
+        external
+        view
+        onlyRegisteredElection(_electionId)
+        returns (address[] memory)
+    {
+        Election storage election = s_elections[_electionId];
+        address[] memory unrevealed = new address[](
+            election.committers.length - election.revealCount
+        );
+        uint256 count = 0;
+        for (uint256 i = 0; i < election.committers.length; i++) {
+            if (!election.voterHasRevealed[election.committers[i]]) {
+                unrevealed[count++] = election.committers[i];
             }
         }
+        return unrevealed;
+    }
 
-        return winnerAddress;
+    /**
+     * @notice Returns how many candidates the ballots of an approval election approve
+     * @param _electionId ID of the election
+     * @return Number of ballots by approval count, index n holds the ballots approving n candidates
+     */
+    function getApprovalDistribution(
+        uint256 _electionId
+    )
+        external
+        view
+        onlyRegisteredElection(_electionId)
+        returns (uint256[] memory)
+    {
+        return s_elections[_electionId].ballotsPerApprovalCount;
+    }
+
+    /**
+     * @notice Returns whether the instant-runoff count of an election has run
+     * @param _electionId ID of the election
+     * @return True once `adminFinalizeRankedElection` succeeded
+     */
+    function isElectionFinalized(
+        uint256 _electionId
+    ) external view onlyRegisteredElection(_electionId) returns (bool) {
+        return s_elections[_electionId].isFinalized;
     }
 
     /**
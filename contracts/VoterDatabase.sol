@@ -16,7 +16,7 @@ import {IVoterDatabase} from "./interfaces/IVoterDatabase.sol";
 import {AdminManagement} from "./shared/AdminManagement.sol";
 import {ElectionUtils} from "./lib/ElectionUtils.sol";
 
-/// @notice Thrown when a user under the age of 18 attempts to register
+/// @notice Thrown when a user under the minimum eligible age attempts to register
 error VoterDatabase__NotEligible();
 
 /// @notice Thrown when a non-registered user tries to perform a restricted action
@@ -34,9 +34,13 @@ error VoterDatabase__ImportFailed();
 /// @notice Thrown when an invalid address is provided
 error VoterDatabase__InvalidAddress();
 
-contract VoterDatabase is IVoterDatabase, AdminManagement {
-    uint256 private constant MIN_ELIGIBLE_AGE = 18;
+/// @notice Thrown when a voter is younger than the minimum age of an election on its date
+error VoterDatabase__TooYoungForElection();
+
+/// @notice Thrown when a voter is not registered in the region an election is restricted to
+error VoterDatabase__OutsideRegion();
 
+contract VoterDatabase is IVoterDatabase, AdminManagement {
     /**
      * @notice Stores details for a single voter
      * @dev The registrationTimestamp serves as both a timestamp and a registration flag
@@ -50,6 +54,7 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
         uint256 timesVoted;
         uint256 dateOfBirthEpoch1900; // Date of birth in Epoch1900 format
         uint256 registrationTimestamp1900; // Registration time in Epoch1900 format
+        bytes32 region; // Region set by a registrar, 0 for none
     }
 
     /// @dev Main storage for voter information
@@ -58,12 +63,15 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
     /// @dev Array of all registered voter addresses for enumeration
     address[] private s_voterAddresses;
 
+    /// @dev Minimum age to register, set at deployment and by the owner
+    uint256 private s_minEligibleAge;
+
     /**
      * @notice Ensures the user meets minimum age requirements
      * @param _dateOfBirthEpoch1900 Date of birth as Epoch1900 timestamp
      */
     modifier onlyEligible(uint256 _dateOfBirthEpoch1900) {
-        if (ElectionUtils.calculateAge(_dateOfBirthEpoch1900) < MIN_ELIGIBLE_AGE)
+        if (ElectionUtils.calculateAge(_dateOfBirthEpoch1900) < s_minEligibleAge)
             revert VoterDatabase__NotEligible();
         _;
     }
@@ -97,12 +105,60 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
         _;
     }
 
+    /**
+     * @notice Contract constructor, sets the deployer as the owner
+     * @param _minEligibleAge Minimum age to register
+     */
+    constructor(uint256 _minEligibleAge) {
+        _setMinEligibleAge(_minEligibleAge);
+    }
+
+    /**
+     * @notice Initialize a proxied database, replaces the constructor
+     * @dev Called once by `ChainElectProxy` when it is deployed
+     * @param _owner Address of the owner of the database
+     * @param _minEligibleAge Minimum age to register
+     */
+    function initialize(address _owner, uint256 _minEligibleAge) external {
+        _initializeOwner(_owner);
+        _setMinEligibleAge(_minEligibleAge);
+    }
+
+    /**
+     * @notice Change the minimum age to register
+     * @dev Only owner can call this function, registered voters are kept
+     * @param _minEligibleAge Minimum age to register
+     */
+    function setMinEligibleAge(
+        uint256 _minEligibleAge
+    ) external override onlyOwner {
+        _setMinEligibleAge(_minEligibleAge);
+    }
+
+    /**
+     * @notice Get the minimum age to register
+     * @return minEligibleAge Minimum age in years
+     */
+    function getMinEligibleAge()
+        external
+        view
+        override
+        returns (uint256 minEligibleAge)
+    {
+        return s_minEligibleAge;
+    }
+
+    function _setMinEligibleAge(uint256 _minEligibleAge) private {
+        s_minEligibleAge = _minEligibleAge;
+        emit MinEligibleAgeSet(_minEligibleAge, msg.sender);
+    }
+
     /**
      * @notice Internal function to add a new voter to the database
      * @dev Used by both self-registration and admin functions
      * @param _voterAddress Address of the voter to add
      * @param _name Name of the voter
-     * @param _dateOfBirthEpoch Date of birth as Unix timestamp
+     * @param _dateOfBirthEpoch1900 Date of birth as Epoch1900 timestamp
      * @param _gender Gender of the voter
      * @param _presentAddress Present address of the voter
      * @param _email Email address of the voter
@@ -128,7 +184,8 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
             presentAddress: _presentAddress,
             email: _email,
             timesVoted: _timesVoted,
-            registrationTimestamp1900: ElectionUtils.getNowEpoch1900()
+            registrationTimestamp1900: ElectionUtils.getNowEpoch1900(),
+            region: bytes32(0)
         });
 
         s_voterAddresses.push(_voterAddress);
@@ -139,7 +196,7 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
      * @dev Used by both self-update and admin functions
      * @param _voterAddress Address of the voter to update
      * @param _name Updated name
-     * @param _dateOfBirthEpoch Updated date of birth as Unix timestamp
+     * @param _dateOfBirthEpoch1900 Updated date of birth as Epoch1900 timestamp
      * @param _gender Updated gender
      * @param _presentAddress Updated present address
      * @param _email Updated email address
@@ -205,7 +262,7 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
         Gender _gender,
         string memory _presentAddress,
         string memory _email
-    ) external override {
+    ) external override whenNotPaused {
         _addVoter(
             msg.sender,
             _name,
@@ -233,7 +290,7 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
         Gender _gender,
         string memory _presentAddress,
         string memory _email
-    ) external override {
+    ) external override whenNotPaused {
         Voter storage voter = s_voters[msg.sender];
         if (voter.timesVoted > 0) {
             revert VoterDatabase__CannotUpdateAfterVoting();
@@ -256,7 +313,12 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
      * @notice Allows a registered voter to delete their own registration
      * @dev Self-removal function for registered voters
      */
-    function deleteVoter() external override onlyRegistered(msg.sender) {
+    function deleteVoter()
+        external
+        override
+        whenNotPaused
+        onlyRegistered(msg.sender)
+    {
         Voter storage voter = s_voters[msg.sender];
         if (voter.timesVoted > 0) {
             revert VoterDatabase__CannotUpdateAfterVoting();
@@ -270,13 +332,18 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
      * @notice Mark a voter as having voted
      * @dev Should be called by the election contract
      */
-    function markVoted() external override onlyRegistered(msg.sender) {
+    function markVoted()
+        external
+        override
+        whenNotPaused
+        onlyRegistered(msg.sender)
+    {
         s_voters[msg.sender].timesVoted += 1;
     }
 
     /**
      * @notice Admin function to add a voter directly
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _voterAddress Address of the voter to add
      * @param _name Name of the voter
      * @param _dateOfBirthEpoch1900 Date of birth as Epoch1900 timestamp
@@ -293,7 +360,12 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
         string memory _presentAddress,
         string memory _email,
         uint256 _timesVoted
-    ) external override onlyAdmin onlyValidAddress(_voterAddress) {
+    )
+        external
+        override
+        onlyRole(REGISTRAR_ROLE)
+        onlyValidAddress(_voterAddress)
+    {
         _addVoter(
             _voterAddress,
             _name,
@@ -308,7 +380,7 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
 
     /**
      * @notice Admin function to update voter details
-     * @dev Only owner/admins can call this function, can update even if voter has voted
+     * @dev Only REGISTRAR_ROLE holders can call this function, can update even if voter has voted
      * @param _voterAddress Address of the voter to update
      * @param _name Updated name
      * @param _dateOfBirthEpoch1900 Updated date of birth as Epoch1900 timestamp
@@ -325,7 +397,12 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
         string memory _presentAddress,
         string memory _email,
         uint256 _timesVoted
-    ) external override onlyAdmin onlyValidAddress(_voterAddress) {
+    )
+        external
+        override
+        onlyRole(REGISTRAR_ROLE)
+        onlyValidAddress(_voterAddress)
+    {
         _updateVoter(
             _voterAddress,
             _name,
@@ -340,38 +417,69 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
 
     /**
      * @notice Admin function to remove a voter
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _voterAddress Address of the voter to remove
      */
     function adminRemoveVoter(
         address _voterAddress
-    ) external override onlyAdmin onlyValidAddress(_voterAddress) {
+    )
+        external
+        override
+        onlyRole(REGISTRAR_ROLE)
+        onlyValidAddress(_voterAddress)
+    {
         _deleteVoter(_voterAddress);
         emit AdminRemovedVoter(_voterAddress, msg.sender);
     }
 
     /**
      * @notice Admin function to mark a voter as having voted
-     * @dev Only owner/admins can call this function
+     * @dev Only SYSTEM_ROLE holders (ElectionDatabase) can call this function
      * @param _voterAddress Address of the voter
      */
     function adminMarkVoted(
         address _voterAddress
-    ) external override onlyAdmin onlyRegistered(_voterAddress) {
+    ) external override onlyRole(SYSTEM_ROLE) onlyRegistered(_voterAddress) {
         s_voters[_voterAddress].timesVoted += 1;
         emit AdminUpdatedVotingStatus(_voterAddress, msg.sender);
     }
 
+    /**
+     * @notice Admin function to set the region a voter is registered in
+     * @dev Only REGISTRAR_ROLE holders can call this function
+     * @dev Elections restricted to a region only accept voters from it
+     * @param _voterAddress Address of the voter
+     * @param _region Region of the voter, 0 for none
+     */
+    function adminSetVoterRegion(
+        address _voterAddress,
+        bytes32 _region
+    )
+        external
+        override
+        onlyRole(REGISTRAR_ROLE)
+        onlyRegistered(_voterAddress)
+    {
+        s_voters[_voterAddress].region = _region;
+        emit AdminSetVoterRegion(_voterAddress, _region, msg.sender);
+    }
+
     /**
      * @notice Import a specific voter from another VoterDatabase contract
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _sourceContract The address of the source VoterDatabase contract
      * @param _voterAddress The address of the voter to import
      */
     function adminImportVoter(
         address _sourceContract,
         address _voterAddress
-    ) external override onlyAdmin onlyNotRegistered(_voterAddress) {
+    )
+        external
+        override
+        onlyRole(REGISTRAR_ROLE)
+        whenNotPaused
+        onlyNotRegistered(_voterAddress)
+    {
         IVoterDatabase source = IVoterDatabase(_sourceContract);
 
         try source.adminGetVoterDetails(_voterAddress) returns (
@@ -402,14 +510,14 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
 
     /**
      * @notice Batch import selected voters from another VoterDatabase contract
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _sourceContract The address of the source VoterDatabase contract
      * @param _voterAddresses Array of voter addresses to import
      */
     function adminBatchImportVoters(
         address _sourceContract,
         address[] calldata _voterAddresses
-    ) external override onlyAdmin {
+    ) external override onlyRole(REGISTRAR_ROLE) whenNotPaused {
         IVoterDatabase source = IVoterDatabase(_sourceContract);
         uint256 importedCount = 0;
 
@@ -418,7 +526,7 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
             address voterAddress = _voterAddresses[i];
 
             // Skip if voter is already registered
-            if (s_voters[voterAddress].registrationTimestamp > 0) {
+            if (s_voters[voterAddress].registrationTimestamp1900 > 0) {
                 unchecked {
                     ++i;
                 }
@@ -464,12 +572,12 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
 
     /**
      * @notice Import all voters from another VoterDatabase contract
-     * @dev Only owner/admins can call this function
+     * @dev Only REGISTRAR_ROLE holders can call this function
      * @param _sourceContract The address of the source VoterDatabase contract
      */
     function adminImportAllVoters(
         address _sourceContract
-    ) external override onlyAdmin {
+    ) external override onlyRole(REGISTRAR_ROLE) whenNotPaused {
         IVoterDatabase source = IVoterDatabase(_sourceContract);
         address[] memory voters;
 
@@ -487,7 +595,7 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
             address voterAddress = voters[i];
 
             // Skip if voter is already registered in this contract
-            if (s_voters[voterAddress].registrationTimestamp > 0) {
+            if (s_voters[voterAddress].registrationTimestamp1900 > 0) {
                 unchecked {
                     ++i;
                 }
@@ -533,7 +641,7 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
 
     /**
      * @notice Get details of a specific voter
-     * @dev Only callable by owner/admins for privacy reasons
+     * @dev Only callable by auditors and registrars for privacy reasons
      * @param _voterAddress Address of the voter
      * @return name The voter's name
      * @return dateOfBirthEpoch1900 The voter's date of birth as Epoch1900 timestamp
@@ -549,7 +657,7 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
         external
         view
         override
-        onlyAdmin
+        onlyEitherRole(AUDITOR_ROLE, REGISTRAR_ROLE)
         onlyRegistered(_voterAddress)
         returns (
             string memory name,
@@ -575,14 +683,14 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
 
     /**
      * @notice Get the total number of registered voters
-     * @dev Only callable by owner/admins
+     * @dev Only callable by auditors and registrars
      * @return count The count of registered voters
      */
     function adminGetVoterCount()
         external
         view
         override
-        onlyAdmin
+        onlyEitherRole(AUDITOR_ROLE, REGISTRAR_ROLE)
         returns (uint256 count)
     {
         return s_voterAddresses.length;
@@ -590,14 +698,14 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
 
     /**
      * @notice Get addresses of all registered voters
-     * @dev Only callable by owner/admins
+     * @dev Only callable by auditors and registrars
      * @return voterAddresses Array of addresses of all registered voters
      */
     function adminGetAllVoters()
         external
         view
         override
-        onlyAdmin
+        onlyEitherRole(AUDITOR_ROLE, REGISTRAR_ROLE)
         returns (address[] memory voterAddresses)
     {
         return s_voterAddresses;
@@ -655,16 +763,72 @@ contract VoterDatabase is IVoterDatabase, AdminManagement {
 
     /**
      * @notice Get an account's registration status
-     * @dev Only callable by owner/admins
+     * @dev Only callable by the system (ElectionDatabase), auditors and registrars
      * @param _voterAddress Address to check
      * @return isRegistered Whether they are registered to vote
      */
     function adminGetRegistrationStatus(
         address _voterAddress
-    ) external view override onlyAdmin returns (bool isRegistered) {
+    ) external view override returns (bool isRegistered) {
+        // registrars check who is registered already when importing voters
+        if (!hasRole(REGISTRAR_ROLE, msg.sender))
+            _checkRole(SYSTEM_ROLE, AUDITOR_ROLE);
         return s_voters[_voterAddress].registrationTimestamp1900 > 0;
     }
 
+    /**
+     * @notice Get what the eligibility rules of an election are checked against
+     * @dev Only callable by the system (ElectionDatabase) and auditors
+     * @param _voterAddress Address of the voter
+     * @return dateOfBirthEpoch1900 Voter's date of birth as Epoch1900 timestamp
+     * @return gender Voter's gender
+     * @return region Region the voter is registered in, 0 for none
+     */
+    function adminGetEligibilityProfile(
+        address _voterAddress
+    )
+        external
+        view
+        override
+        onlyEitherRole(SYSTEM_ROLE, AUDITOR_ROLE)
+        onlyRegistered(_voterAddress)
+        returns (uint256 dateOfBirthEpoch1900, Gender gender, bytes32 region)
+    {
+        Voter storage voter = s_voters[_voterAddress];
+        return (voter.dateOfBirthEpoch1900, voter.gender, voter.region);
+    }
+
+    /**
+     * @notice Reverts unless a voter meets the eligibility rules of an election
+     * @dev Only callable by the system (ElectionDatabase) and auditors
+     * @param _voterAddress Address of the voter
+     * @param _minAge Minimum age on the election date, 0 for none
+     * @param _region Region the election is restricted to, 0 for any
+     * @param _atEpoch1900 Election date as Epoch1900 timestamp
+     */
+    function adminRequireEligible(
+        address _voterAddress,
+        uint256 _minAge,
+        bytes32 _region,
+        uint256 _atEpoch1900
+    )
+        external
+        view
+        override
+        onlyEitherRole(SYSTEM_ROLE, AUDITOR_ROLE)
+        onlyRegistered(_voterAddress)
+    {
+        Voter storage voter = s_voters[_voterAddress];
+        if (
+            ElectionUtils.calculateAgeAt(
+                voter.dateOfBirthEpoch1900,
+                _atEpoch1900
+            ) < _minAge
+        ) revert VoterDatabase__TooYoungForElection();
+        if (_region != bytes32(0) && voter.region != _region)
+            revert VoterDatabase__OutsideRegion();
+    }
+
     /**
      * @notice Get your own voting status
      * @return hasVoted Whether you have voted at least once
@@ -56,9 +56,24 @@ interface ICandidateDatabase {
         address indexed admin
     );
 
+    /// @notice Emitted when admin sets the region a candidate stands in
+    /// @param candidate The address of the candidate
+    /// @param region The region of the candidate, 0 for none
+    /// @param admin The admin who set the region
+    event AdminSetCandidateRegion(
+        address indexed candidate,
+        bytes32 indexed region,
+        address indexed admin
+    );
+
+    /// @notice Emitted when the minimum age to register is set
+    /// @param minEligibleAge The minimum age in years
+    /// @param owner The owner who set it, or the deployer
+    event MinEligibleAgeSet(uint256 minEligibleAge, address indexed owner);
+
     /// @notice Register yourself as a candidate
     /// @param _name Candidate's full name
-    /// @param _dateOfBirthEpoch Candidate's date of birth as Unix timestamp
+    /// @param _dateOfBirthEpoch Candidate's date of birth as Epoch1900 timestamp
     /// @param _gender Candidate's gender (0 for Male, 1 for Female)
     /// @param _presentAddress Candidate's present address
     /// @param _email Candidate's email address
@@ -76,7 +91,7 @@ interface ICandidateDatabase {
 
     /// @notice Update your candidate profile
     /// @param _name Updated name
-    /// @param _dateOfBirthEpoch Updated date of birth as Unix timestamp
+    /// @param _dateOfBirthEpoch Updated date of birth as Epoch1900 timestamp
     /// @param _gender Updated gender
     /// @param _presentAddress Updated present address
     /// @param _email Updated email address
@@ -98,7 +113,7 @@ interface ICandidateDatabase {
     /// @notice Admin function to add a candidate directly
     /// @param _candidateAddress Address of the candidate to add
     /// @param _name Name of the candidate
-    /// @param _dateOfBirthEpoch Date of birth as Unix timestamp
+    /// @param _dateOfBirthEpoch Date of birth as Epoch1900 timestamp
     /// @param _gender Gender of the candidate
     /// @param _presentAddress Present address of the candidate
     /// @param _email Email of the candidate
@@ -118,7 +133,7 @@ interface ICandidateDatabase {
     /// @notice Admin function to update candidate details
     /// @param _candidateAddress Address of the candidate to update
     /// @param _name Updated name
-    /// @param _dateOfBirthEpoch Updated date of birth as Unix timestamp
+    /// @param _dateOfBirthEpoch Updated date of birth as Epoch1900 timestamp
     /// @param _gender Updated gender
     /// @param _presentAddress Updated present address
     /// @param _email Updated email
@@ -139,6 +154,14 @@ interface ICandidateDatabase {
     /// @param _candidateAddress Address of the candidate to remove
     function adminRemoveCandidate(address _candidateAddress) external;
 
+    /// @notice Admin function to set the region a candidate stands in
+    /// @param _candidateAddress Address of the candidate
+    /// @param _region Region of the candidate, 0 for none
+    function adminSetCandidateRegion(
+        address _candidateAddress,
+        bytes32 _region
+    ) external;
+
     /// @notice Import a specific candidate from another CandidateDatabase contract
     /// @param _sourceContract The address of the source CandidateDatabase contract
     /// @param _candidateAddress The address of the candidate to import
@@ -162,7 +185,7 @@ interface ICandidateDatabase {
     /// @notice Get full details of a specific candidate
     /// @param _candidateAddress Address of the candidate
     /// @return name The name of the candidate
-    /// @return dateOfBirthEpoch The date of birth of the candidate as Unix timestamp
+    /// @return dateOfBirthEpoch The date of birth of the candidate as Epoch1900 timestamp
     /// @return gender The gender of the candidate
     /// @return presentAddress The present address of the candidate
     /// @return email The email address of the candidate
@@ -191,7 +214,7 @@ interface ICandidateDatabase {
 
     /// @notice Get your full candidate details
     /// @return name Your name
-    /// @return dateOfBirthEpoch Your date of birth as Unix timestamp
+    /// @return dateOfBirthEpoch Your date of birth as Epoch1900 timestamp
     /// @return gender Your gender
     /// @return presentAddress Your present address
     /// @return email Your email
@@ -226,7 +249,47 @@ interface ICandidateDatabase {
         address _candidateAddress
     ) external view returns (bool isRegistered);
 
+    /// @notice Get what the eligibility rules of an election are checked against
+    /// @param _candidateAddress Address of the candidate
+    /// @return dateOfBirthEpoch1900 Candidate's date of birth as Epoch1900 timestamp
+    /// @return gender Candidate's gender
+    /// @return region Region the candidate stands in, 0 for none
+    function getEligibilityProfile(
+        address _candidateAddress
+    )
+        external
+        view
+        returns (uint256 dateOfBirthEpoch1900, Gender gender, bytes32 region);
+
+    /// @notice Reverts unless a candidate meets the eligibility rules of an election
+    /// @param _candidateAddress Address of the candidate
+    /// @param _minAge Minimum age on the election date, 0 for none
+    /// @param _genderRestricted Whether the seat is reserved for `_gender`
+    /// @param _gender Gender the seat is reserved for
+    /// @param _region Region the election is restricted to, 0 for any
+    /// @param _atEpoch1900 Election date as Epoch1900 timestamp
+    function requireEligible(
+        address _candidateAddress,
+        uint256 _minAge,
+        bool _genderRestricted,
+        Gender _gender,
+        bytes32 _region,
+        uint256 _atEpoch1900
+    ) external view;
+
     /// @notice Get number of registered candidates
     /// @return count The number of registered candidates
     function getCandidateCount() external view returns (uint256 count);
+
+    /// @notice Get your current age based on stored date of birth
+    /// @return age Your current age in years
+    function getMyAge() external view returns (uint256 age);
+
+    /// @notice Owner function to change the minimum age to register
+    /// @param _minEligibleAge Minimum age in years
+    function setMinEligibleAge(uint256 _minEligibleAge) external;
+
+    /// @notice Get the minimum age to register
+    /// @return minEligibleAge Minimum age in years
+    function getMinEligibleAge() external view returns (uint256 minEligibleAge);
 }
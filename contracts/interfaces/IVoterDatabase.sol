@@ -62,9 +62,24 @@ interface IVoterDatabase {
         address indexed admin
     );
 
+    /// @notice Emitted when admin sets the region a voter is registered in
+    /// @param voter The address of the voter
+    /// @param region The region of the voter, 0 for none
+    /// @param admin The admin who set the region
+    event AdminSetVoterRegion(
+        address indexed voter,
+        bytes32 indexed region,
+        address indexed admin
+    );
+
+    /// @notice Emitted when the minimum age to register is set
+    /// @param minEligibleAge The minimum age in years
+    /// @param owner The owner who set it, or the deployer
+    event MinEligibleAgeSet(uint256 minEligibleAge, address indexed owner);
+
     /// @notice Register a new voter
     /// @param _name Name of the voter
-    /// @param _dateOfBirthEpoch Date of birth as Unix timestamp
+    /// @param _dateOfBirthEpoch Date of birth as Epoch1900 timestamp
     /// @param _gender Gender of the voter (0 for Male, 1 for Female)
     /// @param _presentAddress Present address of the voter
     /// @param _email Email address of the voter
@@ -78,7 +93,7 @@ interface IVoterDatabase {
 
     /// @notice Update voter information (only if registered and not yet voted)
     /// @param _name Updated name
-    /// @param _dateOfBirthEpoch Updated date of birth as Unix timestamp
+    /// @param _dateOfBirthEpoch Updated date of birth as Epoch1900 timestamp
     /// @param _gender Updated gender
     /// @param _presentAddress Updated address
     /// @param _email Updated email
@@ -99,7 +114,7 @@ interface IVoterDatabase {
     /// @notice Admin function to add a voter directly
     /// @param _voterAddress Address of the voter to add
     /// @param _name Name of the voter
-    /// @param _dateOfBirthEpoch Date of birth as Unix timestamp
+    /// @param _dateOfBirthEpoch Date of birth as Epoch1900 timestamp
     /// @param _gender Gender of the voter
     /// @param _presentAddress Present address of the voter
     /// @param _email Email address of the voter
@@ -117,7 +132,7 @@ interface IVoterDatabase {
     /// @notice Admin function to update voter details
     /// @param _voterAddress Address of the voter to update
     /// @param _name Updated name
-    /// @param _dateOfBirthEpoch Updated date of birth as Unix timestamp
+    /// @param _dateOfBirthEpoch Updated date of birth as Epoch1900 timestamp
     /// @param _gender Updated gender
     /// @param _presentAddress Updated present address
     /// @param _email Updated email address
@@ -136,6 +151,14 @@ interface IVoterDatabase {
     /// @param _voterAddress Address of the voter to remove
     function adminRemoveVoter(address _voterAddress) external;
 
+    /// @notice Admin function to set the region a voter is registered in
+    /// @param _voterAddress Address of the voter
+    /// @param _region Region of the voter, 0 for none
+    function adminSetVoterRegion(
+        address _voterAddress,
+        bytes32 _region
+    ) external;
+
     /// @notice Admin function to mark a voter as having voted
     /// @param _voterAddress Address of the voter
     function adminMarkVoted(address _voterAddress) external;
@@ -163,12 +186,12 @@ interface IVoterDatabase {
     /// @notice Get details of a specific voter
     /// @param _voterAddress Address of the voter
     /// @return name The voter's name
-    /// @return dateOfBirthEpoch The voter's date of birth as Unix timestamp
+    /// @return dateOfBirthEpoch The voter's date of birth as Epoch1900 timestamp
     /// @return gender The voter's gender
     /// @return presentAddress The voter's address
     /// @return email The voter's email
     /// @return timesVoted Number of times the voter has voted
-    /// @return registrationTimestamp When the voter registered as Unix timestamp
+    /// @return registrationTimestamp When the voter registered as Epoch1900 timestamp
     function adminGetVoterDetails(
         address _voterAddress
     )
@@ -194,7 +217,7 @@ interface IVoterDatabase {
 
     /// @notice Get your own voter details
     /// @return name Your name
-    /// @return dateOfBirthEpoch Your date of birth as Unix timestamp
+    /// @return dateOfBirthEpoch Your date of birth as Epoch1900 timestamp
     /// @return gender Your gender
     /// @return presentAddress Your present address
     /// @return email Your email address
@@ -224,6 +247,30 @@ interface IVoterDatabase {
         address _voterAddress
     ) external view returns (bool isRegistered);
 
+    /// @notice Get what the eligibility rules of an election are checked against
+    /// @param _voterAddress Address of the voter
+    /// @return dateOfBirthEpoch1900 Voter's date of birth as Epoch1900 timestamp
+    /// @return gender Voter's gender
+    /// @return region Region the voter is registered in, 0 for none
+    function adminGetEligibilityProfile(
+        address _voterAddress
+    )
+        external
+        view
+        returns (uint256 dateOfBirthEpoch1900, Gender gender, bytes32 region);
+
+    /// @notice Reverts unless a voter meets the eligibility rules of an election
+    /// @param _voterAddress Address of the voter
+    /// @param _minAge Minimum age on the election date, 0 for none
+    /// @param _region Region the election is restricted to, 0 for any
+    /// @param _atEpoch1900 Election date as Epoch1900 timestamp
+    function adminRequireEligible(
+        address _voterAddress,
+        uint256 _minAge,
+        bytes32 _region,
+        uint256 _atEpoch1900
+    ) external view;
+
     /// @notice Get your own voting status
     /// @return hasVoted Whether you have voted at least once
     function getMyVotingStatus() external view returns (bool hasVoted);
@@ -231,4 +278,12 @@ interface IVoterDatabase {
     /// @notice Get your current age based on stored date of birth
     /// @return Your current age in years
     function getMyAge() external view returns (uint256);
+
+    /// @notice Owner function to change the minimum age to register
+    /// @param _minEligibleAge Minimum age in years
+    function setMinEligibleAge(uint256 _minEligibleAge) external;
+
+    /// @notice Get the minimum age to register
+    /// @return minEligibleAge Minimum age in years
+    function getMinEligibleAge() external view returns (uint256 minEligibleAge);
 }
@@ -20,6 +20,19 @@ library ElectionUtils {
         return Epoch1900.calculateAge(_dateOfBirthEpoch1900);
     }
 
+    /**
+     * @notice Calculate age on a given date from date of birth using Epoch1900 format
+     * @param _dateOfBirthEpoch1900 Date of birth as Epoch1900 timestamp
+     * @param _atEpoch1900 Date to calculate the age on as Epoch1900 timestamp
+     * @return Age in years, 0 if born after that date
+     */
+    function calculateAgeAt(
+        uint256 _dateOfBirthEpoch1900,
+        uint256 _atEpoch1900
+    ) internal pure returns (uint256) {
+        return Epoch1900.calculateAgeAt(_dateOfBirthEpoch1900, _atEpoch1900);
+    }
+
     /**
      * @notice Check if a person is eligible to vote based on minimum age
      * @param _dateOfBirthEpoch1900 Date of birth as Epoch1900 timestamp
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.8;
+
+/**
+ * @title ElectoralRoll Library
+ * @notice Membership proofs against the Merkle root of a frozen electoral roll
+ * @dev Leaves are double hashed and pairs are hashed in sorted order, the same
+ *      layout as OpenZeppelin's StandardMerkleTree with an ["address"] leaf,
+ *      so proofs built by lib/electoral-roll.ts or by that library both verify
+ */
+library ElectoralRoll {
+    /**
+     * @notice Compute the leaf of a voter
+     * @param _voter Address of the voter
+     * @return The leaf hash
+     */
+    function leaf(address _voter) internal pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(_voter))));
+    }
+
+    /**
+     * @notice Check whether a voter is on the roll with the given root
+     * @param _root Merkle root of the roll
+     * @param _voter Address of the voter
+     * @param _proof Sibling hashes from the leaf up to the root
+     * @return Whether the proof is valid
+     */
+    function contains(
+        bytes32 _root,
+        address _voter,
+        bytes32[] memory _proof
+    ) internal pure returns (bool) {
+        bytes32 hash = leaf(_voter);
+        for (uint256 i = 0; i < _proof.length; i++) {
+            hash = hash < _proof[i]
+                ? keccak256(abi.encode(hash, _proof[i]))
+                : keccak256(abi.encode(_proof[i], hash));
+        }
+        return hash == _root;
+    }
+}
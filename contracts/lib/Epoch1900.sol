@@ -55,6 +55,17 @@ library Epoch1900 {
         return (currentEpoch1900 - _birthDateEpoch1900) / SECONDS_PER_YEAR;
     }
     
+    /**
+     * @notice Calculate age on a given date based on Epoch1900 birth date
+     * @param _birthDateEpoch1900 Birth date as Epoch1900 timestamp
+     * @param _atEpoch1900 Date to calculate the age on as Epoch1900 timestamp
+     * @return Age in years, 0 if born after that date
+     */
+    function calculateAgeAt(uint256 _birthDateEpoch1900, uint256 _atEpoch1900) internal pure returns (uint256) {
+        if (_atEpoch1900 < _birthDateEpoch1900) return 0;
+        return (_atEpoch1900 - _birthDateEpoch1900) / SECONDS_PER_YEAR;
+    }
+    
     /**
      * @notice Check if a person is eligible based on minimum age
      * @param _birthDateEpoch1900 Birth date as Epoch1900 timestamp
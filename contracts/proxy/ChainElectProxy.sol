@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.8;
+
+/**
+ * @title ChainElectProxy
+ * @notice ERC-1967 proxy for the databases, keeps their address and storage
+ *         across upgrades of the code behind it
+ * @dev Upgrades are implemented by the databases themselves (UUPS), see
+ *      `Upgradeable`. The proxy only forwards every call to the implementation.
+ */
+contract ChainElectProxy {
+    /// @dev keccak256("eip1967.proxy.implementation") - 1
+    bytes32 private constant IMPLEMENTATION_SLOT =
+        0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+
+    /// @notice Thrown when the implementation is not a contract
+    error ChainElectProxy__InvalidImplementation();
+
+    /// @notice Emitted when the implementation is set
+    /// @param implementation The address of the new implementation
+    event Upgraded(address indexed implementation);
+
+    /**
+     * @notice Contract constructor
+     * @param _implementation Address of the database implementation
+     * @param _data Encoded `initialize` call, run in the context of the proxy
+     */
+    constructor(address _implementation, bytes memory _data) {
+        if (_implementation.code.length == 0)
+            revert ChainElectProxy__InvalidImplementation();
+
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, _implementation)
+        }
+        emit Upgraded(_implementation);
+
+        if (_data.length > 0) {
+            (bool success, bytes memory result) = _implementation.delegatecall(
+                _data
+            );
+            if (!success) {
+                // bubble up the error of the initializer
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+        }
+    }
+
+    /// @notice Forward every call to the implementation
+    fallback() external {
+        assembly {
+            let implementation := sload(IMPLEMENTATION_SLOT)
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(
+                gas(),
+                implementation,
+                0,
+                calldatasize(),
+                0,
+                0
+            )
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+}
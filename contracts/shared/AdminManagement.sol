@@ -1,17 +1,47 @@
 // SPDX-License-Identifier: Apache-2.0
 pragma solidity ^0.8.8;
 
+import {Upgradeable} from "./Upgradeable.sol";
+
 /**
  * @title AdminManagement Abstract Contract
  * @notice Base contract implementing standardized admin management functionality
- * @dev Provides common admin functions that can be inherited by database contracts
+ * @dev Provides common admin functions that can be inherited by database contracts.
+ *      Admin functions are guarded by named roles, the owner and admins hold
+ *      every role, so prefer granting a single role over adding an admin.
  */
-abstract contract AdminManagement {
+abstract contract AdminManagement is Upgradeable {
+    /// @notice Manages voter and candidate records, including their PII
+    bytes32 public constant REGISTRAR_ROLE = keccak256("REGISTRAR");
+
+    /// @notice Creates, schedules, opens, closes and settles elections
+    bytes32 public constant ELECTION_MANAGER_ROLE =
+        keccak256("ELECTION_MANAGER");
+
+    /// @notice Reads voter records without being able to change them
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR");
+
+    /// @notice Held by ElectionDatabase to check and mark voters
+    bytes32 public constant SYSTEM_ROLE = keccak256("SYSTEM");
+
     /// @notice Thrown when a non-owner attempts to perform an owner-only action
     error AdminManagement__NotOwner();
 
-    /// @notice Thrown when a non-admin tries to access admin functionality
-    error AdminManagement__NotAdmin();
+    /// @notice Thrown when someone other than the proposed owner accepts ownership
+    error AdminManagement__NotPendingOwner();
+
+    /// @notice Thrown when the caller does not hold the role a function requires
+    /// @param role The role required by the function
+    error AdminManagement__MissingRole(bytes32 role);
+
+    /// @notice Thrown when granting or revoking a role that does not exist
+    error AdminManagement__UnknownRole();
+
+    /// @notice Thrown when granting a role to an account that already holds it
+    error AdminManagement__AlreadyHasRole();
+
+    /// @notice Thrown when revoking a role from an account that does not hold it
+    error AdminManagement__RoleNotFound();
 
     /// @notice Thrown when trying to add an address that's already an admin
     error AdminManagement__AlreadyAdmin();
@@ -19,16 +49,31 @@ abstract contract AdminManagement {
     /// @notice Thrown when trying to remove an address that's not an admin
     error AdminManagement__AdminNotFound();
 
+    /// @notice Thrown when a pausable function is called while paused
+    error AdminManagement__Paused();
+
+    /// @notice Thrown when pausing while paused or unpausing while not paused
+    error AdminManagement__PauseUnchanged();
+
     /// @notice Thrown when an invalid address is provided
     error AdminManagement__InvalidAddress();
 
-    // Owner of the contract
-    address private immutable i_owner;
+    // Owner of the contract, zero once ownership is renounced
+    address private s_owner;
+    // Proposed owner, zero when no transfer is pending
+    address private s_pendingOwner;
+
+    // Blocks user writes and imports, views keep working
+    bool private s_paused;
 
     // Admin system
     mapping(address => bool) private s_admins;
     address[] private s_adminAddresses;
 
+    // Role system
+    mapping(bytes32 => mapping(address => bool)) private s_roles;
+    mapping(bytes32 => address[]) private s_roleMembers;
+
     /// @notice Emitted when a new admin is added
     /// @param admin The address of the newly added admin
     /// @param owner The address that added the admin (owner)
@@ -39,22 +84,102 @@ abstract contract AdminManagement {
     /// @param owner The address that removed the admin (owner)
     event AdminRemoved(address indexed admin, address indexed owner);
 
+    /// @notice Emitted when the owner proposes a new owner
+    /// @param previousOwner The current owner
+    /// @param newOwner The proposed owner, zero when a proposal is cancelled
+    event OwnershipTransferStarted(
+        address indexed previousOwner,
+        address indexed newOwner
+    );
+
+    /// @notice Emitted when ownership changes, including on deployment
+    /// @param previousOwner The former owner, zero on deployment
+    /// @param newOwner The new owner, zero when ownership is renounced
+    event OwnershipTransferred(
+        address indexed previousOwner,
+        address indexed newOwner
+    );
+
+    /// @notice Emitted when the contract is paused
+    /// @param owner The address that paused the contract (owner)
+    event Paused(address indexed owner);
+
+    /// @notice Emitted when the contract is unpaused
+    /// @param owner The address that unpaused the contract (owner)
+    event Unpaused(address indexed owner);
+
+    /// @notice Emitted when a role is granted
+    /// @param role The granted role
+    /// @param account The address that received the role
+    /// @param owner The address that granted the role (owner)
+    event RoleGranted(
+        bytes32 indexed role,
+        address indexed account,
+        address indexed owner
+    );
+
+    /// @notice Emitted when a role is revoked
+    /// @param role The revoked role
+    /// @param account The address that lost the role
+    /// @param owner The address that revoked the role (owner)
+    event RoleRevoked(
+        bytes32 indexed role,
+        address indexed account,
+        address indexed owner
+    );
+
     /// @notice Restricts function access to the owner
     modifier onlyOwner() {
-        if (msg.sender != i_owner) revert AdminManagement__NotOwner();
+        _checkOwner();
         _;
     }
 
-    /// @notice Restricts function access to admins (including the owner)
-    modifier onlyAdmin() {
-        if (msg.sender != i_owner && !s_admins[msg.sender])
-            revert AdminManagement__NotAdmin();
+    /// @notice Blocks the function while the contract is paused
+    modifier whenNotPaused() {
+        _requireNotPaused();
+        _;
+    }
+
+    /// @notice Restricts function access to holders of a role
+    /// @param _role The role required to call the function
+    modifier onlyRole(bytes32 _role) {
+        _checkRole(_role, _role);
+        _;
+    }
+
+    /// @notice Restricts function access to holders of either of two roles
+    /// @param _role The role reported when the caller holds neither
+    /// @param _otherRole The alternative role
+    modifier onlyEitherRole(bytes32 _role, bytes32 _otherRole) {
+        _checkRole(_role, _otherRole);
         _;
     }
 
     /// @notice Contract constructor, sets the deployer as the owner
     constructor() {
-        i_owner = msg.sender;
+        _initializeOwner(msg.sender);
+    }
+
+    /// @notice Propose a new owner, who takes over once they accept
+    /// @dev Only owner can call this function, the zero address cancels a proposal
+    /// @param _newOwner Address of the proposed owner
+    function transferOwnership(address _newOwner) external virtual onlyOwner {
+        s_pendingOwner = _newOwner;
+        emit OwnershipTransferStarted(msg.sender, _newOwner);
+    }
+
+    /// @notice Accept a proposed ownership transfer
+    /// @dev Only the proposed owner can call this function
+    function acceptOwnership() external virtual {
+        if (msg.sender != s_pendingOwner)
+            revert AdminManagement__NotPendingOwner();
+        _transferOwnership(msg.sender);
+    }
+
+    /// @notice Give up ownership for good, owner-only functions become unusable
+    /// @dev Only owner can call this function, admins and roles are kept
+    function renounceOwnership() external virtual onlyOwner {
+        _transferOwnership(address(0));
     }
 
     /// @notice Add a new admin to the system
@@ -96,11 +221,124 @@ abstract contract AdminManagement {
         emit AdminRemoved(_adminAddress, msg.sender);
     }
 
+    /// @notice Grant a role to an account
+    /// @dev Only owner can call this function
+    /// @param _role One of the role constants
+    /// @param _account Address to receive the role
+    function grantRole(
+        bytes32 _role,
+        address _account
+    ) external virtual onlyOwner {
+        if (!_isKnownRole(_role)) revert AdminManagement__UnknownRole();
+        if (_account == address(0)) revert AdminManagement__InvalidAddress();
+        if (s_roles[_role][_account]) revert AdminManagement__AlreadyHasRole();
+
+        s_roles[_role][_account] = true;
+        s_roleMembers[_role].push(_account);
+
+        emit RoleGranted(_role, _account, msg.sender);
+    }
+
+    /// @notice Revoke a role from an account
+    /// @dev Only owner can call this function
+    /// @dev The owner and admins keep every role regardless, remove an admin
+    ///      with `removeAdmin` to take its roles away
+    /// @param _role One of the role constants
+    /// @param _account Address to lose the role
+    function revokeRole(
+        bytes32 _role,
+        address _account
+    ) external virtual onlyOwner {
+        if (!s_roles[_role][_account]) revert AdminManagement__RoleNotFound();
+
+        delete s_roles[_role][_account];
+
+        // Remove from the member array using swap and pop
+        address[] storage members = s_roleMembers[_role];
+        uint256 length = members.length;
+        for (uint256 i = 0; i < length; ) {
+            if (members[i] == _account) {
+                members[i] = members[length - 1];
+                members.pop();
+                break;
+            }
+            unchecked {
+                ++i;
+            }
+        }
+
+        emit RoleRevoked(_role, _account, msg.sender);
+    }
+
+    /// @notice Check if an address may act with a role
+    /// @dev The owner and admins hold every role, SYSTEM included, whether
+    ///      or not it was granted to them; only other accounts need `grantRole`
+    /// @param _role The role to check
+    /// @param _account Address to check
+    /// @return True if the address holds the role, false otherwise
+    function hasRole(
+        bytes32 _role,
+        address _account
+    ) public view returns (bool) {
+        return isAdmin(_account) || s_roles[_role][_account];
+    }
+
+    /// @notice Get the accounts granted a role (excluding owner and admins)
+    /// @param _role The role to enumerate
+    /// @return Array of role member addresses
+    function getRoleMembers(
+        bytes32 _role
+    ) external view returns (address[] memory) {
+        return s_roleMembers[_role];
+    }
+
+    /// @notice Get the number of accounts granted a role (excluding owner/admins)
+    /// @param _role The role to count
+    /// @return The count of role members
+    function getRoleMemberCount(bytes32 _role) external view returns (uint256) {
+        return s_roleMembers[_role].length;
+    }
+
+    /// @notice Get every role that can be granted
+    /// @return roles The role identifiers
+    function getRoles() external pure returns (bytes32[4] memory roles) {
+        return [
+            REGISTRAR_ROLE,
+            ELECTION_MANAGER_ROLE,
+            AUDITOR_ROLE,
+            SYSTEM_ROLE
+        ];
+    }
+
+    /// @notice Stop user writes and imports until `unpause` is called
+    /// @dev Only owner can call this function, admin functions keep working
+    ///      so that elections can still be closed or records fixed
+    function pause() external virtual onlyOwner {
+        _setPaused(true);
+        emit Paused(msg.sender);
+    }
+
+    /// @notice Resume user writes and imports
+    /// @dev Only owner can call this function
+    function unpause() external virtual onlyOwner {
+        _setPaused(false);
+        emit Unpaused(msg.sender);
+    }
+
+    /// @notice Check if the contract is paused
+    /// @return True if user writes and imports are blocked
+    function isPaused() public view returns (bool) {
+        return s_paused;
+    }
+
     /// @notice Check if an address is an admin
     /// @param _address Address to check
     /// @return True if the address is an admin, false otherwise
     function isAdmin(address _address) public view returns (bool) {
-        return _address == i_owner || s_admins[_address];
+        // s_owner is zero after renouncing, which must not make it an admin
+        return
+            (_address == s_owner && _address != address(0)) ||
+            s_admins[_address];
     }
 
     /// @notice Get the total number of admins (excluding owner)
@@ -116,9 +354,15 @@ abstract contract AdminManagement {
     }
 
     /// @notice Get the contract owner address
-    /// @return The address of the contract owner
+    /// @return The address of the contract owner, zero if renounced
     function getOwner() public view returns (address) {
-        return i_owner;
+        return s_owner;
+    }
+
+    /// @notice Get the proposed owner address
+    /// @return The address of the proposed owner, zero if none
+    function getPendingOwner() public view returns (address) {
+        return s_pendingOwner;
     }
 
     /// @notice Check if the caller is an admin
@@ -126,4 +370,53 @@ abstract contract AdminManagement {
     function amIAdmin() public view returns (bool) {
         return isAdmin(msg.sender);
     }
+
+    /// @dev Sets the first owner, by the constructor or by `initialize`
+    function _initializeOwner(address _owner) internal initializer {
+        if (_owner == address(0)) revert AdminManagement__InvalidAddress();
+        _transferOwnership(_owner);
+    }
+
+    /// @dev Only the owner may upgrade a proxied database
+    function _authorizeUpgrade() internal view override {
+        _checkOwner();
+    }
+
+    /// @dev Reverts while paused
+    function _requireNotPaused() internal view {
+        if (s_paused) revert AdminManagement__Paused();
+    }
+
+    function _setPaused(bool _paused) private {
+        if (s_paused == _paused) revert AdminManagement__PauseUnchanged();
+        s_paused = _paused;
+    }
+
+    /// @dev Reverts unless the caller is the owner
+    function _checkOwner() internal view {
+        if (msg.sender != s_owner) revert AdminManagement__NotOwner();
+    }
+
+    /// @dev Hands ownership over and clears any pending proposal
+    function _transferOwnership(address _newOwner) private {
+        address previousOwner = s_owner;
+        s_owner = _newOwner;
+        delete s_pendingOwner;
+        emit OwnershipTransferred(previousOwner, _newOwner);
+    }
+
+    /// @dev Reverts unless the caller holds one of the two roles, modifiers
+    ///      are inlined at every use so the check lives here
+    function _checkRole(bytes32 _role, bytes32 _otherRole) internal view {
+        if (!hasRole(_role, msg.sender) && !s_roles[_otherRole][msg.sender])
+            revert AdminManagement__MissingRole(_role);
+    }
+
+    function _isKnownRole(bytes32 _role) private pure returns (bool) {
+        return
+            _role == REGISTRAR_ROLE ||
+            _role == ELECTION_MANAGER_ROLE ||
+            _role == AUDITOR_ROLE ||
+            _role == SYSTEM_ROLE;
+    }
 }
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.8;
+
+/**
+ * @title Upgradeable Abstract Contract
+ * @notice UUPS upgrades and one-time initialization for contracts deployed
+ *         behind a `ChainElectProxy`
+ * @dev Contracts deployed without a proxy are initialized by their constructor,
+ *      which also keeps anyone from initializing a proxy implementation
+ */
+abstract contract Upgradeable {
+    /// @dev keccak256("eip1967.proxy.implementation") - 1
+    bytes32 private constant IMPLEMENTATION_SLOT =
+        0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+
+    /// @dev Address of this code, to tell proxied calls from direct ones
+    address private immutable i_self = address(this);
+
+    /// @notice Thrown when initializing a contract a second time
+    error Upgradeable__AlreadyInitialized();
+
+    /// @notice Thrown when upgrading the implementation itself instead of a proxy
+    error Upgradeable__NotProxy();
+
+    /// @notice Thrown when calling `proxiableUUID` through a proxy
+    error Upgradeable__Delegated();
+
+    /// @notice Thrown when the new implementation does not support upgrades
+    error Upgradeable__UnsupportedImplementation();
+
+    /// @notice Emitted when the implementation behind the proxy changes
+    /// @param implementation The address of the new implementation
+    event Upgraded(address indexed implementation);
+
+    bool private s_initialized;
+
+    /// @notice Lets the function run once per contract, or once per proxy
+    modifier initializer() {
+        if (s_initialized) revert Upgradeable__AlreadyInitialized();
+        s_initialized = true;
+        _;
+    }
+
+    /**
+     * @notice Switch the proxy to a new implementation
+     * @dev Only callable through a proxy, by whoever `_authorizeUpgrade` allows
+     * @param _newImplementation Address of the new implementation
+     * @param _data Call to run on the new implementation, e.g. a migration
+     */
+    function upgradeToAndCall(
+        address _newImplementation,
+        bytes calldata _data
+    ) external {
+        if (address(this) == i_self) revert Upgradeable__NotProxy();
+        _authorizeUpgrade();
+
+        // an implementation without upgrade support would lock the proxy
+        // forever, and calls to addresses without code return no data at all
+        if (_newImplementation.code.length == 0)
+            revert Upgradeable__UnsupportedImplementation();
+        try Upgradeable(_newImplementation).proxiableUUID() returns (
+            bytes32 slot
+        ) {
+            if (slot != IMPLEMENTATION_SLOT)
+                revert Upgradeable__UnsupportedImplementation();
+        } catch {
+            revert Upgradeable__UnsupportedImplementation();
+        }
+
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, _newImplementation)
+        }
+        emit Upgraded(_newImplementation);
+
+        if (_data.length > 0) {
+            (bool success, bytes memory result) = _newImplementation
+                .delegatecall(_data);
+            if (!success) {
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+        }
+    }
+
+    /// @notice ERC-1822 check that this implementation supports upgrades
+    /// @return The ERC-1967 implementation slot
+    function proxiableUUID() external view returns (bytes32) {
+        if (address(this) != i_self) revert Upgradeable__Delegated();
+        return IMPLEMENTATION_SLOT;
+    }
+
+    /// @dev Reverts unless the caller may upgrade the contract
+    function _authorizeUpgrade() internal view virtual;
+}
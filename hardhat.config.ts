@@ -2,6 +2,19 @@ import type { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox-viem";
 import dotenv from "dotenv";
 
+import "./tasks/abi";
+import "./tasks/candidates";
+import "./tasks/doctor";
+import "./tasks/election";
+import "./tasks/indexer";
+import "./tasks/owner";
+import "./tasks/relayer";
+import "./tasks/roles";
+import "./tasks/storage-layout";
+import "./tasks/system";
+import "./tasks/upgrade";
+import "./tasks/voters";
+
 dotenv.config();
 
 // RPC URL for Sepolia testnet, the fallback value is just an example
@@ -37,18 +50,28 @@ const config: HardhatUserConfig = {
 
   solidity: {
     version: "0.8.28",
-    /*
     settings: {
+      // PUSH0 (Shanghai) saves a byte per zero constant, which ElectionDatabase
+      // needs to stay below the size limit; Sepolia and mainnet run Cancun
+      evmVersion: "cancun",
+      // ElectionDatabase no longer fits the 24KB contract size limit without it
       optimizer: {
         enabled: true,
-        // optimise the contract for this many runs
-        runs: 200,
+        // optimise the contract for this many runs, fewer runs keep
+        // ElectionDatabase smaller at the cost of slightly more gas per call
+        runs: 100,
+      },
+      // storage layouts are recorded in the build info, so upgrades of the
+      // proxied databases can be checked against the deployed layout
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"],
+        },
       },
       // viaIR creates an intermediate representation and then optimises it
       // then creates the bytecode, however this is buggy for this project
       // viaIR: true,
     },
-    */
   },
   mocha: {
     timeout: 200000, // 200 seconds max for running tests
@@ -1 +1,11 @@
 export const developmentChains: string[] = ["hardhat", "localhost"];
+
+// Minimum age to register of new VoterDatabase and CandidateDatabase
+// deployments, unless the minEligibleAge parameter of their module is set
+export const minEligibleAge = 18;
+
+// Network names of the chains in hardhat.config.ts, keyed by chain ID
+export const networkNames: Record<number, string> = {
+  11155111: "sepolia",
+  31337: "localhost",
+};
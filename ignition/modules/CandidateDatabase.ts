@@ -1,8 +1,12 @@
 // Deploy with: hardhat ignition deploy ignition/modules/CandidateDatabase.ts
+// Parameters: minEligibleAge, the minimum age to register (default 18)
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { minEligibleAge } from "../../helper-hardhat-config";
 
 const CandidateDatabaseModule = buildModule("CandidateDatabaseModule", (m) => {
-  const candidateDatabase = m.contract("CandidateDatabase");
+  const candidateDatabase = m.contract("CandidateDatabase", [
+    m.getParameter("minEligibleAge", minEligibleAge),
+  ]);
 
   return { candidateDatabase };
 });
@@ -0,0 +1,25 @@
+// Deploys the whole system and grants ElectionDatabase the SYSTEM role on both databases
+// Deploy with: hardhat ignition deploy ignition/modules/ChainElect.ts
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import VoterDatabaseModule from "./VoterDatabase";
+import CandidateDatabaseModule from "./CandidateDatabase";
+import { ROLES } from "../../lib/sdk/roles";
+
+const ChainElectModule = buildModule("ChainElectModule", (m) => {
+  const { voterDatabase } = m.useModule(VoterDatabaseModule);
+  const { candidateDatabase } = m.useModule(CandidateDatabaseModule);
+
+  const electionDatabase = m.contract("ElectionDatabase", [
+    voterDatabase,
+    candidateDatabase,
+  ]);
+
+  // ElectionDatabase checks and marks voters through SYSTEM_ROLE functions,
+  // unlike admin rights the role cannot rewrite voter or candidate records
+  m.call(voterDatabase, "grantRole", [ROLES.SYSTEM, electionDatabase]);
+  m.call(candidateDatabase, "grantRole", [ROLES.SYSTEM, electionDatabase]);
+
+  return { voterDatabase, candidateDatabase, electionDatabase };
+});
+
+export default ChainElectModule;
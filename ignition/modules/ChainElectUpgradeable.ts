@@ -0,0 +1,82 @@
+// Deploys the whole system behind ChainElectProxy, so upgrades keep the
+// addresses and the data of every database, see the `upgrade` task
+// Deploy with: hardhat ignition deploy ignition/modules/ChainElectUpgradeable.ts
+// Parameters: voterMinEligibleAge and candidateMinEligibleAge (default 18)
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { minEligibleAge } from "../../helper-hardhat-config";
+import { ROLES } from "../../lib/sdk/roles";
+
+type ModuleBuilder = Parameters<Parameters<typeof buildModule>[1]>[0];
+type ModuleArguments = NonNullable<
+  Parameters<ModuleBuilder["encodeFunctionCall"]>[2]
+>;
+type DatabaseName = "VoterDatabase" | "CandidateDatabase" | "ElectionDatabase";
+
+/**
+ * Deploy the implementation of a database and a proxy initialized with it
+ * @returns The database at the address of its proxy
+ */
+function deployProxied(
+  m: ModuleBuilder,
+  name: DatabaseName,
+  constructorArgs: ModuleArguments,
+  initializeArgs: ModuleArguments
+) {
+  const implementation = m.contract(name, constructorArgs, {
+    id: `${name}Implementation`,
+  });
+  const proxy = m.contract(
+    "ChainElectProxy",
+    [
+      implementation,
+      m.encodeFunctionCall(implementation, "initialize", initializeArgs),
+    ],
+    { id: `${name}Proxy` }
+  );
+  return m.contractAt(name, proxy, { id: name });
+}
+
+const ChainElectUpgradeableModule = buildModule(
+  "ChainElectUpgradeableModule",
+  (m) => {
+    const owner = m.getAccount(0);
+    const voterMinEligibleAge = m.getParameter(
+      "voterMinEligibleAge",
+      minEligibleAge
+    );
+    const candidateMinEligibleAge = m.getParameter(
+      "candidateMinEligibleAge",
+      minEligibleAge
+    );
+
+    // the implementations only need an age for their constructor, the
+    // proxies keep their own
+    const voterDatabase = deployProxied(
+      m,
+      "VoterDatabase",
+      [voterMinEligibleAge],
+      [owner, voterMinEligibleAge]
+    );
+    const candidateDatabase = deployProxied(
+      m,
+      "CandidateDatabase",
+      [candidateMinEligibleAge],
+      [owner, candidateMinEligibleAge]
+    );
+    // the implementation is initialized by its constructor too, with the
+    // same databases, so nobody can initialize it
+    const electionDatabase = deployProxied(
+      m,
+      "ElectionDatabase",
+      [voterDatabase, candidateDatabase],
+      [owner, voterDatabase, candidateDatabase]
+    );
+
+    m.call(voterDatabase, "grantRole", [ROLES.SYSTEM, electionDatabase]);
+    m.call(candidateDatabase, "grantRole", [ROLES.SYSTEM, electionDatabase]);
+
+    return { voterDatabase, candidateDatabase, electionDatabase };
+  }
+);
+
+export default ChainElectUpgradeableModule;
@@ -1,11 +1,15 @@
 // This setup uses Hardhat Ignition to manage smart contract deployments.
 // Learn more about it at https://hardhat.org/ignition
 // Deploy with: hardhat ignition deploy ignition/modules/VoterDatabase.ts
+// Parameters: minEligibleAge, the minimum age to register (default 18)
 
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { minEligibleAge } from "../../helper-hardhat-config";
 
 const VoterDatabaseModule = buildModule("VoterDatabaseModule", (m) => {
-  const voterDatabase = m.contract("VoterDatabase");
+  const voterDatabase = m.contract("VoterDatabase", [
+    m.getParameter("minEligibleAge", minEligibleAge),
+  ]);
 
   return { voterDatabase };
 });
@@ -0,0 +1,178 @@
+/**
+ * ABI compatibility checks between interfaces, implementations and releases
+ *
+ * The frontend and the SDK call the databases through their ABIs, so anything
+ * they rely on must keep its signature: a function, event or error that
+ * disappears or changes shape breaks them, a new one does not.
+ */
+
+import {
+  Abi,
+  AbiEvent,
+  AbiParameter,
+  toEventSignature,
+  toFunctionSignature,
+} from "viem";
+
+type AbiMember = Extract<Abi[number], { type: "function" | "event" | "error" }>;
+
+export type AbiChangeKind = "added" | "removed" | "changed";
+
+export interface AbiChange {
+  kind: AbiChangeKind;
+  type: AbiMember["type"];
+  signature: string;
+  detail: string;
+  // removed and changed members break callers, added ones are additive
+  breaking: boolean;
+}
+
+/**
+ * List the differences between two ABIs
+ * @param previous ABI callers were built against, e.g. an interface or the
+ *        last deployed artifact
+ * @param next ABI replacing it, e.g. the implementation or the current build
+ * @param names How the two ABIs are called in the details of the changes
+ * @returns Removed and changed members in the order of the previous ABI,
+ *          followed by the added ones in the order of the next ABI
+ */
+export function compareAbis(
+  previous: Abi,
+  next: Abi,
+  names = { previous: "the previous ABI", next: "the new ABI" }
+): AbiChange[] {
+  const before = indexAbi(previous);
+  const after = indexAbi(next);
+  const changes: AbiChange[] = [];
+
+  for (const [key, member] of before) {
+    const counterpart = after.get(key);
+    const signature = signatureOf(member);
+    const change = (kind: AbiChangeKind, detail: string) =>
+      changes.push({
+        kind,
+        type: member.type,
+        signature,
+        detail,
+        breaking: true,
+      });
+
+    if (!counterpart) {
+      change("removed", `not in ${names.next}`);
+      continue;
+    }
+    if (member.type === "function" && counterpart.type === "function") {
+      if (member.stateMutability !== counterpart.stateMutability) {
+        change(
+          "changed",
+          `state mutability changed from ${member.stateMutability} to ${counterpart.stateMutability}`
+        );
+      }
+      const outputs = formatParameters(member.outputs);
+      const nextOutputs = formatParameters(counterpart.outputs);
+      if (outputs !== nextOutputs) {
+        change("changed", `returns ${nextOutputs} instead of ${outputs}`);
+      }
+    }
+    if (member.type === "event" && counterpart.type === "event") {
+      // indexed parameters are read from the topics, the others from the data
+      const indexed = formatIndexed(member);
+      const nextIndexed = formatIndexed(counterpart);
+      if (
+        indexed !== nextIndexed ||
+        member.anonymous !== counterpart.anonymous
+      ) {
+        change(
+          "changed",
+          `indexed parameters changed from ${indexed} to ${nextIndexed}`
+        );
+      }
+    }
+  }
+
+  for (const [key, member] of after) {
+    if (before.has(key)) continue;
+    changes.push({
+      kind: "added",
+      type: member.type,
+      signature: signatureOf(member),
+      detail: `not in ${names.previous}`,
+      breaking: false,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Whether every change is additive
+ */
+export function isAbiCompatible(changes: AbiChange[]): boolean {
+  return changes.every(({ breaking }) => !breaking);
+}
+
+/**
+ * Leave out the members another ABI has, e.g. the ones of a base contract
+ */
+export function excludeAbi(abi: Abi, excluded: Abi): Abi {
+  const keys = indexAbi(excluded);
+  return abi.filter(
+    (item) =>
+      !(
+        (item.type === "function" ||
+          item.type === "event" ||
+          item.type === "error") &&
+        keys.has(`${item.type} ${signatureOf(item)}`)
+      )
+  );
+}
+
+/**
+ * Functions, events and errors of an ABI by their type and signature
+ * @dev Constructors, fallback and receive functions are not called by name,
+ *      so they are left out
+ */
+function indexAbi(abi: Abi): Map<string, AbiMember> {
+  const members = new Map<string, AbiMember>();
+  for (const item of abi) {
+    if (
+      item.type === "function" ||
+      item.type === "event" ||
+      item.type === "error"
+    ) {
+      members.set(`${item.type} ${signatureOf(item)}`, item);
+    }
+  }
+  return members;
+}
+
+/**
+ * Name and parameter types, e.g. `addVoter(string,uint256,uint8,string,string)`
+ */
+function signatureOf(member: AbiMember): string {
+  if (member.type === "event") return toEventSignature(member);
+  return member.name + formatParameters(member.inputs);
+}
+
+/**
+ * Parameter types as a tuple, e.g. `(uint256,(address,bool))`
+ */
+function formatParameters(parameters: readonly AbiParameter[]): string {
+  return toFunctionSignature({
+    type: "function",
+    name: "",
+    inputs: parameters,
+    outputs: [],
+    stateMutability: "view",
+  });
+}
+
+/**
+ * Positions of the indexed parameters of an event, e.g. `0, 2`
+ */
+function formatIndexed(event: AbiEvent): string {
+  const positions = event.inputs
+    .map((input, i) => (input.indexed ? String(i) : undefined))
+    .filter((position) => position !== undefined);
+  return positions.length === 0 ? "none" : positions.join(", ");
+}
@@ -0,0 +1,141 @@
+/**
+ * Local store of the salts behind committed secret ballots
+ *
+ * A committed ballot can only be counted by revealing the candidate and salt it
+ * was committed with, so losing the salt loses the vote while leaking it before
+ * the election closes discloses the vote. The store is a JSON file readable by
+ * the current user only, written before the commit is sent.
+ */
+
+import fs from "fs";
+import path from "path";
+import { Address, getAddress, Hex } from "viem";
+import { computeCommitment, generateSalt } from "./sdk";
+
+export interface BallotSecret {
+  chainId: number;
+  electionDatabase: Address;
+  // decimal string, JSON has no bigint
+  electionId: string;
+  voter: Address;
+  candidate: Address;
+  salt: Hex;
+  commitment: Hex;
+  createdAt: string;
+  // set once the ballot was revealed on-chain
+  revealedAt?: string;
+}
+
+export class BallotSecretStore {
+  readonly storePath: string;
+  private secrets: BallotSecret[];
+
+  private constructor(storePath: string, secrets: BallotSecret[]) {
+    this.storePath = storePath;
+    this.secrets = secrets;
+  }
+
+  /** Open the store at `storePath`, or start an empty one */
+  static open(storePath: string): BallotSecretStore {
+    if (!fs.existsSync(storePath)) {
+      return new BallotSecretStore(storePath, []);
+    }
+    return new BallotSecretStore(
+      storePath,
+      JSON.parse(fs.readFileSync(storePath, "utf8"))
+    );
+  }
+
+  /**
+   * Generate a salt for a ballot and save it before it is committed
+   * @dev Replaces an earlier secret of the same voter that was never revealed,
+   *      e.g. when the commit transaction failed, but only while nothing is
+   *      committed on-chain, as that ballot can only be revealed with its salt
+   * @param committed Whether the voter already committed a ballot, see `hasVoted`
+   * @returns The stored secret, including the commitment to send
+   */
+  create(
+    chainId: number,
+    electionDatabase: Address,
+    electionId: bigint,
+    voter: Address,
+    candidate: Address,
+    committed: boolean
+  ): BallotSecret {
+    if (committed) {
+      throw new Error(
+        `${voter} already committed a ballot in election ${electionId}`
+      );
+    }
+
+    const salt = generateSalt();
+    const secret: BallotSecret = {
+      chainId,
+      electionDatabase: getAddress(electionDatabase),
+      electionId: electionId.toString(),
+      voter: getAddress(voter),
+      candidate: getAddress(candidate),
+      salt,
+      commitment: computeCommitment(electionId, voter, candidate, salt),
+      createdAt: new Date().toISOString(),
+    };
+
+    const existing = this.find(chainId, electionDatabase, electionId, voter);
+    if (existing?.revealedAt) {
+      throw new Error(
+        `${voter} already revealed a ballot in election ${electionId}`
+      );
+    }
+    this.secrets = this.secrets.filter((s) => s !== existing);
+    this.secrets.push(secret);
+    this.save();
+    return secret;
+  }
+
+  /** Secrets of an election, optionally only the ones not revealed yet */
+  list(
+    chainId: number,
+    electionDatabase: Address,
+    electionId: bigint,
+    unrevealedOnly = false
+  ): BallotSecret[] {
+    return this.secrets.filter(
+      (s) =>
+        s.chainId === chainId &&
+        s.electionDatabase === getAddress(electionDatabase) &&
+        s.electionId === electionId.toString() &&
+        !(unrevealedOnly && s.revealedAt)
+    );
+  }
+
+  find(
+    chainId: number,
+    electionDatabase: Address,
+    electionId: bigint,
+    voter: Address
+  ): BallotSecret | undefined {
+    return this.list(chainId, electionDatabase, electionId).find(
+      (s) => s.voter === getAddress(voter)
+    );
+  }
+
+  /** Record that a ballot was revealed on-chain */
+  markRevealed(secret: BallotSecret): void {
+    secret.revealedAt = new Date().toISOString();
+    this.save();
+  }
+
+  private save(): void {
+    // private to the current user, and written to a temporary file first
+    // so an interrupted save keeps the old secrets
+    fs.mkdirSync(path.dirname(this.storePath), {
+      recursive: true,
+      mode: 0o700,
+    });
+    const tempPath = `${this.storePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.secrets, null, 2), {
+      mode: 0o600,
+    });
+    fs.renameSync(tempPath, this.storePath);
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Bulk candidate onboarding from a manifest file
+ *
+ * The manifest is YAML (.yaml/.yml) or JSON, holding either a list of candidates
+ * or an object with a `candidates` list. Every candidate has the keys
+ * `name, wallet, birthDate, gender, address, email` like the voter import, and
+ * `qualifications`/`manifesto` either inline or as `qualificationsFile`/
+ * `manifestoFile` paths relative to the manifest.
+ *
+ * Progress is tracked per row, so an interrupted import can be resumed without
+ * sending the transactions that already went through.
+ */
+
+import fs from "fs";
+import path from "path";
+import { Abi, Address, Hash } from "viem";
+import { parse as parseYaml } from "yaml";
+import { dateToEpoch1900, isEligible } from "./epoch1900";
+import { ChainElectClient } from "./sdk";
+import type { CandidateInput } from "./sdk";
+import { ContractCall, sendInChunks } from "./transactions";
+import { parseBirthDate, parseGender, parseWallet } from "./utils";
+
+export type RegistrationStatus =
+  | "registered"
+  | "already-registered"
+  | "rejected-underage"
+  | "rejected-invalid"
+  | "reverted";
+
+export type EnrollmentStatus = "enrolled" | "already-enrolled" | "reverted";
+
+export interface CandidateImportEntry {
+  // 1-based position of the candidate in the manifest
+  row: number;
+  wallet: string;
+  name: string;
+  registration?: RegistrationStatus;
+  registrationTx?: Hash;
+  enrollment?: EnrollmentStatus;
+  enrollmentTx?: Hash;
+  error?: string;
+}
+
+export interface CandidateImportProgress {
+  // decimal string, as bigints do not survive JSON
+  electionId?: string;
+  entries: CandidateImportEntry[];
+}
+
+export interface CandidateImportOptions {
+  // defaults to the minimum age of the CandidateDatabase
+  minEligibleAge?: number;
+  chunkSize: number;
+  // election to enroll every registered candidate in, if any
+  electionId?: bigint;
+  // progress of a previous run of the same manifest
+  progress?: CandidateImportProgress;
+  // called whenever an entry changes, to persist the progress
+  onProgress?: (progress: CandidateImportProgress) => void;
+}
+
+/** A manifest entry, as written by the user */
+export type CandidateManifestEntry = Record<string, unknown>;
+
+const REGISTERED: (RegistrationStatus | undefined)[] = [
+  "registered",
+  "already-registered",
+];
+const ENROLLED: (EnrollmentStatus | undefined)[] = [
+  "enrolled",
+  "already-enrolled",
+];
+
+/**
+ * Read the candidate list from a YAML or JSON manifest
+ * @param filePath Path to a .yaml, .yml or .json manifest
+ * @returns Manifest entries, in order
+ */
+export function readCandidateManifest(
+  filePath: string
+): CandidateManifestEntry[] {
+  const content = fs.readFileSync(filePath, "utf8");
+
+  let manifest: unknown;
+  switch (path.extname(filePath).toLowerCase()) {
+    case ".yaml":
+    case ".yml":
+      manifest = parseYaml(content);
+      break;
+    case ".json":
+      manifest = JSON.parse(content);
+      break;
+    default:
+      throw new Error(`Unsupported manifest format: ${filePath}`);
+  }
+
+  const entries = Array.isArray(manifest)
+    ? manifest
+    : (manifest as { candidates?: unknown })?.candidates;
+  if (!Array.isArray(entries)) {
+    throw new Error(`${filePath} must contain a list of candidates`);
+  }
+  return entries;
+}
+
+/**
+ * Validate and convert a manifest entry, loading the referenced text files
+ * @param entry Manifest entry
+ * @param baseDir Directory that file references are relative to
+ * @returns Checksummed wallet address and candidate details
+ */
+export function parseCandidateEntry(
+  entry: CandidateManifestEntry,
+  baseDir: string
+): { wallet: Address; candidate: CandidateInput } {
+  const field = (key: string) =>
+    entry[key] === undefined ? "" : String(entry[key]).trim();
+
+  const text = (key: "qualifications" | "manifesto") => {
+    const file = field(`${key}File`);
+    if (file === "") return field(key);
+
+    const filePath = path.resolve(baseDir, file);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`${key}File "${file}" not found`);
+    }
+    return fs.readFileSync(filePath, "utf8").trim();
+  };
+
+  const name = field("name");
+  if (name === "") throw new Error("Missing name");
+
+  return {
+    wallet: parseWallet(field("wallet")),
+    candidate: {
+      name,
+      dateOfBirth: parseBirthDate(field("birthDate")),
+      gender: parseGender(field("gender")),
+      presentAddress: field("address"),
+      email: field("email"),
+      qualifications: text("qualifications"),
+      manifesto: text("manifesto"),
+    },
+  };
+}
+
+/**
+ * Register candidates through `adminAddCandidate` and optionally enroll them
+ * in an election through `adminEnrollCandidate`
+ * @param client Client connected with an admin account of both databases
+ * @param entries Manifest entries as read by `readCandidateManifest`
+ * @param baseDir Directory that file references are relative to
+ * @param options Eligibility, chunking, target election and resume options
+ * @returns Final progress, one entry per manifest entry
+ */
+export async function importCandidates(
+  client: ChainElectClient,
+  entries: CandidateManifestEntry[],
+  baseDir: string,
+  options: CandidateImportOptions
+): Promise<CandidateImportProgress> {
+  const electionId = options.electionId?.toString();
+  if (options.progress && options.progress.electionId !== electionId) {
+    throw new Error(
+      `Progress belongs to an import into election ${options.progress.electionId ?? "(none)"}`
+    );
+  }
+
+  const progress: CandidateImportProgress = {
+    electionId,
+    entries: entries.map((entry, i) => {
+      const wallet = String(entry.wallet ?? "");
+      const previous = options.progress?.entries[i];
+      // only trust the previous run if the manifest row is still the same candidate
+      return previous?.wallet === wallet
+        ? previous
+        : { row: i + 1, wallet, name: String(entry.name ?? "") };
+    }),
+  };
+  const save = () => options.onProgress?.(progress);
+  const minEligibleAge =
+    options.minEligibleAge ?? (await client.getCandidateMinEligibleAge());
+
+  // Step 1: register the candidates
+  const registrations: ContractCall[] = [];
+  const registrationRows: number[] = [];
+  const seen = new Set<Address>();
+
+  for (const [i, entry] of entries.entries()) {
+    const state = progress.entries[i];
+    if (REGISTERED.includes(state.registration)) {
+      seen.add(parseWallet(state.wallet));
+      continue;
+    }
+    delete state.error;
+
+    let parsed: ReturnType<typeof parseCandidateEntry>;
+    try {
+      parsed = parseCandidateEntry(entry, baseDir);
+    } catch (err) {
+      state.registration = "rejected-invalid";
+      state.error = (err as Error).message;
+      continue;
+    }
+
+    const { wallet, candidate } = parsed;
+    const dateOfBirthEpoch1900 = dateToEpoch1900(candidate.dateOfBirth);
+    if (!isEligible(dateOfBirthEpoch1900, minEligibleAge)) {
+      state.registration = "rejected-underage";
+      continue;
+    }
+
+    if (seen.has(wallet) || (await client.isCandidateRegistered(wallet))) {
+      state.registration = "already-registered";
+      continue;
+    }
+    seen.add(wallet);
+
+    registrations.push({
+      address: client.addresses.candidateDatabase,
+      abi: client.abis.candidateDatabase as Abi,
+      functionName: "adminAddCandidate",
+      args: [
+        wallet,
+        candidate.name,
+        BigInt(dateOfBirthEpoch1900),
+        candidate.gender,
+        candidate.presentAddress,
+        candidate.email,
+        candidate.qualifications,
+        candidate.manifesto,
+      ],
+    });
+    registrationRows.push(i);
+  }
+  save();
+
+  await sendInChunks(
+    client,
+    registrations,
+    options.chunkSize,
+    (index, outcome) => {
+      const state = progress.entries[registrationRows[index]];
+      state.registration =
+        outcome.status === "success" ? "registered" : "reverted";
+      state.registrationTx = outcome.transactionHash;
+      if (outcome.status === "reverted") state.error = outcome.error;
+      save();
+    }
+  );
+
+  if (options.electionId === undefined) return progress;
+
+  // Step 2: enroll the registered candidates in the election
+  const { candidates: enrolled } = await client.getElection(options.electionId);
+  const enrollments: ContractCall[] = [];
+  const enrollmentRows: number[] = [];
+
+  for (const [i, state] of progress.entries.entries()) {
+    if (!REGISTERED.includes(state.registration)) continue;
+    if (ENROLLED.includes(state.enrollment)) continue;
+
+    const wallet = parseWallet(state.wallet);
+    if (enrolled.some((candidate) => candidate === wallet)) {
+      state.enrollment = "already-enrolled";
+      continue;
+    }
+
+    enrollments.push({
+      address: client.addresses.electionDatabase,
+      abi: client.abis.electionDatabase as Abi,
+      functionName: "adminEnrollCandidate",
+      args: [options.electionId, wallet],
+    });
+    enrollmentRows.push(i);
+  }
+  save();
+
+  await sendInChunks(
+    client,
+    enrollments,
+    options.chunkSize,
+    (index, outcome) => {
+      const state = progress.entries[enrollmentRows[index]];
+      state.enrollment = outcome.status === "success" ? "enrolled" : "reverted";
+      state.enrollmentTx = outcome.transactionHash;
+      if (outcome.status === "reverted") state.error = outcome.error;
+      save();
+    }
+  );
+
+  return progress;
+}
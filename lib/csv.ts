@@ -0,0 +1,94 @@
+/**
+ * Minimal CSV utilities (RFC 4180 quoting, first line is the header)
+ */
+
+/**
+ * Parse CSV text into one object per row, keyed by the header names
+ * @param text CSV content
+ * @returns Rows with trimmed header names as keys
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const records = parseRecords(text);
+  if (records.length === 0) return [];
+
+  const header = records[0].map((column) => column.trim());
+  return records
+    .slice(1)
+    .filter((record) => record.some((field) => field.trim() !== ""))
+    .map((record) =>
+      Object.fromEntries(header.map((column, i) => [column, record[i] ?? ""]))
+    );
+}
+
+/**
+ * Serialize rows as CSV, the header is the union of the keys of all rows
+ * @param rows Rows to serialize
+ * @returns CSV content
+ */
+export function toCsv(rows: object[]): string {
+  if (rows.length === 0) return "";
+
+  const header = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const lines = [
+    header.map(escapeField),
+    ...rows.map((row) =>
+      header.map((column) =>
+        escapeField(formatField((row as Record<string, unknown>)[column]))
+      )
+    ),
+  ];
+  return lines.map((line) => line.join(",")).join("\n") + "\n";
+}
+
+function formatField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function escapeField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function parseRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      // treat \r\n as a single line break
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
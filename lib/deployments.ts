@@ -0,0 +1,180 @@
+import fs from "fs";
+import path from "path";
+import type { Artifact, BuildInfo } from "hardhat/types";
+import { Address, getAddress, isAddressEqual } from "viem";
+import type { ChainElectAddresses } from "./sdk";
+
+// Hardhat Ignition keeps one directory per chain, named chain-<chainId>
+export const DEPLOYMENTS_DIR = path.join(__dirname, "../ignition/deployments");
+
+// Ignition future ids under which each contract may be recorded, in order of
+// preference: proxies of ChainElectUpgradeableModule first, then
+// ChainElectModule deployments record ElectionDatabase under its own id, older
+// deployments used the standalone ElectionDatabaseModule
+export const DEPLOYMENT_IDS: Record<keyof ChainElectAddresses, string[]> = {
+  voterDatabase: [
+    "ChainElectUpgradeableModule#VoterDatabaseProxy",
+    "VoterDatabaseModule#VoterDatabase",
+  ],
+  candidateDatabase: [
+    "ChainElectUpgradeableModule#CandidateDatabaseProxy",
+    "CandidateDatabaseModule#CandidateDatabase",
+  ],
+  electionDatabase: [
+    "ChainElectUpgradeableModule#ElectionDatabaseProxy",
+    "ChainElectModule#ElectionDatabase",
+    "ElectionDatabaseModule#ElectionDatabase",
+  ],
+};
+
+/**
+ * Get the path of the deployment directory of a chain
+ * @param chainId Chain ID of the network
+ * @returns Absolute path to ignition/deployments/chain-<chainId>
+ */
+export function getDeploymentDir(chainId: number): string {
+  return path.join(DEPLOYMENTS_DIR, `chain-${chainId}`);
+}
+
+/**
+ * List the chains that have an Ignition deployment directory
+ * @returns Chain IDs in ascending order
+ */
+export function listDeployedChainIds(): number[] {
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) return [];
+
+  return fs
+    .readdirSync(DEPLOYMENTS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => /^chain-(\d+)$/.exec(entry.name)?.[1])
+    .filter((chainId) => chainId !== undefined)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Read the raw `deployed_addresses.json` file of a chain
+ * @param chainId Chain ID of the network
+ * @returns Map of Ignition future ids to deployed addresses
+ */
+export function readDeploymentFile(chainId: number): Record<string, Address> {
+  const filePath = path.join(
+    getDeploymentDir(chainId),
+    "deployed_addresses.json"
+  );
+  if (!fs.existsSync(filePath)) {
+    throw new Error(
+      `No deployment found for chain ${chainId} (expected ${filePath})`
+    );
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Read the accounts that deployed each contract from the Ignition journal
+ * @param chainId Chain ID of the network
+ * @returns Checksummed deployer of every contract found in the journal
+ */
+export function readDeployers(
+  chainId: number
+): Partial<Record<keyof ChainElectAddresses, Address>> {
+  const filePath = path.join(getDeploymentDir(chainId), "journal.jsonl");
+  if (!fs.existsSync(filePath)) return {};
+
+  const deployers: Partial<Record<keyof ChainElectAddresses, Address>> = {};
+  const lines = fs.readFileSync(filePath, "utf8").split("\n");
+  for (const line of lines.filter((l) => l.trim() !== "")) {
+    const message = JSON.parse(line);
+    if (message.type !== "DEPLOYMENT_EXECUTION_STATE_INITIALIZE") continue;
+
+    for (const [contract, ids] of Object.entries(DEPLOYMENT_IDS)) {
+      if (ids.includes(message.futureId)) {
+        deployers[contract as keyof ChainElectAddresses] = getAddress(
+          message.from
+        );
+      }
+    }
+  }
+  return deployers;
+}
+
+/**
+ * Read the addresses of the three contracts recorded by Ignition for a chain
+ * @param chainId Chain ID of the network
+ * @returns Checksummed addresses of the deployed contracts
+ */
+export function readDeployedAddresses(chainId: number): ChainElectAddresses {
+  const deployedAddresses = readDeploymentFile(chainId);
+
+  const entries = Object.entries(DEPLOYMENT_IDS).map(([contract, ids]) => {
+    const address = ids
+      .map((id) => deployedAddresses[id])
+      .find((value) => value !== undefined);
+    if (!address) {
+      throw new Error(
+        `Address not found for ${ids.join(" or ")} on chain ${chainId}`
+      );
+    }
+    return [contract, getAddress(address)];
+  });
+
+  return Object.fromEntries(entries) as ChainElectAddresses;
+}
+
+/**
+ * Read the artifact and build info Ignition recorded for a deployed address
+ * @param chainId Chain ID of the network
+ * @param address Address of a contract deployed by Ignition, e.g. the
+ *        implementation behind a proxy, or the proxy itself
+ * @param contractName Only consider futures of this contract, a proxy shares
+ *        its address with the contract it is used as
+ * @returns The future recorded last, undefined if no future of the
+ *          deployment has this address, and no build info if Ignition did
+ *          not keep it
+ */
+export function readDeployedArtifact(
+  chainId: number,
+  address: Address,
+  contractName?: string
+): { futureId: string; artifact: Artifact; buildInfo?: BuildInfo } | undefined {
+  const deploymentDir = getDeploymentDir(chainId);
+  if (!fs.existsSync(path.join(deploymentDir, "deployed_addresses.json"))) {
+    return undefined;
+  }
+
+  const artifactsDir = path.join(deploymentDir, "artifacts");
+  const readJson = (filePath: string) =>
+    JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+  // deployed_addresses.json lists the futures in the order they completed
+  const recorded = Object.entries(readDeploymentFile(chainId))
+    .filter(([, deployed]) => isAddressEqual(deployed, address))
+    .map(([futureId]) => futureId)
+    .filter((futureId) =>
+      fs.existsSync(path.join(artifactsDir, `${futureId}.json`))
+    )
+    .map((futureId) => ({
+      futureId,
+      artifact: readJson(
+        path.join(artifactsDir, `${futureId}.json`)
+      ) as Artifact,
+    }))
+    .filter(
+      ({ artifact }) =>
+        contractName === undefined || artifact.contractName === contractName
+    )
+    .at(-1);
+  if (!recorded) return undefined;
+
+  const debugPath = path.join(artifactsDir, `${recorded.futureId}.dbg.json`);
+  const buildInfoPath =
+    fs.existsSync(debugPath) &&
+    path.resolve(artifactsDir, readJson(debugPath).buildInfo);
+  return {
+    ...recorded,
+    buildInfo:
+      buildInfoPath && fs.existsSync(buildInfoPath)
+        ? readJson(buildInfoPath)
+        : undefined,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Health checks for a deployed ChainElect system
+ *
+ * Verifies the wiring that the contracts rely on but cannot enforce themselves:
+ * ElectionDatabase must reference the recorded databases and hold SYSTEM_ROLE on both,
+ * every database must be owned by the expected account, and the deployed code,
+ * or the implementation behind a proxy, must match the local build.
+ */
+
+import type { Artifacts } from "hardhat/types";
+import { Address, Hex, isAddressEqual } from "viem";
+import { ChainElectClient, ROLES } from "./sdk";
+import type { ChainElectAddresses } from "./sdk";
+
+export interface HealthCheck {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+// Contract names of the databases, as used in the Hardhat artifacts
+export const CONTRACT_NAMES: Record<keyof ChainElectAddresses, string> = {
+  voterDatabase: "VoterDatabase",
+  candidateDatabase: "CandidateDatabase",
+  electionDatabase: "ElectionDatabase",
+};
+
+const DATABASES = Object.keys(CONTRACT_NAMES) as (keyof ChainElectAddresses)[];
+
+/**
+ * Run every health check against the addresses the client is configured with
+ * @param client Client pointing at the recorded deployment
+ * @param artifacts Artifacts of the local build, for the bytecode comparison
+ * @param expectedOwners Expected owner of every database
+ * @returns One result per check, in a stable order
+ */
+export async function checkDeployment(
+  client: ChainElectClient,
+  artifacts: Artifacts,
+  expectedOwners: Record<keyof ChainElectAddresses, Address>
+): Promise<HealthCheck[]> {
+  const { addresses } = client;
+  const checks: HealthCheck[] = [];
+
+  // a failing RPC call fails the check instead of aborting the whole run
+  const check = async (
+    name: string,
+    run: () => Promise<{ passed: boolean; detail: string }>
+  ) => {
+    try {
+      checks.push({ name, ...(await run()) });
+    } catch (err) {
+      checks.push({ name, passed: false, detail: (err as Error).message });
+    }
+  };
+
+  for (const database of DATABASES) {
+    await check(`${CONTRACT_NAMES[database]} bytecode`, async () => {
+      // proxied databases run the code of their implementation
+      const implementation = await client.getImplementation(database);
+      const address = implementation ?? addresses[database];
+      const matches = await matchesLocalBytecode(
+        client,
+        artifacts,
+        CONTRACT_NAMES[database],
+        address
+      );
+      return {
+        passed: matches,
+        detail: matches
+          ? `${address} matches the local artifact`
+          : `${address} differs from the local artifact`,
+      };
+    });
+  }
+
+  for (const database of ["voterDatabase", "candidateDatabase"] as const) {
+    await check(
+      `ElectionDatabase references ${CONTRACT_NAMES[database]}`,
+      async () => {
+        const actual = (await client.getDatabases())[database];
+        return {
+          passed: isAddressEqual(actual, addresses[database]),
+          detail: `getDatabases() returns ${actual}, recorded ${addresses[database]}`,
+        };
+      }
+    );
+
+    await check(
+      `ElectionDatabase holds SYSTEM_ROLE on ${CONTRACT_NAMES[database]}`,
+      async () => {
+        const passed = await client.hasRole(
+          database,
+          ROLES.SYSTEM,
+          addresses.electionDatabase
+        );
+        return {
+          passed,
+          detail: `hasRole(SYSTEM_ROLE, ${addresses.electionDatabase}) is ${passed}`,
+        };
+      }
+    );
+  }
+
+  for (const database of DATABASES) {
+    await check(`${CONTRACT_NAMES[database]} owner`, async () => {
+      const owner = await client.getOwner(database);
+      return {
+        passed: isAddressEqual(owner, expectedOwners[database]),
+        detail: `owned by ${owner}, expected ${expectedOwners[database]}`,
+      };
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Compare deployed runtime code with the local artifact
+ * @dev Immutable values are only known at deployment time, so their byte
+ *      ranges are zeroed in the deployed code before comparing
+ */
+async function matchesLocalBytecode(
+  client: ChainElectClient,
+  artifacts: Artifacts,
+  contractName: string,
+  address: Address
+): Promise<boolean> {
+  const artifact = await artifacts.readArtifact(contractName);
+  const buildInfo = await artifacts.getBuildInfo(
+    `${artifact.sourceName}:${artifact.contractName}`
+  );
+  const immutableReferences =
+    buildInfo?.output.contracts[artifact.sourceName][artifact.contractName].evm
+      .deployedBytecode.immutableReferences ?? {};
+
+  const code: Hex | undefined = await client.publicClient.getCode({ address });
+  if (!code) throw new Error(`No code at ${address}`);
+
+  // hex strings have two characters per byte after the 0x prefix
+  let deployed = code.toLowerCase();
+  for (const references of Object.values(immutableReferences)) {
+    for (const { start, length } of references) {
+      const from = 2 + start * 2;
+      deployed =
+        deployed.slice(0, from) +
+        "0".repeat(length * 2) +
+        deployed.slice(from + length * 2);
+    }
+  }
+
+  return deployed === artifact.deployedBytecode.toLowerCase();
+}
@@ -0,0 +1,53 @@
+/**
+ * Published electoral roll files
+ *
+ * The file lists the voters an election was opened with, so anyone can rebuild
+ * the Merkle tree, check its root against `getElectoralRoll` and compute the
+ * proof of a voter.
+ */
+
+import fs from "fs";
+import path from "path";
+import { Address, Hex } from "viem";
+import { buildElectoralRoll } from "./sdk";
+import type { ElectoralRoll } from "./sdk";
+
+export interface ElectoralRollFile {
+  chainId: number;
+  electionDatabase: Address;
+  // decimal string, JSON has no bigint
+  electionId: string;
+  root: Hex;
+  // block the registered voters were read at
+  blockNumber: string;
+  voters: Address[];
+}
+
+/** Where the roll of an election is published by default */
+export function defaultRollPath(electionId: bigint): string {
+  return path.join("rolls", `election-${electionId}.json`);
+}
+
+/** Write the roll file, creating its directory */
+export function writeRollFile(filePath: string, file: ElectoralRollFile): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2) + "\n");
+}
+
+/**
+ * Read a roll file and rebuild its tree
+ * @throws If the voters do not hash to the root recorded in the file
+ */
+export function readRollFile(filePath: string): {
+  file: ElectoralRollFile;
+  roll: ElectoralRoll;
+} {
+  const file: ElectoralRollFile = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  const roll = buildElectoralRoll(file.voters);
+  if (roll.root !== file.root) {
+    throw new Error(
+      `${filePath} is corrupted, its voters hash to ${roll.root} instead of ${file.root}`
+    );
+  }
+  return { file, roll };
+}
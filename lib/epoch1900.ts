@@ -5,6 +5,8 @@
  * in TypeScript, particularly for use in tests.
  */
 
+import { getAgeAt } from "./sdk/eligibility";
+
 // The offset between Unix epoch (1970-01-01) and Epoch1900 (1900-01-01)
 // 70 years = 70 * 365 + 17 leap days = 25567 days = 2208988800 seconds
 const EPOCH_OFFSET = 2208988800;
@@ -98,12 +100,13 @@ export function calculateAge(birthDateEpoch1900: number): number {
 
 /**
  * Check if a person is eligible based on minimum age
+ * @dev Ages are counted in 365-day years like the databases, see `getAgeAt`
  * @param birthDateEpoch1900 Birth date as Epoch1900 timestamp
- * @param minEligibleAge Minimum eligible age
+ * @param minEligibleAge Minimum eligible age, as read from the database
  * @returns Whether the person meets minimum age requirements
  */
 export function isEligible(birthDateEpoch1900: number, minEligibleAge: number): boolean {
-    return calculateAge(birthDateEpoch1900) >= minEligibleAge;
+    return getAgeAt(epoch1900ToDate(birthDateEpoch1900), new Date()) >= minEligibleAge;
 }
 
 // Export a specific type for Epoch1900
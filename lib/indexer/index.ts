@@ -0,0 +1,21 @@
+/**
+ * Chain Elect event indexer
+ *
+ * Replays the events of the three contracts into a local JSON file and builds a
+ * normalized model of elections, voters, candidates and votes from them.
+ *
+ * Usage:
+ * ```ts
+ * const indexer = await ChainElectIndexer.open({
+ *   client,
+ *   storePath: "indexer/chain-31337.json",
+ * });
+ * await indexer.sync();
+ * const elections = indexer.getElectionsOfVoter("0x...");
+ * ```
+ */
+
+export { ChainElectIndexer } from "./indexer";
+export type { ChainElectIndexerOptions, SyncResult } from "./indexer";
+export { buildModel } from "./model";
+export type * from "./types";
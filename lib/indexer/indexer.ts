@@ -0,0 +1,244 @@
+import fs from "fs";
+import path from "path";
+import {
+  Address,
+  BlockNotFoundError,
+  decodeEventLog,
+  getAddress,
+  Log,
+} from "viem";
+import { ChainElectClient } from "../sdk";
+import type { ChainElectAddresses } from "../sdk";
+import { buildModel } from "./model";
+import type {
+  IndexedArg,
+  IndexedElection,
+  IndexedEvent,
+  IndexedModel,
+  IndexerState,
+} from "./types";
+
+export interface ChainElectIndexerOptions {
+  client: ChainElectClient;
+  // JSON file the state is kept in, created on the first sync
+  storePath: string;
+  // first block to index, usually the block the contracts were deployed in
+  startBlock?: number;
+  // number of blocks to re-index when the last indexed block was reorged out
+  reorgDepth?: number;
+  // maximum block range per eth_getLogs request
+  batchSize?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: number;
+  // set when a reorg was detected, the block the index was rewound to
+  rewoundTo?: number;
+}
+
+/**
+ * Replays the events of the three contracts into a local JSON store
+ *
+ * Every sync resumes after the last indexed block. If that block is no longer
+ * part of the chain, the index is rewound by `reorgDepth` blocks first, so
+ * reorgs deeper than that are not recovered from.
+ */
+export class ChainElectIndexer {
+  readonly client: ChainElectClient;
+  readonly storePath: string;
+  readonly startBlock: number;
+  readonly reorgDepth: number;
+  readonly batchSize: number;
+  private state: IndexerState;
+
+  private constructor(options: ChainElectIndexerOptions, state: IndexerState) {
+    this.client = options.client;
+    this.storePath = options.storePath;
+    this.startBlock = options.startBlock ?? 0;
+    this.reorgDepth = options.reorgDepth ?? 12;
+    this.batchSize = options.batchSize ?? 2000;
+    this.state = state;
+  }
+
+  /**
+   * Open the store at `storePath`, or start an empty one
+   * @dev Throws if the store was built for another chain or other contracts
+   */
+  static async open(
+    options: ChainElectIndexerOptions
+  ): Promise<ChainElectIndexer> {
+    const chainId = await options.client.publicClient.getChainId();
+    const { addresses } = options.client;
+
+    if (!fs.existsSync(options.storePath)) {
+      return new ChainElectIndexer(options, { chainId, addresses, events: [] });
+    }
+
+    const state: IndexerState = JSON.parse(
+      fs.readFileSync(options.storePath, "utf8")
+    );
+    const sameContracts = Object.keys(addresses).every(
+      (key) =>
+        state.addresses[key as keyof ChainElectAddresses] ===
+        addresses[key as keyof ChainElectAddresses]
+    );
+    if (state.chainId !== chainId || !sameContracts) {
+      throw new Error(
+        `${options.storePath} was built for other contracts or another chain (chain ${state.chainId})`
+      );
+    }
+    return new ChainElectIndexer(options, state);
+  }
+
+  /** Last indexed block, undefined before the first sync */
+  get lastBlock(): number | undefined {
+    return this.state.lastBlock;
+  }
+
+  get events(): readonly IndexedEvent[] {
+    return this.state.events;
+  }
+
+  getModel(): IndexedModel {
+    return buildModel(this.state.events);
+  }
+
+  /** Elections the voter has voted in, in the order the votes were cast */
+  getElectionsOfVoter(voter: Address): IndexedElection[] {
+    const model = this.getModel();
+    const ids = model.voters[getAddress(voter)]?.elections ?? [];
+    return ids.map((id) => model.elections[id]).filter(Boolean);
+  }
+
+  /**
+   * Index all blocks after the last indexed one, saving after every batch
+   * @param toBlock Last block to index, defaults to the current head
+   */
+  async sync(toBlock?: number): Promise<SyncResult> {
+    const { publicClient } = this.client;
+
+    const { lastBlock } = this.state;
+    let rewoundTo: number | undefined;
+    if (lastBlock !== undefined && (await this.isReorged(lastBlock))) {
+      rewoundTo = await this.rewind(
+        Math.max(this.startBlock - 1, lastBlock - this.reorgDepth)
+      );
+    }
+
+    const head = toBlock ?? Number(await publicClient.getBlockNumber());
+    const fromBlock = (this.state.lastBlock ?? this.startBlock - 1) + 1;
+    let newEvents = 0;
+
+    for (let from = fromBlock; from <= head; from += this.batchSize) {
+      const to = Math.min(from + this.batchSize - 1, head);
+      const logs = await publicClient.getLogs({
+        address: Object.values(this.client.addresses),
+        fromBlock: BigInt(from),
+        toBlock: BigInt(to),
+      });
+      const block = await publicClient.getBlock({ blockNumber: BigInt(to) });
+
+      const events = logs
+        .map((log) => this.decode(log))
+        .filter((event) => event !== undefined);
+      this.state.events.push(...events);
+      this.state.lastBlock = to;
+      this.state.lastBlockHash = block.hash;
+      this.save();
+      newEvents += events.length;
+    }
+
+    return { fromBlock, toBlock: head, newEvents, rewoundTo };
+  }
+
+  private async isReorged(lastBlock: number): Promise<boolean> {
+    try {
+      const block = await this.client.publicClient.getBlock({
+        blockNumber: BigInt(lastBlock),
+      });
+      return block.hash !== this.state.lastBlockHash;
+    } catch (err) {
+      // the chain is now shorter than what was indexed
+      if (err instanceof BlockNotFoundError) return true;
+      throw err;
+    }
+  }
+
+  /**
+   * Drop everything indexed after `blockNumber`
+   * @dev The chain may now be shorter than that, the head is used then
+   * @returns The block the index was rewound to
+   */
+  private async rewind(blockNumber: number): Promise<number> {
+    const head = Number(await this.client.publicClient.getBlockNumber());
+    blockNumber = Math.min(blockNumber, head);
+    this.state.events = this.state.events.filter(
+      (event) => event.blockNumber <= blockNumber
+    );
+
+    if (blockNumber < this.startBlock) {
+      delete this.state.lastBlock;
+      delete this.state.lastBlockHash;
+    } else {
+      const block = await this.client.publicClient.getBlock({
+        blockNumber: BigInt(blockNumber),
+      });
+      this.state.lastBlock = blockNumber;
+      this.state.lastBlockHash = block.hash;
+    }
+    this.save();
+    return blockNumber;
+  }
+
+  private decode(log: Log<bigint, number, false>): IndexedEvent | undefined {
+    const contract = (
+      Object.keys(this.client.addresses) as (keyof ChainElectAddresses)[]
+    ).find(
+      (key) =>
+        this.client.addresses[key].toLowerCase() === log.address.toLowerCase()
+    );
+    if (!contract) return undefined;
+
+    try {
+      const { eventName, args } = decodeEventLog({
+        abi: this.client.abis[contract],
+        data: log.data,
+        topics: log.topics,
+      });
+      return {
+        contract,
+        eventName,
+        args: Object.fromEntries(
+          Object.entries(args ?? {}).map(([key, value]) => [key, toArg(value)])
+        ),
+        blockNumber: Number(log.blockNumber),
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+      };
+    } catch {
+      // events outside of the ABI, e.g. from a newer contract version
+      return undefined;
+    }
+  }
+
+  private save(): void {
+    // write to a temporary file first, so an interrupted save keeps the old state
+    fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+    const tempPath = `${this.storePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tempPath, this.storePath);
+  }
+}
+
+/** Store scalars as strings, arrays and structs as JSON arrays and objects of strings */
+function toArg(value: unknown): IndexedArg {
+  if (typeof value !== "object" || value === null) return String(value);
+  return JSON.parse(
+    JSON.stringify(value, (_, item: unknown) =>
+      typeof item === "object" && item !== null ? item : String(item)
+    )
+  );
+}
@@ -0,0 +1,184 @@
+import { Address, getAddress } from "viem";
+import type {
+  IndexedCandidate,
+  IndexedElection,
+  IndexedEvent,
+  IndexedModel,
+  IndexedVoter,
+} from "./types";
+
+/**
+ * Replay stored events into the normalized model
+ * @param events Events in chain order
+ * @returns Elections, voters, candidates and votes as of the last event
+ */
+export function buildModel(events: IndexedEvent[]): IndexedModel {
+  const model: IndexedModel = {
+    elections: {},
+    voters: {},
+    candidates: {},
+    votes: [],
+  };
+
+  const voter = (address: Address, blockNumber: number): IndexedVoter =>
+    (model.voters[address] ??= {
+      address,
+      registered: false,
+      registeredAtBlock: blockNumber,
+      elections: [],
+    });
+
+  const candidate = (address: Address, blockNumber: number): IndexedCandidate =>
+    (model.candidates[address] ??= {
+      address,
+      registered: false,
+      registeredAtBlock: blockNumber,
+      elections: [],
+    });
+
+  const enroll = (
+    election: IndexedElection,
+    address: Address,
+    block: number
+  ) => {
+    if (!election.candidates.includes(address)) {
+      election.candidates.push(address);
+    }
+    const entry = candidate(address, block);
+    if (!entry.elections.includes(election.id)) {
+      entry.elections.push(election.id);
+    }
+  };
+
+  const withdraw = (
+    election: IndexedElection,
+    address: Address,
+    block: number
+  ) => {
+    election.candidates = election.candidates.filter((c) => c !== address);
+    const entry = candidate(address, block);
+    entry.elections = entry.elections.filter((id) => id !== election.id);
+  };
+
+  for (const event of events) {
+    const { blockNumber } = event;
+    // only the ballots of ranked and approval votes are arrays
+    const args = event.args as Record<string, string>;
+    const election = model.elections[args.electionId];
+
+    switch (`${event.contract}.${event.eventName}`) {
+      // ElectionDatabase
+      case "electionDatabase.AdminCreatedElection":
+        model.elections[args.electionId] = {
+          id: args.electionId,
+          name: args.name,
+          creator: getAddress(args.creator),
+          isOpen: false,
+          deleted: false,
+          candidates: [],
+          votes: [],
+          createdAtBlock: blockNumber,
+        };
+        break;
+      case "electionDatabase.AdminUpdatedElection":
+        if (election) election.name = args.name;
+        break;
+      case "electionDatabase.AdminDeletedElection":
+        if (election) {
+          election.deleted = true;
+          election.isOpen = false;
+          for (const address of election.candidates) {
+            withdraw(election, address, blockNumber);
+          }
+        }
+        break;
+      case "electionDatabase.ElectionOpened":
+        if (election) election.isOpen = true;
+        break;
+      case "electionDatabase.ElectionClosed":
+        if (election) election.isOpen = false;
+        break;
+      case "electionDatabase.CandidateEnrolled":
+      case "electionDatabase.AdminEnrolledCandidate":
+        if (election) enroll(election, getAddress(args.candidate), blockNumber);
+        break;
+      case "electionDatabase.CandidateWithdrawn":
+      case "electionDatabase.AdminRemovedCandidate":
+        if (election) {
+          withdraw(election, getAddress(args.candidate), blockNumber);
+        }
+        break;
+      case "electionDatabase.VoterVoted":
+      case "electionDatabase.VoterRankedVoted":
+      case "electionDatabase.VoterApprovalVoted": {
+        // ranked ballots count for the first choice, approval ones once for
+        // every approved candidate
+        const { approvals, rankings } = event.args as Record<string, string[]>;
+        const candidates = args.candidate
+          ? [args.candidate]
+          : (approvals ?? [rankings[0]]);
+        for (const candidate of candidates) {
+          const vote = {
+            electionId: args.electionId,
+            voter: getAddress(args.voter),
+            candidate: getAddress(candidate),
+            blockNumber,
+            transactionHash: event.transactionHash,
+          };
+          model.votes.push(vote);
+          election?.votes.push(vote);
+        }
+        voter(getAddress(args.voter), blockNumber).elections.push(
+          args.electionId
+        );
+        break;
+      }
+      // secret ballots take part on commit and count once revealed
+      case "electionDatabase.VoteCommitted":
+        voter(getAddress(args.voter), blockNumber).elections.push(
+          args.electionId
+        );
+        break;
+      case "electionDatabase.VoteRevealed": {
+        const vote = {
+          electionId: args.electionId,
+          voter: getAddress(args.voter),
+          candidate: getAddress(args.candidate),
+          blockNumber,
+          transactionHash: event.transactionHash,
+        };
+        model.votes.push(vote);
+        election?.votes.push(vote);
+        break;
+      }
+
+      // VoterDatabase
+      case "voterDatabase.VoterRegistered":
+      case "voterDatabase.AdminAddedVoter": {
+        const entry = voter(getAddress(args.voter), blockNumber);
+        entry.registered = true;
+        entry.registeredAtBlock = blockNumber;
+        break;
+      }
+      case "voterDatabase.VoterDeleted":
+      case "voterDatabase.AdminRemovedVoter":
+        voter(getAddress(args.voter), blockNumber).registered = false;
+        break;
+
+      // CandidateDatabase
+      case "candidateDatabase.CandidateRegistered":
+      case "candidateDatabase.AdminAddedCandidate": {
+        const entry = candidate(getAddress(args.candidate), blockNumber);
+        entry.registered = true;
+        entry.registeredAtBlock = blockNumber;
+        break;
+      }
+      case "candidateDatabase.CandidateDeleted":
+      case "candidateDatabase.AdminRemovedCandidate":
+        candidate(getAddress(args.candidate), blockNumber).registered = false;
+        break;
+    }
+  }
+
+  return model;
+}
@@ -0,0 +1,77 @@
+import type { Address, Hash } from "viem";
+import type { ChainElectAddresses } from "../sdk";
+
+/**
+ * A decoded contract event as kept in the store
+ * @dev Event names are only unique per contract (both ElectionDatabase and
+ *      CandidateDatabase emit `AdminRemovedCandidate`), so the contract is
+ *      stored alongside. Integer arguments are stored as decimal strings,
+ *      arrays and structs as JSON arrays and objects of those.
+ */
+export interface IndexedEvent {
+  contract: keyof ChainElectAddresses;
+  eventName: string;
+  args: Record<string, IndexedArg>;
+  blockNumber: number;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+/** A stored event argument, see `IndexedEvent` */
+export type IndexedArg = string | IndexedArg[] | { [key: string]: IndexedArg };
+
+/** Everything the indexer persists between runs */
+export interface IndexerState {
+  chainId: number;
+  addresses: ChainElectAddresses;
+  // last block whose events are all in `events`, undefined before the first sync
+  lastBlock?: number;
+  lastBlockHash?: Hash;
+  events: IndexedEvent[];
+}
+
+/** One vote for one candidate, an approval ballot yields one per approved candidate */
+export interface IndexedVote {
+  electionId: string;
+  voter: Address;
+  candidate: Address;
+  blockNumber: number;
+  transactionHash: Hash;
+}
+
+export interface IndexedElection {
+  id: string;
+  name: string;
+  creator: Address;
+  isOpen: boolean;
+  deleted: boolean;
+  // candidates currently enrolled
+  candidates: Address[];
+  votes: IndexedVote[];
+  createdAtBlock: number;
+}
+
+export interface IndexedVoter {
+  address: Address;
+  registered: boolean;
+  registeredAtBlock: number;
+  // ids of the elections the voter voted in
+  elections: string[];
+}
+
+export interface IndexedCandidate {
+  address: Address;
+  registered: boolean;
+  registeredAtBlock: number;
+  // ids of the elections the candidate is currently enrolled in
+  elections: string[];
+}
+
+/** Normalized view of the system, rebuilt from the stored events */
+export interface IndexedModel {
+  elections: Record<string, IndexedElection>;
+  voters: Record<Address, IndexedVoter>;
+  candidates: Record<Address, IndexedCandidate>;
+  votes: IndexedVote[];
+}
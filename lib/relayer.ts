@@ -0,0 +1,189 @@
+/**
+ * Relayer for signed ballots
+ *
+ * Accepts ballots signed with `signBallot` over plain HTTP and submits them
+ * through `voteBySig`, so voters do not need ETH. Every ballot is checked
+ * off-chain and simulated before it is sent, a rejected ballot costs nothing.
+ *
+ * Routes:
+ * - GET /health: the relayer account, chain and contract
+ * - POST /ballots: a JSON ballot, bigints as decimal strings, answers with the receipt
+ */
+
+import http from "http";
+import { Address, getAddress, Hex, isAddress, isHex } from "viem";
+import { verifyBallotSignature } from "./sdk";
+import type { ChainElectClient, SignedBallot } from "./sdk";
+import { describeError } from "./transactions";
+
+// signed ballots are a few hundred bytes
+const MAX_BODY_BYTES = 16 * 1024;
+
+export interface RelayedBallot {
+  voter: Address;
+  transactionHash: Hex;
+  blockNumber: bigint;
+}
+
+class RelayerError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Create the relayer HTTP server, `listen` is left to the caller
+ * @param client Client whose wallet account pays for the submitted ballots
+ * @param onRelayed Called after every submitted ballot, e.g. for logging
+ */
+export function createRelayer(
+  client: ChainElectClient,
+  onRelayed?: (ballot: RelayedBallot) => void
+): http.Server {
+  const { account } = client.requireWallet();
+  // ballots are submitted one at a time, so the relayer nonce never races
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return http.createServer(async (request, response) => {
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(
+        JSON.stringify(body, (_key, v) =>
+          typeof v === "bigint" ? v.toString() : v
+        ) + "\n"
+      );
+    };
+
+    try {
+      if (request.method === "GET" && request.url === "/health") {
+        return send(200, {
+          relayer: account,
+          chainId: await client.publicClient.getChainId(),
+          electionDatabase: client.addresses.electionDatabase,
+        });
+      }
+      if (request.method !== "POST" || request.url !== "/ballots") {
+        throw new RelayerError(404, "Not found");
+      }
+
+      const ballot = parseBallot(await readBody(request));
+      const relay = queue.then(() => relayBallot(client, ballot));
+      queue = relay.catch(() => undefined);
+      const relayed = await relay;
+      onRelayed?.(relayed);
+      send(200, relayed);
+    } catch (err) {
+      if (err instanceof RelayerError) {
+        send(err.status, { error: err.message });
+      } else {
+        send(500, { error: describeError(err) });
+      }
+    }
+  });
+}
+
+/**
+ * Check, simulate and submit a signed ballot
+ * @throws RelayerError 422 if the ballot would be rejected by the contract
+ */
+async function relayBallot(
+  client: ChainElectClient,
+  ballot: SignedBallot
+): Promise<RelayedBallot> {
+  const { account } = client.requireWallet();
+  const { publicClient, addresses, abis } = client;
+
+  const nonce = await client.getBallotNonce(ballot.voter);
+  const valid = await verifyBallotSignature(
+    ballot,
+    nonce,
+    await publicClient.getChainId(),
+    addresses.electionDatabase
+  );
+  if (!valid) {
+    throw new RelayerError(422, "ElectionDatabase__InvalidSignature");
+  }
+
+  try {
+    await publicClient.simulateContract({
+      address: addresses.electionDatabase,
+      abi: abis.electionDatabase,
+      functionName: "voteBySig",
+      args: [
+        ballot.electionId,
+        ballot.candidate,
+        ballot.voter,
+        ballot.deadline,
+        ballot.signature,
+      ],
+      account,
+    });
+  } catch (err) {
+    throw new RelayerError(422, describeError(err, abis.electionDatabase));
+  }
+
+  const receipt = await client.voteBySig(ballot);
+  return {
+    voter: ballot.voter,
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+  };
+}
+
+/**
+ * Validate a ballot as sent by the frontend
+ * @throws RelayerError 400 on missing or malformed fields
+ */
+function parseBallot(body: string): SignedBallot {
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    throw new RelayerError(400, "Body must be JSON");
+  }
+
+  const integer = (key: string) => {
+    const value = json[key];
+    if (typeof value !== "string" || !/^\d+$/.test(value)) {
+      throw new RelayerError(400, `${key} must be a decimal string`);
+    }
+    return BigInt(value);
+  };
+  const address = (key: string) => {
+    const value = json[key];
+    if (typeof value !== "string" || !isAddress(value)) {
+      throw new RelayerError(400, `${key} must be an address`);
+    }
+    return getAddress(value);
+  };
+  if (!isHex(json.signature)) {
+    throw new RelayerError(400, "signature must be hex");
+  }
+
+  return {
+    electionId: integer("electionId"),
+    candidate: address("candidate"),
+    voter: address("voter"),
+    deadline: integer("deadline"),
+    signature: json.signature,
+  };
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new RelayerError(413, "Ballot too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
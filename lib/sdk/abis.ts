@@ -0,0 +1,29 @@
+import type { Artifacts } from "hardhat/types";
+import type {
+  CandidateDatabaseAbi,
+  ChainElectAbis,
+  ElectionDatabaseAbi,
+  VoterDatabaseAbi,
+} from "./types";
+
+/**
+ * Read the ABIs of the three contracts from the Hardhat artifacts
+ * @param artifacts The artifacts object of the Hardhat runtime environment
+ * @returns ABIs ready to be passed to `ChainElectClient`
+ */
+export async function loadChainElectAbis(
+  artifacts: Artifacts
+): Promise<ChainElectAbis> {
+  const [voterDatabase, candidateDatabase, electionDatabase] =
+    await Promise.all([
+      artifacts.readArtifact("VoterDatabase"),
+      artifacts.readArtifact("CandidateDatabase"),
+      artifacts.readArtifact("ElectionDatabase"),
+    ]);
+
+  return {
+    voterDatabase: voterDatabase.abi as VoterDatabaseAbi,
+    candidateDatabase: candidateDatabase.abi as CandidateDatabaseAbi,
+    electionDatabase: electionDatabase.abi as ElectionDatabaseAbi,
+  };
+}
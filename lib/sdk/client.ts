@@ -0,0 +1,1350 @@
+import {
+  Abi,
+  Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  ContractFunctionReturnType,
+  getAddress,
+  Hash,
+  Hex,
+  parseEventLogs,
+  PublicClient,
+  slice,
+  TransactionReceipt,
+  WalletClient,
+  zeroAddress,
+  zeroHash,
+} from "viem";
+import { dateToEpoch1900, epoch1900ToDate } from "../epoch1900";
+import {
+  decodeEligibilityRules,
+  decodeRegion,
+  encodeEligibilityRules,
+  encodeRegion,
+  explainCandidateEligibility,
+  explainVoterEligibility,
+} from "./eligibility";
+import { fromUnixTime, toUnixTime } from "./schedule";
+import { signBallot } from "./signed-ballot";
+import {
+  ElectionType,
+  ElectionTypeEnum,
+  Gender,
+  ResultStatus,
+  TieBreakPolicy,
+} from "../../types";
+import type {
+  ApprovalDistribution,
+  Candidate,
+  CandidateDatabaseAbi,
+  CandidateInput,
+  ChainElectAbis,
+  CommitStats,
+  ChainElectAddresses,
+  EligibilityCheck,
+  EligibilityProfile,
+  EligibilityRules,
+  Election,
+  ElectionDatabaseAbi,
+  ElectionSchedule,
+  SignedBallot,
+  TieBreak,
+  Voter,
+  VoterDatabaseAbi,
+  VoterInput,
+} from "./types";
+
+// ERC-1967 slot holding the implementation of a ChainElectProxy
+export const IMPLEMENTATION_SLOT: Hex =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+type ReadName<TAbi extends Abi> = ContractFunctionName<TAbi, "view" | "pure">;
+type WriteName<TAbi extends Abi> = ContractFunctionName<TAbi, "nonpayable">;
+
+export interface ChainElectClientOptions {
+  publicClient: PublicClient;
+  // required only for writes and for reads that depend on msg.sender
+  walletClient?: WalletClient;
+  addresses: ChainElectAddresses;
+  abis: ChainElectAbis;
+}
+
+/**
+ * Typed client for the VoterDatabase, CandidateDatabase and ElectionDatabase contracts
+ * @dev Reads return named objects instead of positional tuples, Epoch1900 values are
+ *      converted to Date, and every write resolves to the mined transaction receipt
+ */
+export class ChainElectClient {
+  readonly publicClient: PublicClient;
+  readonly walletClient?: WalletClient;
+  readonly addresses: ChainElectAddresses;
+  readonly abis: ChainElectAbis;
+
+  constructor(options: ChainElectClientOptions) {
+    this.publicClient = options.publicClient;
+    this.walletClient = options.walletClient;
+    this.addresses = options.addresses;
+    this.abis = options.abis;
+  }
+
+  /**
+   * Create a client from the ElectionDatabase address only,
+   * the database addresses are read from `ElectionDatabase.getDatabases()`
+   */
+  static async fromElectionDatabase(
+    options: Omit<ChainElectClientOptions, "addresses"> & {
+      electionDatabase: Address;
+    }
+  ): Promise<ChainElectClient> {
+    const [voterDatabase, candidateDatabase] =
+      await options.publicClient.readContract({
+        address: options.electionDatabase,
+        abi: options.abis.electionDatabase,
+        functionName: "getDatabases",
+        args: [],
+      });
+
+    return new ChainElectClient({
+      ...options,
+      addresses: {
+        voterDatabase,
+        candidateDatabase,
+        electionDatabase: options.electionDatabase,
+      },
+    });
+  }
+
+  /** The account used for writes and msg.sender dependent reads, if any */
+  get account(): Address | undefined {
+    return this.walletClient?.account?.address;
+  }
+
+  /**
+   * Get the wallet client and its account, for writes sent outside of the client
+   * @dev Throws if the client was created without a wallet account
+   */
+  requireWallet(): { walletClient: WalletClient; account: Address } {
+    const account = this.walletClient?.account;
+    if (!this.walletClient || !account) {
+      throw new Error(
+        "ChainElectClient: a wallet client with an account is required for this call"
+      );
+    }
+    return { walletClient: this.walletClient, account: account.address };
+  }
+
+  // ------------------------------------------------------------------
+  // Elections
+  // ------------------------------------------------------------------
+
+  async getElection(electionId: bigint): Promise<Election> {
+    const [
+      [name, description, isActive, candidates, totalVotes, createdAt],
+      electionType,
+      schedule,
+    ] = await Promise.all([
+      this.readElection("getElectionDetails", [electionId]),
+      this.getElectionType(electionId),
+      this.getElectionSchedule(electionId),
+    ]);
+
+    return {
+      id: electionId,
+      name,
+      description,
+      isActive,
+      candidates,
+      totalVotes,
+      createdAt: new Date(Number(createdAt) * 1000),
+      electionType,
+      ...schedule,
+    };
+  }
+
+  /** Voting window of an election, unset sides are undefined */
+  async getElectionSchedule(electionId: bigint): Promise<ElectionSchedule> {
+    const [startTime, endTime] = await this.readElection(
+      "getElectionSchedule",
+      [electionId]
+    );
+    return {
+      startTime: fromUnixTime(startTime),
+      endTime: fromUnixTime(endTime),
+    };
+  }
+
+  /** Who may vote in and stand for an election, no rule is set by default */
+  async getEligibilityRules(electionId: bigint): Promise<EligibilityRules> {
+    return decodeEligibilityRules(
+      await this.readElection("getEligibilityRules", [electionId])
+    );
+  }
+
+  /**
+   * Whether a voter meets the eligibility rules of an election, and why not
+   * @dev Reads the voter's profile, so only callable by owner/admins and
+   *      auditors of the VoterDatabase
+   */
+  async checkVoterEligibility(
+    electionId: bigint,
+    voter: Address
+  ): Promise<EligibilityCheck> {
+    if (!(await this.isVoterRegistered(voter))) {
+      return { eligible: false, reasons: ["is not a registered voter"] };
+    }
+    return explainVoterEligibility(
+      await this.getEligibilityRules(electionId),
+      await this.getVoterEligibilityProfile(voter),
+      await this.getElectionDate(electionId)
+    );
+  }
+
+  /** Whether a candidate meets the eligibility rules of an election, and why not */
+  async checkCandidateEligibility(
+    electionId: bigint,
+    candidate: Address
+  ): Promise<EligibilityCheck> {
+    if (!(await this.isCandidateRegistered(candidate))) {
+      return { eligible: false, reasons: ["is not a registered candidate"] };
+    }
+    return explainCandidateEligibility(
+      await this.getEligibilityRules(electionId),
+      await this.getCandidateEligibilityProfile(candidate),
+      await this.getElectionDate(electionId)
+    );
+  }
+
+  /** Whether the election is open and the current block time is within its schedule */
+  async isAcceptingVotes(electionId: bigint): Promise<boolean> {
+    return this.readElection("isAcceptingVotes", [electionId]);
+  }
+
+  async getElectionType(electionId: bigint): Promise<ElectionType> {
+    return (await this.readElection("getElectionType", [
+      electionId,
+    ])) as ElectionType;
+  }
+
+  async getAllElectionIds(): Promise<readonly bigint[]> {
+    return this.readElection("getAllElectionIds", []);
+  }
+
+  async getAllElections(): Promise<Election[]> {
+    const ids = await this.getAllElectionIds();
+    return Promise.all(ids.map((id) => this.getElection(id)));
+  }
+
+  async getElectionCount(): Promise<bigint> {
+    return this.readElection("getElectionCount", []);
+  }
+
+  /** The VoterDatabase and CandidateDatabase that the ElectionDatabase was deployed with */
+  async getDatabases(): Promise<{
+    voterDatabase: Address;
+    candidateDatabase: Address;
+  }> {
+    const [voterDatabase, candidateDatabase] = await this.readElection(
+      "getDatabases",
+      []
+    );
+    return { voterDatabase, candidateDatabase };
+  }
+
+  async getRegisteredCandidates(
+    electionId: bigint
+  ): Promise<readonly Address[]> {
+    return this.readElection("getRegisteredCandidates", [electionId]);
+  }
+
+  async getTotalVoteCount(electionId: bigint): Promise<bigint> {
+    return this.readElection("getTotalVoteCount", [electionId]);
+  }
+
+  async getVotesOfCandidate(
+    electionId: bigint,
+    candidate: Address
+  ): Promise<bigint> {
+    return this.readElection("getVotesOfCandidate", [electionId, candidate]);
+  }
+
+  /** For ranked choice elections, the zero address until the count is finalized */
+  async getWinner(electionId: bigint): Promise<Address> {
+    return this.readElection("getWinner", [electionId]);
+  }
+
+  /**
+   * Candidates sharing the highest vote count
+   * @returns The leaders in enrollment order, and whether there are none, one or a tie
+   */
+  async getWinners(
+    electionId: bigint
+  ): Promise<{ leaders: readonly Address[]; status: ResultStatus }> {
+    const [leaders, status] = await this.readElection("getWinners", [
+      electionId,
+    ]);
+    return { leaders, status: status as ResultStatus };
+  }
+
+  async getTieBreakPolicy(electionId: bigint): Promise<TieBreak> {
+    const [policy, seed, winner] = await this.readElection(
+      "getTieBreakPolicy",
+      [electionId]
+    );
+    return {
+      policy: policy as TieBreakPolicy,
+      seed,
+      winner: winner === zeroAddress ? undefined : winner,
+    };
+  }
+
+  /** Ranked ballots in voting order, most preferred candidate first */
+  async getRankedBallots(
+    electionId: bigint
+  ): Promise<readonly (readonly Address[])[]> {
+    return this.readElection("getRankedBallots", [electionId]);
+  }
+
+  /**
+   * How many candidates the ballots of an approval election approve
+   * @returns Number of ballots by approval count, only counts that occurred
+   */
+  async getApprovalDistribution(
+    electionId: bigint
+  ): Promise<ApprovalDistribution> {
+    const ballots = await this.readElection("getApprovalDistribution", [
+      electionId,
+    ]);
+    return ballots
+      .map((count, approvals) => ({ approvals, ballots: count }))
+      .filter(({ ballots }) => ballots > 0n);
+  }
+
+  /** Committed and revealed secret ballots, with the voters yet to reveal */
+  async getCommitStats(electionId: bigint): Promise<CommitStats> {
+    const [[commits, reveals], unrevealed] = await Promise.all([
+      this.readElection("getCommitStats", [electionId]),
+      this.readElection("getUnrevealedVoters", [electionId]),
+    ]);
+    return { commits, reveals, unrevealed };
+  }
+
+  /** Nonce the next signed ballot of the voter must be signed with */
+  async getBallotNonce(voter: Address): Promise<bigint> {
+    return this.readElection("getBallotNonce", [voter]);
+  }
+
+  /** Merkle root of the frozen electoral roll, undefined if the election has none */
+  async getElectoralRoll(electionId: bigint): Promise<Hex | undefined> {
+    const root = await this.readElection("getElectoralRoll", [electionId]);
+    return root === zeroHash ? undefined : root;
+  }
+
+  async isOnElectoralRoll(
+    electionId: bigint,
+    voter: Address,
+    proof: readonly Hex[]
+  ): Promise<boolean> {
+    return this.readElection("isOnElectoralRoll", [electionId, voter, proof]);
+  }
+
+  async isElectionFinalized(electionId: bigint): Promise<boolean> {
+    return this.readElection("isElectionFinalized", [electionId]);
+  }
+
+  async hasVoted(electionId: bigint, voter: Address): Promise<boolean> {
+    return this.readElection("hasVoted", [electionId, voter]);
+  }
+
+  /** Returns undefined if the voter has not voted in the election */
+  async getVoteTime(
+    electionId: bigint,
+    voter: Address
+  ): Promise<Date | undefined> {
+    const timestamp = await this.readElection("getVoteTimestamp", [
+      electionId,
+      voter,
+    ]);
+    return timestamp > 0n ? new Date(Number(timestamp) * 1000) : undefined;
+  }
+
+  /** Only callable by registered voters, so a wallet client is required */
+  async getVoterChoice(electionId: bigint, voter: Address): Promise<Address> {
+    return this.readElection("getVoterChoice", [electionId, voter]);
+  }
+
+  /**
+   * Create a new election
+   * @param schedule Optional voting window, ballots outside of it are rejected
+   * @param rules Optional eligibility rules, they cannot be changed later
+   * @returns The id of the new election along with the transaction receipt
+   */
+  async createElection(
+    name: string,
+    description: string,
+    electionType: ElectionType = ElectionTypeEnum.PLURALITY,
+    schedule?: ElectionSchedule,
+    rules?: Partial<EligibilityRules>
+  ): Promise<{ electionId: bigint; receipt: TransactionReceipt }> {
+    const receipt = rules
+      ? await this.writeElection("adminCreateElection", [
+          name,
+          description,
+          electionType,
+          toUnixTime(schedule?.startTime),
+          toUnixTime(schedule?.endTime),
+          encodeEligibilityRules(rules),
+        ])
+      : schedule
+        ? await this.writeElection("adminCreateElection", [
+            name,
+            description,
+            electionType,
+            toUnixTime(schedule.startTime),
+            toUnixTime(schedule.endTime),
+          ])
+        : await this.writeElection("adminCreateElection", [
+            name,
+            description,
+            electionType,
+          ]);
+    const [log] = parseEventLogs({
+      abi: this.abis.electionDatabase,
+      eventName: "AdminCreatedElection",
+      logs: receipt.logs,
+    });
+    return { electionId: log.args.electionId, receipt };
+  }
+
+  /**
+   * Update the name and description of an election
+   * @param schedule New voting window, the current one is kept if omitted.
+   *                 Only while the election is closed
+   */
+  async updateElection(
+    electionId: bigint,
+    name: string,
+    description: string,
+    schedule?: ElectionSchedule
+  ): Promise<TransactionReceipt> {
+    if (schedule) {
+      return this.writeElection("adminUpdateElection", [
+        electionId,
+        name,
+        description,
+        toUnixTime(schedule.startTime),
+        toUnixTime(schedule.endTime),
+      ]);
+    }
+    return this.writeElection("adminUpdateElection", [
+      electionId,
+      name,
+      description,
+    ]);
+  }
+
+  async deleteElection(electionId: bigint): Promise<TransactionReceipt> {
+    return this.writeElection("adminDeleteElection", [electionId]);
+  }
+
+  /**
+   * Open an election for voting
+   * @param rollRoot Freezes the electoral roll with this Merkle root, see `buildElectoralRoll`
+   */
+  async openElection(
+    electionId: bigint,
+    rollRoot?: Hex
+  ): Promise<TransactionReceipt> {
+    return rollRoot
+      ? this.writeElection("adminOpenElection", [electionId, rollRoot])
+      : this.writeElection("adminOpenElection", [electionId]);
+  }
+
+  async closeElection(electionId: bigint): Promise<TransactionReceipt> {
+    return this.writeElection("adminCloseElection", [electionId]);
+  }
+
+  /** Enroll the connected account (a registered candidate) in an election */
+  async enrollCandidate(electionId: bigint): Promise<TransactionReceipt> {
+    return this.writeElection("enrollCandidate", [electionId]);
+  }
+
+  /** Withdraw the connected account from an election */
+  async withdrawCandidate(electionId: bigint): Promise<TransactionReceipt> {
+    return this.writeElection("withdrawCandidate", [electionId]);
+  }
+
+  async adminEnrollCandidate(
+    electionId: bigint,
+    candidate: Address
+  ): Promise<TransactionReceipt> {
+    return this.writeElection("adminEnrollCandidate", [electionId, candidate]);
+  }
+
+  async adminWithdrawCandidate(
+    electionId: bigint,
+    candidate: Address
+  ): Promise<TransactionReceipt> {
+    return this.writeElection("adminWithdrawCandidate", [
+      electionId,
+      candidate,
+    ]);
+  }
+
+  /**
+   * Cast a ballot in a plurality election
+   * @param proof Merkle proof of the voter, required if the election has a frozen roll
+   */
+  async vote(
+    electionId: bigint,
+    candidate: Address,
+    proof?: readonly Hex[]
+  ): Promise<TransactionReceipt> {
+    return proof
+      ? this.writeElection("vote", [electionId, candidate, proof])
+      : this.writeElection("vote", [electionId, candidate]);
+  }
+
+  /**
+   * Sign a ballot with the wallet account, to be submitted with `voteBySig` by anyone
+   * @param deadline Unix timestamp after which the ballot is rejected
+   */
+  async signBallot(
+    electionId: bigint,
+    candidate: Address,
+    deadline: bigint
+  ): Promise<SignedBallot> {
+    const { walletClient, account } = this.requireWallet();
+    return signBallot(walletClient, {
+      chainId: await this.publicClient.getChainId(),
+      electionDatabase: this.addresses.electionDatabase,
+      electionId,
+      candidate,
+      nonce: await this.getBallotNonce(account),
+      deadline,
+    });
+  }
+
+  /** Submit a ballot signed by its voter, the wallet account pays for the transaction */
+  async voteBySig(ballot: SignedBallot): Promise<TransactionReceipt> {
+    return this.writeElection("voteBySig", [
+      ballot.electionId,
+      ballot.candidate,
+      ballot.voter,
+      ballot.deadline,
+      ballot.signature,
+    ]);
+  }
+
+  /**
+   * Cast a ranked ballot in a ranked choice election
+   * @param rankings Enrolled candidates, most preferred first
+   */
+  async voteRanked(
+    electionId: bigint,
+    rankings: readonly Address[]
+  ): Promise<TransactionReceipt> {
+    return this.writeElection("voteRanked", [electionId, rankings]);
+  }
+
+  /**
+   * Cast an approval ballot in an approval election
+   * @param approvals Enrolled candidates the voter approves of
+   */
+  async voteApproval(
+    electionId: bigint,
+    approvals: readonly Address[]
+  ): Promise<TransactionReceipt> {
+    return this.writeElection("voteApproval", [electionId, approvals]);
+  }
+
+  /**
+   * Commit a hidden ballot in a secret ballot election
+   * @param commitment See `computeCommitment`, keep the salt to reveal later
+   */
+  async commitVote(
+    electionId: bigint,
+    commitment: Hex
+  ): Promise<TransactionReceipt> {
+    return this.writeElection("commitVote", [electionId, commitment]);
+  }
+
+  /**
+   * Reveal a committed ballot once the election is closed
+   * @param voter Reveals on behalf of this voter instead of the wallet account
+   */
+  async revealVote(
+    electionId: bigint,
+    candidate: Address,
+    salt: Hex,
+    voter?: Address
+  ): Promise<TransactionReceipt> {
+    return voter
+      ? this.writeElection("revealVoteFor", [
+          electionId,
+          voter,
+          candidate,
+          salt,
+        ])
+      : this.writeElection("revealVote", [electionId, candidate, salt]);
+  }
+
+  /**
+   * Set how ties are broken, only before the first vote
+   * @param seed Seed of the draw for the seeded random policy
+   */
+  async setTieBreakPolicy(
+    electionId: bigint,
+    policy: TieBreakPolicy,
+    seed: Hex = zeroHash
+  ): Promise<TransactionReceipt> {
+    return this.writeElection("adminSetTieBreakPolicy", [
+      electionId,
+      policy,
+      seed,
+    ]);
+  }
+
+  /** Record the tie-break of a closed election with an automatic policy */
+  async breakTie(electionId: bigint): Promise<TransactionReceipt> {
+    return this.writeElection("adminBreakTie", [electionId]);
+  }
+
+  /** Pick the winner of a tie in a closed election with the admin decision policy */
+  async decideTie(
+    electionId: bigint,
+    winner: Address
+  ): Promise<TransactionReceipt> {
+    return this.writeElection("adminDecideTie", [electionId, winner]);
+  }
+
+  /** Run the instant-runoff count of a closed ranked choice election */
+  async finalizeRankedElection(
+    electionId: bigint
+  ): Promise<TransactionReceipt> {
+    return this.writeElection("adminFinalizeRankedElection", [electionId]);
+  }
+
+  // ------------------------------------------------------------------
+  // Voters
+  // ------------------------------------------------------------------
+
+  /** Only callable by owner/admins of the VoterDatabase */
+  async getVoter(voter: Address): Promise<Voter> {
+    return toVoter(
+      voter,
+      await this.readVoter("adminGetVoterDetails", [voter])
+    );
+  }
+
+  /** Details of the connected account */
+  async getMyVoterDetails(): Promise<Voter> {
+    return toVoter(
+      this.requireWallet().account,
+      await this.readVoter("getMyDetails", [])
+    );
+  }
+
+  /** Only callable by owner/admins of the VoterDatabase */
+  async getAllVoters(): Promise<readonly Address[]> {
+    return this.readVoter("adminGetAllVoters", []);
+  }
+
+  /** Only callable by owner/admins of the VoterDatabase */
+  async getVoterCount(): Promise<bigint> {
+    return this.readVoter("adminGetVoterCount", []);
+  }
+
+  /** Only callable by owner/admins, registrars and auditors of the VoterDatabase */
+  async isVoterRegistered(voter: Address): Promise<boolean> {
+    return this.readVoter("adminGetRegistrationStatus", [voter]);
+  }
+
+  /** Minimum age to register in the VoterDatabase */
+  async getVoterMinEligibleAge(): Promise<number> {
+    return Number(await this.readVoter("getMinEligibleAge", []));
+  }
+
+  /** Only callable by the owner of the VoterDatabase */
+  async setVoterMinEligibleAge(age: number): Promise<TransactionReceipt> {
+    return this.writeVoter("setMinEligibleAge", [BigInt(age)]);
+  }
+
+  /** Only callable by owner/admins and auditors of the VoterDatabase */
+  async getVoterEligibilityProfile(
+    voter: Address
+  ): Promise<EligibilityProfile> {
+    return toEligibilityProfile(
+      await this.readVoter("adminGetEligibilityProfile", [voter])
+    );
+  }
+
+  /** Only callable by owner/admins and registrars of the VoterDatabase */
+  async setVoterRegion(
+    voter: Address,
+    region?: string
+  ): Promise<TransactionReceipt> {
+    return this.writeVoter("adminSetVoterRegion", [
+      voter,
+      encodeRegion(region),
+    ]);
+  }
+
+  async addVoter(voter: VoterInput): Promise<TransactionReceipt> {
+    return this.writeVoter("addVoter", voterArgs(voter));
+  }
+
+  async updateVoter(voter: VoterInput): Promise<TransactionReceipt> {
+    return this.writeVoter("updateVoter", voterArgs(voter));
+  }
+
+  async deleteVoter(): Promise<TransactionReceipt> {
+    return this.writeVoter("deleteVoter", []);
+  }
+
+  async adminAddVoter(
+    address: Address,
+    voter: VoterInput,
+    timesVoted = 0n
+  ): Promise<TransactionReceipt> {
+    return this.writeVoter("adminAddVoter", [
+      address,
+      ...voterArgs(voter),
+      timesVoted,
+    ]);
+  }
+
+  async adminUpdateVoter(
+    address: Address,
+    voter: VoterInput,
+    timesVoted: bigint
+  ): Promise<TransactionReceipt> {
+    return this.writeVoter("adminUpdateVoter", [
+      address,
+      ...voterArgs(voter),
+      timesVoted,
+    ]);
+  }
+
+  async adminRemoveVoter(address: Address): Promise<TransactionReceipt> {
+    return this.writeVoter("adminRemoveVoter", [address]);
+  }
+
+  async adminMarkVoted(address: Address): Promise<TransactionReceipt> {
+    return this.writeVoter("adminMarkVoted", [address]);
+  }
+
+  async adminImportVoter(
+    sourceContract: Address,
+    voter: Address
+  ): Promise<TransactionReceipt> {
+    return this.writeVoter("adminImportVoter", [sourceContract, voter]);
+  }
+
+  async adminBatchImportVoters(
+    sourceContract: Address,
+    voters: readonly Address[]
+  ): Promise<TransactionReceipt> {
+    return this.writeVoter("adminBatchImportVoters", [sourceContract, voters]);
+  }
+
+  async adminImportAllVoters(
+    sourceContract: Address
+  ): Promise<TransactionReceipt> {
+    return this.writeVoter("adminImportAllVoters", [sourceContract]);
+  }
+
+  // ------------------------------------------------------------------
+  // Candidates
+  // ------------------------------------------------------------------
+
+  async getCandidate(candidate: Address): Promise<Candidate> {
+    return toCandidate(
+      candidate,
+      await this.readCandidate("getCandidateDetails", [candidate])
+    );
+  }
+
+  /** Details of the connected account */
+  async getMyCandidateDetails(): Promise<Candidate> {
+    return toCandidate(
+      this.requireWallet().account,
+      await this.readCandidate("getMyDetails", [])
+    );
+  }
+
+  async getAllCandidates(): Promise<readonly Address[]> {
+    return this.readCandidate("getAllCandidates", []);
+  }
+
+  async getCandidateCount(): Promise<bigint> {
+    return this.readCandidate("getCandidateCount", []);
+  }
+
+  async isCandidateRegistered(candidate: Address): Promise<boolean> {
+    return this.readCandidate("getCandidateRegistrationStatus", [candidate]);
+  }
+
+  /** Minimum age to register in the CandidateDatabase */
+  async getCandidateMinEligibleAge(): Promise<number> {
+    return Number(await this.readCandidate("getMinEligibleAge", []));
+  }
+
+  /** Only callable by the owner of the CandidateDatabase */
+  async setCandidateMinEligibleAge(age: number): Promise<TransactionReceipt> {
+    return this.writeCandidate("setMinEligibleAge", [BigInt(age)]);
+  }
+
+  async getCandidateEligibilityProfile(
+    candidate: Address
+  ): Promise<EligibilityProfile> {
+    return toEligibilityProfile(
+      await this.readCandidate("getEligibilityProfile", [candidate])
+    );
+  }
+
+  /** Only callable by owner/admins and registrars of the CandidateDatabase */
+  async setCandidateRegion(
+    candidate: Address,
+    region?: string
+  ): Promise<TransactionReceipt> {
+    return this.writeCandidate("adminSetCandidateRegion", [
+      candidate,
+      encodeRegion(region),
+    ]);
+  }
+
+  async addCandidate(candidate: CandidateInput): Promise<TransactionReceipt> {
+    return this.writeCandidate("addCandidate", candidateArgs(candidate));
+  }
+
+  async updateCandidate(
+    candidate: CandidateInput
+  ): Promise<TransactionReceipt> {
+    return this.writeCandidate("updateCandidate", candidateArgs(candidate));
+  }
+
+  async deleteCandidate(): Promise<TransactionReceipt> {
+    return this.writeCandidate("deleteCandidate", []);
+  }
+
+  async adminAddCandidate(
+    address: Address,
+    candidate: CandidateInput
+  ): Promise<TransactionReceipt> {
+    return this.writeCandidate("adminAddCandidate", [
+      address,
+      ...candidateArgs(candidate),
+    ]);
+  }
+
+  async adminUpdateCandidate(
+    address: Address,
+    candidate: CandidateInput
+  ): Promise<TransactionReceipt> {
+    return this.writeCandidate("adminUpdateCandidate", [
+      address,
+      ...candidateArgs(candidate),
+    ]);
+  }
+
+  async adminRemoveCandidate(address: Address): Promise<TransactionReceipt> {
+    return this.writeCandidate("adminRemoveCandidate", [address]);
+  }
+
+  async adminImportCandidate(
+    sourceContract: Address,
+    candidate: Address
+  ): Promise<TransactionReceipt> {
+    return this.writeCandidate("adminImportCandidate", [
+      sourceContract,
+      candidate,
+    ]);
+  }
+
+  async adminBatchImportCandidates(
+    sourceContract: Address,
+    candidates: readonly Address[]
+  ): Promise<TransactionReceipt> {
+    return this.writeCandidate("adminBatchImportCandidates", [
+      sourceContract,
+      candidates,
+    ]);
+  }
+
+  async adminImportAllCandidates(
+    sourceContract: Address
+  ): Promise<TransactionReceipt> {
+    return this.writeCandidate("adminImportAllCandidates", [sourceContract]);
+  }
+
+  // ------------------------------------------------------------------
+  // Admin management
+  // ------------------------------------------------------------------
+
+  async isAdmin(
+    database: keyof ChainElectAddresses,
+    address: Address
+  ): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.addresses[database],
+      abi: this.abis.electionDatabase,
+      functionName: "isAdmin",
+      args: [address],
+    });
+  }
+
+  async getOwner(database: keyof ChainElectAddresses): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.addresses[database],
+      abi: this.abis.electionDatabase,
+      functionName: "getOwner",
+      args: [],
+    });
+  }
+
+  async getAllAdmins(
+    database: keyof ChainElectAddresses
+  ): Promise<readonly Address[]> {
+    return this.publicClient.readContract({
+      address: this.addresses[database],
+      abi: this.abis.electionDatabase,
+      functionName: "getAllAdmins",
+      args: [],
+    });
+  }
+
+  /** Only callable by the owner of the database */
+  async addAdmin(
+    database: keyof ChainElectAddresses,
+    address: Address
+  ): Promise<TransactionReceipt> {
+    // AdminManagement functions are shared, so any of the three ABIs will do
+    return this.write(
+      this.addresses[database],
+      this.abis.electionDatabase,
+      "addAdmin",
+      [address]
+    );
+  }
+
+  /** Only callable by the owner of the database */
+  async removeAdmin(
+    database: keyof ChainElectAddresses,
+    address: Address
+  ): Promise<TransactionReceipt> {
+    return this.write(
+      this.addresses[database],
+      this.abis.electionDatabase,
+      "removeAdmin",
+      [address]
+    );
+  }
+
+  /**
+   * Implementation behind a database deployed with `ChainElectProxy`
+   * @returns undefined if the database is not behind a proxy
+   */
+  async getImplementation(
+    database: keyof ChainElectAddresses
+  ): Promise<Address | undefined> {
+    const slot = await this.publicClient.getStorageAt({
+      address: this.addresses[database],
+      slot: IMPLEMENTATION_SLOT,
+    });
+    if (!slot || BigInt(slot) === 0n) return undefined;
+    return getAddress(slice(slot, 12));
+  }
+
+  /**
+   * Switch a proxied database to a new implementation
+   * @dev Only callable by the owner of the database, check the storage layout
+   *      first, see `compareStorageLayouts`
+   * @param data Call to run on the new implementation, e.g. a migration
+   */
+  async upgradeToAndCall(
+    database: keyof ChainElectAddresses,
+    implementation: Address,
+    data: Hex = "0x"
+  ): Promise<TransactionReceipt> {
+    return this.write(
+      this.addresses[database],
+      this.abis.electionDatabase,
+      "upgradeToAndCall",
+      [implementation, data]
+    );
+  }
+
+  async isPaused(database: keyof ChainElectAddresses): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.addresses[database],
+      abi: this.abis.electionDatabase,
+      functionName: "isPaused",
+      args: [],
+    });
+  }
+
+  /** Only callable by the owner of the database */
+  async pause(
+    database: keyof ChainElectAddresses
+  ): Promise<TransactionReceipt> {
+    return this.write(
+      this.addresses[database],
+      this.abis.electionDatabase,
+      "pause",
+      []
+    );
+  }
+
+  /** Only callable by the owner of the database */
+  async unpause(
+    database: keyof ChainElectAddresses
+  ): Promise<TransactionReceipt> {
+    return this.write(
+      this.addresses[database],
+      this.abis.electionDatabase,
+      "unpause",
+      []
+    );
+  }
+
+  /** Zero address when no ownership transfer is pending */
+  async getPendingOwner(database: keyof ChainElectAddresses): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.addresses[database],
+      abi: this.abis.electionDatabase,
+      functionName: "getPendingOwner",
+      args: [],
+    });
+  }
+
+  /**
+   * Propose a new owner, who has to call `acceptOwnership`
+   * @dev Only callable by the owner of the database, the zero address cancels
+   */
+  async transferOwnership(
+    database: keyof ChainElectAddresses,
+    newOwner: Address
+  ): Promise<TransactionReceipt> {
+    return this.write(
+      this.addresses[database],
+      this.abis.electionDatabase,
+      "transferOwnership",
+      [newOwner]
+    );
+  }
+
+  /** Only callable by the pending owner of the database */
+  async acceptOwnership(
+    database: keyof ChainElectAddresses
+  ): Promise<TransactionReceipt> {
+    return this.write(
+      this.addresses[database],
+      this.abis.electionDatabase,
+      "acceptOwnership",
+      []
+    );
+  }
+
+  /** Only callable by the owner of the database, there is no way back */
+  async renounceOwnership(
+    database: keyof ChainElectAddresses
+  ): Promise<TransactionReceipt> {
+    return this.write(
+      this.addresses[database],
+      this.abis.electionDatabase,
+      "renounceOwnership",
+      []
+    );
+  }
+
+  /** True for the owner and admins too, they hold every role */
+  async hasRole(
+    database: keyof ChainElectAddresses,
+    role: Hex,
+    address: Address
+  ): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.addresses[database],
+      abi: this.abis.electionDatabase,
+      functionName: "hasRole",
+      args: [role, address],
+    });
+  }
+
+  /** Accounts granted the role, the owner and admins are not listed */
+  async getRoleMembers(
+    database: keyof ChainElectAddresses,
+    role: Hex
+  ): Promise<readonly Address[]> {
+    return this.publicClient.readContract({
+      address: this.addresses[database],
+      abi: this.abis.electionDatabase,
+      functionName: "getRoleMembers",
+      args: [role],
+    });
+  }
+
+  /** Only callable by the owner of the database */
+  async grantRole(
+    database: keyof ChainElectAddresses,
+    role: Hex,
+    address: Address
+  ): Promise<TransactionReceipt> {
+    return this.write(
+      this.addresses[database],
+      this.abis.electionDatabase,
+      "grantRole",
+      [role, address]
+    );
+  }
+
+  /** Only callable by the owner of the database */
+  async revokeRole(
+    database: keyof ChainElectAddresses,
+    role: Hex,
+    address: Address
+  ): Promise<TransactionReceipt> {
+    return this.write(
+      this.addresses[database],
+      this.abis.electionDatabase,
+      "revokeRole",
+      [role, address]
+    );
+  }
+
+  // ------------------------------------------------------------------
+  // Internal helpers
+  // ------------------------------------------------------------------
+
+  private async read<
+    TAbi extends Abi,
+    TName extends ReadName<TAbi>,
+    TArgs extends ContractFunctionArgs<TAbi, "view" | "pure", TName>,
+  >(
+    address: Address,
+    abi: TAbi,
+    functionName: TName,
+    args: TArgs
+  ): Promise<ContractFunctionReturnType<TAbi, "view" | "pure", TName, TArgs>> {
+    // viem cannot narrow the generic parameters here, the public methods are typed instead
+    return this.publicClient.readContract({
+      address,
+      abi: abi as Abi,
+      functionName: functionName as string,
+      args: args as readonly unknown[],
+      account: this.walletClient?.account,
+    }) as Promise<
+      ContractFunctionReturnType<TAbi, "view" | "pure", TName, TArgs>
+    >;
+  }
+
+  private async write<
+    TAbi extends Abi,
+    TName extends WriteName<TAbi>,
+    TArgs extends ContractFunctionArgs<TAbi, "nonpayable", TName>,
+  >(
+    address: Address,
+    abi: TAbi,
+    functionName: TName,
+    args: TArgs
+  ): Promise<TransactionReceipt> {
+    const { walletClient, account } = this.requireWallet();
+    const hash: Hash = await walletClient.writeContract({
+      address,
+      abi: abi as Abi,
+      functionName: functionName as string,
+      args: args as readonly unknown[],
+      account,
+      chain: walletClient.chain,
+    });
+    return this.publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  /** Date ages are counted on, the end of the voting window or the latest block time */
+  private async getElectionDate(electionId: bigint): Promise<Date> {
+    const { endTime } = await this.getElectionSchedule(electionId);
+    if (endTime) return endTime;
+    const { timestamp } = await this.publicClient.getBlock();
+    return new Date(Number(timestamp) * 1000);
+  }
+
+  private readElection<
+    TName extends ReadName<ElectionDatabaseAbi>,
+    TArgs extends ContractFunctionArgs<
+      ElectionDatabaseAbi,
+      "view" | "pure",
+      TName
+    >,
+  >(functionName: TName, args: TArgs) {
+    return this.read(
+      this.addresses.electionDatabase,
+      this.abis.electionDatabase,
+      functionName,
+      args
+    );
+  }
+
+  private writeElection<
+    TName extends WriteName<ElectionDatabaseAbi>,
+    TArgs extends ContractFunctionArgs<
+      ElectionDatabaseAbi,
+      "nonpayable",
+      TName
+    >,
+  >(functionName: TName, args: TArgs) {
+    return this.write(
+      this.addresses.electionDatabase,
+      this.abis.electionDatabase,
+      functionName,
+      args
+    );
+  }
+
+  private readVoter<
+    TName extends ReadName<VoterDatabaseAbi>,
+    TArgs extends ContractFunctionArgs<
+      VoterDatabaseAbi,
+      "view" | "pure",
+      TName
+    >,
+  >(functionName: TName, args: TArgs) {
+    return this.read(
+      this.addresses.voterDatabase,
+      this.abis.voterDatabase,
+      functionName,
+      args
+    );
+  }
+
+  private writeVoter<
+    TName extends WriteName<VoterDatabaseAbi>,
+    TArgs extends ContractFunctionArgs<VoterDatabaseAbi, "nonpayable", TName>,
+  >(functionName: TName, args: TArgs) {
+    return this.write(
+      this.addresses.voterDatabase,
+      this.abis.voterDatabase,
+      functionName,
+      args
+    );
+  }
+
+  private readCandidate<
+    TName extends ReadName<CandidateDatabaseAbi>,
+    TArgs extends ContractFunctionArgs<
+      CandidateDatabaseAbi,
+      "view" | "pure",
+      TName
+    >,
+  >(functionName: TName, args: TArgs) {
+    return this.read(
+      this.addresses.candidateDatabase,
+      this.abis.candidateDatabase,
+      functionName,
+      args
+    );
+  }
+
+  private writeCandidate<
+    TName extends WriteName<CandidateDatabaseAbi>,
+    TArgs extends ContractFunctionArgs<
+      CandidateDatabaseAbi,
+      "nonpayable",
+      TName
+    >,
+  >(functionName: TName, args: TArgs) {
+    return this.write(
+      this.addresses.candidateDatabase,
+      this.abis.candidateDatabase,
+      functionName,
+      args
+    );
+  }
+}
+
+function voterArgs(
+  voter: VoterInput
+): [string, bigint, Gender, string, string] {
+  return [
+    voter.name,
+    BigInt(dateToEpoch1900(voter.dateOfBirth)),
+    voter.gender,
+    voter.presentAddress,
+    voter.email,
+  ];
+}
+
+function candidateArgs(
+  candidate: CandidateInput
+): [string, bigint, Gender, string, string, string, string] {
+  return [
+    candidate.name,
+    BigInt(dateToEpoch1900(candidate.dateOfBirth)),
+    candidate.gender,
+    candidate.presentAddress,
+    candidate.email,
+    candidate.qualifications,
+    candidate.manifesto,
+  ];
+}
+
+function toVoter(
+  address: Address,
+  [
+    name,
+    dateOfBirthEpoch1900,
+    gender,
+    presentAddress,
+    email,
+    timesVoted,
+    registrationTimestamp1900,
+  ]: readonly [string, bigint, number, string, string, bigint, bigint]
+): Voter {
+  return {
+    address,
+    name,
+    dateOfBirth: epoch1900ToDate(Number(dateOfBirthEpoch1900)),
+    gender: gender as Gender,
+    presentAddress,
+    email,
+    timesVoted,
+    registeredAt: epoch1900ToDate(Number(registrationTimestamp1900)),
+  };
+}
+
+function toCandidate(
+  address: Address,
+  [
+    name,
+    dateOfBirthEpoch1900,
+    gender,
+    presentAddress,
+    email,
+    qualifications,
+    manifesto,
+    registrationTimestamp1900,
+  ]: readonly [string, bigint, number, string, string, string, string, bigint]
+): Candidate {
+  return {
+    address,
+    name,
+    dateOfBirth: epoch1900ToDate(Number(dateOfBirthEpoch1900)),
+    gender: gender as Gender,
+    presentAddress,
+    email,
+    qualifications,
+    manifesto,
+    registeredAt: epoch1900ToDate(Number(registrationTimestamp1900)),
+  };
+}
+
+function toEligibilityProfile([dateOfBirthEpoch1900, gender, region]: readonly [
+  bigint,
+  number,
+  Hex,
+]): EligibilityProfile {
+  return {
+    dateOfBirth: epoch1900ToDate(Number(dateOfBirthEpoch1900)),
+    gender: gender as Gender,
+    region: decodeRegion(region),
+  };
+}
@@ -0,0 +1,90 @@
+import {
+  Address,
+  concat,
+  encodeAbiParameters,
+  getAddress,
+  Hex,
+  hexToBigInt,
+  keccak256,
+} from "viem";
+import type { ChainElectClient } from "./client";
+import type { ElectoralRoll } from "./types";
+
+/**
+ * Leaf of a voter, matching `ElectoralRoll.leaf` in the contracts
+ * @dev Double hashed like OpenZeppelin's StandardMerkleTree with an ["address"] leaf
+ */
+export function computeRollLeaf(voter: Address): Hex {
+  return keccak256(
+    keccak256(encodeAbiParameters([{ type: "address" }], [voter]))
+  );
+}
+
+/**
+ * Build the Merkle tree of an electoral roll
+ * @dev Uses the StandardMerkleTree layout, so the root matches the one
+ *      OpenZeppelin's library computes for the same voters
+ * @param voters Registered voters, in any order
+ * @throws If the roll is empty, there would be nobody to vote
+ */
+export function buildElectoralRoll(voters: readonly Address[]): ElectoralRoll {
+  const unique = [...new Set(voters.map((voter) => getAddress(voter)))];
+  if (unique.length === 0) {
+    throw new Error("Cannot build an empty electoral roll");
+  }
+
+  const sorted = unique
+    .map((voter) => ({ voter, leaf: computeRollLeaf(voter) }))
+    .sort((a, b) => compareHashes(a.leaf, b.leaf));
+
+  // complete binary tree stored as an array, leaves at the end in reverse order
+  const tree: Hex[] = new Array(2 * sorted.length - 1);
+  sorted.forEach(({ leaf }, i) => (tree[tree.length - 1 - i] = leaf));
+  for (let i = tree.length - 1 - sorted.length; i >= 0; i--) {
+    tree[i] = hashPair(tree[2 * i + 1], tree[2 * i + 2]);
+  }
+
+  return {
+    root: tree[0],
+    voters: sorted.map(({ voter }) => voter),
+    tree,
+  };
+}
+
+/**
+ * Merkle proof of a voter on the roll, to pass to `vote`
+ * @throws If the voter is not on the roll
+ */
+export function getRollProof(roll: ElectoralRoll, voter: Address): Hex[] {
+  const position = roll.voters.indexOf(getAddress(voter));
+  if (position === -1) {
+    throw new Error(`${voter} is not on the electoral roll`);
+  }
+
+  const proof: Hex[] = [];
+  let index = roll.tree.length - 1 - position;
+  while (index > 0) {
+    proof.push(roll.tree[index % 2 === 1 ? index + 1 : index - 1]);
+    index = Math.floor((index - 1) / 2);
+  }
+  return proof;
+}
+
+/**
+ * Snapshot the registered voters into an electoral roll
+ * @dev Reads `adminGetAllVoters`, so the client needs an admin wallet of the VoterDatabase
+ */
+export async function snapshotElectoralRoll(
+  client: ChainElectClient
+): Promise<ElectoralRoll> {
+  return buildElectoralRoll(await client.getAllVoters());
+}
+
+function hashPair(a: Hex, b: Hex): Hex {
+  return keccak256(compareHashes(a, b) < 0 ? concat([a, b]) : concat([b, a]));
+}
+
+function compareHashes(a: Hex, b: Hex): number {
+  const [x, y] = [hexToBigInt(a), hexToBigInt(b)];
+  return x === y ? 0 : x < y ? -1 : 1;
+}
@@ -0,0 +1,139 @@
+import { Hex, hexToString, size, stringToHex, zeroHash } from "viem";
+import { dateToEpoch1900 } from "../epoch1900";
+import { Gender, GenderEnum } from "../../types";
+import type {
+  EligibilityCheck,
+  EligibilityProfile,
+  EligibilityRules,
+} from "./types";
+
+// the databases count years as 365 days, see `Epoch1900.calculateAgeAt`
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/** Eligibility rules in the layout of `ElectionDatabase.EligibilityRules` */
+export interface EligibilityRulesStruct {
+  minVoterAge: number;
+  minCandidateAge: number;
+  genderRestricted: boolean;
+  candidateGender: number;
+  region: Hex;
+}
+
+/**
+ * Region as stored by the databases, at most 32 bytes of UTF-8
+ * @returns The zero hash for no region
+ * @throws If the region does not fit in 32 bytes
+ */
+export function encodeRegion(region?: string): Hex {
+  if (!region) return zeroHash;
+  const value = stringToHex(region);
+  if (size(value) > 32) {
+    throw new Error(`Region "${region}" is longer than 32 bytes`);
+  }
+  return stringToHex(region, { size: 32 });
+}
+
+/** Inverse of `encodeRegion`, undefined for no region */
+export function decodeRegion(region: Hex): string | undefined {
+  return region === zeroHash ? undefined : hexToString(region, { size: 32 });
+}
+
+/** Rules accepted by `adminCreateElection`, unset rules are left out */
+export function encodeEligibilityRules(
+  rules: Partial<EligibilityRules>
+): EligibilityRulesStruct {
+  return {
+    minVoterAge: rules.minVoterAge ?? 0,
+    minCandidateAge: rules.minCandidateAge ?? 0,
+    genderRestricted: rules.candidateGender !== undefined,
+    candidateGender: rules.candidateGender ?? GenderEnum.MALE,
+    region: encodeRegion(rules.region),
+  };
+}
+
+/** Inverse of `encodeEligibilityRules` */
+export function decodeEligibilityRules(
+  rules: EligibilityRulesStruct
+): EligibilityRules {
+  return {
+    minVoterAge: rules.minVoterAge,
+    minCandidateAge: rules.minCandidateAge,
+    candidateGender: rules.genderRestricted
+      ? (rules.candidateGender as Gender)
+      : undefined,
+    region: decodeRegion(rules.region),
+  };
+}
+
+/**
+ * Age in whole years on a date, counted like the databases do
+ * @returns 0 if born after that date
+ */
+export function getAgeAt(dateOfBirth: Date, date: Date): number {
+  const seconds = dateToEpoch1900(date) - dateToEpoch1900(dateOfBirth);
+  return seconds < 0 ? 0 : Math.floor(seconds / SECONDS_PER_YEAR);
+}
+
+/**
+ * Check a voter against the rules of an election, like `vote` does
+ * @param electionDate End of the voting window, or the current block time
+ *        if the election has none
+ * @returns The rules the voter fails, in the order the contract checks them
+ */
+export function explainVoterEligibility(
+  rules: EligibilityRules,
+  profile: EligibilityProfile,
+  electionDate: Date
+): EligibilityCheck {
+  const reasons = [
+    checkAge(profile, rules.minVoterAge, electionDate),
+    checkRegion(profile, rules.region),
+  ].filter((reason) => reason !== undefined);
+  return { eligible: reasons.length === 0, reasons };
+}
+
+/**
+ * Check a candidate against the rules of an election, like `enrollCandidate` does
+ * @param electionDate End of the voting window, or the current block time
+ *        if the election has none
+ * @returns The rules the candidate fails, in the order the contract checks them
+ */
+export function explainCandidateEligibility(
+  rules: EligibilityRules,
+  profile: EligibilityProfile,
+  electionDate: Date
+): EligibilityCheck {
+  const reasons = [
+    checkAge(profile, rules.minCandidateAge, electionDate),
+    rules.candidateGender !== undefined &&
+    profile.gender !== rules.candidateGender
+      ? `is ${genderName(profile.gender)}, the seat is reserved for ${genderName(rules.candidateGender)} candidates`
+      : undefined,
+    checkRegion(profile, rules.region),
+  ].filter((reason) => reason !== undefined);
+  return { eligible: reasons.length === 0, reasons };
+}
+
+function checkAge(
+  profile: EligibilityProfile,
+  minAge: number,
+  electionDate: Date
+): string | undefined {
+  const age = getAgeAt(profile.dateOfBirth, electionDate);
+  if (age >= minAge) return undefined;
+  return `is ${age} on ${electionDate.toISOString().slice(0, 10)}, the election requires ${minAge}`;
+}
+
+function checkRegion(
+  profile: EligibilityProfile,
+  region?: string
+): string | undefined {
+  if (region === undefined || profile.region === region) return undefined;
+  return profile.region === undefined
+    ? `has no region, the election is restricted to ${region}`
+    : `is registered in ${profile.region}, the election is restricted to ${region}`;
+}
+
+function genderName(gender: Gender): string {
+  return gender === GenderEnum.FEMALE ? "female" : "male";
+}
@@ -0,0 +1,68 @@
+/**
+ * Chain Elect SDK
+ *
+ * Typed wrapper around the VoterDatabase, CandidateDatabase and ElectionDatabase
+ * contracts, shared by the Hardhat tasks, the ops scripts and the frontend.
+ *
+ * Usage:
+ * ```ts
+ * const client = await ChainElectClient.fromElectionDatabase({
+ *   publicClient,
+ *   walletClient,
+ *   electionDatabase: "0x...",
+ *   abis: await loadChainElectAbis(hre.artifacts),
+ * });
+ * const election = await client.getElection(0n);
+ * ```
+ */
+
+export { ChainElectClient, IMPLEMENTATION_SLOT } from "./client";
+export type { ChainElectClientOptions } from "./client";
+export { loadChainElectAbis } from "./abis";
+export {
+  decodeEligibilityRules,
+  decodeRegion,
+  encodeEligibilityRules,
+  encodeRegion,
+  explainCandidateEligibility,
+  explainVoterEligibility,
+  getAgeAt,
+} from "./eligibility";
+export type { EligibilityRulesStruct } from "./eligibility";
+export { getElectionResults, renderResults } from "./results";
+export type { ResultsFormat } from "./results";
+export {
+  computeInstantRunoff,
+  formatRankedChoiceRounds,
+  getEnrollmentOrder,
+  getRankedChoiceCount,
+} from "./ranked-choice";
+export {
+  fromUnixTime,
+  getVotingWindowStatus,
+  parseScheduleTime,
+  toUnixTime,
+} from "./schedule";
+export type { VotingWindowStatus } from "./schedule";
+export { computeCommitment, generateSalt } from "./secret-ballot";
+export {
+  BALLOT_TYPES,
+  getBallotDomain,
+  signBallot,
+  verifyBallotSignature,
+} from "./signed-ballot";
+export {
+  buildElectoralRoll,
+  computeRollLeaf,
+  getRollProof,
+  snapshotElectoralRoll,
+} from "./electoral-roll";
+export {
+  getRoleName,
+  parseRole,
+  ROLE_DATABASES,
+  ROLE_NAMES,
+  ROLES,
+} from "./roles";
+export type { RoleName } from "./roles";
+export type * from "./types";
@@ -0,0 +1,248 @@
+import { encodeAbiParameters, keccak256, type Address } from "viem";
+import { TieBreakPolicyEnum } from "../../types";
+import type { ChainElectClient } from "./client";
+import type { RankedChoiceCount, RankedChoiceRound, TieBreak } from "./types";
+
+/**
+ * Count ranked ballots by instant-runoff, with the rules of
+ * `ElectionDatabase.adminFinalizeRankedElection`
+ * @dev Every round, each ballot counts for its highest ranked candidate still in the race.
+ *      A candidate with more than half of the counted ballots wins; otherwise the candidate
+ *      with the fewest votes is eliminated. Ties for elimination go to the candidate with
+ *      fewer first choice votes, then to the tie-break policy: the one that enrolled last,
+ *      or under the seeded random policy the higher hash of seed and address.
+ * @param candidates Enrolled candidates, in the order of `getRegisteredCandidates`
+ * @param ballots Ranked ballots, most preferred candidate first
+ * @param firstChoices First choice votes per candidate, as counted on-chain
+ * @param tieBreak Tie-break policy of the election, earliest enrollment by default
+ * @param enrollmentOrder Candidates in the order they last enrolled, see `getEnrollmentOrder`.
+ *                        Defaults to `candidates`, which withdrawals reorder on-chain
+ * @returns Every round and the winner, undefined without votes or candidates
+ */
+export function computeInstantRunoff(
+  candidates: readonly Address[],
+  ballots: readonly (readonly Address[])[],
+  firstChoices: ReadonlyMap<Address, bigint>,
+  tieBreak?: Pick<TieBreak, "policy" | "seed">,
+  enrollmentOrder: readonly Address[] = candidates
+): RankedChoiceCount {
+  const index = new Map(
+    candidates.map((candidate, i) => [candidate.toLowerCase(), i])
+  );
+  const enrollment = new Map(
+    enrollmentOrder.map((candidate, i) => [candidate.toLowerCase(), i])
+  );
+  const enrolledAfter = (a: Address, b: Address) =>
+    (enrollment.get(a.toLowerCase()) ?? 0) >
+    (enrollment.get(b.toLowerCase()) ?? 0);
+  const eliminated = candidates.map(() => false);
+  const rounds: RankedChoiceRound[] = [];
+  let remaining = candidates.length;
+  let winner: Address | undefined;
+
+  while (ballots.length > 0 && remaining > 0 && !winner) {
+    const tallies = candidates.map(() => 0n);
+    let counted = 0n;
+    let exhausted = 0n;
+    for (const ballot of ballots) {
+      // candidates withdrawn after voting are skipped like eliminated ones
+      const choice = ballot
+        .map((candidate) => index.get(candidate.toLowerCase()))
+        .find((i) => i !== undefined && !eliminated[i]);
+      if (choice === undefined) {
+        exhausted++;
+      } else {
+        tallies[choice]++;
+        counted++;
+      }
+    }
+
+    let lowest: number | undefined;
+    for (let i = 0; i < candidates.length; i++) {
+      if (eliminated[i]) continue;
+      if (tallies[i] * 2n > counted || remaining === 1) {
+        winner = candidates[i];
+        break;
+      }
+      if (lowest === undefined || tallies[i] < tallies[lowest]) {
+        lowest = i;
+        continue;
+      }
+      if (tallies[i] > tallies[lowest]) continue;
+
+      const first = firstChoiceOf(firstChoices, candidates[i]);
+      const lowestFirst = firstChoiceOf(firstChoices, candidates[lowest]);
+      if (
+        first < lowestFirst ||
+        (first === lowestFirst &&
+          (tieBreak?.policy === TieBreakPolicyEnum.SEEDED_RANDOM
+            ? drawHash(tieBreak.seed, candidates[i]) >
+              drawHash(tieBreak.seed, candidates[lowest])
+            : enrolledAfter(candidates[i], candidates[lowest])))
+      ) {
+        lowest = i;
+      }
+    }
+
+    const round: RankedChoiceRound = {
+      round: rounds.length + 1,
+      tallies: candidates
+        .map((candidate, i) => ({ candidate, votes: tallies[i] }))
+        .filter((_, i) => !eliminated[i]),
+      exhausted,
+    };
+    if (!winner && lowest !== undefined) {
+      eliminated[lowest] = true;
+      remaining--;
+      round.eliminated = candidates[lowest];
+    }
+    rounds.push(round);
+  }
+
+  return { rounds, winner };
+}
+
+/**
+ * Recount a ranked choice election from the ballots stored on-chain
+ * @dev Works before `adminFinalizeRankedElection` as well, to preview the count
+ * @param client Client for the deployed contracts
+ * @param electionId ID of a ranked choice election
+ * @returns Every round, the computed winner and the winner recorded on-chain, if finalized
+ */
+export async function getRankedChoiceCount(
+  client: ChainElectClient,
+  electionId: bigint
+): Promise<RankedChoiceCount & { finalizedWinner?: Address }> {
+  const [candidates, ballots, isFinalized, tieBreak, enrollmentOrder] =
+    await Promise.all([
+      client.getRegisteredCandidates(electionId),
+      client.getRankedBallots(electionId),
+      client.isElectionFinalized(electionId),
+      client.getTieBreakPolicy(electionId),
+      getEnrollmentOrder(client, electionId),
+    ]);
+  const firstChoices = new Map(
+    await Promise.all(
+      candidates.map(
+        async (candidate) =>
+          [
+            candidate,
+            await client.getVotesOfCandidate(electionId, candidate),
+          ] as const
+      )
+    )
+  );
+
+  const count = computeInstantRunoff(
+    candidates,
+    ballots,
+    firstChoices,
+    tieBreak,
+    enrollmentOrder
+  );
+  if (!isFinalized) return count;
+
+  const winner = await client.getWinner(electionId);
+  return {
+    ...count,
+    finalizedWinner: /^0x0{40}$/.test(winner) ? undefined : winner,
+  };
+}
+
+/**
+ * Order in which the candidates of an election last enrolled, from its events
+ * @dev Matches the enrollment index the contract keeps, which a withdrawal does
+ *      not reset and a new enrollment replaces
+ * @param client Client for the deployed contracts
+ * @param electionId ID of the election
+ * @returns Every candidate that ever enrolled, earliest first
+ */
+export async function getEnrollmentOrder(
+  client: ChainElectClient,
+  electionId: bigint
+): Promise<Address[]> {
+  const query = {
+    address: client.addresses.electionDatabase,
+    abi: client.abis.electionDatabase,
+    args: { electionId },
+    fromBlock: "earliest",
+    strict: true,
+  } as const;
+  const logs = (
+    await Promise.all([
+      client.publicClient.getContractEvents({
+        ...query,
+        eventName: "CandidateEnrolled",
+      }),
+      client.publicClient.getContractEvents({
+        ...query,
+        eventName: "AdminEnrolledCandidate",
+      }),
+    ])
+  )
+    .flat()
+    .sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : Number(a.blockNumber - b.blockNumber)
+    );
+
+  // a later enrollment moves the candidate to the back
+  const order = new Set<Address>();
+  for (const { args } of logs) {
+    order.delete(args.candidate);
+    order.add(args.candidate);
+  }
+  return [...order];
+}
+
+/**
+ * Describe every round of an instant-runoff count, one line per candidate
+ * @param count Count as returned by `computeInstantRunoff`
+ * @param names Display names by candidate address, the address is shown otherwise
+ * @returns Printable text
+ */
+export function formatRankedChoiceRounds(
+  count: RankedChoiceCount,
+  names: ReadonlyMap<Address, string> = new Map()
+): string {
+  const label = (candidate: Address) => names.get(candidate) || candidate;
+  const lines: string[] = [];
+
+  for (const round of count.rounds) {
+    lines.push(`Round ${round.round}`);
+    for (const { candidate, votes } of round.tallies) {
+      lines.push(`  ${label(candidate)}: ${votes}`);
+    }
+    if (round.exhausted > 0n) {
+      lines.push(`  exhausted ballots: ${round.exhausted}`);
+    }
+    if (round.eliminated) {
+      lines.push(`  eliminated: ${label(round.eliminated)}`);
+    }
+  }
+  lines.push(
+    count.winner ? `Winner: ${label(count.winner)}` : "No winner, no votes cast"
+  );
+
+  return lines.join("\n") + "\n";
+}
+
+function firstChoiceOf(
+  firstChoices: ReadonlyMap<Address, bigint>,
+  candidate: Address
+): bigint {
+  return firstChoices.get(candidate) ?? 0n;
+}
+
+// rank of a candidate in the seeded draw, as hashed by ElectionDatabase._isWeaker
+function drawHash(seed: TieBreak["seed"], candidate: Address): bigint {
+  return BigInt(
+    keccak256(
+      encodeAbiParameters(
+        [{ type: "bytes32" }, { type: "address" }],
+        [seed, candidate]
+      )
+    )
+  );
+}
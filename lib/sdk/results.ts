@@ -0,0 +1,209 @@
+import { zeroAddress } from "viem";
+import {
+  ElectionTypeEnum,
+  ResultStatusEnum,
+  TieBreakPolicyEnum,
+} from "../../types";
+import { toCsv } from "../csv";
+import type { ChainElectClient } from "./client";
+import type { CandidateResult, ElectionResults } from "./types";
+
+export type ResultsFormat = "json" | "csv" | "markdown";
+
+const RESULT_STATUSES = {
+  [ResultStatusEnum.NO_VOTES]: "no-votes",
+  [ResultStatusEnum.UNIQUE]: "unique",
+  [ResultStatusEnum.TIE]: "tie",
+} as const;
+
+const TIE_BREAK_POLICIES = {
+  [TieBreakPolicyEnum.EARLIEST_ENROLLMENT]: "earliest enrollment",
+  [TieBreakPolicyEnum.ADMIN_DECISION]: "admin decision",
+  [TieBreakPolicyEnum.SEEDED_RANDOM]: "seeded random draw",
+} as const;
+
+/**
+ * Gather the results of an election
+ * @dev The voter count is only readable by admins of the VoterDatabase,
+ *      so the client needs an admin wallet for the turnout
+ * @param client Client connected with an admin account of the VoterDatabase
+ * @param electionId ID of the election
+ * @returns Vote counts, percentages, margin and turnout
+ * @dev For ranked choice elections the votes are first choices and the winner is
+ *      the instant-runoff winner, undefined until the count is finalized
+ * @dev For approval elections the votes are approvals, and the distribution of
+ *      approvals per ballot is included
+ * @dev For secret ballot elections the votes are revealed ballots, committed
+ *      ballots not revealed yet are reported separately
+ */
+export async function getElectionResults(
+  client: ChainElectClient,
+  electionId: bigint
+): Promise<ElectionResults> {
+  const [election, addresses, registeredVoters] = await Promise.all([
+    client.getElection(electionId),
+    client.getRegisteredCandidates(electionId),
+    client.getVoterCount(),
+  ]);
+
+  const rows = await Promise.all(
+    addresses.map(async (address) => ({
+      address,
+      // reverts if the candidate left the CandidateDatabase after enrolling
+      name: await client.getCandidate(address).then(
+        ({ name }) => name,
+        () => ""
+      ),
+      votes: await client.getVotesOfCandidate(electionId, address),
+    }))
+  );
+  rows.sort((a, b) => (a.votes === b.votes ? 0 : a.votes > b.votes ? -1 : 1));
+
+  // equal votes share the rank of the first candidate with that count
+  const candidates: CandidateResult[] = rows.map((row) => ({
+    ...row,
+    rank: rows.findIndex(({ votes }) => votes === row.votes) + 1,
+    percentage: percentage(row.votes, election.totalVotes),
+  }));
+
+  const [first, second] = rows;
+  const margin = first ? first.votes - (second?.votes ?? 0n) : 0n;
+
+  // the contract knows the instant-runoff winner and applies the tie-break policy
+  const [{ leaders, status }, onChainWinner, { policy }] = await Promise.all([
+    client.getWinners(electionId),
+    client.getWinner(electionId),
+    client.getTieBreakPolicy(electionId),
+  ]);
+  const winner = onChainWinner === zeroAddress ? undefined : onChainWinner;
+  const tie = status === ResultStatusEnum.TIE;
+  const approvalDistribution =
+    election.electionType === ElectionTypeEnum.APPROVAL
+      ? await client.getApprovalDistribution(electionId)
+      : undefined;
+  // votes are only counted once revealed
+  const unrevealedCommits =
+    election.electionType === ElectionTypeEnum.SECRET_BALLOT
+      ? await client
+          .getCommitStats(electionId)
+          .then(({ commits, reveals }) => commits - reveals)
+      : undefined;
+
+  return {
+    electionId,
+    name: election.name,
+    description: election.description,
+    isActive: election.isActive,
+    electionType: election.electionType,
+    candidates,
+    totalVotes: election.totalVotes,
+    registeredVoters,
+    turnout: percentage(election.totalVotes, registeredVoters),
+    winner: tie ? undefined : winner,
+    status: RESULT_STATUSES[status],
+    tiedCandidates: tie ? leaders : undefined,
+    tieBreakPolicy: policy,
+    tieBreakWinner: tie ? winner : undefined,
+    margin,
+    approvalDistribution,
+    unrevealedCommits,
+    generatedAt: new Date(),
+  };
+}
+
+/**
+ * Render election results for publishing
+ * @param results Results as returned by `getElectionResults`
+ * @param format Output format
+ * @returns The report content
+ */
+export function renderResults(
+  results: ElectionResults,
+  format: ResultsFormat
+): string {
+  switch (format) {
+    case "json":
+      return (
+        JSON.stringify(
+          results,
+          (_key, v) => (typeof v === "bigint" ? v.toString() : v),
+          2
+        ) + "\n"
+      );
+    case "csv":
+      return toCsv(results.candidates);
+    case "markdown":
+      return renderMarkdown(results);
+  }
+}
+
+function renderMarkdown(results: ElectionResults): string {
+  const status = results.isActive ? "open" : "closed";
+  const label = (address?: string) => {
+    const candidate = results.candidates.find((c) => c.address === address);
+    return candidate ? candidate.name || candidate.address : undefined;
+  };
+  const winner = label(results.winner);
+
+  const ranked = results.electionType === ElectionTypeEnum.RANKED_CHOICE;
+  const approval = results.electionType === ElectionTypeEnum.APPROVAL;
+  let winnerLine = winner
+    ? `- Winner: ${winner} by ${results.margin} ${approval ? "approvals" : "votes"}`
+    : "- Winner: none (no votes)";
+  if (ranked) {
+    winnerLine = winner
+      ? `- Winner: ${winner} after instant-runoff`
+      : "- Winner: none (instant-runoff count not finalized)";
+  } else if (results.tiedCandidates) {
+    const tied = results.tiedCandidates.map(label).join(", ");
+    const policy = TIE_BREAK_POLICIES[results.tieBreakPolicy];
+    winnerLine = results.tieBreakWinner
+      ? `- Winner: ${label(results.tieBreakWinner)} by ${policy} after a tie between ${tied}`
+      : `- Winner: none yet, tie between ${tied} awaiting ${policy}`;
+  }
+
+  const lines = [
+    `# ${results.name} results`,
+    "",
+    results.description,
+    "",
+    `- Election ID: ${results.electionId}`,
+    `- Status: ${status}`,
+    `- Votes cast: ${results.totalVotes} of ${results.registeredVoters} registered voters (${results.turnout.toFixed(2)}% turnout)`,
+    winnerLine,
+    ...(results.unrevealedCommits !== undefined
+      ? [`- Unrevealed commits: ${results.unrevealedCommits} (not counted)`]
+      : []),
+    `- Generated at: ${results.generatedAt.toISOString()}`,
+    "",
+    `| Rank | Candidate | Address | ${ranked ? "First choices" : approval ? "Approvals" : "Votes"} | Share |`,
+    "| ---: | --- | --- | ---: | ---: |",
+    ...results.candidates.map(
+      (c) =>
+        `| ${c.rank} | ${escapeMarkdown(c.name)} | \`${c.address}\` | ${c.votes} | ${c.percentage.toFixed(2)}% |`
+    ),
+  ];
+  if (results.approvalDistribution) {
+    lines.push(
+      "",
+      "## Approvals per ballot",
+      "",
+      "| Candidates approved | Ballots | Share |",
+      "| ---: | ---: | ---: |",
+      ...results.approvalDistribution.map(
+        ({ approvals, ballots }) =>
+          `| ${approvals} | ${ballots} | ${percentage(ballots, results.totalVotes).toFixed(2)}% |`
+      )
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
+
+// percentage with two decimals, computed on bigints to stay exact
+function percentage(part: bigint, total: bigint): number {
+  return total === 0n ? 0 : Number((part * 10000n) / total) / 100;
+}
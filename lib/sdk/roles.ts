@@ -0,0 +1,50 @@
+import { Hex, keccak256, toHex } from "viem";
+import type { ChainElectAddresses } from "./types";
+
+/**
+ * Roles of `AdminManagement`, matching the `*_ROLE` constants of the contracts
+ * - REGISTRAR: adds, updates, removes and imports voters and candidates
+ * - ELECTION_MANAGER: runs elections, from creation to tie breaks
+ * - AUDITOR: reads voter records
+ * - SYSTEM: held by ElectionDatabase on both databases
+ */
+export const ROLES = {
+  REGISTRAR: keccak256(toHex("REGISTRAR")),
+  ELECTION_MANAGER: keccak256(toHex("ELECTION_MANAGER")),
+  AUDITOR: keccak256(toHex("AUDITOR")),
+  SYSTEM: keccak256(toHex("SYSTEM")),
+} as const;
+
+export type RoleName = keyof typeof ROLES;
+
+export const ROLE_NAMES = Object.keys(ROLES) as RoleName[];
+
+/** Databases with functions guarded by each role */
+export const ROLE_DATABASES: Record<RoleName, (keyof ChainElectAddresses)[]> = {
+  REGISTRAR: ["voterDatabase", "candidateDatabase"],
+  ELECTION_MANAGER: ["electionDatabase"],
+  AUDITOR: ["voterDatabase"],
+  SYSTEM: ["voterDatabase", "candidateDatabase"],
+};
+
+/**
+ * Role name as typed by a user, case insensitive and with or without `_ROLE`
+ * @throws Error if the name is not a known role
+ */
+export function parseRole(name: string): RoleName {
+  const key = name
+    .toUpperCase()
+    .replace(/-/g, "_")
+    .replace(/_ROLE$/, "");
+  if (!(key in ROLES)) {
+    throw new Error(
+      `Unknown role "${name}", expected one of ${ROLE_NAMES.join(", ")}`
+    );
+  }
+  return key as RoleName;
+}
+
+/** Name of a role identifier, or the identifier itself if it is unknown */
+export function getRoleName(role: Hex): string {
+  return ROLE_NAMES.find((name) => ROLES[name] === role) ?? role;
+}
@@ -0,0 +1,54 @@
+import type { ElectionSchedule } from "./types";
+
+/**
+ * Where the current time falls in the voting window of an election
+ * @dev "open" only means the time is within the schedule, the election must
+ *      still be opened with `adminOpenElection` to accept ballots
+ */
+export type VotingWindowStatus = "not-started" | "open" | "ended";
+
+/**
+ * Where a point in time falls in the voting window, following the contract rules
+ * @dev The start time is inclusive, the end time exclusive
+ * @param schedule Voting window as returned by `getElectionSchedule`
+ * @param now Usually the timestamp of the latest block, defaults to the local clock
+ */
+export function getVotingWindowStatus(
+  schedule: ElectionSchedule,
+  now: Date = new Date()
+): VotingWindowStatus {
+  const time = toUnixTime(now);
+  if (schedule.startTime && time < toUnixTime(schedule.startTime)) {
+    return "not-started";
+  }
+  if (schedule.endTime && time >= toUnixTime(schedule.endTime)) {
+    return "ended";
+  }
+  return "open";
+}
+
+/**
+ * Parse a schedule time given as an ISO 8601 date or as Unix seconds
+ * @throws If the value is neither
+ */
+export function parseScheduleTime(value: string): Date {
+  const date = /^\d+$/.test(value)
+    ? new Date(Number(value) * 1000)
+    : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid time "${value}", expected ISO 8601 or Unix seconds`
+    );
+  }
+  return date;
+}
+
+/** Unix seconds as stored by ElectionDatabase, 0 for no time */
+export function toUnixTime(date?: Date): bigint {
+  return date ? BigInt(Math.floor(date.getTime() / 1000)) : 0n;
+}
+
+/** Inverse of `toUnixTime` */
+export function fromUnixTime(timestamp: bigint): Date | undefined {
+  return timestamp > 0n ? new Date(Number(timestamp) * 1000) : undefined;
+}
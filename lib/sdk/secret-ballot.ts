@@ -0,0 +1,33 @@
+import { Address, encodeAbiParameters, Hex, keccak256, toHex } from "viem";
+
+/**
+ * Random 32 byte salt for a secret ballot commitment
+ * @dev Uses the Web Crypto API, available in Node and in browsers
+ */
+export function generateSalt(): Hex {
+  return toHex(globalThis.crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Commitment of a secret ballot, matching `ElectionDatabase.getCommitment`
+ * @dev Without the salt the candidate cannot be recovered from the commitment,
+ *      so the salt must stay private until the election is closed
+ */
+export function computeCommitment(
+  electionId: bigint,
+  voter: Address,
+  candidate: Address,
+  salt: Hex
+): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "uint256" },
+        { type: "address" },
+        { type: "address" },
+        { type: "bytes32" },
+      ],
+      [electionId, voter, candidate, salt]
+    )
+  );
+}
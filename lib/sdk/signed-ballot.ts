@@ -0,0 +1,98 @@
+import {
+  Address,
+  getAddress,
+  TypedDataDomain,
+  verifyTypedData,
+  WalletClient,
+} from "viem";
+import type { SignedBallot } from "./types";
+
+/** EIP-712 types of the ballots accepted by `ElectionDatabase.voteBySig` */
+export const BALLOT_TYPES = {
+  Ballot: [
+    { name: "electionId", type: "uint256" },
+    { name: "candidate", type: "address" },
+    { name: "voter", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/** EIP-712 domain of an ElectionDatabase deployment */
+export function getBallotDomain(
+  chainId: number,
+  electionDatabase: Address
+): TypedDataDomain {
+  return {
+    name: "ElectionDatabase",
+    version: "1",
+    chainId,
+    verifyingContract: electionDatabase,
+  };
+}
+
+/**
+ * Sign a plurality ballot, so a relayer can submit it without the voter paying gas
+ * @dev Works with any wallet client, e.g. a browser wallet in the frontend
+ * @param walletClient Wallet client of the voter, with an account
+ * @param nonce Current nonce of the voter, see `getBallotNonce`
+ * @param deadline Unix timestamp after which the ballot is rejected
+ */
+export async function signBallot(
+  walletClient: WalletClient,
+  ballot: {
+    chainId: number;
+    electionDatabase: Address;
+    electionId: bigint;
+    candidate: Address;
+    nonce: bigint;
+    deadline: bigint;
+  }
+): Promise<SignedBallot> {
+  const { account } = walletClient;
+  if (!account) {
+    throw new Error("signBallot: the wallet client has no account");
+  }
+  const { chainId, electionDatabase, nonce, ...message } = ballot;
+
+  const signature = await walletClient.signTypedData({
+    account,
+    domain: getBallotDomain(chainId, electionDatabase),
+    types: BALLOT_TYPES,
+    primaryType: "Ballot",
+    message: { ...message, voter: account.address, nonce },
+  });
+  return {
+    electionId: message.electionId,
+    candidate: getAddress(message.candidate),
+    voter: getAddress(account.address),
+    deadline: message.deadline,
+    signature,
+  };
+}
+
+/**
+ * Check off-chain that a ballot was signed by its voter for the given nonce
+ * @dev Catches bad signatures before a transaction is simulated
+ */
+export async function verifyBallotSignature(
+  ballot: SignedBallot,
+  nonce: bigint,
+  chainId: number,
+  electionDatabase: Address
+): Promise<boolean> {
+  return verifyTypedData({
+    address: ballot.voter,
+    domain: getBallotDomain(chainId, electionDatabase),
+    types: BALLOT_TYPES,
+    primaryType: "Ballot",
+    message: {
+      electionId: ballot.electionId,
+      candidate: ballot.candidate,
+      voter: ballot.voter,
+      nonce,
+      deadline: ballot.deadline,
+    },
+    signature: ballot.signature,
+  });
+}
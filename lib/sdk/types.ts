@@ -0,0 +1,206 @@
+import type { ArtifactsMap } from "hardhat/types/artifacts";
+import type { Address, Hex } from "viem";
+import type { ElectionType, Gender, TieBreakPolicy } from "../../types";
+
+export type VoterDatabaseAbi = ArtifactsMap["VoterDatabase"]["abi"];
+export type CandidateDatabaseAbi = ArtifactsMap["CandidateDatabase"]["abi"];
+export type ElectionDatabaseAbi = ArtifactsMap["ElectionDatabase"]["abi"];
+
+/**
+ * ABIs of the three contracts, either read from the Hardhat artifacts
+ * (see `loadChainElectAbis`) or imported from the generated frontend files
+ */
+export interface ChainElectAbis {
+  voterDatabase: VoterDatabaseAbi;
+  candidateDatabase: CandidateDatabaseAbi;
+  electionDatabase: ElectionDatabaseAbi;
+}
+
+/** Deployed addresses of the three contracts */
+export interface ChainElectAddresses {
+  voterDatabase: Address;
+  candidateDatabase: Address;
+  electionDatabase: Address;
+}
+
+/** An election as returned by `ElectionDatabase.getElectionDetails` */
+export interface Election {
+  id: bigint;
+  name: string;
+  description: string;
+  isActive: boolean;
+  candidates: readonly Address[];
+  totalVotes: bigint;
+  // ElectionDatabase stores this one as a plain Unix timestamp
+  createdAt: Date;
+  electionType: ElectionType;
+  startTime?: Date;
+  endTime?: Date;
+}
+
+/** Optional voting window of an election, see `getVotingWindowStatus` */
+export interface ElectionSchedule {
+  // ballots are accepted from this time on, no limit if undefined
+  startTime?: Date;
+  // ballots are rejected from this time on, no limit if undefined
+  endTime?: Date;
+}
+
+/** Who may vote in and stand for an election, see `getEligibilityRules` */
+export interface EligibilityRules {
+  // minimum ages on the election date, 0 for none
+  minVoterAge: number;
+  minCandidateAge: number;
+  // gender the seats are reserved for, any if undefined
+  candidateGender?: Gender;
+  // region voters and candidates must be registered in, any if undefined
+  region?: string;
+}
+
+/** What the eligibility rules of an election are checked against */
+export interface EligibilityProfile {
+  dateOfBirth: Date;
+  gender: Gender;
+  // set by a registrar, undefined for none
+  region?: string;
+}
+
+/** Outcome of `checkVoterEligibility` and `checkCandidateEligibility` */
+export interface EligibilityCheck {
+  eligible: boolean;
+  // one explanation per rule that is not met, empty if eligible
+  reasons: string[];
+}
+
+/** A voter as returned by `VoterDatabase.adminGetVoterDetails` or `getMyDetails` */
+export interface Voter {
+  address: Address;
+  name: string;
+  dateOfBirth: Date;
+  gender: Gender;
+  presentAddress: string;
+  email: string;
+  timesVoted: bigint;
+  registeredAt: Date;
+}
+
+/** A candidate as returned by `CandidateDatabase.getCandidateDetails` or `getMyDetails` */
+export interface Candidate {
+  address: Address;
+  name: string;
+  dateOfBirth: Date;
+  gender: Gender;
+  presentAddress: string;
+  email: string;
+  qualifications: string;
+  manifesto: string;
+  registeredAt: Date;
+}
+
+/** Voter details accepted by the add/update functions */
+export type VoterInput = Omit<Voter, "address" | "timesVoted" | "registeredAt">;
+
+/** Candidate details accepted by the add/update functions */
+export type CandidateInput = Omit<Candidate, "address" | "registeredAt">;
+
+/** Tie-break policy of an election, see `getTieBreakPolicy` */
+export interface TieBreak {
+  policy: TieBreakPolicy;
+  // seed of the draw for the seeded random policy
+  seed: Hex;
+  // set once the tie was broken on-chain
+  winner?: Address;
+}
+
+/** Number of approval ballots by how many candidates they approve, ascending */
+export type ApprovalDistribution = { approvals: number; ballots: bigint }[];
+
+/** Commit-reveal progress of a secret ballot election, see `getCommitStats` */
+export interface CommitStats {
+  commits: bigint;
+  // revealed ballots are the ones counted
+  reveals: bigint;
+  // voters who committed but have not revealed, in commit order
+  unrevealed: readonly Address[];
+}
+
+/** Merkle tree of the voters allowed in an election, see `buildElectoralRoll` */
+export interface ElectoralRoll {
+  root: Hex;
+  // checksummed, in leaf order
+  voters: Address[];
+  // StandardMerkleTree layout: the root first, the leaves last in reverse order
+  tree: Hex[];
+}
+
+/** A plurality ballot signed by its voter, see `signBallot` and `voteBySig` */
+export interface SignedBallot {
+  electionId: bigint;
+  candidate: Address;
+  voter: Address;
+  // Unix timestamp after which the ballot is rejected
+  deadline: bigint;
+  signature: Hex;
+}
+
+/** One row of an election result, see `getElectionResults` */
+export interface CandidateResult {
+  // 1-based, candidates with equal votes share a rank
+  rank: number;
+  address: Address;
+  // empty if the candidate has since left the CandidateDatabase
+  name: string;
+  // approvals in approval elections, first choices in ranked choice elections
+  votes: bigint;
+  // share of the votes cast, in percent; share of the ballots approving
+  // the candidate in approval elections, so these add up to more than 100
+  percentage: number;
+}
+
+/** Results of an election, candidates ordered by votes */
+export interface ElectionResults {
+  electionId: bigint;
+  name: string;
+  description: string;
+  isActive: boolean;
+  electionType: ElectionType;
+  candidates: CandidateResult[];
+  totalVotes: bigint;
+  registeredVoters: bigint;
+  // votes cast against registered voters, in percent
+  turnout: number;
+  // undefined without votes or when the top candidates are tied,
+  // for ranked choice the instant-runoff winner once finalized
+  winner?: Address;
+  status: "no-votes" | "unique" | "tie";
+  // set on a tie, the leaders in enrollment order
+  tiedCandidates?: readonly Address[];
+  tieBreakPolicy: TieBreakPolicy;
+  // set on a tie, once the tie-break policy picked one of the tied candidates
+  tieBreakWinner?: Address;
+  // votes between the first and the second candidate
+  margin: bigint;
+  // approval elections only
+  approvalDistribution?: ApprovalDistribution;
+  // secret ballot elections only, committed ballots that are not counted yet
+  unrevealedCommits?: bigint;
+  generatedAt: Date;
+}
+
+/** Votes of the candidates still in the race during one instant-runoff round */
+export interface RankedChoiceRound {
+  // 1-based
+  round: number;
+  tallies: { candidate: Address; votes: bigint }[];
+  // ballots that rank no candidate still in the race
+  exhausted: bigint;
+  // unset in the last round, which has a winner
+  eliminated?: Address;
+}
+
+/** Instant-runoff count of a ranked choice election, see `computeInstantRunoff` */
+export interface RankedChoiceCount {
+  rounds: RankedChoiceRound[];
+  // undefined without votes or candidates
+  winner?: Address;
+}
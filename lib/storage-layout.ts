@@ -0,0 +1,405 @@
+/**
+ * Storage layout comparison for contract upgrades
+ *
+ * A proxy keeps the storage of every implementation it ever pointed to, so a
+ * new implementation must read each existing variable at the same slot and
+ * offset, with a type of the same shape. Layouts come from the `storageLayout`
+ * output of solc, recorded in the Hardhat and Ignition build info, and can be
+ * saved as a baseline to compare every later build with.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { BuildInfo, RunTaskFunction } from "hardhat/types";
+import {
+  TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+  TASK_COMPILE_SOLIDITY_RUN_SOLC,
+  TASK_COMPILE_SOLIDITY_RUN_SOLCJS,
+} from "hardhat/builtin-tasks/task-names";
+
+// Baseline checked by `storage-layout:check`, written by `storage-layout:snapshot`
+export const STORAGE_LAYOUT_BASELINE = path.join(
+  __dirname,
+  "../storage-layout.json"
+);
+
+export interface StorageVariable {
+  contract: string;
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+export interface StorageType {
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: StorageVariable[];
+}
+
+export interface StorageLayout {
+  storage: StorageVariable[];
+  types: Record<string, StorageType> | null;
+}
+
+// Layouts by contract name, the format of a saved baseline
+export type StorageLayouts = Record<string, StorageLayout>;
+
+export type LayoutChangeKind =
+  | "appended"
+  | "removed"
+  | "retyped"
+  | "shifted"
+  | "renamed";
+
+/**
+ * A difference between two layouts
+ * @dev Struct members are labelled with the path to them, e.g.
+ *      `s_voters[].email`, and their slot is relative to the struct
+ */
+export interface LayoutChange {
+  kind: LayoutChangeKind;
+  label: string;
+  slot: string;
+  offset: number;
+  detail: string;
+  // renamed variables keep their data, so do appended ones unless they make
+  // a struct grow into the data stored after it
+  safe: boolean;
+}
+
+/**
+ * Read the storage layout of a contract from a build info
+ * @throws Error if the contract is missing or was compiled without the
+ *         `storageLayout` output
+ */
+export function getStorageLayout(
+  buildInfo: BuildInfo,
+  sourceName: string,
+  contractName: string
+): StorageLayout {
+  const contract = buildInfo.output.contracts[sourceName]?.[contractName] as
+    | { storageLayout?: StorageLayout }
+    | undefined;
+  if (!contract) {
+    throw new Error(`${sourceName}:${contractName} is not in the build info`);
+  }
+  if (!contract.storageLayout) {
+    throw new Error(
+      `${sourceName}:${contractName} was compiled without a storage layout`
+    );
+  }
+  return contract.storageLayout;
+}
+
+/**
+ * Read the layouts of the given contracts from a build info, wherever they
+ * are defined
+ * @returns Layouts of the contracts found in the build info
+ * @throws Error if a contract was compiled without the `storageLayout` output
+ */
+export function extractStorageLayouts(
+  buildInfo: BuildInfo,
+  contractNames: string[]
+): StorageLayouts {
+  const layouts: StorageLayouts = {};
+  for (const [sourceName, contracts] of Object.entries(
+    buildInfo.output.contracts
+  )) {
+    for (const contractName of Object.keys(contracts)) {
+      if (contractNames.includes(contractName)) {
+        layouts[contractName] = getStorageLayout(
+          buildInfo,
+          sourceName,
+          contractName
+        );
+      }
+    }
+  }
+  return layouts;
+}
+
+/**
+ * Whether a build info was compiled with the `storageLayout` output, build
+ * infos of older deployments were not
+ */
+export function hasStorageLayouts(buildInfo: BuildInfo): boolean {
+  return Object.values(buildInfo.output.contracts).some((contracts) =>
+    Object.values(contracts).some((contract) => "storageLayout" in contract)
+  );
+}
+
+/**
+ * Read the layouts of the given contracts from a build info, compiling its
+ * input again with the `storageLayout` output if it was built without it
+ * @param run Runs Hardhat tasks, to get the compiler of the build info
+ * @throws Error if the compiler reports an error
+ */
+export async function loadStorageLayouts(
+  run: RunTaskFunction,
+  buildInfo: BuildInfo,
+  contractNames: string[]
+): Promise<StorageLayouts> {
+  if (hasStorageLayouts(buildInfo)) {
+    return extractStorageLayouts(buildInfo, contractNames);
+  }
+
+  const input = {
+    ...buildInfo.input,
+    settings: {
+      ...buildInfo.input.settings,
+      outputSelection: { "*": { "*": ["storageLayout"] } },
+    },
+  };
+  const solcBuild = await run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, {
+    quiet: true,
+    solcVersion: buildInfo.solcVersion,
+  });
+  const output = solcBuild.isSolcJs
+    ? await run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, {
+        input,
+        solcJsPath: solcBuild.compilerPath,
+      })
+    : await run(TASK_COMPILE_SOLIDITY_RUN_SOLC, {
+        input,
+        solcPath: solcBuild.compilerPath,
+        solcVersion: buildInfo.solcVersion,
+      });
+
+  const errors = (output.errors ?? []).filter(
+    (error: { severity: string }) => error.severity === "error"
+  );
+  if (errors.length > 0) {
+    throw new Error(
+      `Compiling the build info failed: ${errors.map((e: { message: string }) => e.message).join("; ")}`
+    );
+  }
+  return extractStorageLayouts({ ...buildInfo, output }, contractNames);
+}
+
+/**
+ * Read a saved baseline
+ * @throws Error if the file does not exist
+ */
+export function readStorageLayouts(filePath: string): StorageLayouts {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No storage layout baseline at ${filePath}`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Save layouts as the baseline of later comparisons
+ */
+export function writeStorageLayouts(
+  filePath: string,
+  layouts: StorageLayouts
+): void {
+  fs.writeFileSync(filePath, JSON.stringify(layouts, null, 2) + "\n");
+}
+
+/**
+ * List the differences between a deployed layout and a new one
+ * @param previous Layout of the deployed code, or of the baseline
+ * @param next Layout of the code replacing it
+ * @returns One change per variable or struct member that moved, changed or
+ *          was added, in the order of the previous layout followed by the
+ *          added variables
+ */
+export function compareStorageLayouts(
+  previous: StorageLayout,
+  next: StorageLayout
+): LayoutChange[] {
+  // nothing is stored after the last variable, so the contract may grow
+  return compareVariables(
+    previous,
+    previous.storage,
+    next,
+    next.storage,
+    "",
+    true
+  );
+}
+
+/**
+ * Whether every change keeps the data already stored
+ */
+export function isUpgradeSafe(changes: LayoutChange[]): boolean {
+  return changes.every(({ safe }) => safe);
+}
+
+/**
+ * Compare the variables of a contract or the members of a struct
+ * @param prefix Path to the struct, empty for the variables of a contract
+ * @param canGrow Whether variables may be added after the last one, which
+ *        holds for contracts and for structs stored as values of a mapping
+ */
+function compareVariables(
+  previous: StorageLayout,
+  before: StorageVariable[],
+  next: StorageLayout,
+  after: StorageVariable[],
+  prefix: string,
+  canGrow: boolean
+): LayoutChange[] {
+  const changes: LayoutChange[] = [];
+  const position = (v: StorageVariable) => `${v.slot}:${v.offset}`;
+  const afterByPosition = new Map(after.map((v) => [position(v), v]));
+  const matched = new Set<StorageVariable>();
+
+  for (const variable of before) {
+    const label = prefix + variable.label;
+    const counterpart = afterByPosition.get(position(variable));
+    const moved = after.find(
+      (v) => v.label === variable.label && v.contract === variable.contract
+    );
+    const change = (kind: LayoutChangeKind, detail: string, safe = false) =>
+      changes.push({
+        kind,
+        label,
+        slot: variable.slot,
+        offset: variable.offset,
+        detail,
+        safe,
+      });
+
+    if (!counterpart || (moved && moved !== counterpart)) {
+      if (moved) {
+        matched.add(moved);
+        change(
+          "shifted",
+          `moved from slot ${variable.slot} offset ${variable.offset} to slot ${moved.slot} offset ${moved.offset}`
+        );
+        // a struct may have changed on top of moving
+        changes.push(
+          ...compareTypes(previous, variable, next, moved, label, false)
+        );
+      } else {
+        change(
+          "removed",
+          `nothing is stored at slot ${variable.slot} any more`
+        );
+      }
+      continue;
+    }
+
+    matched.add(counterpart);
+    if (counterpart.label !== variable.label) {
+      change("renamed", `renamed to ${counterpart.label}`, true);
+    }
+    changes.push(
+      ...compareTypes(previous, variable, next, counterpart, label, false)
+    );
+  }
+
+  const end = endOfVariables(previous, before);
+  for (const variable of after.filter((v) => !matched.has(v))) {
+    const appended = BigInt(variable.slot) >= end;
+    changes.push({
+      kind: appended ? "appended" : "retyped",
+      label: prefix + variable.label,
+      slot: variable.slot,
+      offset: variable.offset,
+      detail: !appended
+        ? `new ${typeLabel(next, variable.type)} in slot ${variable.slot}, which is already in use`
+        : canGrow
+          ? `new ${typeLabel(next, variable.type)}`
+          : `new ${typeLabel(next, variable.type)}, the struct grows into the data stored after it`,
+      safe: appended && canGrow,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the types of a variable in two layouts
+ * @param canGrow Whether a struct type may gain members, see compareVariables
+ */
+function compareTypes(
+  previous: StorageLayout,
+  variable: StorageVariable,
+  next: StorageLayout,
+  counterpart: StorageVariable,
+  label: string,
+  canGrow: boolean
+): LayoutChange[] {
+  const before = previous.types?.[variable.type];
+  const after = next.types?.[counterpart.type];
+  const retyped = (detail: string): LayoutChange[] => [
+    {
+      kind: "retyped",
+      label,
+      slot: variable.slot,
+      offset: variable.offset,
+      detail,
+      safe: false,
+    },
+  ];
+  // the element of a mapping or an array has no slot of its own
+  const element = (
+    type: string,
+    other: string
+  ): [StorageVariable, StorageVariable] => [
+    { ...variable, type },
+    { ...counterpart, type: other },
+  ];
+
+  if (!before || !after) {
+    return retyped(`unknown type ${variable.type} or ${counterpart.type}`);
+  }
+  if (before.encoding !== after.encoding || before.label !== after.label) {
+    return retyped(`changed from ${before.label} to ${after.label}`);
+  }
+
+  if (before.members && after.members) {
+    return compareVariables(
+      previous,
+      before.members,
+      next,
+      after.members,
+      `${label}.`,
+      canGrow
+    );
+  }
+  if (before.value && after.value) {
+    // every mapping value has its own slots, so its struct may grow, and the
+    // key type is part of the label compared above
+    const [value1, value2] = element(before.value, after.value);
+    return compareTypes(previous, value1, next, value2, `${label}[]`, true);
+  }
+  if (before.numberOfBytes !== after.numberOfBytes) {
+    return retyped(
+      `${before.label} changed size from ${before.numberOfBytes} to ${after.numberOfBytes} bytes`
+    );
+  }
+  if (before.base && after.base) {
+    // array elements are contiguous
+    const [base1, base2] = element(before.base, after.base);
+    return compareTypes(previous, base1, next, base2, `${label}[]`, false);
+  }
+  return [];
+}
+
+/**
+ * First slot after the last of the variables
+ */
+function endOfVariables(
+  layout: StorageLayout,
+  variables: StorageVariable[]
+): bigint {
+  return variables.reduce((end, variable) => {
+    const bytes = BigInt(layout.types?.[variable.type]?.numberOfBytes ?? 32);
+    const slots = (BigInt(variable.offset) + bytes + 31n) / 32n;
+    const last = BigInt(variable.slot) + slots;
+    return last > end ? last : end;
+  }, 0n);
+}
+
+function typeLabel(layout: StorageLayout, type: string): string {
+  return layout.types?.[type]?.label ?? type;
+}
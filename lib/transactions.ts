@@ -0,0 +1,150 @@
+import {
+  Abi,
+  Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  Hash,
+  Hex,
+  isHex,
+} from "viem";
+import type { ChainElectClient } from "./sdk";
+
+/** A single contract write, prepared but not yet sent */
+export interface ContractCall {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+}
+
+export type CallOutcome =
+  | { status: "success"; transactionHash: Hash }
+  | { status: "reverted"; error: string; transactionHash?: Hash };
+
+/**
+ * Extract a readable reason from a viem error, preferring the decoded custom error name
+ * @param err Error thrown by a viem action
+ * @param abi ABI used to decode raw revert data that viem could not decode itself
+ * @returns Custom error name, revert reason or the short error message
+ */
+export function describeError(err: unknown, abi?: Abi): string {
+  if (!(err instanceof BaseError)) {
+    return err instanceof Error ? err.message : String(err);
+  }
+
+  const revertError = err.walk(
+    (e) => e instanceof ContractFunctionRevertedError
+  );
+  if (revertError instanceof ContractFunctionRevertedError) {
+    return (
+      revertError.data?.errorName ?? revertError.reason ?? err.shortMessage
+    );
+  }
+
+  const data = getRevertData(err);
+  if (abi && data) {
+    try {
+      return decodeErrorResult({ abi, data }).errorName;
+    } catch {
+      // unknown selector, fall through to the generic message
+    }
+  }
+  return err.shortMessage;
+}
+
+/**
+ * Raw revert data anywhere in the cause chain of a viem error
+ * @dev The in-process Hardhat network reports reverts in a shape viem does not decode,
+ *      but the raw revert data is still available further down the cause chain
+ * @returns The revert data, `0x` for a revert without data, undefined if there is none
+ */
+export function getRevertData(err: BaseError): Hex | undefined {
+  return (
+    err.walk((e) => isHex((e as { data?: unknown }).data)) as {
+      data?: Hex;
+    } | null
+  )?.data;
+}
+
+/**
+ * Send contract writes in chunks, managing nonces locally so that every
+ * transaction of a chunk is in flight before the first receipt is awaited
+ * @dev Each call is simulated first, so reverts are reported with their decoded
+ *      error without spending gas
+ * @param client Client whose wallet account sends the transactions
+ * @param calls Calls to send, in order
+ * @param chunkSize Number of transactions sent before waiting for receipts
+ * @param onOutcome Called once per call as soon as its outcome is known
+ * @returns Outcome of every call, in the same order as `calls`
+ */
+export async function sendInChunks(
+  client: ChainElectClient,
+  calls: ContractCall[],
+  chunkSize: number,
+  onOutcome?: (index: number, outcome: CallOutcome) => void | Promise<void>
+): Promise<CallOutcome[]> {
+  const { walletClient, account } = client.requireWallet();
+  const { publicClient } = client;
+  const outcomes: CallOutcome[] = [];
+
+  const record = async (index: number, outcome: CallOutcome) => {
+    outcomes[index] = outcome;
+    await onOutcome?.(index, outcome);
+  };
+
+  for (let start = 0; start < calls.length; start += chunkSize) {
+    const chunk = calls.slice(start, start + chunkSize);
+    let nonce = await publicClient.getTransactionCount({
+      address: account,
+      blockTag: "pending",
+    });
+
+    const pending: { index: number; hash: Hash }[] = [];
+    for (const [offset, call] of chunk.entries()) {
+      const index = start + offset;
+      let simulated = false;
+      try {
+        await publicClient.simulateContract({ ...call, account });
+        simulated = true;
+        const hash = await walletClient.writeContract({
+          ...call,
+          account,
+          chain: walletClient.chain,
+          nonce,
+        });
+        nonce++;
+        pending.push({ index, hash });
+      } catch (err) {
+        await record(index, {
+          status: "reverted",
+          error: describeError(err, call.abi),
+        });
+        // a failed send may or may not have been broadcast, so the node
+        // tells which nonce comes next rather than leaving a gap
+        if (simulated) {
+          nonce = await publicClient.getTransactionCount({
+            address: account,
+            blockTag: "pending",
+          });
+        }
+      }
+    }
+
+    for (const { index, hash } of pending) {
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      await record(
+        index,
+        receipt.status === "success"
+          ? { status: "success", transactionHash: hash }
+          : {
+              status: "reverted",
+              error: "Transaction reverted",
+              transactionHash: hash,
+            }
+      );
+    }
+  }
+
+  return outcomes;
+}
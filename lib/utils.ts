@@ -1,5 +1,7 @@
 // Import Epoch1900 utilities
 import { getDobEpochFromAge as getEpoch1900FromAge } from './epoch1900';
+import { Address, getAddress, isAddress } from 'viem';
+import { Gender, GenderEnum } from '../types';
 
 // Get a DOB epoch timestamp for someone of a specific age (Epoch1900 format)
 export function getDobEpochFromAge(age: number) {
@@ -10,3 +12,34 @@ export function getDobEpochFromAge(age: number) {
 export function getUnixDobEpochFromAge(age: number) {
   return BigInt(Math.floor(Date.now() / 1000) - age * 365 * 24 * 60 * 60);
 }
+
+// Parse a gender given as "male"/"female" (any case) or as the enum value 0/1
+export function parseGender(value: string): Gender {
+  switch (value.trim().toLowerCase()) {
+    case "0":
+    case "male":
+      return GenderEnum.MALE;
+    case "1":
+    case "female":
+      return GenderEnum.FEMALE;
+    default:
+      throw new Error(`Invalid gender "${value}"`);
+  }
+}
+
+// Parse a wallet address, returning it checksummed
+export function parseWallet(value: string): Address {
+  const wallet = value.trim();
+  if (!isAddress(wallet)) throw new Error(`Invalid wallet "${value}"`);
+  return getAddress(wallet);
+}
+
+// Parse a birth date given as an ISO date string, rejecting dates in the future
+export function parseBirthDate(value: string): Date {
+  const date = new Date(value.trim());
+  if (isNaN(date.getTime())) throw new Error(`Invalid birth date "${value}"`);
+  if (date.getTime() > Date.now()) {
+    throw new Error(`Birth date "${value}" is in the future`);
+  }
+  return date;
+}
@@ -1,7 +1,7 @@
 import hre from "hardhat";
 import { BaseError } from "viem";
 
-export async function verifyContract(contractAddress: string, args: string[]) {
+export async function verifyContract(contractAddress: string, args: unknown[]) {
   console.log("Verifying contract...");
   try {
     await hre.run("verify:verify", {
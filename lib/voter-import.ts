@@ -0,0 +1,174 @@
+/**
+ * Bulk voter registration from electoral roll files
+ *
+ * Accepted formats:
+ * - CSV with the header `name,wallet,birthDate,gender,address,email`
+ * - JSON array of objects with the same keys
+ *
+ * `birthDate` is an ISO date string (e.g. 1990-05-15) and `gender` is
+ * either male/female or the enum value 0/1.
+ */
+
+import fs from "fs";
+import path from "path";
+import { Abi, Address, Hash } from "viem";
+import { parseCsv } from "./csv";
+import { dateToEpoch1900, isEligible } from "./epoch1900";
+import { ChainElectClient } from "./sdk";
+import type { VoterInput } from "./sdk";
+import { ContractCall, sendInChunks } from "./transactions";
+import { parseBirthDate, parseGender, parseWallet } from "./utils";
+
+export type VoterImportStatus =
+  | "added"
+  | "skipped-already-registered"
+  | "rejected-underage"
+  | "rejected-invalid"
+  | "reverted";
+
+export interface VoterImportResult {
+  // 1-based row number in the input file, excluding the CSV header
+  row: number;
+  wallet: string;
+  name: string;
+  status: VoterImportStatus;
+  transactionHash?: Hash;
+  error?: string;
+}
+
+export interface VoterImportOptions {
+  // defaults to the minimum age of the VoterDatabase
+  minEligibleAge?: number;
+  chunkSize: number;
+}
+
+/**
+ * Read raw rows from a CSV or JSON electoral roll file
+ * @param filePath Path to a .csv or .json file
+ * @returns One record per voter with string values
+ */
+export function readVoterFile(filePath: string): Record<string, string>[] {
+  const content = fs.readFileSync(filePath, "utf8");
+
+  switch (path.extname(filePath).toLowerCase()) {
+    case ".csv":
+      return parseCsv(content);
+    case ".json": {
+      const rows: unknown = JSON.parse(content);
+      if (!Array.isArray(rows)) {
+        throw new Error(`${filePath} must contain a JSON array of voters`);
+      }
+      return rows.map((row: Record<string, unknown>) =>
+        Object.fromEntries(
+          Object.entries(row).map(([key, value]) => [key, String(value)])
+        )
+      );
+    }
+    default:
+      throw new Error(`Unsupported voter file format: ${filePath}`);
+  }
+}
+
+/**
+ * Validate and convert a raw row
+ * @param row Raw row as read by `readVoterFile`
+ * @returns Checksummed wallet address and voter details
+ */
+export function parseVoterRow(row: Record<string, string>): {
+  wallet: Address;
+  voter: VoterInput;
+} {
+  const name = row.name?.trim() ?? "";
+  if (name === "") throw new Error("Missing name");
+
+  return {
+    wallet: parseWallet(row.wallet ?? ""),
+    voter: {
+      name,
+      dateOfBirth: parseBirthDate(row.birthDate ?? ""),
+      gender: parseGender(row.gender ?? ""),
+      presentAddress: row.address?.trim() ?? "",
+      email: row.email?.trim() ?? "",
+    },
+  };
+}
+
+/**
+ * Register voters through `adminAddVoter`, validating every row locally first
+ * @param client Client connected with an admin account of the VoterDatabase
+ * @param rows Raw rows as read by `readVoterFile`
+ * @param options Eligibility age and number of transactions per chunk
+ * @returns One result per input row, in input order
+ */
+export async function importVoters(
+  client: ChainElectClient,
+  rows: Record<string, string>[],
+  options: VoterImportOptions
+): Promise<VoterImportResult[]> {
+  const minEligibleAge =
+    options.minEligibleAge ?? (await client.getVoterMinEligibleAge());
+  const results: VoterImportResult[] = [];
+  const calls: ContractCall[] = [];
+  const callRows: number[] = [];
+  const seen = new Set<Address>();
+
+  for (const [i, row] of rows.entries()) {
+    const result: VoterImportResult = {
+      row: i + 1,
+      wallet: row.wallet ?? "",
+      name: row.name ?? "",
+      status: "added",
+    };
+    results.push(result);
+
+    let parsed: ReturnType<typeof parseVoterRow>;
+    try {
+      parsed = parseVoterRow(row);
+    } catch (err) {
+      result.status = "rejected-invalid";
+      result.error = (err as Error).message;
+      continue;
+    }
+
+    const { wallet, voter } = parsed;
+    const dateOfBirthEpoch1900 = dateToEpoch1900(voter.dateOfBirth);
+    if (!isEligible(dateOfBirthEpoch1900, minEligibleAge)) {
+      result.status = "rejected-underage";
+      continue;
+    }
+
+    // duplicates inside the file are treated like already registered voters
+    if (seen.has(wallet) || (await client.isVoterRegistered(wallet))) {
+      result.status = "skipped-already-registered";
+      continue;
+    }
+    seen.add(wallet);
+
+    calls.push({
+      address: client.addresses.voterDatabase,
+      abi: client.abis.voterDatabase as Abi,
+      functionName: "adminAddVoter",
+      args: [
+        wallet,
+        voter.name,
+        BigInt(dateOfBirthEpoch1900),
+        voter.gender,
+        voter.presentAddress,
+        voter.email,
+        0n,
+      ],
+    });
+    callRows.push(i);
+  }
+
+  await sendInChunks(client, calls, options.chunkSize, (index, outcome) => {
+    const result = results[callRows[index]];
+    result.transactionHash = outcome.transactionHash;
+    if (outcome.status === "reverted") {
+      result.status = "reverted";
+      result.error = outcome.error;
+    }
+  });
+
+  return results;
+}
@@ -3,94 +3,218 @@
  * Frontend Deployment Files Generator
  *
  * Creates JSON files with contract ABIs and addresses for frontend usage.
+ * Addresses of every chain deployed with Ignition are merged into one map per
+ * contract, keyed by both the chain ID and the network name.
+ *
+ * With `--format ts` it writes TypeScript modules instead, exporting the ABIs
+ * and address maps `as const` so viem can infer function names and argument
+ * types, along with the enums from types/index.ts.
  *
  * Usage:
  * - Basic: `ts-node scripts/create-frontend-deployment-files.ts`
- * - With custom output: `DEPLOY_OUT_DIR=./path/to/output ts-node scripts/create-frontend-deployment-files.ts`
- * - Example: `DEPLOY_OUT_DIR=/home/masum/Dev-Environment/Blockchains/blockchain-websites/nextjs-chain-elect/src/constants ts-node scripts/create-frontend-deployment-files.ts`
+ * - Only some chains: `ts-node scripts/create-frontend-deployment-files.ts --chains 31337,11155111`
+ * - With custom output: `ts-node scripts/create-frontend-deployment-files.ts --out ./path/to/output`
+ * - The output directory can also be set with `DEPLOY_OUT_DIR=./path/to/output`
+ * - TypeScript modules: `ts-node scripts/create-frontend-deployment-files.ts --format ts`
+ * - Example: `ts-node scripts/create-frontend-deployment-files.ts --out /home/masum/Dev-Environment/Blockchains/blockchain-websites/nextjs-chain-elect/src/constants`
  */
 
 import fs from "fs";
 import path from "path";
+import { parseArgs } from "util";
 import { Abi, Address } from "viem";
-
-// Configuration
-const NETWORK = "sepolia";
-const CHAIN_ID = "11155111";
+import { networkNames } from "../helper-hardhat-config";
+import {
+  listDeployedChainIds,
+  readDeployedAddresses,
+} from "../lib/deployments";
+import type { ChainElectAddresses } from "../lib/sdk";
 
 // Contract definitions
 interface Contract {
   name: string;
-  moduleName: string;
+  key: keyof ChainElectAddresses;
   artifactPath: string;
 }
 
 const contracts: Contract[] = [
   {
     name: "CandidateDatabase",
-    moduleName: "CandidateDatabaseModule#CandidateDatabase",
+    key: "candidateDatabase",
     artifactPath:
       "../artifacts/contracts/CandidateDatabase.sol/CandidateDatabase.json",
   },
   {
     name: "VoterDatabase",
-    moduleName: "VoterDatabaseModule#VoterDatabase",
+    key: "voterDatabase",
     artifactPath: "../artifacts/contracts/VoterDatabase.sol/VoterDatabase.json",
   },
   {
     name: "ElectionDatabase",
-    moduleName: "ElectionDatabaseModule#ElectionDatabase",
+    key: "electionDatabase",
     artifactPath:
       "../artifacts/contracts/ElectionDatabase.sol/ElectionDatabase.json",
   },
 ];
 
-// Setup output directory
-const outputDir = process.env.DEPLOY_OUT_DIR || "./deployments";
-fs.mkdirSync(outputDir, { recursive: true });
+// Parse command line flags
+const { values: flags } = parseArgs({
+  options: {
+    chains: { type: "string" },
+    out: { type: "string" },
+    format: { type: "string", default: "json" },
+  },
+});
 
-// Read deployment addresses
-const deployedAddressesPath = path.join(
-  __dirname,
-  `../ignition/deployments/chain-${CHAIN_ID}/deployed_addresses.json`
-);
+const GENERATED_HEADER =
+  "// Generated by scripts/create-frontend-deployment-files.ts, do not edit\n";
 
-try {
-  const deployedAddresses = JSON.parse(
-    fs.readFileSync(deployedAddressesPath, "utf8")
+/**
+ * Select the chains to include, all deployed chains unless `--chains` is given
+ */
+function selectChainIds(): number[] {
+  if (!flags.chains) return listDeployedChainIds();
+
+  return flags.chains.split(",").map((value) => {
+    const chainId = Number(value.trim());
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      throw new Error(`Invalid chain ID "${value}"`);
+    }
+    return chainId;
+  });
+}
+
+/**
+ * Merge the addresses of every chain into one map per contract
+ * @dev Throws if any chain is missing one of the contracts, a partial map
+ *      would only surface as a broken page in the frontend
+ */
+function collectAddresses(
+  chainIds: number[]
+): Record<keyof ChainElectAddresses, Record<string, Address>> {
+  const addresses = {
+    voterDatabase: {},
+    candidateDatabase: {},
+    electionDatabase: {},
+  } as Record<keyof ChainElectAddresses, Record<string, Address>>;
+
+  for (const chainId of chainIds) {
+    const deployed = readDeployedAddresses(chainId);
+    const networkName = networkNames[chainId];
+
+    for (const contract of contracts) {
+      addresses[contract.key][chainId] = deployed[contract.key];
+      if (networkName) {
+        addresses[contract.key][networkName] = deployed[contract.key];
+      }
+    }
+  }
+
+  return addresses;
+}
+
+/**
+ * Lower camel case name used for the exports of a contract, e.g. voterDatabaseAbi
+ */
+function exportName(contract: Contract, suffix: string): string {
+  return `${contract.key}${suffix}`;
+}
+
+/**
+ * Write a JSON deployment file `{ addresses, abi }` for a contract
+ */
+function writeJsonFile(
+  outputDir: string,
+  contract: Contract,
+  addresses: Record<string, Address>,
+  abi: Abi
+): void {
+  const deploymentFile: {
+    addresses: Record<string, Address>;
+    abi: Abi;
+  } = { addresses, abi };
+
+  const outputPath = path.join(outputDir, `${contract.name}.json`);
+  fs.writeFileSync(outputPath, JSON.stringify(deploymentFile, null, 2));
+}
+
+/**
+ * Write a TypeScript module exporting the address map and ABI of a contract
+ */
+function writeTsFile(
+  outputDir: string,
+  contract: Contract,
+  addresses: Record<string, Address>,
+  abi: Abi
+): void {
+  const content = [
+    GENERATED_HEADER,
+    `export const ${exportName(contract, "Addresses")} = ${JSON.stringify(addresses, null, 2)} as const satisfies Record<string, \`0x\${string}\`>;\n`,
+    `export const ${exportName(contract, "Abi")} = ${JSON.stringify(abi, null, 2)} as const;\n`,
+  ].join("\n");
+
+  const outputPath = path.join(outputDir, `${contract.name}.ts`);
+  fs.writeFileSync(outputPath, content);
+}
+
+/**
+ * Write the shared TypeScript modules: the enums from types/index.ts and an
+ * index re-exporting every contract module
+ */
+function writeTsSharedFiles(outputDir: string): void {
+  const types = fs.readFileSync(
+    path.join(__dirname, "../types/index.ts"),
+    "utf8"
   );
+  fs.writeFileSync(
+    path.join(outputDir, "types.ts"),
+    `${GENERATED_HEADER}\n${types}`
+  );
+
+  const exports = [
+    ...contracts.map((contract) => `export * from "./${contract.name}";`),
+    `export * from "./types";`,
+  ];
+  fs.writeFileSync(
+    path.join(outputDir, "index.ts"),
+    `${GENERATED_HEADER}\n${exports.join("\n")}\n`
+  );
+}
+
+try {
+  if (flags.format !== "json" && flags.format !== "ts") {
+    throw new Error(`Unsupported format "${flags.format}", use json or ts`);
+  }
+
+  const chainIds = selectChainIds();
+  if (chainIds.length === 0) {
+    throw new Error("No Ignition deployments found");
+  }
+  console.log(`Including chains: ${chainIds.join(", ")}`);
+
+  const addresses = collectAddresses(chainIds);
+
+  // Setup output directory
+  const outputDir = flags.out || process.env.DEPLOY_OUT_DIR || "./deployments";
+  fs.mkdirSync(outputDir, { recursive: true });
 
   // Process each contract
   contracts.forEach((contract) => {
-    try {
-      // Read contract ABI
-      const artifactPath = path.join(__dirname, contract.artifactPath);
-      const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf8"));
-
-      // Get contract address
-      const address = deployedAddresses[contract.moduleName];
-      if (!address) {
-        throw new Error(`Address not found for ${contract.moduleName}`);
-      }
+    // Read contract ABI
+    const artifactPath = path.join(__dirname, contract.artifactPath);
+    const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf8"));
 
-      // Create and write deployment file
-      const deploymentFile: {
-        addresses: Record<string, Address>;
-        abi: Abi;
-      } = {
-        addresses: { [NETWORK]: address },
-        abi: artifact.abi,
-      };
-
-      const outputPath = path.join(outputDir, `${contract.name}.json`);
-      fs.writeFileSync(outputPath, JSON.stringify(deploymentFile, null, 2));
-      console.log(`✅ Created ${contract.name} deployment file`);
-    } catch (err) {
-      const error = err as Error;
-      console.error(`❌ Error processing ${contract.name}:`, error.message);
-    }
+    // Create and write deployment file
+    const writeFile = flags.format === "ts" ? writeTsFile : writeJsonFile;
+    writeFile(outputDir, contract, addresses[contract.key], artifact.abi);
+    console.log(`✅ Created ${contract.name} deployment file`);
   });
 
+  if (flags.format === "ts") {
+    writeTsSharedFiles(outputDir);
+    console.log("✅ Created types and index modules");
+  }
+
   console.log(`\n🎉 Deployment files created successfully in ${outputDir}`);
 } catch (err) {
   const error = err as Error;
@@ -1,6 +1,7 @@
 import hre from "hardhat";
 import "@nomicfoundation/hardhat-verify";
 import { sepolia } from "viem/chains";
+import { minEligibleAge } from "../helper-hardhat-config";
 import { verifyContract } from "../lib/verify";
 import CandidateDatabaseModule from "../ignition/modules/CandidateDatabase";
 
@@ -15,7 +16,7 @@ async function main() {
     hre.network.config.chainId === sepolia.id &&
     process.env.ETHERSCAN_API_KEY
   ) {
-    await verifyContract(candidateDatabase.address, []);
+    await verifyContract(candidateDatabase.address, [minEligibleAge]);
   }
 }
 
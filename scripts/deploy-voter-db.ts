@@ -1,6 +1,7 @@
 import hre from "hardhat";
 import "@nomicfoundation/hardhat-verify";
 import { sepolia } from "viem/chains";
+import { minEligibleAge } from "../helper-hardhat-config";
 import VoterDatabaseModule from "../ignition/modules/VoterDatabase";
 import { verifyContract } from "../lib/verify";
 
@@ -13,7 +14,7 @@ async function main() {
     hre.network.config.chainId === sepolia.id &&
     process.env.ETHERSCAN_API_KEY
   ) {
-    await verifyContract(voterDatabase.address, []);
+    await verifyContract(voterDatabase.address, [minEligibleAge]);
   }
 }
 
@@ -0,0 +1,113 @@
+// Hardhat task warning about ABI changes before a deploy: interfaces that
+// drifted from their implementations, and breaking changes since the last
+// deployment recorded by Ignition
+// Usage: pnpm hardhat abi:check [--chain 11155111] [--json]
+import { task, types } from "hardhat/config";
+import type { Abi } from "viem";
+import { compareAbis, excludeAbi } from "../lib/abi-compat";
+import {
+  DEPLOYMENT_IDS,
+  listDeployedChainIds,
+  readDeployedArtifact,
+  readDeploymentFile,
+} from "../lib/deployments";
+import { CONTRACT_NAMES } from "../lib/doctor";
+import type { ChainElectAddresses } from "../lib/sdk";
+import { printOutput, printTable } from "./utils";
+
+interface AbiCheckArgs {
+  chain?: number;
+  json: boolean;
+}
+
+// Interfaces other contracts call the databases through
+const INTERFACES: Record<string, string> = {
+  IVoterDatabase: "VoterDatabase",
+  ICandidateDatabase: "CandidateDatabase",
+};
+
+task(
+  "abi:check",
+  "Compare the ABIs of the interfaces with their implementations, and of the current build with the last deployment, fails on breaking changes"
+)
+  .addOptionalParam(
+    "chain",
+    "Only compare with the deployment on this chain, defaults to every deployed chain",
+    undefined,
+    types.int
+  )
+  .addFlag("json", "Print the changes as JSON")
+  .setAction(async ({ chain, json }: AbiCheckArgs, hre) => {
+    await hre.run("compile", { quiet: true });
+    const readAbi = async (contractName: string): Promise<Abi> =>
+      (await hre.artifacts.readArtifact(contractName)).abi;
+
+    const results: Record<string, unknown>[] = [];
+    const report = (
+      comparison: string,
+      contract: string,
+      changes: ReturnType<typeof compareAbis>
+    ) =>
+      changes.forEach(({ kind, type, signature, breaking, detail }) =>
+        results.push({
+          comparison,
+          contract,
+          kind,
+          type,
+          signature,
+          impact: breaking ? "breaking" : "additive",
+          detail,
+        })
+      );
+
+    // interfaces only cover the database functions, not the ownership, roles
+    // and upgrades every database inherits
+    const sharedAbi = await readAbi("AdminManagement");
+    for (const [interfaceName, contractName] of Object.entries(INTERFACES)) {
+      // interfaces declare no errors, every error of the contract would show
+      const changes = compareAbis(
+        await readAbi(interfaceName),
+        excludeAbi(await readAbi(contractName), sharedAbi),
+        { previous: interfaceName, next: contractName }
+      ).filter(({ type }) => type !== "error");
+      report(interfaceName, contractName, changes);
+    }
+
+    const chainIds = chain === undefined ? listDeployedChainIds() : [chain];
+    for (const chainId of chainIds) {
+      const deployedAddresses = readDeploymentFile(chainId);
+      for (const [database, contractName] of Object.entries(CONTRACT_NAMES)) {
+        // a chain may only have some of the databases deployed
+        const address = DEPLOYMENT_IDS[database as keyof ChainElectAddresses]
+          .map((id) => deployedAddresses[id])
+          .find((value) => value !== undefined);
+        const recorded =
+          address && readDeployedArtifact(chainId, address, contractName);
+        if (!recorded) continue;
+
+        report(
+          `chain ${chainId}`,
+          contractName,
+          compareAbis(recorded.artifact.abi, await readAbi(contractName), {
+            previous: `the deployment on chain ${chainId}`,
+            next: "the current build",
+          })
+        );
+      }
+    }
+
+    const breaking = results.filter(({ impact }) => impact === "breaking");
+    printOutput(results, json, () => {
+      if (results.length > 0) {
+        printTable(results);
+        console.log("");
+      }
+      console.log(
+        breaking.length === 0
+          ? `No breaking ABI changes in ${results.length} differences`
+          : `${breaking.length} of ${results.length} differences break existing callers`
+      );
+    });
+
+    if (breaking.length > 0) process.exitCode = 1;
+  });
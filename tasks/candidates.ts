@@ -0,0 +1,142 @@
+// Hardhat tasks for managing the deployed CandidateDatabase
+// Usage: pnpm hardhat candidates:<action> --network sepolia [--json] ...
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { getAddress } from "viem";
+import {
+  CandidateImportProgress,
+  importCandidates,
+  readCandidateManifest,
+} from "../lib/candidate-import";
+import {
+  getChainElectClient,
+  printDetails,
+  printOutput,
+  printTable,
+  summarizeReceipt,
+  toJson,
+} from "./utils";
+
+interface ImportFileArgs {
+  file: string;
+  election?: bigint;
+  chunkSize: number;
+  progress?: string;
+  json: boolean;
+}
+
+interface RegionArgs {
+  candidate: string;
+  region?: string;
+  json: boolean;
+}
+
+interface MinAgeArgs {
+  age: number;
+  json: boolean;
+}
+
+task(
+  "candidates:import-file",
+  "Register candidates from a YAML or JSON manifest through adminAddCandidate"
+)
+  .addParam(
+    "file",
+    "YAML or JSON manifest with name, wallet, birthDate, gender, address, email, qualifications(File) and manifesto(File)",
+    undefined,
+    types.inputFile
+  )
+  .addOptionalParam(
+    "election",
+    "Election ID to enroll the registered candidates in through adminEnrollCandidate",
+    undefined,
+    types.bigint
+  )
+  .addOptionalParam(
+    "chunkSize",
+    "Number of transactions sent before waiting for receipts",
+    10,
+    types.int
+  )
+  .addOptionalParam(
+    "progress",
+    "Progress file, an existing one resumes the import, defaults to <file>.progress.json"
+  )
+  .addFlag("json", "Print the per-candidate progress as JSON")
+  .setAction(
+    async (
+      { file, election, chunkSize, progress, json }: ImportFileArgs,
+      hre
+    ) => {
+      const progressPath = progress ?? `${file}.progress.json`;
+      let previous: CandidateImportProgress | undefined;
+      if (fs.existsSync(progressPath)) {
+        previous = JSON.parse(fs.readFileSync(progressPath, "utf8"));
+        if (!json) console.log(`Resuming from ${progressPath}`);
+      }
+
+      const client = await getChainElectClient(hre);
+      const result = await importCandidates(
+        client,
+        readCandidateManifest(file),
+        path.dirname(file),
+        {
+          chunkSize,
+          electionId: election,
+          progress: previous,
+          // written after every transaction, so an interrupted import can resume
+          onProgress: (current) =>
+            fs.writeFileSync(progressPath, toJson(current)),
+        }
+      );
+
+      printOutput(result.entries, json, () => {
+        printTable(
+          result.entries.map(
+            ({ row, name, registration, enrollment, error }) => ({
+              row,
+              name,
+              registration,
+              enrollment,
+              error,
+            })
+          )
+        );
+        console.log(`\nProgress written to ${progressPath}`);
+      });
+    }
+  );
+
+task(
+  "candidates:set-region",
+  "Set the region a candidate is registered in, elections restricted to a region only accept candidates from it"
+)
+  .addParam("candidate", "Address of the candidate")
+  .addOptionalParam("region", "Region of the candidate, omit to clear it")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ candidate, region, json }: RegionArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const receipt = await client.setCandidateRegion(
+      getAddress(candidate),
+      region
+    );
+
+    const result = { candidate, region, ...summarizeReceipt(receipt) };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task(
+  "candidates:set-min-age",
+  "Set the minimum age to register as a candidate, owner only, registered candidates are kept"
+)
+  .addParam("age", "Minimum age in years", undefined, types.int)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ age, json }: MinAgeArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const previousAge = await client.getCandidateMinEligibleAge();
+    const receipt = await client.setCandidateMinEligibleAge(age);
+
+    const result = { previousAge, age, ...summarizeReceipt(receipt) };
+    printOutput(result, json, () => printDetails(result));
+  });
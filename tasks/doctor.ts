@@ -0,0 +1,54 @@
+// Hardhat task checking that a deployment is complete and wired correctly
+// Usage: pnpm hardhat chain-elect:doctor --network sepolia [--owner 0x...] [--json]
+import { task } from "hardhat/config";
+import { Address, getAddress } from "viem";
+import { readDeployers } from "../lib/deployments";
+import { checkDeployment, CONTRACT_NAMES } from "../lib/doctor";
+import type { ChainElectAddresses } from "../lib/sdk";
+import { getChainElectClient, printOutput } from "./utils";
+
+interface DoctorArgs {
+  owner?: string;
+  json: boolean;
+}
+
+task(
+  "chain-elect:doctor",
+  "Check the recorded deployment: addresses, role wiring, owners and bytecode"
+)
+  .addOptionalParam(
+    "owner",
+    "Expected owner of every database, defaults to the deployer recorded by Ignition"
+  )
+  .addFlag("json", "Print the checks as JSON")
+  .setAction(async ({ owner, json }: DoctorArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const deployers = readDeployers(await client.publicClient.getChainId());
+    const { account } = client.requireWallet();
+
+    // fall back to the configured account for deployments without a journal
+    const expectedOwners = Object.fromEntries(
+      Object.keys(CONTRACT_NAMES).map((database) => [
+        database,
+        owner
+          ? getAddress(owner)
+          : (deployers[database as keyof ChainElectAddresses] ?? account),
+      ])
+    ) as Record<keyof ChainElectAddresses, Address>;
+
+    const checks = await checkDeployment(client, hre.artifacts, expectedOwners);
+    const failed = checks.filter(({ passed }) => !passed).length;
+
+    printOutput(checks, json, () => {
+      checks.forEach(({ name, passed, detail }) =>
+        console.log(`${passed ? "✅" : "❌"} ${name}: ${detail}`)
+      );
+      console.log(
+        failed === 0
+          ? `\nAll ${checks.length} checks passed`
+          : `\n${failed} of ${checks.length} checks failed`
+      );
+    });
+
+    if (failed > 0) process.exitCode = 1;
+  });
@@ -0,0 +1,856 @@
+// Hardhat tasks for running an election against the deployed ElectionDatabase
+// Usage: pnpm hardhat election:<action> --network sepolia [--json] ...
+import { task, types } from "hardhat/config";
+import fs from "fs";
+import http from "http";
+import { BallotSecretStore } from "../lib/ballot-secrets";
+import {
+  defaultRollPath,
+  readRollFile,
+  writeRollFile,
+} from "../lib/electoral-roll";
+import { Address, getAddress, keccak256, toBytes } from "viem";
+import { parseGender } from "../lib/utils";
+import {
+  formatRankedChoiceRounds,
+  getElectionResults,
+  getRankedChoiceCount,
+  getRollProof,
+  getVotingWindowStatus,
+  parseScheduleTime,
+  renderResults,
+  ResultsFormat,
+  snapshotElectoralRoll,
+} from "../lib/sdk";
+import {
+  ElectionType,
+  ElectionTypeEnum,
+  ResultStatusEnum,
+  TieBreakPolicy,
+  TieBreakPolicyEnum,
+} from "../types";
+import {
+  getChainElectClient,
+  printDetails,
+  printOutput,
+  printTable,
+  summarizeReceipt,
+} from "./utils";
+
+interface ElectionArgs {
+  id: bigint;
+  json: boolean;
+}
+
+interface CandidateArgs extends ElectionArgs {
+  candidate: Address;
+}
+
+interface ResultsArgs extends ElectionArgs {
+  format?: ResultsFormat;
+  out?: string;
+}
+
+interface DetailsArgs {
+  name: string;
+  description: string;
+  // ISO 8601 or Unix seconds, "0" removes that side of the schedule
+  start?: string;
+  end?: string;
+  json: boolean;
+}
+
+interface CreateArgs extends DetailsArgs {
+  type: string;
+  minVoterAge?: number;
+  minCandidateAge?: number;
+  candidateGender?: string;
+  region?: string;
+}
+
+interface EligibilityArgs extends ElectionArgs {
+  voter?: string;
+  candidate?: string;
+}
+
+interface TiePolicyArgs extends ElectionArgs {
+  policy: string;
+  seed?: string;
+}
+
+interface BreakTieArgs extends ElectionArgs {
+  winner?: string;
+}
+
+interface OpenArgs extends ElectionArgs {
+  freezeRoll: boolean;
+  roll?: string;
+}
+
+interface RollProofArgs extends ElectionArgs {
+  voter: string;
+  roll?: string;
+}
+
+interface ServeRollArgs {
+  id: bigint;
+  roll?: string;
+  port: number;
+}
+
+interface CommitArgs extends CandidateArgs {
+  secrets: string;
+}
+
+interface RevealArgs extends ElectionArgs {
+  voter?: string;
+  secrets: string;
+}
+
+// salts of committed secret ballots, see BallotSecretStore
+const DEFAULT_SECRETS_PATH = "secrets/ballots.json";
+
+const TIE_BREAK_POLICIES: Record<string, TieBreakPolicy> = {
+  "earliest-enrollment": TieBreakPolicyEnum.EARLIEST_ENROLLMENT,
+  "admin-decision": TieBreakPolicyEnum.ADMIN_DECISION,
+  "seeded-random": TieBreakPolicyEnum.SEEDED_RANDOM,
+};
+
+const ELECTION_TYPES: Record<string, ElectionType> = {
+  plurality: ElectionTypeEnum.PLURALITY,
+  "ranked-choice": ElectionTypeEnum.RANKED_CHOICE,
+  approval: ElectionTypeEnum.APPROVAL,
+  "secret-ballot": ElectionTypeEnum.SECRET_BALLOT,
+};
+
+task("election:create", "Create a new election")
+  .addParam("name", "Name of the election")
+  .addParam("description", "Description of the election")
+  .addOptionalParam(
+    "type",
+    "How ballots are cast and counted: plurality, ranked-choice, approval or secret-ballot",
+    "plurality"
+  )
+  .addOptionalParam(
+    "start",
+    "Time voting starts at, as ISO 8601 or Unix seconds"
+  )
+  .addOptionalParam("end", "Time voting ends at, as ISO 8601 or Unix seconds")
+  .addOptionalParam(
+    "minVoterAge",
+    "Minimum age of voters at the end of voting",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "minCandidateAge",
+    "Minimum age of candidates at the end of voting",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "candidateGender",
+    "Reserve the seat for candidates of this gender: male or female"
+  )
+  .addOptionalParam(
+    "region",
+    "Region voters and candidates must be registered in"
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(
+    async (
+      {
+        name,
+        description,
+        type,
+        start,
+        end,
+        minVoterAge,
+        minCandidateAge,
+        candidateGender,
+        region,
+        json,
+      }: CreateArgs,
+      hre
+    ) => {
+      const electionType = ELECTION_TYPES[type];
+      if (electionType === undefined) {
+        throw new Error(`Unsupported election type "${type}"`);
+      }
+      // the rules store ages as uint8
+      for (const [option, age] of [
+        ["--min-voter-age", minVoterAge],
+        ["--min-candidate-age", minCandidateAge],
+      ] as const) {
+        if (age !== undefined && (age < 0 || age > 255)) {
+          throw new Error(`${option} must be between 0 and 255`);
+        }
+      }
+      const hasRules =
+        minVoterAge !== undefined ||
+        minCandidateAge !== undefined ||
+        candidateGender !== undefined ||
+        region !== undefined;
+
+      const client = await getChainElectClient(hre);
+      const { electionId, receipt } = await client.createElection(
+        name,
+        description,
+        electionType,
+        start || end
+          ? {
+              startTime: start ? parseScheduleTime(start) : undefined,
+              endTime: end ? parseScheduleTime(end) : undefined,
+            }
+          : undefined,
+        hasRules
+          ? {
+              minVoterAge,
+              minCandidateAge,
+              candidateGender:
+                candidateGender === undefined
+                  ? undefined
+                  : parseGender(candidateGender),
+              region,
+            }
+          : undefined
+      );
+
+      const result = { electionId, type, ...summarizeReceipt(receipt) };
+      printOutput(result, json, () => printDetails(result));
+    }
+  );
+
+task(
+  "election:update",
+  "Update the name and description of an election, and its schedule while it is closed"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addParam("name", "New name of the election")
+  .addParam("description", "New description of the election")
+  .addOptionalParam(
+    "start",
+    "New time voting starts at, as ISO 8601 or Unix seconds, 0 to remove it"
+  )
+  .addOptionalParam(
+    "end",
+    "New time voting ends at, as ISO 8601 or Unix seconds, 0 to remove it"
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(
+    async (
+      { id, name, description, start, end, json }: ElectionArgs & DetailsArgs,
+      hre
+    ) => {
+      const client = await getChainElectClient(hre);
+      // the side of the schedule that is not given stays as it is
+      const schedule =
+        start || end
+          ? {
+              ...(await client.getElectionSchedule(id)),
+              ...(start && { startTime: parseScheduleTime(start) }),
+              ...(end && { endTime: parseScheduleTime(end) }),
+            }
+          : undefined;
+      const receipt = await client.updateElection(
+        id,
+        name,
+        description,
+        schedule
+      );
+
+      const result = { electionId: id, ...summarizeReceipt(receipt) };
+      printOutput(result, json, () => printDetails(result));
+    }
+  );
+
+task("election:enroll", "Enroll a registered candidate in an election")
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addParam("candidate", "Address of the candidate")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, candidate, json }: CandidateArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const receipt = await client.adminEnrollCandidate(
+      id,
+      getAddress(candidate)
+    );
+
+    const result = { electionId: id, candidate, ...summarizeReceipt(receipt) };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task("election:withdraw", "Withdraw a candidate from an election")
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addParam("candidate", "Address of the candidate")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, candidate, json }: CandidateArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const receipt = await client.adminWithdrawCandidate(
+      id,
+      getAddress(candidate)
+    );
+
+    const result = { electionId: id, candidate, ...summarizeReceipt(receipt) };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task("election:open", "Open an election for voting")
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addFlag(
+    "freezeRoll",
+    "Freeze the registered voters as the electoral roll, voters then vote with a Merkle proof"
+  )
+  .addOptionalParam(
+    "roll",
+    "Where to publish the frozen roll, defaults to rolls/election-<id>.json"
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, freezeRoll, roll, json }: OpenArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    if (!freezeRoll) {
+      const receipt = await client.openElection(id);
+
+      const result = { electionId: id, ...summarizeReceipt(receipt) };
+      printOutput(result, json, () => printDetails(result));
+      return;
+    }
+
+    const blockNumber = await client.publicClient.getBlockNumber();
+    const electoralRoll = await snapshotElectoralRoll(client);
+    const rollPath = roll ?? defaultRollPath(id);
+    // published before opening, so proofs are available from the first block
+    writeRollFile(rollPath, {
+      chainId: await client.publicClient.getChainId(),
+      electionDatabase: client.addresses.electionDatabase,
+      electionId: id.toString(),
+      root: electoralRoll.root,
+      blockNumber: blockNumber.toString(),
+      voters: electoralRoll.voters,
+    });
+    const receipt = await client.openElection(id, electoralRoll.root);
+
+    const result = {
+      electionId: id,
+      rollRoot: electoralRoll.root,
+      voters: electoralRoll.voters.length,
+      rollFile: rollPath,
+      ...summarizeReceipt(receipt),
+    };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task(
+  "election:roll-proof",
+  "Print the Merkle proof of a voter on the frozen electoral roll of an election"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addParam("voter", "Address of the voter")
+  .addOptionalParam(
+    "roll",
+    "Published roll file, defaults to rolls/election-<id>.json"
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, voter, roll, json }: RollProofArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const { roll: electoralRoll } = readRollFile(roll ?? defaultRollPath(id));
+    if ((await client.getElectoralRoll(id)) !== electoralRoll.root) {
+      throw new Error(
+        `The roll file does not match the electoral roll of election ${id}`
+      );
+    }
+
+    const result = {
+      electionId: id,
+      voter: getAddress(voter),
+      proof: getRollProof(electoralRoll, getAddress(voter)),
+    };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task(
+  "election:serve-roll",
+  "Serve the frozen electoral roll of an election and the proofs of its voters over HTTP"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addOptionalParam(
+    "roll",
+    "Published roll file, defaults to rolls/election-<id>.json"
+  )
+  .addOptionalParam("port", "Port to listen on", 8547, types.int)
+  .setAction(async ({ id, roll, port }: ServeRollArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const { file, roll: electoralRoll } = readRollFile(
+      roll ?? defaultRollPath(id)
+    );
+    if ((await client.getElectoralRoll(id)) !== electoralRoll.root) {
+      throw new Error(
+        `The roll file does not match the electoral roll of election ${id}`
+      );
+    }
+
+    // GET /roll returns the roll file, GET /proof/<voter> the proof of a voter
+    const server = http.createServer((request, response) => {
+      const send = (status: number, body: unknown) => {
+        response.writeHead(status, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(body, null, 2) + "\n");
+      };
+      const [, route, voter] = (request.url ?? "").split("/");
+      if (request.method !== "GET") return send(405, { error: "GET only" });
+      if (route === "roll" && !voter) return send(200, file);
+      if (route !== "proof" || !voter) return send(404, { error: "Not found" });
+
+      try {
+        const address = getAddress(voter);
+        send(200, {
+          electionId: file.electionId,
+          root: electoralRoll.root,
+          voter: address,
+          proof: getRollProof(electoralRoll, address),
+        });
+      } catch (error) {
+        send(404, { error: (error as Error).message });
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(port, resolve));
+    console.log(
+      `Serving the electoral roll of election ${id} (${electoralRoll.voters.length} voters) on http://localhost:${port}`
+    );
+    console.log("  GET /roll");
+    console.log("  GET /proof/<voter address>");
+    // keeps the task running until interrupted
+    await new Promise((resolve) => server.on("close", resolve));
+  });
+
+task("election:close", "Close an election from voting")
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }: ElectionArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const receipt = await client.closeElection(id);
+
+    const result = { electionId: id, ...summarizeReceipt(receipt) };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task(
+  "election:finalize",
+  "Run the instant-runoff count of a closed ranked choice election"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }: ElectionArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const receipt = await client.finalizeRankedElection(id);
+    const winner = await client.getWinner(id);
+
+    const result = { electionId: id, winner, ...summarizeReceipt(receipt) };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task(
+  "election:rounds",
+  "Recount a ranked choice election from its ballots and print every round"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }: ElectionArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const count = await getRankedChoiceCount(client, id);
+    const candidates = count.rounds[0]?.tallies ?? [];
+    const names = new Map(
+      await Promise.all(
+        candidates.map(
+          async ({ candidate }) =>
+            [
+              candidate,
+              // reverts if the candidate left the CandidateDatabase after enrolling
+              await client.getCandidate(candidate).then(
+                ({ name }) => name,
+                () => ""
+              ),
+            ] as const
+        )
+      )
+    );
+
+    printOutput(count, json, () => {
+      process.stdout.write(formatRankedChoiceRounds(count, names));
+      if (count.finalizedWinner && count.finalizedWinner !== count.winner) {
+        console.log(
+          `Warning: the winner recorded on-chain is ${count.finalizedWinner}`
+        );
+      }
+    });
+  });
+
+task(
+  "election:tie-policy",
+  "Set how a tie between the leaders of an election is broken, before the first vote"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addParam(
+    "policy",
+    "Tie-break policy: earliest-enrollment, admin-decision or seeded-random"
+  )
+  .addOptionalParam(
+    "seed",
+    "Seed of the draw for seeded-random, any text, hashed with keccak256"
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, policy, seed, json }: TiePolicyArgs, hre) => {
+    const tieBreakPolicy = TIE_BREAK_POLICIES[policy];
+    if (tieBreakPolicy === undefined) {
+      throw new Error(`Unsupported tie-break policy "${policy}"`);
+    }
+    if (tieBreakPolicy === TieBreakPolicyEnum.SEEDED_RANDOM && !seed) {
+      throw new Error("--seed is required for the seeded-random policy");
+    }
+
+    const client = await getChainElectClient(hre);
+    const receipt = await client.setTieBreakPolicy(
+      id,
+      tieBreakPolicy,
+      seed ? keccak256(toBytes(seed)) : undefined
+    );
+
+    const result = { electionId: id, policy, ...summarizeReceipt(receipt) };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task(
+  "election:break-tie",
+  "Record the winner of a tie in a closed election, following its tie-break policy"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addOptionalParam(
+    "winner",
+    "Tied candidate to declare the winner, only for the admin-decision policy"
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, winner, json }: BreakTieArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const receipt = winner
+      ? await client.decideTie(id, getAddress(winner))
+      : await client.breakTie(id);
+    const { leaders } = await client.getWinners(id);
+
+    const result = {
+      electionId: id,
+      winner: await client.getWinner(id),
+      tiedCandidates: leaders,
+      ...summarizeReceipt(receipt),
+    };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task(
+  "election:winners",
+  "Show the leaders of an election and whether they are tied"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }: ElectionArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const [{ leaders, status }, winner, tieBreak] = await Promise.all([
+      client.getWinners(id),
+      client.getWinner(id),
+      client.getTieBreakPolicy(id),
+    ]);
+    const policy = Object.keys(TIE_BREAK_POLICIES).find(
+      (name) => TIE_BREAK_POLICIES[name] === tieBreak.policy
+    );
+
+    const result = {
+      electionId: id,
+      status: ["no-votes", "unique", "tie"][status],
+      leaders,
+      winner,
+      tieBreakPolicy: policy,
+      // only set when the tie was broken on-chain
+      tieBrokenFor: tieBreak.winner,
+    };
+    printOutput(result, json, () => {
+      printDetails(result);
+      if (status === ResultStatusEnum.TIE && tieBreak.winner === undefined) {
+        console.log(
+          "\nThe tie is not recorded yet, run election:break-tie once the election is closed"
+        );
+      }
+    });
+  });
+
+task(
+  "election:commit",
+  "Commit a secret ballot for a candidate, keeping the salt in a local file"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addParam("candidate", "Address of the candidate")
+  .addOptionalParam(
+    "secrets",
+    "File the salt is stored in, needed to reveal the ballot",
+    DEFAULT_SECRETS_PATH
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, candidate, secrets, json }: CommitArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const { account: voter } = client.requireWallet();
+    const store = BallotSecretStore.open(secrets);
+
+    // saved before sending, a ballot committed without its salt is lost
+    const secret = store.create(
+      await client.publicClient.getChainId(),
+      client.addresses.electionDatabase,
+      id,
+      voter,
+      getAddress(candidate),
+      await client.hasVoted(id, voter)
+    );
+    const receipt = await client.commitVote(id, secret.commitment);
+
+    const result = {
+      electionId: id,
+      voter,
+      commitment: secret.commitment,
+      secrets,
+      ...summarizeReceipt(receipt),
+    };
+    printOutput(result, json, () => {
+      printDetails(result);
+      console.log(
+        `\nKeep ${secrets} private until the election is closed, then run election:reveal`
+      );
+    });
+  });
+
+task(
+  "election:reveal",
+  "Reveal the secret ballots stored locally for a closed election, on behalf of their voters"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addOptionalParam("voter", "Only reveal the ballot of this voter")
+  .addOptionalParam(
+    "secrets",
+    "File the salts were stored in by election:commit",
+    DEFAULT_SECRETS_PATH
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, voter, secrets, json }: RevealArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const store = BallotSecretStore.open(secrets);
+    const pending = store
+      .list(
+        await client.publicClient.getChainId(),
+        client.addresses.electionDatabase,
+        id,
+        true
+      )
+      .filter((secret) => !voter || secret.voter === getAddress(voter));
+
+    const revealed: Record<string, unknown>[] = [];
+    for (const secret of pending) {
+      const receipt = await client.revealVote(
+        id,
+        secret.candidate,
+        secret.salt,
+        secret.voter
+      );
+      store.markRevealed(secret);
+      revealed.push({
+        voter: secret.voter,
+        candidate: secret.candidate,
+        ...summarizeReceipt(receipt),
+      });
+    }
+
+    printOutput(revealed, json, () => printTable(revealed));
+  });
+
+task(
+  "election:commits",
+  "Show the committed and revealed ballots of a secret ballot election"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }: ElectionArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const stats = await client.getCommitStats(id);
+
+    const result = { electionId: id, ...stats };
+    printOutput(result, json, () => {
+      const { unrevealed, ...counts } = result;
+      printDetails(counts);
+      console.log("\nUnrevealed (not counted):");
+      printTable(unrevealed.map((address) => ({ voter: address })));
+    });
+  });
+
+task(
+  "election:eligibility",
+  "Show the eligibility rules of an election, and explain whether a voter or candidate meets them"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addOptionalParam(
+    "voter",
+    "Address of a voter to check, needs the auditor role on the VoterDatabase"
+  )
+  .addOptionalParam("candidate", "Address of a candidate to check")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, voter, candidate, json }: EligibilityArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const rules = await client.getEligibilityRules(id);
+    const checks = [
+      ...(voter
+        ? [
+            {
+              role: "voter",
+              address: getAddress(voter),
+              ...(await client.checkVoterEligibility(id, getAddress(voter))),
+            },
+          ]
+        : []),
+      ...(candidate
+        ? [
+            {
+              role: "candidate",
+              address: getAddress(candidate),
+              ...(await client.checkCandidateEligibility(
+                id,
+                getAddress(candidate)
+              )),
+            },
+          ]
+        : []),
+    ];
+
+    const result = { electionId: id, rules, checks };
+    printOutput(result, json, () => {
+      printDetails({
+        electionId: id,
+        ...rules,
+        candidateGender:
+          rules.candidateGender === undefined
+            ? undefined
+            : ["male", "female"][rules.candidateGender],
+      });
+      for (const { role, address, eligible, reasons } of checks) {
+        console.log(
+          `\nThe ${role} ${address} ${eligible ? "is eligible" : "is not eligible:"}`
+        );
+        reasons.forEach((reason) => console.log(`  - ${reason}`));
+      }
+    });
+  });
+
+task("election:delete", "Delete an election")
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }: ElectionArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const receipt = await client.deleteElection(id);
+
+    const result = { electionId: id, ...summarizeReceipt(receipt) };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task("election:show", "Show the details and vote counts of an election")
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }: ElectionArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const election = await client.getElection(id);
+    const { timestamp } = await client.publicClient.getBlock();
+    const now = new Date(Number(timestamp) * 1000);
+    const candidates = await Promise.all(
+      election.candidates.map(async (candidate) => ({
+        candidate,
+        votes: await client.getVotesOfCandidate(id, candidate),
+      }))
+    );
+
+    printOutput({ ...election, candidates }, json, () => {
+      printDetails({
+        id: election.id,
+        name: election.name,
+        description: election.description,
+        isActive: election.isActive,
+        totalVotes: election.totalVotes,
+        createdAt: election.createdAt,
+        startTime: election.startTime,
+        endTime: election.endTime,
+        votingWindow: getVotingWindowStatus(election, now),
+      });
+      console.log();
+      printTable(candidates);
+    });
+  });
+
+task("election:list", "List all elections")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ json }: { json: boolean }, hre) => {
+    const client = await getChainElectClient(hre);
+    const elections = await client.getAllElections();
+
+    printOutput(elections, json, () =>
+      printTable(
+        elections.map((election) => ({
+          id: election.id,
+          name: election.name,
+          isActive: election.isActive,
+          candidates: election.candidates.length,
+          totalVotes: election.totalVotes,
+          createdAt: election.createdAt,
+        }))
+      )
+    );
+  });
+
+task(
+  "election:results",
+  "Compute the results of an election and export a report"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addOptionalParam(
+    "format",
+    "Report format: json, csv or markdown, defaults to the extension of --out"
+  )
+  .addOptionalParam("out", "Where to write the report (.json, .csv or .md)")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, format, out, json }: ResultsArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const results = await getElectionResults(client, id);
+
+    const reportFormat = format ?? (out ? formatOf(out) : undefined);
+    if (reportFormat && !["json", "csv", "markdown"].includes(reportFormat)) {
+      throw new Error(`Unsupported report format "${reportFormat}"`);
+    }
+
+    if (out) {
+      fs.writeFileSync(out, renderResults(results, reportFormat ?? "json"));
+    } else if (reportFormat) {
+      // the rendered report goes to stdout, e.g. to be piped into a file
+      process.stdout.write(renderResults(results, reportFormat));
+      return;
+    }
+
+    printOutput(results, json, () => {
+      const { candidates, approvalDistribution, ...summary } = results;
+      printDetails(summary);
+      console.log();
+      printTable(candidates.map((candidate) => ({ ...candidate })));
+      if (approvalDistribution) {
+        console.log("\nApprovals per ballot:");
+        printTable(approvalDistribution.map((row) => ({ ...row })));
+      }
+      if (out) console.log(`\nReport written to ${out}`);
+    });
+  });
+
+/**
+ * Report format matching the extension of a file
+ */
+function formatOf(filePath: string): ResultsFormat {
+  if (filePath.endsWith(".csv")) return "csv";
+  if (filePath.endsWith(".md")) return "markdown";
+  return "json";
+}
@@ -0,0 +1,107 @@
+// Hardhat tasks for the local event index of elections, voters and candidates
+// Usage: pnpm hardhat indexer:<action> --network sepolia [--json] ...
+import path from "path";
+import { task, types } from "hardhat/config";
+import { Address, getAddress } from "viem";
+import { ChainElectIndexer } from "../lib/indexer";
+import type { ChainElectClient } from "../lib/sdk";
+import {
+  getChainElectClient,
+  printDetails,
+  printOutput,
+  printTable,
+} from "./utils";
+
+interface StoreArgs {
+  store?: string;
+  json: boolean;
+}
+
+interface SyncArgs extends StoreArgs {
+  fromBlock: number;
+  reorgDepth: number;
+}
+
+interface VoterArgs extends StoreArgs {
+  voter: Address;
+}
+
+/**
+ * Where the index of the selected network is kept, unless `--store` is given
+ */
+async function getStorePath(client: ChainElectClient, store?: string) {
+  const chainId = await client.publicClient.getChainId();
+  return store ?? path.join("indexer", `chain-${chainId}.json`);
+}
+
+task(
+  "indexer:sync",
+  "Index the contract events up to the current block, resuming from the last run"
+)
+  .addOptionalParam(
+    "store",
+    "JSON file the index is kept in, defaults to indexer/chain-<chainId>.json"
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to index on the first run, usually the deployment block",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "reorgDepth",
+    "Number of blocks to re-index when the last indexed block was reorged out",
+    12,
+    types.int
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ store, fromBlock, reorgDepth, json }: SyncArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const storePath = await getStorePath(client, store);
+    const indexer = await ChainElectIndexer.open({
+      client,
+      storePath,
+      startBlock: fromBlock,
+      reorgDepth,
+    });
+
+    const result = { ...(await indexer.sync()), storePath };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task(
+  "indexer:voter",
+  "Show the elections a voter participated in, from the local index"
+)
+  .addParam("voter", "Address of the voter")
+  .addOptionalParam(
+    "store",
+    "JSON file the index is kept in, defaults to indexer/chain-<chainId>.json"
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ voter, store, json }: VoterArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const indexer = await ChainElectIndexer.open({
+      client,
+      storePath: await getStorePath(client, store),
+    });
+    if (indexer.lastBlock === undefined) {
+      throw new Error("The index is empty, run indexer:sync first");
+    }
+
+    const address = getAddress(voter);
+    const rows = indexer.getElectionsOfVoter(address).map((election) => {
+      const vote = election.votes.find((v) => v.voter === address);
+      return {
+        electionId: election.id,
+        name: election.name,
+        candidate: vote?.candidate,
+        blockNumber: vote?.blockNumber,
+      };
+    });
+
+    printOutput(rows, json, () => {
+      printTable(rows);
+      console.log(`\nIndexed up to block ${indexer.lastBlock}`);
+    });
+  });
@@ -0,0 +1,81 @@
+// Hardhat tasks for the two-step ownership transfer of the databases
+// Usage: pnpm hardhat owner:<action> --network localhost [--json] ...
+import { task } from "hardhat/config";
+import { getAddress, isAddressEqual } from "viem";
+import {
+  DATABASES,
+  getChainElectClient,
+  parseDatabases,
+  printOutput,
+  printTable,
+  summarizeReceipt,
+} from "./utils";
+
+interface TransferArgs {
+  to: string;
+  database?: string;
+  json: boolean;
+}
+
+interface AcceptArgs {
+  database?: string;
+  json: boolean;
+}
+
+task(
+  "owner:transfer",
+  "Propose a new owner, who takes over after running owner:accept"
+)
+  .addParam("to", "Address of the new owner")
+  .addOptionalParam(
+    "database",
+    "voter, candidate or election, defaults to all three"
+  )
+  .addFlag("json", "Print the per-database results as JSON")
+  .setAction(async ({ to, database, json }: TransferArgs, hre) => {
+    const client = await getChainElectClient(hre);
+
+    const results: Record<string, unknown>[] = [];
+    for (const db of parseDatabases(database, Object.values(DATABASES))) {
+      const receipt = await client.transferOwnership(db, getAddress(to));
+      results.push({
+        database: db,
+        pendingOwner: getAddress(to),
+        ...summarizeReceipt(receipt),
+      });
+    }
+    printOutput(results, json, () => {
+      printTable(results);
+      console.log(`\nThe transfer completes once ${to} runs owner:accept`);
+    });
+  });
+
+task("owner:accept", "Accept the ownership proposed to the configured account")
+  .addOptionalParam(
+    "database",
+    "voter, candidate or election, defaults to every database proposing it"
+  )
+  .addFlag("json", "Print the per-database results as JSON")
+  .setAction(async ({ database, json }: AcceptArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const { account } = client.requireWallet();
+
+    const databases = parseDatabases(database, Object.values(DATABASES));
+    const results: Record<string, unknown>[] = [];
+    for (const db of databases) {
+      // without --database, skip the databases not proposed to this account
+      const pending = await client.getPendingOwner(db);
+      if (database === undefined && !isAddressEqual(pending, account)) continue;
+
+      const receipt = await client.acceptOwnership(db);
+      results.push({
+        database: db,
+        owner: account,
+        ...summarizeReceipt(receipt),
+      });
+    }
+    if (results.length === 0) {
+      throw new Error(`No ownership transfer is pending for ${account}`);
+    }
+    printOutput(results, json, () => printTable(results));
+  });
@@ -0,0 +1,85 @@
+// Hardhat tasks for gasless voting through signed ballots
+// Usage: pnpm hardhat relayer:<action> --network localhost [--json] ...
+import { task, types } from "hardhat/config";
+import { getAddress } from "viem";
+import { createRelayer } from "../lib/relayer";
+import { getChainElectClient, printDetails, printOutput } from "./utils";
+
+interface StartArgs {
+  port: number;
+}
+
+interface SignArgs {
+  id: bigint;
+  candidate: string;
+  ttl: number;
+  relayer?: string;
+  json: boolean;
+}
+
+task(
+  "relayer:start",
+  "Accept signed ballots over HTTP and submit them with voteBySig, paying for the gas"
+)
+  .addOptionalParam("port", "Port to listen on", 8548, types.int)
+  .setAction(async ({ port }: StartArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const server = createRelayer(client, ({ voter, transactionHash }) =>
+      console.log(`Relayed the ballot of ${voter} in ${transactionHash}`)
+    );
+
+    await new Promise<void>((resolve) => server.listen(port, resolve));
+    console.log(
+      `Relaying ballots from ${client.requireWallet().account} on http://localhost:${port}`
+    );
+    console.log("  GET  /health");
+    console.log("  POST /ballots");
+    // keeps the task running until interrupted
+    await new Promise((resolve) => server.on("close", resolve));
+  });
+
+task(
+  "relayer:sign",
+  "Sign a ballot with the configured account, and submit it to a relayer if given"
+)
+  .addParam("id", "ID of the election", undefined, types.bigint)
+  .addParam("candidate", "Address of the candidate")
+  .addOptionalParam(
+    "ttl",
+    "Seconds the signature stays valid for",
+    3600,
+    types.int
+  )
+  .addOptionalParam("relayer", "URL of the relayer, e.g. http://localhost:8548")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, candidate, ttl, relayer, json }: SignArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const { timestamp } = await client.publicClient.getBlock();
+    const ballot = await client.signBallot(
+      id,
+      getAddress(candidate),
+      timestamp + BigInt(ttl)
+    );
+
+    // the ballot as the relayer expects it, bigints as decimal strings
+    const body = {
+      ...ballot,
+      electionId: ballot.electionId.toString(),
+      deadline: ballot.deadline.toString(),
+    };
+    if (!relayer) {
+      printOutput(body, json, () => printDetails(body));
+      return;
+    }
+
+    const response = await fetch(new URL("/ballots", relayer), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(`The relayer rejected the ballot: ${result.error}`);
+    }
+    printOutput(result, json, () => printDetails(result));
+  });
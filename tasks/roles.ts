@@ -0,0 +1,91 @@
+// Hardhat tasks for the roles guarding the admin functions
+// Usage: pnpm hardhat roles:<action> --network localhost [--json] ...
+import { task } from "hardhat/config";
+import { getAddress } from "viem";
+import { parseRole, ROLE_DATABASES, ROLE_NAMES, ROLES } from "../lib/sdk";
+import {
+  DATABASES,
+  getChainElectClient,
+  parseDatabases,
+  printOutput,
+  printTable,
+  summarizeReceipt,
+} from "./utils";
+
+interface RoleArgs {
+  role: string;
+  account: string;
+  database?: string;
+  json: boolean;
+}
+
+interface ListArgs {
+  database?: string;
+  json: boolean;
+}
+
+for (const action of ["grant", "revoke"] as const) {
+  task(
+    `roles:${action}`,
+    `${action === "grant" ? "Grant a role to" : "Revoke a role from"} an account, owner only`
+  )
+    .addParam("role", `One of ${ROLE_NAMES.join(", ")}`)
+    .addParam("account", "Address of the account")
+    .addOptionalParam(
+      "database",
+      "voter, candidate or election, defaults to every database using the role"
+    )
+    .addFlag("json", "Print the per-database results as JSON")
+    .setAction(async ({ role, account, database, json }: RoleArgs, hre) => {
+      const client = await getChainElectClient(hre);
+      const name = parseRole(role);
+
+      const results: Record<string, unknown>[] = [];
+      for (const db of parseDatabases(database, ROLE_DATABASES[name])) {
+        const receipt =
+          action === "grant"
+            ? await client.grantRole(db, ROLES[name], getAddress(account))
+            : await client.revokeRole(db, ROLES[name], getAddress(account));
+        results.push({
+          database: db,
+          role: name,
+          account,
+          // admins keep every role, revoking only takes back the grant
+          ...(action === "revoke" && {
+            heldAsAdmin: await client.isAdmin(db, getAddress(account)),
+          }),
+          ...summarizeReceipt(receipt),
+        });
+      }
+      printOutput(results, json, () => printTable(results));
+    });
+}
+
+task("roles:list", "List the accounts holding each role")
+  .addOptionalParam(
+    "database",
+    "voter, candidate or election, defaults to all three"
+  )
+  .addFlag("json", "Print the role members as JSON")
+  .setAction(async ({ database, json }: ListArgs, hre) => {
+    const client = await getChainElectClient(hre);
+
+    const rows: { database: string; role: string; account: string }[] = [];
+    for (const db of parseDatabases(database, Object.values(DATABASES))) {
+      // the owner and admins hold every role, so they are listed once
+      rows.push({
+        database: db,
+        role: "OWNER",
+        account: await client.getOwner(db),
+      });
+      for (const admin of await client.getAllAdmins(db)) {
+        rows.push({ database: db, role: "ADMIN", account: admin });
+      }
+      for (const name of ROLE_NAMES) {
+        for (const member of await client.getRoleMembers(db, ROLES[name])) {
+          rows.push({ database: db, role: name, account: member });
+        }
+      }
+    }
+    printOutput(rows, json, () => printTable(rows));
+  });
@@ -0,0 +1,129 @@
+// Hardhat tasks saving the storage layouts of the databases and checking later
+// builds against them, so a reordered struct fails before it is deployed
+// Usage: pnpm hardhat storage-layout:<action> [--build-info <file>] [--baseline <file>]
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { BuildInfo, HardhatRuntimeEnvironment } from "hardhat/types";
+import { CONTRACT_NAMES } from "../lib/doctor";
+import {
+  compareStorageLayouts,
+  loadStorageLayouts,
+  readStorageLayouts,
+  STORAGE_LAYOUT_BASELINE,
+  StorageLayouts,
+  writeStorageLayouts,
+} from "../lib/storage-layout";
+import { printOutput, printTable } from "./utils";
+
+interface SnapshotArgs {
+  buildInfo?: string;
+  baseline: string;
+}
+
+interface CheckArgs {
+  buildInfo?: string;
+  baseline: string;
+  json: boolean;
+}
+
+/**
+ * Layouts of the databases in a build info file, e.g. one recorded by
+ * Ignition, or in the current build
+ */
+async function readLayouts(
+  hre: HardhatRuntimeEnvironment,
+  buildInfoPath?: string
+): Promise<StorageLayouts> {
+  const contractNames = Object.values(CONTRACT_NAMES);
+  if (buildInfoPath) {
+    if (!fs.existsSync(buildInfoPath)) {
+      throw new Error(`No build info at ${buildInfoPath}`);
+    }
+    const buildInfo: BuildInfo = JSON.parse(
+      fs.readFileSync(buildInfoPath, "utf8")
+    );
+    return loadStorageLayouts(hre.run, buildInfo, contractNames);
+  }
+
+  await hre.run("compile", { quiet: true });
+  const layouts: StorageLayouts = {};
+  for (const contractName of contractNames) {
+    const artifact = await hre.artifacts.readArtifact(contractName);
+    const buildInfo = await hre.artifacts.getBuildInfo(
+      `${artifact.sourceName}:${artifact.contractName}`
+    );
+    if (!buildInfo) throw new Error(`No build info for ${contractName}`);
+    Object.assign(
+      layouts,
+      await loadStorageLayouts(hre.run, buildInfo, [contractName])
+    );
+  }
+  return layouts;
+}
+
+task(
+  "storage-layout:snapshot",
+  "Save the storage layouts of the databases as the baseline of later checks"
+)
+  .addOptionalParam(
+    "buildInfo",
+    "Build info to read the layouts from, defaults to the current build"
+  )
+  .addOptionalParam(
+    "baseline",
+    "File to write the layouts to",
+    STORAGE_LAYOUT_BASELINE
+  )
+  .setAction(async ({ buildInfo, baseline }: SnapshotArgs, hre) => {
+    const layouts = await readLayouts(hre, buildInfo);
+    if (Object.keys(layouts).length === 0) {
+      throw new Error(`None of the databases is in ${buildInfo}`);
+    }
+    writeStorageLayouts(baseline, layouts);
+    console.log(
+      `Saved the layouts of ${Object.keys(layouts).join(", ")} to ${baseline}`
+    );
+  });
+
+task(
+  "storage-layout:check",
+  "Compare the storage layouts of the databases with the saved baseline, fails on unsafe changes"
+)
+  .addOptionalParam(
+    "buildInfo",
+    "Build info to check, defaults to the current build"
+  )
+  .addOptionalParam(
+    "baseline",
+    "File with the saved layouts",
+    STORAGE_LAYOUT_BASELINE
+  )
+  .addFlag("json", "Print the changes as JSON")
+  .setAction(async ({ buildInfo, baseline, json }: CheckArgs, hre) => {
+    const saved = readStorageLayouts(baseline);
+    const current = await readLayouts(hre, buildInfo);
+
+    // contracts missing from either side have nothing to compare
+    const results = Object.keys(saved)
+      .filter((contractName) => contractName in current)
+      .flatMap((contractName) =>
+        compareStorageLayouts(saved[contractName], current[contractName]).map(
+          (change) => ({ contract: contractName, ...change })
+        )
+      );
+    const unsafe = results.filter(({ safe }) => !safe);
+
+    printOutput(results, json, () => {
+      if (results.length > 0) {
+        printTable(results);
+        console.log("");
+      }
+      console.log(
+        unsafe.length === 0
+          ? `The storage layouts are compatible with ${baseline}`
+          : `${unsafe.length} of ${results.length} changes would corrupt stored data`
+      );
+    });
+
+    if (unsafe.length > 0) process.exitCode = 1;
+  });
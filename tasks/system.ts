@@ -0,0 +1,49 @@
+// Hardhat tasks stopping and resuming the whole system in an emergency
+// Usage: pnpm hardhat system:<action> --network localhost [--json]
+import { task } from "hardhat/config";
+import type { ChainElectAddresses } from "../lib/sdk";
+import { getChainElectClient, printOutput, printTable } from "./utils";
+
+interface SystemArgs {
+  json: boolean;
+}
+
+// votes stop before registrations, and registrations resume before votes
+const PAUSE_ORDER: (keyof ChainElectAddresses)[] = [
+  "electionDatabase",
+  "voterDatabase",
+  "candidateDatabase",
+];
+
+for (const action of ["pause", "unpause"] as const) {
+  task(
+    `system:${action}`,
+    action === "pause"
+      ? "Pause user writes and imports on all three databases, owner only"
+      : "Resume user writes and imports on all three databases, owner only"
+  )
+    .addFlag("json", "Print the per-database results as JSON")
+    .setAction(async ({ json }: SystemArgs, hre) => {
+      const client = await getChainElectClient(hre);
+      const databases =
+        action === "pause" ? PAUSE_ORDER : [...PAUSE_ORDER].reverse();
+
+      const results: Record<string, unknown>[] = [];
+      for (const database of databases) {
+        // databases already in the requested state are skipped, so the task
+        // can be run again after a partial failure
+        if ((await client.isPaused(database)) === (action === "pause")) {
+          results.push({ database, paused: action === "pause" });
+          continue;
+        }
+        const receipt = await client[action](database);
+        results.push({
+          database,
+          paused: action === "pause",
+          transactionHash: receipt.transactionHash,
+          blockNumber: receipt.blockNumber,
+        });
+      }
+      printOutput(results, json, () => printTable(results));
+    });
+}
@@ -0,0 +1,189 @@
+// Hardhat task upgrading a database deployed with ChainElectUpgradeableModule
+// Usage: pnpm hardhat upgrade --network localhost --database voter [--force] [--json]
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { task } from "hardhat/config";
+import {
+  Address,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  encodeFunctionData,
+  Hex,
+  keccak256,
+} from "viem";
+import { minEligibleAge } from "../helper-hardhat-config";
+import { readDeployedArtifact } from "../lib/deployments";
+import { CONTRACT_NAMES } from "../lib/doctor";
+import {
+  compareStorageLayouts,
+  getStorageLayout,
+  isUpgradeSafe,
+  LayoutChange,
+  loadStorageLayouts,
+} from "../lib/storage-layout";
+import { getRevertData } from "../lib/transactions";
+import {
+  getChainElectClient,
+  parseDatabases,
+  printDetails,
+  printOutput,
+  printTable,
+} from "./utils";
+
+/**
+ * Whether a read failed because the implementation lacks the function: its
+ * selector matches nothing, so the call reverts without data
+ */
+function isMissingFunction(err: unknown): boolean {
+  if (!(err instanceof ContractFunctionExecutionError)) return false;
+  if (err.walk((e) => e instanceof ContractFunctionZeroDataError)) return true;
+
+  const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    return !reverted.raw || reverted.raw === "0x";
+  }
+  return getRevertData(err) === "0x";
+}
+
+function printChanges(changes: LayoutChange[]) {
+  printTable(
+    changes.map(({ kind, label, slot, offset, safe, detail }) => ({
+      kind,
+      label,
+      slot,
+      offset,
+      safe,
+      detail,
+    }))
+  );
+}
+
+interface UpgradeArgs {
+  database: string;
+  force: boolean;
+  json: boolean;
+}
+
+task(
+  "upgrade",
+  "Deploy the compiled implementation of a database and point its proxy to it, owner only"
+)
+  .addParam("database", "voter, candidate or election")
+  .addFlag(
+    "force",
+    "Upgrade even if the storage layout is incompatible or unknown"
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ database, force, json }: UpgradeArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const chainId = await client.publicClient.getChainId();
+    const [db] = parseDatabases(database, []);
+    const contractName = CONTRACT_NAMES[db];
+    const proxy = client.addresses[db];
+
+    const previous = await client.getImplementation(db);
+    if (!previous) {
+      throw new Error(
+        `${contractName} at ${proxy} is not behind a proxy, deploy it with ChainElectUpgradeableModule`
+      );
+    }
+
+    const artifact = await hre.artifacts.readArtifact(contractName);
+    const buildInfo = await hre.artifacts.getBuildInfo(
+      `${artifact.sourceName}:${artifact.contractName}`
+    );
+    if (!buildInfo) throw new Error(`No build info for ${contractName}`);
+
+    // the layout of the running implementation is only known if Ignition
+    // recorded its deployment
+    const recorded = readDeployedArtifact(chainId, previous, contractName);
+    if (recorded && recorded.artifact.bytecode === artifact.bytecode) {
+      printOutput({ database: db, implementation: previous }, json, () =>
+        console.log(`${contractName} already runs the compiled code`)
+      );
+      return;
+    }
+
+    let changes: LayoutChange[] = [];
+    if (recorded?.buildInfo) {
+      const { [contractName]: deployed } = await loadStorageLayouts(
+        hre.run,
+        recorded.buildInfo,
+        [contractName]
+      );
+      changes = compareStorageLayouts(
+        deployed,
+        getStorageLayout(buildInfo, artifact.sourceName, artifact.contractName)
+      );
+    } else if (!force) {
+      throw new Error(
+        `No recorded build info for the implementation ${previous}, so its storage layout cannot be checked, pass --force to upgrade anyway`
+      );
+    }
+
+    if (!isUpgradeSafe(changes) && !force) {
+      printOutput(changes, json, () => printChanges(changes));
+      throw new Error(
+        `The storage layout of ${contractName} is not compatible with ${previous}, pass --force to upgrade anyway`
+      );
+    }
+
+    // ElectionDatabase implementations are initialized by their constructor
+    // with the databases of the proxy, so nobody can initialize them
+    let constructorArgs: (Address | bigint)[] = [];
+    let upgradeCall: Hex = "0x";
+    if (db === "electionDatabase") {
+      constructorArgs = Object.values(await client.getDatabases());
+    } else {
+      // databases deployed before the minimum age was configurable have none
+      // stored, the upgrade sets the age they were built with
+      const age = await (
+        db === "voterDatabase"
+          ? client.getVoterMinEligibleAge()
+          : client.getCandidateMinEligibleAge()
+      ).catch((err: unknown) => {
+        if (isMissingFunction(err)) return undefined;
+        throw err;
+      });
+      constructorArgs = [BigInt(age ?? minEligibleAge)];
+      if (age === undefined) {
+        upgradeCall = encodeFunctionData({
+          abi: artifact.abi,
+          functionName: "setMinEligibleAge",
+          args: constructorArgs,
+        });
+      }
+    }
+
+    // the module id changes with the code, so Ignition records every
+    // implementation and a rerun resumes the same upgrade
+    const UpgradeModule = buildModule(
+      `${contractName}Upgrade_${keccak256(artifact.bytecode as Hex).slice(2, 10)}`,
+      (m) => {
+        const implementation = m.contract(contractName, constructorArgs, {
+          id: `${contractName}Implementation`,
+        });
+        const database = m.contractAt(contractName, proxy, {
+          id: contractName,
+        });
+        m.call(database, "upgradeToAndCall", [implementation, upgradeCall]);
+        return { implementation };
+      }
+    );
+    await hre.ignition.deploy(UpgradeModule);
+
+    const result = {
+      database: db,
+      proxy,
+      previousImplementation: previous,
+      implementation: await client.getImplementation(db),
+      changes,
+    };
+    printOutput(result, json, () => {
+      printDetails({ ...result, changes: changes.length });
+      if (changes.length > 0) {
+        console.log("");
+        printChanges(changes);
+      }
+    });
+  });
@@ -0,0 +1,149 @@
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { TransactionReceipt } from "viem";
+import { toCsv } from "../lib/csv";
+import { readDeployedAddresses } from "../lib/deployments";
+import { ChainElectClient, loadChainElectAbis } from "../lib/sdk";
+import type { ChainElectAddresses } from "../lib/sdk";
+
+// Names accepted by the --database parameters
+export const DATABASES = {
+  voter: "voterDatabase",
+  candidate: "candidateDatabase",
+  election: "electionDatabase",
+} as const satisfies Record<string, keyof ChainElectAddresses>;
+
+/**
+ * Create a ChainElectClient for the selected network, using the addresses
+ * recorded by Ignition and the first configured account as the sender
+ */
+export async function getChainElectClient(
+  hre: HardhatRuntimeEnvironment
+): Promise<ChainElectClient> {
+  // the ABIs are read from the artifacts, so make sure they exist
+  await hre.run("compile", { quiet: true });
+
+  const publicClient = await hre.viem.getPublicClient();
+  const [walletClient] = await hre.viem.getWalletClients();
+
+  return new ChainElectClient({
+    publicClient,
+    walletClient,
+    addresses: readDeployedAddresses(await publicClient.getChainId()),
+    abis: await loadChainElectAbis(hre.artifacts),
+  });
+}
+
+/**
+ * Databases selected with --database, defaults to the given databases
+ * @throws Error if the name is not voter, candidate or election
+ */
+export function parseDatabases(
+  database: string | undefined,
+  defaults: (keyof ChainElectAddresses)[]
+): (keyof ChainElectAddresses)[] {
+  if (database === undefined) return defaults;
+  if (!(database in DATABASES)) {
+    throw new Error(
+      `Unknown database "${database}", expected one of ${Object.keys(DATABASES).join(", ")}`
+    );
+  }
+  return [DATABASES[database as keyof typeof DATABASES]];
+}
+
+/**
+ * Format a single value for human-readable output
+ */
+export function formatValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (value === undefined || value === null) return "-";
+  return String(value);
+}
+
+/**
+ * Serialize a value as JSON, bigints are written as decimal strings
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, v) => (typeof v === "bigint" ? v.toString() : v),
+    2
+  );
+}
+
+/**
+ * Print rows as an aligned table with a header line
+ */
+export function printTable(rows: Record<string, unknown>[]): void {
+  if (rows.length === 0) {
+    console.log("(none)");
+    return;
+  }
+
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map((row) => columns.map((c) => formatValue(row[c])));
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((row) => row[i].length))
+  );
+  const line = (values: string[]) =>
+    values
+      .map((v, i) => v.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  console.log(line(columns));
+  console.log(line(widths.map((w) => "-".repeat(w))));
+  cells.forEach((row) => console.log(line(row)));
+}
+
+/**
+ * Print an object as a two-column key/value table
+ */
+export function printDetails(details: Record<string, unknown>): void {
+  const width = Math.max(...Object.keys(details).map((key) => key.length));
+  Object.entries(details).forEach(([key, value]) =>
+    console.log(`${key.padEnd(width)}  ${formatValue(value)}`)
+  );
+}
+
+/**
+ * Print either JSON or a human-readable rendering of the same data
+ */
+export function printOutput(
+  data: unknown,
+  json: boolean,
+  render: () => void
+): void {
+  if (json) {
+    console.log(toJson(data));
+  } else {
+    render();
+  }
+}
+
+/**
+ * Summarize a mined transaction for task output
+ */
+export function summarizeReceipt(receipt: TransactionReceipt) {
+  return {
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    status: receipt.status,
+  };
+}
+
+/**
+ * Write report rows to a file, as CSV if the path ends with .csv and as JSON otherwise
+ */
+export function writeReport(filePath: string, rows: object[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    path.extname(filePath).toLowerCase() === ".csv"
+      ? toCsv(rows)
+      : toJson(rows) + "\n"
+  );
+}
@@ -0,0 +1,101 @@
+// Hardhat tasks for managing the deployed VoterDatabase
+// Usage: pnpm hardhat voters:<action> --network sepolia [--json] ...
+import { task, types } from "hardhat/config";
+import { getAddress } from "viem";
+import { importVoters, readVoterFile } from "../lib/voter-import";
+import {
+  getChainElectClient,
+  printDetails,
+  printOutput,
+  printTable,
+  summarizeReceipt,
+  writeReport,
+} from "./utils";
+
+interface ImportFileArgs {
+  file: string;
+  chunkSize: number;
+  report?: string;
+  json: boolean;
+}
+
+interface RegionArgs {
+  voter: string;
+  region?: string;
+  json: boolean;
+}
+
+interface MinAgeArgs {
+  age: number;
+  json: boolean;
+}
+
+task(
+  "voters:import-file",
+  "Register voters from a CSV or JSON electoral roll through adminAddVoter"
+)
+  .addParam(
+    "file",
+    "CSV or JSON file with name, wallet, birthDate, gender, address and email",
+    undefined,
+    types.inputFile
+  )
+  .addOptionalParam(
+    "chunkSize",
+    "Number of transactions sent before waiting for receipts",
+    10,
+    types.int
+  )
+  .addOptionalParam(
+    "report",
+    "Where to write the per-row report (.csv or .json), defaults to <file>.report.json"
+  )
+  .addFlag("json", "Print the per-row results as JSON")
+  .setAction(async ({ file, chunkSize, report, json }: ImportFileArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const results = await importVoters(client, readVoterFile(file), {
+      chunkSize,
+    });
+
+    const reportPath = report ?? `${file}.report.json`;
+    writeReport(reportPath, results);
+
+    printOutput(results, json, () => {
+      const counts = new Map<string, number>();
+      results.forEach(({ status }) =>
+        counts.set(status, (counts.get(status) ?? 0) + 1)
+      );
+      printTable([...counts].map(([status, count]) => ({ status, count })));
+      console.log(`\nReport written to ${reportPath}`);
+    });
+  });
+
+task(
+  "voters:set-region",
+  "Set the region a voter is registered in, elections restricted to a region only accept voters from it"
+)
+  .addParam("voter", "Address of the voter")
+  .addOptionalParam("region", "Region of the voter, omit to clear it")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ voter, region, json }: RegionArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const receipt = await client.setVoterRegion(getAddress(voter), region);
+
+    const result = { voter, region, ...summarizeReceipt(receipt) };
+    printOutput(result, json, () => printDetails(result));
+  });
+
+task(
+  "voters:set-min-age",
+  "Set the minimum age to register as a voter, owner only, registered voters are kept"
+)
+  .addParam("age", "Minimum age in years", undefined, types.int)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ age, json }: MinAgeArgs, hre) => {
+    const client = await getChainElectClient(hre);
+    const previousAge = await client.getVoterMinEligibleAge();
+    const receipt = await client.setVoterMinEligibleAge(age);
+
+    const result = { previousAge, age, ...summarizeReceipt(receipt) };
+    printOutput(result, json, () => printDetails(result));
+  });
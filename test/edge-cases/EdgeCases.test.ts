@@ -18,8 +18,8 @@ describe("Edge Cases Tests", function () {
     const [owner, voter1, voter2, candidate1, candidate2, attacker] = await hre.viem.getWalletClients();
     
     // Deploy all contracts
-    const voterDatabase = await hre.viem.deployContract("VoterDatabase", []);
-    const candidateDatabase = await hre.viem.deployContract("CandidateDatabase", []);
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract("CandidateDatabase", [18n]);
     const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
       voterDatabase.address,
       candidateDatabase.address,
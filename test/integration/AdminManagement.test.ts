@@ -16,8 +16,8 @@ describe("Admin Management Integration Tests", function () {
     const [owner, admin1, admin2, nonAdmin, randomUser] = await hre.viem.getWalletClients();
     
     // Deploy all three contracts
-    const voterDatabase = await hre.viem.deployContract("VoterDatabase", []);
-    const candidateDatabase = await hre.viem.deployContract("CandidateDatabase", []);
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract("CandidateDatabase", [18n]);
     const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
       voterDatabase.address,
       candidateDatabase.address,
@@ -117,11 +117,11 @@ describe("Admin Management Integration Tests", function () {
           ["Test Election", "Election for testing purposes"],
           { account: nonAdmin.account }
         )
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
       
       await expect(
         voterDatabase.write.adminGetAllVoters({ account: nonAdmin.account })
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
       
       await expect(
         candidateDatabase.write.adminAddCandidate(
@@ -137,7 +137,7 @@ describe("Admin Management Integration Tests", function () {
           ],
           { account: nonAdmin.account }
         )
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
     });
     
     it("should handle admin removal correctly", async function () {
@@ -171,7 +171,7 @@ describe("Admin Management Integration Tests", function () {
       // Admin should no longer be able to call admin functions
       await expect(
         voterDatabase.write.adminGetAllVoters({ account: admin1.account })
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
     });
   });
   
@@ -0,0 +1,175 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert } from "chai";
+import { AddressInfo } from "net";
+import hre from "hardhat";
+import { hardhat } from "viem/chains";
+import ChainElectModule from "../../ignition/modules/ChainElect";
+import { GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import { createRelayer } from "../../lib/relayer";
+import { ChainElectClient, loadChainElectAbis } from "../../lib/sdk";
+
+describe("Ballot Relayer Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployRelayerFixture() {
+    const [relayer, voter1, candidate1] = await hre.viem.getWalletClients();
+    const { voterDatabase, candidateDatabase, electionDatabase } =
+      await hre.ignition.deploy(ChainElectModule);
+
+    await voterDatabase.write.addVoter(
+      [
+        "Voter One",
+        getDobEpochFromAge(30),
+        GenderEnum.MALE,
+        "1 First St",
+        "voter1@example.com",
+      ],
+      { account: voter1.account }
+    );
+    await candidateDatabase.write.addCandidate(
+      [
+        "Candidate",
+        getDobEpochFromAge(40),
+        GenderEnum.FEMALE,
+        "2 Second St",
+        "candidate@example.com",
+        "PhD",
+        "Manifesto",
+      ],
+      { account: candidate1.account }
+    );
+    await electionDatabase.write.adminCreateElection([
+      "Gasless Election",
+      "Voters sign, the relayer pays",
+    ]);
+    await electionDatabase.write.enrollCandidate([0n], {
+      account: candidate1.account,
+    });
+    await electionDatabase.write.adminOpenElection([0n]);
+
+    const publicClient = await hre.viem.getPublicClient();
+    const abis = await loadChainElectAbis(hre.artifacts);
+    const addresses = {
+      voterDatabase: voterDatabase.address,
+      candidateDatabase: candidateDatabase.address,
+      electionDatabase: electionDatabase.address,
+    };
+
+    return {
+      electionDatabase,
+      publicClient,
+      relayerClient: new ChainElectClient({
+        publicClient,
+        walletClient: relayer,
+        addresses,
+        abis,
+      }),
+      voterClient: new ChainElectClient({
+        publicClient,
+        walletClient: voter1,
+        addresses,
+        abis,
+      }),
+      candidate: candidate1.account.address,
+    };
+  }
+
+  /** Starts a relayer on a free port and returns its URL */
+  async function startRelayer(client: ChainElectClient) {
+    const server = createRelayer(client);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    return { server, url: `http://127.0.0.1:${port}` };
+  }
+
+  async function postBallot(url: string, ballot: object) {
+    const response = await fetch(`${url}/ballots`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(ballot, (_key, v) =>
+        typeof v === "bigint" ? v.toString() : v
+      ),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it("submits signed ballots and rejects replays without sending them", async function () {
+    const {
+      electionDatabase,
+      publicClient,
+      relayerClient,
+      voterClient,
+      candidate,
+    } = await loadFixture(deployRelayerFixture);
+    const { server, url } = await startRelayer(relayerClient);
+
+    try {
+      const health = await fetch(`${url}/health`).then((r) => r.json());
+      assert.equal(health.electionDatabase, electionDatabase.address);
+
+      const { timestamp } = await publicClient.getBlock();
+      const ballot = await voterClient.signBallot(
+        0n,
+        candidate,
+        timestamp + 3600n
+      );
+      const voterBalance = await publicClient.getBalance({
+        address: ballot.voter,
+      });
+
+      const relayed = await postBallot(url, ballot);
+      assert.equal(relayed.status, 200);
+      assert.equal(relayed.body.voter, ballot.voter);
+      assert.isTrue(await electionDatabase.read.hasVoted([0n, ballot.voter]));
+      // the voter did not pay for anything
+      assert.equal(
+        await publicClient.getBalance({ address: ballot.voter }),
+        voterBalance
+      );
+
+      const blockNumber = await publicClient.getBlockNumber();
+      const replayed = await postBallot(url, ballot);
+      assert.equal(replayed.status, 422);
+      assert.equal(replayed.body.error, "ElectionDatabase__InvalidSignature");
+      assert.equal(await publicClient.getBlockNumber(), blockNumber);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("reports contract reverts found by the simulation", async function () {
+    const {
+      electionDatabase,
+      publicClient,
+      relayerClient,
+      voterClient,
+      candidate,
+    } = await loadFixture(deployRelayerFixture);
+    const { server, url } = await startRelayer(relayerClient);
+
+    try {
+      await electionDatabase.write.adminCloseElection([0n]);
+      const { timestamp } = await publicClient.getBlock();
+      const ballot = await voterClient.signBallot(
+        0n,
+        candidate,
+        timestamp + 3600n
+      );
+
+      const closed = await postBallot(url, ballot);
+      assert.equal(closed.status, 422);
+      assert.equal(closed.body.error, "ElectionDatabase__ElectionClosed");
+
+      const malformed = await postBallot(url, { ...ballot, deadline: "soon" });
+      assert.equal(malformed.status, 400);
+    } finally {
+      server.close();
+    }
+  });
+});
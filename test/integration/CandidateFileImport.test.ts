@@ -0,0 +1,205 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { hardhat } from "viem/chains";
+import { GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import { ChainElectClient, loadChainElectAbis } from "../../lib/sdk";
+import {
+  CandidateImportProgress,
+  importCandidates,
+  readCandidateManifest,
+} from "../../lib/candidate-import";
+
+describe("Candidate File Import Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployCandidateImportFixture() {
+    const [owner, candidate1, candidate2, candidate3] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    // candidate1 is already registered before the import
+    await candidateDatabase.write.addCandidate(
+      [
+        "Existing Candidate",
+        getDobEpochFromAge(40),
+        GenderEnum.MALE,
+        "1 First St",
+        "existing@example.com",
+        "PhD",
+        "Existing manifesto",
+      ],
+      { account: candidate1.account }
+    );
+
+    const { electionId } = await client.createElection(
+      "Test Election",
+      "Election for the import"
+    );
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "candidate-import-"));
+    fs.writeFileSync(path.join(dir, "manifesto.md"), "A long manifesto\n");
+    const manifestPath = path.join(dir, "candidates.yaml");
+    fs.writeFileSync(
+      manifestPath,
+      `candidates:
+  - name: Existing Candidate
+    wallet: "${candidate1.account.address}"
+    birthDate: 1985-01-01
+    gender: male
+    address: 1 First St
+    email: existing@example.com
+    qualifications: PhD
+    manifesto: Existing manifesto
+  - name: New Candidate
+    wallet: "${candidate2.account.address}"
+    birthDate: 1990-05-15
+    gender: female
+    address: 2 Second St
+    email: new@example.com
+    qualifications: |
+      MSc in Political Science
+      Former mayor
+    manifestoFile: manifesto.md
+  - name: Missing Manifesto
+    wallet: "${candidate3.account.address}"
+    birthDate: 1990-05-15
+    gender: male
+    address: 3 Third St
+    email: missing@example.com
+    manifestoFile: does-not-exist.md
+`
+    );
+
+    return {
+      candidateDatabase,
+      client,
+      electionId,
+      manifestPath,
+      candidate1,
+      candidate2,
+    };
+  }
+
+  it("should register candidates and load text from referenced files", async function () {
+    const { candidateDatabase, client, manifestPath, candidate2 } =
+      await loadFixture(deployCandidateImportFixture);
+
+    const { entries } = await importCandidates(
+      client,
+      readCandidateManifest(manifestPath),
+      path.dirname(manifestPath),
+      { minEligibleAge: 18, chunkSize: 2 }
+    );
+
+    assert.deepEqual(
+      entries.map(({ registration }) => registration),
+      ["already-registered", "registered", "rejected-invalid"]
+    );
+    assert.include(entries[2].error, "does-not-exist.md");
+
+    const candidate = await client.getCandidate(candidate2.account.address);
+    assert.equal(
+      candidate.qualifications,
+      "MSc in Political Science\nFormer mayor"
+    );
+    assert.equal(candidate.manifesto, "A long manifesto");
+    assert.equal(await candidateDatabase.read.getCandidateCount(), 2n);
+  });
+
+  it("should enroll registered candidates in the election", async function () {
+    const { client, electionId, manifestPath, candidate1, candidate2 } =
+      await loadFixture(deployCandidateImportFixture);
+
+    const { entries } = await importCandidates(
+      client,
+      readCandidateManifest(manifestPath),
+      path.dirname(manifestPath),
+      { minEligibleAge: 18, chunkSize: 10, electionId }
+    );
+
+    assert.deepEqual(
+      entries.map(({ enrollment }) => enrollment),
+      ["enrolled", "enrolled", undefined]
+    );
+    const election = await client.getElection(electionId);
+    assert.sameMembers(
+      election.candidates.map((c) => c.toLowerCase()),
+      [candidate1.account.address, candidate2.account.address].map((a) =>
+        a.toLowerCase()
+      )
+    );
+  });
+
+  it("should resume from a progress file without resending transactions", async function () {
+    const { client, electionId, manifestPath } = await loadFixture(
+      deployCandidateImportFixture
+    );
+    const entries = readCandidateManifest(manifestPath);
+    const baseDir = path.dirname(manifestPath);
+
+    // simulate a run that stopped after registering the candidates
+    const first = await importCandidates(client, entries, baseDir, {
+      minEligibleAge: 18,
+      chunkSize: 10,
+    });
+    const progress: CandidateImportProgress = JSON.parse(
+      JSON.stringify({ ...first, electionId: electionId.toString() })
+    );
+
+    const resumed = await importCandidates(client, entries, baseDir, {
+      minEligibleAge: 18,
+      chunkSize: 10,
+      electionId,
+      progress,
+    });
+
+    assert.equal(
+      resumed.entries[1].registrationTx,
+      first.entries[1].registrationTx
+    );
+    assert.equal(resumed.entries[1].enrollment, "enrolled");
+
+    // a progress file of another election is refused
+    try {
+      await importCandidates(client, entries, baseDir, {
+        minEligibleAge: 18,
+        chunkSize: 10,
+        electionId: electionId + 1n,
+        progress: resumed,
+      });
+      assert.fail("Expected the import to fail");
+    } catch (err) {
+      assert.include((err as Error).message, "Progress belongs to");
+    }
+  });
+});
@@ -0,0 +1,214 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { hardhat } from "viem/chains";
+import { GenderEnum } from "../../types";
+import { ChainElectClient, loadChainElectAbis } from "../../lib/sdk";
+
+describe("ChainElectClient SDK Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployClientFixture() {
+    const [owner, voter1, candidate1] = await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+
+    await voterDatabase.write.addAdmin([electionDatabase.address]);
+    await candidateDatabase.write.addAdmin([electionDatabase.address]);
+
+    const publicClient = await hre.viem.getPublicClient();
+    const abis = await loadChainElectAbis(hre.artifacts);
+
+    const adminClient = await ChainElectClient.fromElectionDatabase({
+      publicClient,
+      walletClient: owner,
+      electionDatabase: electionDatabase.address,
+      abis,
+    });
+    const voterClient = new ChainElectClient({
+      publicClient,
+      walletClient: voter1,
+      addresses: adminClient.addresses,
+      abis,
+    });
+    const candidateClient = new ChainElectClient({
+      publicClient,
+      walletClient: candidate1,
+      addresses: adminClient.addresses,
+      abis,
+    });
+
+    return {
+      voterDatabase,
+      candidateDatabase,
+      electionDatabase,
+      adminClient,
+      voterClient,
+      candidateClient,
+      owner,
+      voter1,
+      candidate1,
+    };
+  }
+
+  const voterDetails = {
+    name: "John Voter",
+    dateOfBirth: new Date("1990-05-15T00:00:00Z"),
+    gender: GenderEnum.MALE,
+    presentAddress: "123 Main St",
+    email: "john@example.com",
+  };
+
+  const candidateDetails = {
+    name: "Alice Candidate",
+    dateOfBirth: new Date("1985-03-01T00:00:00Z"),
+    gender: GenderEnum.FEMALE,
+    presentAddress: "789 Elm St",
+    email: "alice@example.com",
+    qualifications: "PhD in Political Science",
+    manifesto: "Build a better future",
+  };
+
+  describe("Construction", function () {
+    it("should read the database addresses from ElectionDatabase", async function () {
+      const { adminClient, voterDatabase, candidateDatabase } =
+        await loadFixture(deployClientFixture);
+
+      assert.equal(
+        getAddress(adminClient.addresses.voterDatabase),
+        getAddress(voterDatabase.address)
+      );
+      assert.equal(
+        getAddress(adminClient.addresses.candidateDatabase),
+        getAddress(candidateDatabase.address)
+      );
+    });
+
+    it("should refuse writes without a wallet client", async function () {
+      const { adminClient } = await loadFixture(deployClientFixture);
+      const readOnlyClient = new ChainElectClient({
+        publicClient: adminClient.publicClient,
+        addresses: adminClient.addresses,
+        abis: adminClient.abis,
+      });
+
+      await expect(
+        readOnlyClient.createElection("Election", "Description")
+      ).to.be.rejectedWith("a wallet client with an account is required");
+    });
+  });
+
+  describe("Voters and candidates", function () {
+    it("should register a voter and return named details with dates", async function () {
+      const { adminClient, voterClient, voter1 } =
+        await loadFixture(deployClientFixture);
+
+      const receipt = await voterClient.addVoter(voterDetails);
+      assert.equal(receipt.status, "success");
+
+      const voter = await adminClient.getVoter(voter1.account.address);
+      assert.equal(voter.name, voterDetails.name);
+      assert.equal(voter.gender, GenderEnum.MALE);
+      assert.equal(
+        voter.dateOfBirth.getTime(),
+        voterDetails.dateOfBirth.getTime()
+      );
+      assert.equal(voter.timesVoted, 0n);
+      assert.instanceOf(voter.registeredAt, Date);
+
+      const myDetails = await voterClient.getMyVoterDetails();
+      assert.deepEqual(myDetails, voter);
+    });
+
+    it("should register a candidate and return named details", async function () {
+      const { candidateClient, candidate1 } =
+        await loadFixture(deployClientFixture);
+
+      await candidateClient.addCandidate(candidateDetails);
+
+      const candidate = await candidateClient.getCandidate(
+        candidate1.account.address
+      );
+      assert.equal(candidate.name, candidateDetails.name);
+      assert.equal(candidate.manifesto, candidateDetails.manifesto);
+      assert.equal(
+        candidate.dateOfBirth.getTime(),
+        candidateDetails.dateOfBirth.getTime()
+      );
+      assert.isTrue(
+        await candidateClient.isCandidateRegistered(candidate1.account.address)
+      );
+    });
+  });
+
+  describe("Election lifecycle", function () {
+    it("should run an election end to end", async function () {
+      const { adminClient, voterClient, candidateClient, voter1, candidate1 } =
+        await loadFixture(deployClientFixture);
+
+      await voterClient.addVoter(voterDetails);
+      await candidateClient.addCandidate(candidateDetails);
+
+      const { electionId } = await adminClient.createElection(
+        "General Election",
+        "National election"
+      );
+      assert.equal(electionId, 0n);
+
+      await candidateClient.enrollCandidate(electionId);
+      await adminClient.openElection(electionId);
+      await voterClient.vote(electionId, candidate1.account.address);
+      await adminClient.closeElection(electionId);
+
+      const election = await adminClient.getElection(electionId);
+      assert.equal(election.name, "General Election");
+      assert.isFalse(election.isActive);
+      assert.equal(election.totalVotes, 1n);
+      assert.deepEqual(
+        election.candidates.map((c) => getAddress(c)),
+        [getAddress(candidate1.account.address)]
+      );
+      assert.instanceOf(election.createdAt, Date);
+
+      assert.equal(
+        getAddress(await adminClient.getWinner(electionId)),
+        getAddress(candidate1.account.address)
+      );
+      assert.isTrue(
+        await adminClient.hasVoted(electionId, voter1.account.address)
+      );
+      assert.instanceOf(
+        await adminClient.getVoteTime(electionId, voter1.account.address),
+        Date
+      );
+      assert.lengthOf(await adminClient.getAllElections(), 1);
+    });
+
+    it("should surface contract reverts", async function () {
+      const { adminClient } = await loadFixture(deployClientFixture);
+
+      const { electionId } = await adminClient.createElection(
+        "Empty Election",
+        "No candidates"
+      );
+
+      await expect(adminClient.openElection(electionId)).to.be.rejectedWith(
+        "ElectionDatabase__ElectionHasNoContestant"
+      );
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert } from "chai";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { hardhat } from "viem/chains";
+import ChainElectModule from "../../ignition/modules/ChainElect";
+
+describe("ChainElect Ignition Module Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployChainElectModuleFixture() {
+    return hre.ignition.deploy(ChainElectModule);
+  }
+
+  it("should wire ElectionDatabase to both databases", async function () {
+    const { voterDatabase, candidateDatabase, electionDatabase } =
+      await loadFixture(deployChainElectModuleFixture);
+
+    const [voterDatabaseAddress, candidateDatabaseAddress] =
+      await electionDatabase.read.getDatabases();
+    assert.equal(
+      getAddress(voterDatabaseAddress),
+      getAddress(voterDatabase.address)
+    );
+    assert.equal(
+      getAddress(candidateDatabaseAddress),
+      getAddress(candidateDatabase.address)
+    );
+  });
+
+  it("should grant ElectionDatabase the SYSTEM role on both databases", async function () {
+    const { voterDatabase, candidateDatabase, electionDatabase } =
+      await loadFixture(deployChainElectModuleFixture);
+
+    for (const database of [voterDatabase, candidateDatabase]) {
+      const systemRole = await database.read.SYSTEM_ROLE();
+      assert.deepEqual(
+        (await database.read.getRoleMembers([systemRole])).map(getAddress),
+        [getAddress(electionDatabase.address)]
+      );
+      // a role, not admin rights, so it cannot rewrite any records
+      assert.isFalse(await database.read.isAdmin([electionDatabase.address]));
+    }
+  });
+});
@@ -18,10 +18,10 @@ describe("Database Integration Tests", function () {
     const [owner, voter1, voter2, candidate1, candidate2] = await hre.viem.getWalletClients();
     
     // Deploy VoterDatabase
-    const voterDatabase = await hre.viem.deployContract("VoterDatabase", []);
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
     
     // Deploy CandidateDatabase
-    const candidateDatabase = await hre.viem.deployContract("CandidateDatabase", []);
+    const candidateDatabase = await hre.viem.deployContract("CandidateDatabase", [18n]);
     
     // Deploy ElectionDatabase with the addresses of the other contracts
     const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
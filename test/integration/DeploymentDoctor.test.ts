@@ -0,0 +1,100 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert } from "chai";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { hardhat } from "viem/chains";
+import ChainElectModule from "../../ignition/modules/ChainElect";
+import { checkDeployment } from "../../lib/doctor";
+import { ChainElectClient, loadChainElectAbis, ROLES } from "../../lib/sdk";
+
+describe("Deployment Doctor Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployDoctorFixture() {
+    const [owner, otherAccount] = await hre.viem.getWalletClients();
+    const { voterDatabase, candidateDatabase, electionDatabase } =
+      await hre.ignition.deploy(ChainElectModule);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    const ownerAddress = getAddress(owner.account.address);
+    const expectedOwners = {
+      voterDatabase: ownerAddress,
+      candidateDatabase: ownerAddress,
+      electionDatabase: ownerAddress,
+    };
+
+    return { client, expectedOwners, otherAccount };
+  }
+
+  it("should pass every check for a correctly wired deployment", async function () {
+    const { client, expectedOwners } = await loadFixture(deployDoctorFixture);
+
+    const checks = await checkDeployment(client, hre.artifacts, expectedOwners);
+
+    assert.lengthOf(checks, 10);
+    assert.deepEqual(
+      checks.filter(({ passed }) => !passed),
+      []
+    );
+  });
+
+  it("should fail when ElectionDatabase lost its SYSTEM role", async function () {
+    const { client, expectedOwners } = await loadFixture(deployDoctorFixture);
+    await client.revokeRole(
+      "candidateDatabase",
+      ROLES.SYSTEM,
+      client.addresses.electionDatabase
+    );
+
+    const checks = await checkDeployment(client, hre.artifacts, expectedOwners);
+
+    assert.deepEqual(
+      checks.filter(({ passed }) => !passed).map(({ name }) => name),
+      ["ElectionDatabase holds SYSTEM_ROLE on CandidateDatabase"]
+    );
+  });
+
+  it("should fail on unexpected owners and addresses without code", async function () {
+    const { client, expectedOwners, otherAccount } =
+      await loadFixture(deployDoctorFixture);
+
+    const checks = await checkDeployment(
+      new ChainElectClient({
+        ...client,
+        addresses: {
+          ...client.addresses,
+          voterDatabase: getAddress(otherAccount.account.address),
+        },
+      }),
+      hre.artifacts,
+      {
+        ...expectedOwners,
+        candidateDatabase: getAddress(otherAccount.account.address),
+      }
+    );
+
+    const failed = checks
+      .filter(({ passed }) => !passed)
+      .map(({ name }) => name);
+    assert.includeMembers(failed, [
+      "VoterDatabase bytecode",
+      "ElectionDatabase references VoterDatabase",
+      "CandidateDatabase owner",
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert } from "chai";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { hardhat } from "viem/chains";
+import ChainElectModule from "../../ignition/modules/ChainElect";
+import { GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import {
+  ChainElectClient,
+  getElectionResults,
+  loadChainElectAbis,
+  renderResults,
+} from "../../lib/sdk";
+
+describe("Election Results Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployElectionResultsFixture() {
+    const [owner, voter1, voter2, voter3, voter4, candidate1, candidate2] =
+      await hre.viem.getWalletClients();
+    const { voterDatabase, candidateDatabase, electionDatabase } =
+      await hre.ignition.deploy(ChainElectModule);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    for (const voter of [voter1, voter2, voter3, voter4]) {
+      await voterDatabase.write.addVoter(
+        [
+          "Voter",
+          getDobEpochFromAge(30),
+          GenderEnum.MALE,
+          "1 First St",
+          "voter@example.com",
+        ],
+        { account: voter.account }
+      );
+    }
+    for (const [candidate, name] of [
+      [candidate1, "Alice | Reform"],
+      [candidate2, "Bob"],
+    ] as const) {
+      await candidateDatabase.write.addCandidate(
+        [
+          name,
+          getDobEpochFromAge(40),
+          GenderEnum.FEMALE,
+          "2 Second St",
+          "candidate@example.com",
+          "PhD",
+          "Manifesto",
+        ],
+        { account: candidate.account }
+      );
+    }
+
+    const { electionId } = await client.createElection(
+      "Board Election",
+      "Annual board election"
+    );
+    await client.adminEnrollCandidate(electionId, candidate1.account.address);
+    await client.adminEnrollCandidate(electionId, candidate2.account.address);
+    await client.openElection(electionId);
+
+    const vote = (voter: typeof voter1, candidate: typeof candidate1) =>
+      electionDatabase.write.vote([electionId, candidate.account.address], {
+        account: voter.account,
+      });
+
+    return {
+      client,
+      electionId,
+      vote,
+      voter1,
+      voter2,
+      voter3,
+      candidate1,
+      candidate2,
+    };
+  }
+
+  it("should compute counts, percentages, margin and turnout", async function () {
+    const {
+      client,
+      electionId,
+      vote,
+      voter1,
+      voter2,
+      voter3,
+      candidate1,
+      candidate2,
+    } = await loadFixture(deployElectionResultsFixture);
+    await vote(voter1, candidate1);
+    await vote(voter2, candidate1);
+    await vote(voter3, candidate2);
+
+    const results = await getElectionResults(client, electionId);
+
+    assert.equal(results.totalVotes, 3n);
+    assert.equal(results.registeredVoters, 4n);
+    assert.equal(results.turnout, 75);
+    assert.equal(results.margin, 1n);
+    assert.equal(results.winner, getAddress(candidate1.account.address));
+    assert.deepEqual(
+      results.candidates.map(({ name, rank, votes, percentage }) => ({
+        name,
+        rank,
+        votes,
+        percentage,
+      })),
+      [
+        { name: "Alice | Reform", rank: 1, votes: 2n, percentage: 66.66 },
+        { name: "Bob", rank: 2, votes: 1n, percentage: 33.33 },
+      ]
+    );
+    assert.equal(
+      getAddress(results.candidates[1].address),
+      getAddress(candidate2.account.address)
+    );
+  });
+
+  it("should report ties without a winner", async function () {
+    const { client, electionId, vote, voter1, voter2, candidate1, candidate2 } =
+      await loadFixture(deployElectionResultsFixture);
+    await vote(voter1, candidate1);
+    await vote(voter2, candidate2);
+
+    const results = await getElectionResults(client, electionId);
+
+    assert.isUndefined(results.winner);
+    assert.equal(results.margin, 0n);
+    assert.deepEqual(
+      results.candidates.map(({ rank }) => rank),
+      [1, 1]
+    );
+  });
+
+  it("should render JSON, CSV and Markdown reports", async function () {
+    const { client, electionId, vote, voter1, candidate1 } = await loadFixture(
+      deployElectionResultsFixture
+    );
+    await vote(voter1, candidate1);
+
+    const results = await getElectionResults(client, electionId);
+
+    const json = JSON.parse(renderResults(results, "json"));
+    assert.equal(json.totalVotes, "1");
+    assert.lengthOf(json.candidates, 2);
+
+    const csv = renderResults(results, "csv").trim().split("\n");
+    assert.equal(csv[0], "address,name,votes,rank,percentage");
+    assert.lengthOf(csv, 3);
+
+    const markdown = renderResults(results, "markdown");
+    assert.include(markdown, "# Board Election results");
+    assert.include(markdown, "| 1 | Alice \\| Reform |");
+    assert.include(markdown, "25.00% turnout");
+  });
+});
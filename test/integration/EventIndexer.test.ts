@@ -0,0 +1,270 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { getAddress, zeroHash } from "viem";
+import { hardhat } from "viem/chains";
+import ChainElectModule from "../../ignition/modules/ChainElect";
+import { ElectionTypeEnum, GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import { ChainElectIndexer } from "../../lib/indexer";
+import { ChainElectClient, loadChainElectAbis } from "../../lib/sdk";
+
+describe("Event Indexer Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployIndexerFixture() {
+    const [owner, voter1, candidate1, candidate2] =
+      await hre.viem.getWalletClients();
+    const { voterDatabase, candidateDatabase, electionDatabase } =
+      await hre.ignition.deploy(ChainElectModule);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    await voterDatabase.write.addVoter(
+      [
+        "Voter One",
+        getDobEpochFromAge(30),
+        GenderEnum.MALE,
+        "1 First St",
+        "voter1@example.com",
+      ],
+      { account: voter1.account }
+    );
+    for (const candidate of [candidate1, candidate2]) {
+      await candidateDatabase.write.addCandidate(
+        [
+          "Candidate",
+          getDobEpochFromAge(40),
+          GenderEnum.FEMALE,
+          "2 Second St",
+          "candidate@example.com",
+          "PhD",
+          "Manifesto",
+        ],
+        { account: candidate.account }
+      );
+    }
+
+    const { electionId } = await client.createElection(
+      "First Election",
+      "Indexed election"
+    );
+    await client.adminEnrollCandidate(electionId, candidate1.account.address);
+    await client.adminEnrollCandidate(electionId, candidate2.account.address);
+    await client.openElection(electionId);
+    await electionDatabase.write.vote(
+      [electionId, candidate1.account.address],
+      {
+        account: voter1.account,
+      }
+    );
+
+    return {
+      client,
+      electionDatabase,
+      electionId,
+      voter1,
+      candidate1,
+      candidate2,
+    };
+  }
+
+  // the fixture result is shared between tests, so every test gets its own store
+  function createStorePath() {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+    return path.join(dir, "index.json");
+  }
+
+  it("should build the normalized model from the events", async function () {
+    const { client, electionId, voter1, candidate1, candidate2 } =
+      await loadFixture(deployIndexerFixture);
+    const storePath = createStorePath();
+
+    const indexer = await ChainElectIndexer.open({ client, storePath });
+    const result = await indexer.sync();
+    assert.isAbove(result.newEvents, 0);
+
+    const model = indexer.getModel();
+    const election = model.elections[electionId.toString()];
+    assert.equal(election.name, "First Election");
+    assert.isTrue(election.isOpen);
+    assert.sameMembers(election.candidates, [
+      getAddress(candidate1.account.address),
+      getAddress(candidate2.account.address),
+    ]);
+    assert.isTrue(model.voters[getAddress(voter1.account.address)].registered);
+    assert.deepEqual(
+      indexer.getElectionsOfVoter(voter1.account.address).map(({ id }) => id),
+      [electionId.toString()]
+    );
+    assert.equal(
+      model.votes[0].candidate,
+      getAddress(candidate1.account.address)
+    );
+  });
+
+  it("should resume from the last indexed block", async function () {
+    const { client } = await loadFixture(deployIndexerFixture);
+    const storePath = createStorePath();
+
+    const first = await ChainElectIndexer.open({ client, storePath });
+    const { toBlock, newEvents } = await first.sync();
+
+    await client.createElection("Second Election", "Created after the sync");
+
+    // a fresh instance picks up the store left by the first one
+    const second = await ChainElectIndexer.open({ client, storePath });
+    const result = await second.sync();
+
+    assert.equal(result.fromBlock, toBlock + 1);
+    assert.equal(result.newEvents, 1);
+    assert.lengthOf(second.events, newEvents + 1);
+  });
+
+  it("should rewind and re-index after a reorg", async function () {
+    const { client, electionDatabase } =
+      await loadFixture(deployIndexerFixture);
+    const storePath = createStorePath();
+
+    const indexer = await ChainElectIndexer.open({
+      client,
+      storePath,
+      reorgDepth: 3,
+    });
+    await indexer.sync();
+
+    // index a block that is then dropped from the chain
+    const snapshot = await hre.network.provider.request({
+      method: "evm_snapshot",
+    });
+    await client.createElection("Orphaned Election", "Reorged out");
+    const { toBlock } = await indexer.sync();
+    await hre.network.provider.request({
+      method: "evm_revert",
+      params: [snapshot],
+    });
+
+    // the replacement chain is longer and holds a different election
+    await client.createElection("Canonical Election", "Survives the reorg");
+    await hre.network.provider.request({
+      method: "hardhat_mine",
+      params: ["0x2"],
+    });
+
+    const result = await indexer.sync();
+    assert.equal(result.rewoundTo, toBlock - 3);
+
+    const names = Object.values(indexer.getModel().elections).map(
+      ({ name }) => name
+    );
+    assert.include(names, "Canonical Election");
+    assert.notInclude(names, "Orphaned Election");
+    assert.equal(
+      Object.keys(indexer.getModel().elections).length,
+      Number(await electionDatabase.read.getElectionCount())
+    );
+  });
+
+  it("should store array and struct arguments as JSON", async function () {
+    const { client, electionDatabase, voter1, candidate1, candidate2 } =
+      await loadFixture(deployIndexerFixture);
+    const storePath = createStorePath();
+
+    const { electionId } = await client.createElection(
+      "Ranked Election",
+      "Indexed ranked ballots",
+      ElectionTypeEnum.RANKED_CHOICE,
+      undefined,
+      { minVoterAge: 18 }
+    );
+    await client.adminEnrollCandidate(electionId, candidate1.account.address);
+    await client.adminEnrollCandidate(electionId, candidate2.account.address);
+    await client.openElection(electionId);
+    const rankings = [
+      getAddress(candidate2.account.address),
+      getAddress(candidate1.account.address),
+    ];
+    await electionDatabase.write.voteRanked([electionId, rankings], {
+      account: voter1.account,
+    });
+
+    const indexer = await ChainElectIndexer.open({ client, storePath });
+    await indexer.sync();
+
+    const find = (eventName: string) =>
+      indexer.events.find(
+        (event) =>
+          event.eventName === eventName &&
+          event.args.electionId === electionId.toString()
+      );
+    assert.deepEqual(find("VoterRankedVoted")?.args.rankings, rankings);
+    assert.deepEqual(find("EligibilityRulesSet")?.args.rules, {
+      minVoterAge: "18",
+      minCandidateAge: "0",
+      genderRestricted: "false",
+      candidateGender: "0",
+      region: zeroHash,
+    });
+    assert.equal(
+      indexer.getModel().elections[electionId.toString()].votes[0].candidate,
+      rankings[0]
+    );
+  });
+
+  it("should rewind to the head when the chain is shorter than the reorg depth", async function () {
+    const { client } = await loadFixture(deployIndexerFixture);
+    const storePath = createStorePath();
+
+    const indexer = await ChainElectIndexer.open({
+      client,
+      storePath,
+      reorgDepth: 3,
+    });
+    await indexer.sync();
+
+    // index more blocks than the reorg depth that are then dropped
+    const snapshot = await hre.network.provider.request({
+      method: "evm_snapshot",
+    });
+    await client.createElection("Orphaned Election", "Reorged out");
+    await hre.network.provider.request({
+      method: "hardhat_mine",
+      params: ["0x5"],
+    });
+    await indexer.sync();
+    await hre.network.provider.request({
+      method: "evm_revert",
+      params: [snapshot],
+    });
+    const head = Number(await client.publicClient.getBlockNumber());
+
+    const result = await indexer.sync();
+    assert.equal(result.rewoundTo, head);
+    assert.equal(indexer.lastBlock, head);
+
+    await client.createElection("Canonical Election", "Survives the reorg");
+    await indexer.sync();
+    const names = Object.values(indexer.getModel().elections).map(
+      ({ name }) => name
+    );
+    assert.include(names, "Canonical Election");
+    assert.notInclude(names, "Orphaned Election");
+  });
+});
@@ -19,12 +19,12 @@ describe("Import Functionality Tests", function () {
     
     // Deploy two sets of databases (source and destination)
     // Source databases - these will have data to import from
-    const sourceVoterDb = await hre.viem.deployContract("VoterDatabase", []);
-    const sourceCandidateDb = await hre.viem.deployContract("CandidateDatabase", []);
+    const sourceVoterDb = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const sourceCandidateDb = await hre.viem.deployContract("CandidateDatabase", [18n]);
     
     // Destination databases - these will import data from source
-    const destVoterDb = await hre.viem.deployContract("VoterDatabase", []);
-    const destCandidateDb = await hre.viem.deployContract("CandidateDatabase", []);
+    const destVoterDb = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const destCandidateDb = await hre.viem.deployContract("CandidateDatabase", [18n]);
     
     const publicClient = await hre.viem.getPublicClient();
     
@@ -386,7 +386,7 @@ describe("Import Functionality Tests", function () {
           [sourceVoterDb.address, voter1.account.address],
           { account: voter2.account }
         )
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
       
       // Try to import a candidate as a non-admin
       await expect(
@@ -394,7 +394,7 @@ describe("Import Functionality Tests", function () {
           [sourceCandidateDb.address, candidate1.account.address],
           { account: voter2.account }
         )
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { hardhat } from "viem/chains";
+import ChainElectUpgradeableModule from "../../ignition/modules/ChainElectUpgradeable";
+import { GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import { ChainElectClient, loadChainElectAbis } from "../../lib/sdk";
+import {
+  compareStorageLayouts,
+  getStorageLayout,
+  isUpgradeSafe,
+  StorageLayout,
+} from "../../lib/storage-layout";
+
+describe("Upgradeable Deployment Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployUpgradeableFixture() {
+    const [owner, otherAccount, voter1] = await hre.viem.getWalletClients();
+    const { voterDatabase, candidateDatabase, electionDatabase } =
+      await hre.ignition.deploy(ChainElectUpgradeableModule);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    return {
+      voterDatabase,
+      candidateDatabase,
+      electionDatabase,
+      client,
+      owner,
+      otherAccount,
+      voter1,
+    };
+  }
+
+  async function readVoterLayout(): Promise<StorageLayout> {
+    const artifact = await hre.artifacts.readArtifact("VoterDatabase");
+    const buildInfo = await hre.artifacts.getBuildInfo(
+      `${artifact.sourceName}:${artifact.contractName}`
+    );
+    if (!buildInfo) throw new Error("No build info for VoterDatabase");
+    return getStorageLayout(
+      buildInfo,
+      artifact.sourceName,
+      artifact.contractName
+    );
+  }
+
+  it("initializes every proxy once, owned by the deployer", async function () {
+    const {
+      voterDatabase,
+      candidateDatabase,
+      electionDatabase,
+      client,
+      owner,
+    } = await loadFixture(deployUpgradeableFixture);
+
+    for (const database of [
+      "voterDatabase",
+      "candidateDatabase",
+      "electionDatabase",
+    ] as const) {
+      assert.isDefined(await client.getImplementation(database));
+      assert.equal(
+        await client.getOwner(database),
+        getAddress(owner.account.address)
+      );
+    }
+    const [voterDatabaseAddress, candidateDatabaseAddress] =
+      await electionDatabase.read.getDatabases();
+    assert.equal(voterDatabaseAddress, getAddress(voterDatabase.address));
+    assert.equal(
+      candidateDatabaseAddress,
+      getAddress(candidateDatabase.address)
+    );
+
+    await expect(
+      voterDatabase.write.initialize([owner.account.address, 18n])
+    ).to.be.rejectedWith("Upgradeable__AlreadyInitialized");
+    await expect(
+      electionDatabase.write.initialize([
+        owner.account.address,
+        voterDatabase.address,
+        candidateDatabase.address,
+      ])
+    ).to.be.rejectedWith("Upgradeable__AlreadyInitialized");
+  });
+
+  it("keeps the address and the records across an upgrade", async function () {
+    const { voterDatabase, client, voter1 } = await loadFixture(
+      deployUpgradeableFixture
+    );
+    await voterDatabase.write.addVoter(
+      [
+        "Voter One",
+        getDobEpochFromAge(30),
+        GenderEnum.MALE,
+        "1 First St",
+        "voter1@example.com",
+      ],
+      { account: voter1.account }
+    );
+    const before = await voterDatabase.read.adminGetVoterDetails([
+      voter1.account.address,
+    ]);
+
+    const implementation = await hre.viem.deployContract("VoterDatabase", [
+      18n,
+    ]);
+    await client.upgradeToAndCall("voterDatabase", implementation.address);
+
+    assert.equal(
+      await client.getImplementation("voterDatabase"),
+      getAddress(implementation.address)
+    );
+    // the registration timestamp survives, unlike a migration by import
+    assert.deepEqual(
+      await voterDatabase.read.adminGetVoterDetails([voter1.account.address]),
+      before
+    );
+  });
+
+  it("only lets the owner upgrade a proxy", async function () {
+    const { voterDatabase, client, otherAccount } = await loadFixture(
+      deployUpgradeableFixture
+    );
+    const implementation = await hre.viem.deployContract("VoterDatabase", [
+      18n,
+    ]);
+
+    await expect(
+      voterDatabase.write.upgradeToAndCall([implementation.address, "0x"], {
+        account: otherAccount.account,
+      })
+    ).to.be.rejectedWith("AdminManagement__NotOwner");
+    // the implementation itself cannot be upgraded
+    await expect(
+      implementation.write.upgradeToAndCall([implementation.address, "0x"])
+    ).to.be.rejectedWith("Upgradeable__NotProxy");
+    // an address without upgrade support would lock the proxy
+    await expect(
+      client.upgradeToAndCall("voterDatabase", otherAccount.account.address)
+    ).to.be.rejectedWith("Upgradeable__UnsupportedImplementation");
+  });
+
+  it("accepts appended variables and rejects shifted ones", async function () {
+    const layout = await readVoterLayout();
+    assert.deepEqual(compareStorageLayouts(layout, layout), []);
+
+    const last = layout.storage[layout.storage.length - 1];
+    const appended = compareStorageLayouts(layout, {
+      ...layout,
+      storage: [
+        ...layout.storage,
+        {
+          ...last,
+          label: "s_newVariable",
+          slot: String(Number(last.slot) + 1),
+          offset: 0,
+        },
+      ],
+    });
+    assert.deepEqual(
+      appended.map(({ kind }) => kind),
+      ["appended"]
+    );
+    assert.isTrue(isUpgradeSafe(appended));
+
+    // a variable inserted before the others moves all of them
+    const shifted = compareStorageLayouts(layout, {
+      ...layout,
+      storage: [
+        { ...last, label: "s_newVariable", slot: "0", offset: 0 },
+        ...layout.storage.map((variable) => ({
+          ...variable,
+          slot: String(Number(variable.slot) + 1),
+        })),
+      ],
+    });
+    assert.include(
+      shifted.map(({ kind }) => kind),
+      "shifted"
+    );
+    assert.isFalse(isUpgradeSafe(shifted));
+  });
+});
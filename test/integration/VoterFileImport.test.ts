@@ -0,0 +1,204 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { zeroAddress } from "viem";
+import { hardhat } from "viem/chains";
+import { GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import { ChainElectClient, loadChainElectAbis } from "../../lib/sdk";
+import { importVoters, readVoterFile } from "../../lib/voter-import";
+
+describe("Voter File Import Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployVoterImportFixture() {
+    const [owner, voter1, voter2, voter3, voter4] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    // voter1 is already registered before the import
+    await voterDatabase.write.addVoter(
+      [
+        "Existing Voter",
+        getDobEpochFromAge(40),
+        GenderEnum.MALE,
+        "1 First St",
+        "existing@example.com",
+      ],
+      { account: voter1.account }
+    );
+
+    return { voterDatabase, client, voter1, voter2, voter3, voter4 };
+  }
+
+  function writeTempFile(name: string, content: string) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "voter-import-"));
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it("should read CSV files with quoted fields", async function () {
+    const filePath = writeTempFile(
+      "roll.csv",
+      'name,wallet,birthDate,gender,address,email\n"Doe, Jane",0x0000000000000000000000000000000000000001,1990-01-01,female,"12 ""Oak"" St",jane@example.com\n'
+    );
+
+    const [row] = readVoterFile(filePath);
+    assert.equal(row.name, "Doe, Jane");
+    assert.equal(row.address, '12 "Oak" St');
+    assert.equal(row.gender, "female");
+  });
+
+  it("should classify every row of the electoral roll", async function () {
+    const { voterDatabase, client, voter1, voter2, voter3, voter4 } =
+      await loadFixture(deployVoterImportFixture);
+
+    const filePath = writeTempFile(
+      "roll.json",
+      JSON.stringify([
+        {
+          name: "New Voter",
+          wallet: voter2.account.address,
+          birthDate: "1990-05-15",
+          gender: "male",
+          address: "2 Second St",
+          email: "new@example.com",
+        },
+        {
+          name: "Existing Voter",
+          wallet: voter1.account.address,
+          birthDate: "1985-01-01",
+          gender: "male",
+          address: "1 First St",
+          email: "existing@example.com",
+        },
+        {
+          name: "Young Voter",
+          wallet: voter3.account.address,
+          birthDate: new Date().toISOString().slice(0, 10),
+          gender: 1,
+          address: "3 Third St",
+          email: "young@example.com",
+        },
+        {
+          name: "Broken Voter",
+          wallet: "not-an-address",
+          birthDate: "1990-05-15",
+          gender: "female",
+          address: "4 Fourth St",
+          email: "broken@example.com",
+        },
+        {
+          name: "Another Voter",
+          wallet: voter4.account.address,
+          birthDate: "1970-12-31",
+          gender: "FEMALE",
+          address: "5 Fifth St",
+          email: "another@example.com",
+        },
+      ])
+    );
+
+    const results = await importVoters(client, readVoterFile(filePath), {
+      minEligibleAge: 18,
+      chunkSize: 2,
+    });
+
+    assert.deepEqual(
+      results.map(({ status }) => status),
+      [
+        "added",
+        "skipped-already-registered",
+        "rejected-underage",
+        "rejected-invalid",
+        "added",
+      ]
+    );
+    assert.isDefined(results[0].transactionHash);
+    assert.equal(await voterDatabase.read.adminGetVoterCount(), 3n);
+  });
+
+  it("should count ages in 365-day years like the database", async function () {
+    const { voterDatabase, client, voter2 } = await loadFixture(
+      deployVoterImportFixture
+    );
+    // 17 in calendar years, but the leap days make it 18 years of 365 days
+    const birthDate = new Date();
+    birthDate.setFullYear(birthDate.getFullYear() - 18);
+    birthDate.setDate(birthDate.getDate() + 2);
+
+    const [result] = await importVoters(
+      client,
+      [
+        {
+          name: "Leap Voter",
+          wallet: voter2.account.address,
+          birthDate: birthDate.toISOString().slice(0, 10),
+          gender: "female",
+          address: "2 Second St",
+          email: "leap@example.com",
+        },
+      ],
+      { minEligibleAge: 18, chunkSize: 1 }
+    );
+
+    assert.equal(result.status, "added");
+    assert.isTrue(
+      await voterDatabase.read.adminGetRegistrationStatus([
+        voter2.account.address,
+      ])
+    );
+  });
+
+  it("should report reverts with the decoded error name", async function () {
+    const { client } = await loadFixture(deployVoterImportFixture);
+
+    // the zero address passes local validation but is rejected by the contract
+    const [result] = await importVoters(
+      client,
+      [
+        {
+          name: "Zero Voter",
+          wallet: zeroAddress,
+          birthDate: "1990-05-15",
+          gender: "0",
+          address: "2 Second St",
+          email: "zero@example.com",
+        },
+      ],
+      { minEligibleAge: 18, chunkSize: 10 }
+    );
+
+    assert.equal(result.status, "reverted");
+    assert.equal(result.error, "VoterDatabase__InvalidAddress");
+  });
+});
@@ -18,8 +18,8 @@ describe("Gas Usage Tests", function () {
     const [owner, voter1, voter2, candidate1, candidate2] = await hre.viem.getWalletClients();
     
     // Deploy all contracts
-    const voterDatabase = await hre.viem.deployContract("VoterDatabase", []);
-    const candidateDatabase = await hre.viem.deployContract("CandidateDatabase", []);
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract("CandidateDatabase", [18n]);
     const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
       voterDatabase.address,
       candidateDatabase.address,
@@ -244,7 +244,7 @@ describe("Gas Usage Tests", function () {
       }
       
       // Deploy another candidate database as destination for import
-      const destCandidateDb = await hre.viem.deployContract("CandidateDatabase", []);
+      const destCandidateDb = await hre.viem.deployContract("CandidateDatabase", [18n]);
       
       // Measure gas for batch import
       const tx = await destCandidateDb.write.adminBatchImportCandidates([
@@ -18,8 +18,8 @@ describe("Security Tests", function () {
     const [owner, admin, voter1, voter2, candidate1, candidate2, attacker] = await hre.viem.getWalletClients();
     
     // Deploy all contracts
-    const voterDatabase = await hre.viem.deployContract("VoterDatabase", []);
-    const candidateDatabase = await hre.viem.deployContract("CandidateDatabase", []);
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract("CandidateDatabase", [18n]);
     const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
       voterDatabase.address,
       candidateDatabase.address,
@@ -73,7 +73,7 @@ describe("Security Tests", function () {
           ],
           { account: attacker.account }
         )
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
       
       // Attempt unauthorized access to admin functions in CandidateDatabase
       await expect(
@@ -90,7 +90,7 @@ describe("Security Tests", function () {
           ],
           { account: attacker.account }
         )
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
       
       // Attempt unauthorized access to admin functions in ElectionDatabase
       await expect(
@@ -98,7 +98,7 @@ describe("Security Tests", function () {
           ["Unauthorized Election", "Hacked election description"],
           { account: attacker.account }
         )
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
     });
 
     it("should prevent non-owners from adding/removing admins", async function () {
@@ -171,7 +171,7 @@ describe("Security Tests", function () {
           [0n],
           { account: attacker.account }
         )
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
     });
   });
 
@@ -203,7 +203,7 @@ describe("Security Tests", function () {
           [voter1.account.address],
           { account: attacker.account }
         )
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
       
       // Attempt to get voter registration status as an attacker
       await expect(
@@ -211,7 +211,7 @@ describe("Security Tests", function () {
           [voter1.account.address],
           { account: attacker.account }
         )
-      ).to.be.rejectedWith("AdminManagement__NotAdmin");
+      ).to.be.rejectedWith("AdminManagement__MissingRole");
       
       // Voter should be able to access their own details
       const details = await voterDatabase.read.getMyDetails({ account: voter1.account });
@@ -0,0 +1,87 @@
+import { assert } from "chai";
+import hre from "hardhat";
+import { parseAbi } from "viem";
+import { compareAbis, excludeAbi, isAbiCompatible } from "../../lib/abi-compat";
+
+describe("ABI Compatibility Unit Tests", function () {
+  const released = parseAbi([
+    "function getVoterCount() view returns (uint256)",
+    "function getMyAge() view returns (uint256)",
+    "function markVoted()",
+    "event VoterVoted(address indexed voter)",
+    "error NotRegistered()",
+  ]);
+
+  it("treats new functions, events and errors as additive", function () {
+    const changes = compareAbis(released, [
+      ...released,
+      ...parseAbi([
+        "function getMyDetails() view returns (string, uint256)",
+        "event VoterDeleted(address indexed voter)",
+        "error AlreadyRegistered()",
+      ]),
+    ]);
+
+    assert.deepEqual(
+      changes.map(({ kind, signature, breaking }) => ({
+        kind,
+        signature,
+        breaking,
+      })),
+      [
+        { kind: "added", signature: "getMyDetails()", breaking: false },
+        { kind: "added", signature: "VoterDeleted(address)", breaking: false },
+        { kind: "added", signature: "AlreadyRegistered()", breaking: false },
+      ]
+    );
+    assert.isTrue(isAbiCompatible(changes));
+  });
+
+  it("treats removed and changed members as breaking", function () {
+    const changes = compareAbis(
+      released,
+      parseAbi([
+        "function getVoterCount() view returns (uint256, uint256)",
+        "function getMyAge(address) view returns (uint256)",
+        "function markVoted() view",
+        "event VoterVoted(address voter)",
+        "error NotRegistered()",
+      ])
+    );
+
+    assert.deepEqual(
+      changes.map(({ kind, signature }) => ({ kind, signature })),
+      [
+        { kind: "changed", signature: "getVoterCount()" },
+        { kind: "removed", signature: "getMyAge()" },
+        { kind: "changed", signature: "markVoted()" },
+        { kind: "changed", signature: "VoterVoted(address)" },
+        { kind: "added", signature: "getMyAge(address)" },
+      ]
+    );
+    assert.isFalse(isAbiCompatible(changes));
+  });
+
+  it("finds no breaking drift between the interfaces and the databases", async function () {
+    const sharedAbi = (await hre.artifacts.readArtifact("AdminManagement")).abi;
+
+    for (const [interfaceName, contractName] of [
+      ["IVoterDatabase", "VoterDatabase"],
+      ["ICandidateDatabase", "CandidateDatabase"],
+    ]) {
+      const changes = compareAbis(
+        (await hre.artifacts.readArtifact(interfaceName)).abi,
+        excludeAbi(
+          (await hre.artifacts.readArtifact(contractName)).abi,
+          sharedAbi
+        )
+      ).filter(({ type }) => type !== "error");
+
+      // only the proxy initializer is left out of the interfaces
+      assert.deepEqual(
+        changes.map(({ signature }) => signature),
+        ["initialize(address,uint256)"]
+      );
+    }
+  });
+});
@@ -0,0 +1,197 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { hardhat } from "viem/chains";
+import { ElectionTypeEnum, GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import {
+  ChainElectClient,
+  getElectionResults,
+  loadChainElectAbis,
+  renderResults,
+} from "../../lib/sdk";
+
+describe("Approval Voting Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployApprovalVotingFixture() {
+    const [owner, alice, bob, carol, ...voters] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+    await voterDatabase.write.addAdmin([owner.account.address]);
+    await voterDatabase.write.addAdmin([electionDatabase.address]);
+
+    for (const voter of voters.slice(0, 4)) {
+      await voterDatabase.write.addVoter(
+        [
+          "Voter",
+          getDobEpochFromAge(30),
+          GenderEnum.MALE,
+          "1 First St",
+          "voter@example.com",
+        ],
+        { account: voter.account }
+      );
+    }
+    for (const [candidate, name] of [
+      [alice, "Alice"],
+      [bob, "Bob"],
+      [carol, "Carol"],
+    ] as const) {
+      await candidateDatabase.write.addCandidate(
+        [
+          name,
+          getDobEpochFromAge(40),
+          GenderEnum.FEMALE,
+          "2 Second St",
+          "candidate@example.com",
+          "PhD",
+          "Manifesto",
+        ],
+        { account: candidate.account }
+      );
+    }
+
+    await electionDatabase.write.adminCreateElection([
+      "Committee Election",
+      "Approve any number of members",
+      ElectionTypeEnum.APPROVAL,
+    ]);
+    for (const candidate of [alice, bob, carol]) {
+      await electionDatabase.write.enrollCandidate([0n], {
+        account: candidate.account,
+      });
+    }
+    await electionDatabase.write.adminOpenElection([0n]);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    const [A, B, C] = [alice, bob, carol].map(({ account }) =>
+      getAddress(account.address)
+    );
+
+    return { electionDatabase, client, voters, candidates: { A, B, C } };
+  }
+
+  it("counts every approved candidate once", async function () {
+    const { electionDatabase, voters, candidates } = await loadFixture(
+      deployApprovalVotingFixture
+    );
+    const { A, B, C } = candidates;
+
+    await electionDatabase.write.voteApproval([0n, [A, B]], {
+      account: voters[0].account,
+    });
+    const [event] = await electionDatabase.getEvents.VoterApprovalVoted();
+    assert.deepEqual(event.args.approvals, [A, B]);
+
+    await electionDatabase.write.voteApproval([0n, [B]], {
+      account: voters[1].account,
+    });
+
+    assert.equal(await electionDatabase.read.getVotesOfCandidate([0n, A]), 1n);
+    assert.equal(await electionDatabase.read.getVotesOfCandidate([0n, B]), 2n);
+    assert.equal(await electionDatabase.read.getVotesOfCandidate([0n, C]), 0n);
+    // ballots, not approvals
+    assert.equal(await electionDatabase.read.getTotalVoteCount([0n]), 2n);
+    assert.equal(await electionDatabase.read.getWinner([0n]), B);
+  });
+
+  it("rejects duplicate and non-enrolled approvals", async function () {
+    const { electionDatabase, voters, candidates } = await loadFixture(
+      deployApprovalVotingFixture
+    );
+    const { A, B } = candidates;
+
+    for (const ballot of [[], [A, B, B], [voters[3].account.address]]) {
+      await expect(
+        electionDatabase.write.voteApproval([0n, ballot], {
+          account: voters[0].account,
+        })
+      ).to.be.rejectedWith("ElectionDatabase__InvalidBallot");
+    }
+    await expect(
+      electionDatabase.write.vote([0n, A], { account: voters[0].account })
+    ).to.be.rejectedWith("ElectionDatabase__WrongElectionType");
+  });
+
+  it("does not accept a second ballot from the same voter", async function () {
+    const { electionDatabase, voters, candidates } = await loadFixture(
+      deployApprovalVotingFixture
+    );
+
+    await electionDatabase.write.voteApproval([0n, [candidates.A]], {
+      account: voters[0].account,
+    });
+    await expect(
+      electionDatabase.write.voteApproval([0n, [candidates.B]], {
+        account: voters[0].account,
+      })
+    ).to.be.rejectedWith("ElectionDatabase__VoterAlreadyVoted");
+  });
+
+  it("reports the approvals per ballot distribution", async function () {
+    const { electionDatabase, client, voters, candidates } = await loadFixture(
+      deployApprovalVotingFixture
+    );
+    const { A, B, C } = candidates;
+
+    const ballots = [[A, B, C], [A, C], [C, A], [A]];
+    for (const [i, ballot] of ballots.entries()) {
+      await electionDatabase.write.voteApproval([0n, ballot], {
+        account: voters[i].account,
+      });
+    }
+
+    assert.deepEqual(
+      await electionDatabase.read.getApprovalDistribution([0n]),
+      [0n, 1n, 2n, 1n]
+    );
+
+    const results = await getElectionResults(client, 0n);
+    assert.deepEqual(results.approvalDistribution, [
+      { approvals: 1, ballots: 1n },
+      { approvals: 2, ballots: 2n },
+      { approvals: 3, ballots: 1n },
+    ]);
+    assert.equal(results.winner, A);
+    assert.equal(results.margin, 1n);
+    // share of the ballots approving each candidate
+    assert.deepEqual(
+      results.candidates.map(({ percentage }) => percentage),
+      [100, 75, 25]
+    );
+
+    const markdown = renderResults(results, "markdown");
+    assert.include(
+      markdown,
+      "| Rank | Candidate | Address | Approvals | Share |"
+    );
+    assert.include(markdown, "## Approvals per ballot");
+    assert.include(markdown, "| 2 | 2 | 50.00% |");
+  });
+});
@@ -19,7 +19,7 @@ describe("CandidateDatabase Unit Tests", function () {
       await hre.viem.getWalletClients();
     const candidateDatabase = await hre.viem.deployContract(
       "CandidateDatabase",
-      []
+      [18n]
     );
     const publicClient = await hre.viem.getPublicClient();
     return {
@@ -314,7 +314,7 @@ describe("CandidateDatabase Unit Tests", function () {
             ],
             { account: otherAccount.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert with zero address", async function () {
@@ -379,7 +379,7 @@ describe("CandidateDatabase Unit Tests", function () {
             ],
             { account: otherAccount.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert if candidate not registered", async function () {
@@ -493,7 +493,7 @@ describe("CandidateDatabase Unit Tests", function () {
             [otherAccount.account.address],
             { account: otherAccount.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert if candidate not registered", async function () {
@@ -553,7 +553,7 @@ describe("CandidateDatabase Unit Tests", function () {
             ],
             { account: otherAccount.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert adminBatchImportCandidates if called by non-admin", async function () {
@@ -568,7 +568,7 @@ describe("CandidateDatabase Unit Tests", function () {
             ],
             { account: otherAccount.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert adminImportAllCandidates if called by non-admin", async function () {
@@ -580,7 +580,7 @@ describe("CandidateDatabase Unit Tests", function () {
             [thirdAccount.account.address], // Using as mock source contract
             { account: otherAccount.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
     });
   });
@@ -26,7 +26,7 @@ describe("ElectionDatabase Unit Tests", function () {
     ] = await hre.viem.getWalletClients();
 
     // Deploy VoterDatabase
-    const voterDatabase = await hre.viem.deployContract("VoterDatabase", []);
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
 
     // Give admin rights to owner
     await voterDatabase.write.addAdmin([owner.account.address]);
@@ -34,7 +34,7 @@ describe("ElectionDatabase Unit Tests", function () {
     // Deploy CandidateDatabase
     const candidateDatabase = await hre.viem.deployContract(
       "CandidateDatabase",
-      []
+      [18n]
     );
 
     // Deploy ElectionDatabase with the addresses of the other contracts
@@ -180,7 +180,7 @@ describe("ElectionDatabase Unit Tests", function () {
             ["Presidential Election 2023", "National presidential election"],
             { account: voter1.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should emit AdminCreatedElection on success", async function () {
@@ -249,7 +249,7 @@ describe("ElectionDatabase Unit Tests", function () {
             [0n, "Updated Election", "Updated Description"],
             { account: voter1.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert if election not found", async function () {
@@ -331,7 +331,7 @@ describe("ElectionDatabase Unit Tests", function () {
           electionDatabase.write.adminDeleteElection([0n], {
             account: voter1.account,
           })
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert if election not found", async function () {
@@ -622,7 +622,7 @@ describe("ElectionDatabase Unit Tests", function () {
             [0n, candidate1.account.address],
             { account: voter1.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should emit AdminEnrolledCandidate on success", async function () {
@@ -678,7 +678,7 @@ describe("ElectionDatabase Unit Tests", function () {
             [0n, candidate1.account.address],
             { account: voter1.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should emit AdminRemovedCandidate on success", async function () {
@@ -0,0 +1,231 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { hardhat } from "viem/chains";
+import { ElectionTypeEnum, GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import {
+  ChainElectClient,
+  getVotingWindowStatus,
+  loadChainElectAbis,
+} from "../../lib/sdk";
+
+describe("Election Schedule Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployScheduledElectionFixture() {
+    const [owner, voter1, voter2, voter3, candidate1] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+    await voterDatabase.write.addAdmin([electionDatabase.address]);
+
+    for (const voter of [voter1, voter2, voter3]) {
+      await voterDatabase.write.addVoter(
+        [
+          "Voter",
+          getDobEpochFromAge(30),
+          GenderEnum.MALE,
+          "1 First St",
+          "voter@example.com",
+        ],
+        { account: voter.account }
+      );
+    }
+    await candidateDatabase.write.addCandidate(
+      [
+        "Alice Candidate",
+        getDobEpochFromAge(40),
+        GenderEnum.FEMALE,
+        "2 Second St",
+        "alice@example.com",
+        "PhD",
+        "Manifesto",
+      ],
+      { account: candidate1.account }
+    );
+
+    // voting runs for one day, starting in one hour
+    const startTime = BigInt(await time.latest()) + 3600n;
+    const endTime = startTime + 86400n;
+    await electionDatabase.write.adminCreateElection([
+      "Scheduled Election",
+      "Runs for one day",
+      ElectionTypeEnum.PLURALITY,
+      startTime,
+      endTime,
+    ]);
+    await electionDatabase.write.enrollCandidate([0n], {
+      account: candidate1.account,
+    });
+    await electionDatabase.write.adminOpenElection([0n]);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    const vote = (voter: typeof voter1) =>
+      electionDatabase.write.vote([0n, candidate1.account.address], {
+        account: voter.account,
+      });
+
+    return {
+      electionDatabase,
+      client,
+      voters: [voter1, voter2, voter3],
+      vote,
+      startTime,
+      endTime,
+    };
+  }
+
+  it("stores the schedule set at creation", async function () {
+    const { electionDatabase, client, startTime, endTime } = await loadFixture(
+      deployScheduledElectionFixture
+    );
+
+    assert.deepEqual(await electionDatabase.read.getElectionSchedule([0n]), [
+      startTime,
+      endTime,
+    ]);
+    const election = await client.getElection(0n);
+    assert.equal(election.startTime?.getTime(), Number(startTime) * 1000);
+    assert.equal(election.endTime?.getTime(), Number(endTime) * 1000);
+  });
+
+  it("rejects a schedule that ends before it starts", async function () {
+    const { electionDatabase, startTime } = await loadFixture(
+      deployScheduledElectionFixture
+    );
+    await electionDatabase.write.adminCloseElection([0n]);
+
+    await expect(
+      electionDatabase.write.adminUpdateElection([
+        0n,
+        "Scheduled Election",
+        "Runs for one day",
+        startTime,
+        startTime,
+      ])
+    ).to.be.rejectedWith("ElectionDatabase__InvalidSchedule");
+  });
+
+  it("rejects schedule changes while the election is open", async function () {
+    const { electionDatabase, client, startTime, endTime } = await loadFixture(
+      deployScheduledElectionFixture
+    );
+
+    await expect(
+      client.updateElection(0n, "Renamed Election", "Longer window", {
+        startTime: new Date(Number(startTime) * 1000),
+        endTime: new Date(Number(endTime + 86400n) * 1000),
+      })
+    ).to.be.rejectedWith("ElectionDatabase__ElectionActive");
+
+    // the name and description can still be corrected
+    await client.updateElection(0n, "Renamed Election", "Same schedule");
+    const [name] = await electionDatabase.read.getElectionDetails([0n]);
+    assert.equal(name, "Renamed Election");
+  });
+
+  it("only accepts ballots from the start time until before the end time", async function () {
+    const { electionDatabase, voters, vote, startTime, endTime } =
+      await loadFixture(deployScheduledElectionFixture);
+
+    // open, but not started yet: the vote is mined one second later
+    await time.increaseTo(startTime - 2n);
+    await expect(vote(voters[0])).to.be.rejectedWith(
+      "ElectionDatabase__OutsideVotingWindow"
+    );
+
+    // the next block is mined at the start time
+    await time.setNextBlockTimestamp(startTime);
+    await vote(voters[0]);
+
+    await time.setNextBlockTimestamp(endTime - 1n);
+    await vote(voters[1]);
+
+    // the end time itself is outside of the window
+    await time.increaseTo(endTime);
+    assert.isFalse(await electionDatabase.read.isAcceptingVotes([0n]));
+    await expect(vote(voters[2])).to.be.rejectedWith(
+      "ElectionDatabase__OutsideVotingWindow"
+    );
+    assert.equal(await electionDatabase.read.getTotalVoteCount([0n]), 2n);
+  });
+
+  it("still requires the election to be open within the window", async function () {
+    const { electionDatabase, voters, vote, startTime } = await loadFixture(
+      deployScheduledElectionFixture
+    );
+
+    await time.increaseTo(startTime);
+    assert.isTrue(await electionDatabase.read.isAcceptingVotes([0n]));
+    await electionDatabase.write.adminCloseElection([0n]);
+
+    await expect(vote(voters[0])).to.be.rejectedWith(
+      "ElectionDatabase__ElectionClosed"
+    );
+  });
+
+  it("keeps the schedule on updates without one, and can remove it", async function () {
+    const { electionDatabase, client, voters, vote, startTime, endTime } =
+      await loadFixture(deployScheduledElectionFixture);
+    await electionDatabase.write.adminCloseElection([0n]);
+
+    await client.updateElection(0n, "Renamed Election", "Same schedule");
+    assert.deepEqual(await electionDatabase.read.getElectionSchedule([0n]), [
+      startTime,
+      endTime,
+    ]);
+
+    await client.updateElection(0n, "Renamed Election", "No schedule", {});
+    const [event] = await electionDatabase.getEvents.ElectionScheduled();
+    assert.equal(event.args.startTime, 0n);
+    assert.equal(event.args.endTime, 0n);
+    await electionDatabase.write.adminOpenElection([0n]);
+    await vote(voters[0]);
+  });
+
+  it("tells where a time falls in the window", async function () {
+    const startTime = new Date("2030-01-01T00:00:00Z");
+    const endTime = new Date("2030-01-02T00:00:00Z");
+
+    assert.equal(
+      getVotingWindowStatus({ startTime, endTime }, new Date(0)),
+      "not-started"
+    );
+    assert.equal(
+      getVotingWindowStatus({ startTime, endTime }, startTime),
+      "open"
+    );
+    assert.equal(
+      getVotingWindowStatus({ startTime, endTime }, endTime),
+      "ended"
+    );
+    assert.equal(getVotingWindowStatus({}, endTime), "open");
+  });
+});
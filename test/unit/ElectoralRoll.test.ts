@@ -0,0 +1,228 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { getAddress, zeroHash } from "viem";
+import { hardhat } from "viem/chains";
+import { ElectionTypeEnum, GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import {
+  buildElectoralRoll,
+  ChainElectClient,
+  computeRollLeaf,
+  getRollProof,
+  loadChainElectAbis,
+  snapshotElectoralRoll,
+} from "../../lib/sdk";
+
+describe("Electoral Roll Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployElectoralRollFixture() {
+    const [owner, candidate1, latecomer, ...voters] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+    await voterDatabase.write.addAdmin([owner.account.address]);
+    await voterDatabase.write.addAdmin([electionDatabase.address]);
+
+    const register = (voter: typeof owner) =>
+      voterDatabase.write.addVoter(
+        [
+          "Voter",
+          getDobEpochFromAge(30),
+          GenderEnum.MALE,
+          "1 First St",
+          "voter@example.com",
+        ],
+        { account: voter.account }
+      );
+    for (const voter of voters.slice(0, 3)) {
+      await register(voter);
+    }
+    await candidateDatabase.write.addCandidate(
+      [
+        "Alice Candidate",
+        getDobEpochFromAge(40),
+        GenderEnum.FEMALE,
+        "2 Second St",
+        "alice@example.com",
+        "PhD",
+        "Manifesto",
+      ],
+      { account: candidate1.account }
+    );
+
+    // election 0 is plurality, election 1 approval
+    await electionDatabase.write.adminCreateElection([
+      "Roll Election",
+      "Voters frozen at open time",
+    ]);
+    await electionDatabase.write.adminCreateElection([
+      "Approval Election",
+      "Live eligibility",
+      ElectionTypeEnum.APPROVAL,
+    ]);
+    for (const electionId of [0n, 1n]) {
+      await electionDatabase.write.enrollCandidate([electionId], {
+        account: candidate1.account,
+      });
+    }
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    const roll = await snapshotElectoralRoll(client);
+    await client.openElection(0n, roll.root);
+
+    return {
+      voterDatabase,
+      electionDatabase,
+      client,
+      roll,
+      voters: voters.slice(0, 3),
+      latecomer,
+      register,
+      candidate: getAddress(candidate1.account.address),
+    };
+  }
+
+  it("freezes the registered voters at open time", async function () {
+    const { electionDatabase, client, roll, voters } = await loadFixture(
+      deployElectoralRollFixture
+    );
+
+    const [event] = await electionDatabase.getEvents.ElectoralRollFrozen();
+    assert.equal(event.args.root, roll.root);
+    assert.equal(await client.getElectoralRoll(0n), roll.root);
+    assert.isUndefined(await client.getElectoralRoll(1n));
+    assert.sameMembers(
+      roll.voters,
+      voters.map(({ account }) => getAddress(account.address))
+    );
+    for (const voter of roll.voters) {
+      assert.isTrue(
+        await client.isOnElectoralRoll(0n, voter, getRollProof(roll, voter))
+      );
+    }
+  });
+
+  it("accepts votes from the roll with a proof", async function () {
+    const { electionDatabase, roll, voters, candidate } = await loadFixture(
+      deployElectoralRollFixture
+    );
+    const voter = voters[0].account;
+
+    await expect(
+      electionDatabase.write.vote([0n, candidate], { account: voter })
+    ).to.be.rejectedWith("ElectionDatabase__NotOnElectoralRoll");
+
+    await electionDatabase.write.vote(
+      [0n, candidate, getRollProof(roll, voter.address)],
+      { account: voter }
+    );
+    assert.equal(await electionDatabase.read.getTotalVoteCount([0n]), 1n);
+  });
+
+  it("ignores registrations and removals after opening", async function () {
+    const {
+      voterDatabase,
+      electionDatabase,
+      roll,
+      voters,
+      latecomer,
+      register,
+      candidate,
+    } = await loadFixture(deployElectoralRollFixture);
+
+    await register(latecomer);
+    // a proof from the frozen roll cannot be reused for another address
+    await expect(
+      electionDatabase.write.vote(
+        [0n, candidate, getRollProof(roll, voters[1].account.address)],
+        { account: latecomer.account }
+      )
+    ).to.be.rejectedWith("ElectionDatabase__NotOnElectoralRoll");
+
+    await voterDatabase.write.deleteVoter({ account: voters[1].account });
+    await electionDatabase.write.vote(
+      [0n, candidate, getRollProof(roll, voters[1].account.address)],
+      { account: voters[1].account }
+    );
+    assert.equal(await electionDatabase.read.getTotalVoteCount([0n]), 1n);
+  });
+
+  it("only freezes a roll once, and only for plurality elections", async function () {
+    const { electionDatabase, roll } = await loadFixture(
+      deployElectoralRollFixture
+    );
+    await electionDatabase.write.adminCloseElection([0n]);
+
+    await expect(
+      electionDatabase.write.adminOpenElection([0n, roll.root])
+    ).to.be.rejectedWith("ElectionDatabase__ElectoralRollAlreadyFrozen");
+    await expect(
+      electionDatabase.write.adminOpenElection([1n, roll.root])
+    ).to.be.rejectedWith("ElectionDatabase__WrongElectionType");
+  });
+
+  it("does not freeze a roll while the election is open", async function () {
+    const { electionDatabase, roll, candidate } = await loadFixture(
+      deployElectoralRollFixture
+    );
+    await electionDatabase.write.adminCreateElection([
+      "Live Election",
+      "Opened without a roll",
+    ]);
+    await electionDatabase.write.adminEnrollCandidate([2n, candidate]);
+    await electionDatabase.write.adminOpenElection([2n]);
+
+    await expect(
+      electionDatabase.write.adminOpenElection([2n, roll.root])
+    ).to.be.rejectedWith("ElectionDatabase__ElectionActive");
+  });
+
+  it("rejects an empty roll root", async function () {
+    const { electionDatabase } = await loadFixture(deployElectoralRollFixture);
+    await electionDatabase.write.adminCreateElection([
+      "Empty Roll Election",
+      "Nobody could vote",
+    ]);
+
+    await expect(
+      electionDatabase.write.adminOpenElection([2n, zeroHash])
+    ).to.be.rejectedWith("ElectionDatabase__InvalidElectoralRoll");
+  });
+
+  it("builds the same tree regardless of the voter order", async function () {
+    const { roll, voters } = await loadFixture(deployElectoralRollFixture);
+    const addresses = voters.map(({ account }) => account.address);
+
+    assert.equal(buildElectoralRoll([...addresses].reverse()).root, roll.root);
+    // a single voter is the root, with an empty proof
+    const single = buildElectoralRoll([addresses[0]]);
+    assert.equal(single.root, computeRollLeaf(getAddress(addresses[0])));
+    assert.deepEqual(getRollProof(single, addresses[0]), []);
+    assert.throws(() => buildElectoralRoll([]), "empty electoral roll");
+  });
+});
@@ -0,0 +1,319 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { hardhat } from "viem/chains";
+import { ElectionTypeEnum, GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import {
+  ChainElectClient,
+  encodeEligibilityRules,
+  loadChainElectAbis,
+} from "../../lib/sdk";
+
+describe("Eligibility Rules Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployEligibilityFixture() {
+    const [owner, adult, young, alice, bob, carol] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+    await voterDatabase.write.addAdmin([electionDatabase.address]);
+    await candidateDatabase.write.addAdmin([electionDatabase.address]);
+
+    for (const [voter, age] of [
+      [adult, 30],
+      [young, 20],
+    ] as const) {
+      await voterDatabase.write.addVoter(
+        [
+          "Voter",
+          getDobEpochFromAge(age),
+          GenderEnum.MALE,
+          "1 First St",
+          "voter@example.com",
+        ],
+        { account: voter.account }
+      );
+    }
+    // alice meets every rule, bob is a man and carol is too young
+    for (const [candidate, name, age, gender] of [
+      [alice, "Alice", 40, GenderEnum.FEMALE],
+      [bob, "Bob", 40, GenderEnum.MALE],
+      [carol, "Carol", 22, GenderEnum.FEMALE],
+    ] as const) {
+      await candidateDatabase.write.addCandidate(
+        [
+          name,
+          getDobEpochFromAge(age),
+          gender,
+          "2 Second St",
+          `${name.toLowerCase()}@example.com`,
+          "PhD",
+          "Manifesto",
+        ],
+        { account: candidate.account }
+      );
+    }
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+    for (const voter of [adult, young]) {
+      await client.setVoterRegion(voter.account.address, "North");
+    }
+    for (const candidate of [alice, bob, carol]) {
+      await client.setCandidateRegion(candidate.account.address, "North");
+    }
+
+    // voting runs for one day, starting in one hour
+    const startTime = BigInt(await time.latest()) + 3600n;
+    const endTime = startTime + 86400n;
+    await client.createElection(
+      "Women's Seat",
+      "Reserved for women from the North",
+      ElectionTypeEnum.PLURALITY,
+      {
+        startTime: new Date(Number(startTime) * 1000),
+        endTime: new Date(Number(endTime) * 1000),
+      },
+      {
+        minVoterAge: 21,
+        minCandidateAge: 25,
+        candidateGender: GenderEnum.FEMALE,
+        region: "North",
+      }
+    );
+
+    return {
+      voterDatabase,
+      candidateDatabase,
+      electionDatabase,
+      client,
+      adult,
+      young,
+      alice,
+      bob,
+      carol,
+      startTime,
+    };
+  }
+
+  it("stores the rules set at creation", async function () {
+    const { electionDatabase, client } = await loadFixture(
+      deployEligibilityFixture
+    );
+
+    assert.deepEqual(await client.getEligibilityRules(0n), {
+      minVoterAge: 21,
+      minCandidateAge: 25,
+      candidateGender: GenderEnum.FEMALE,
+      region: "North",
+    });
+    assert.deepEqual(
+      await electionDatabase.read.getEligibilityRules([0n]),
+      encodeEligibilityRules({
+        minVoterAge: 21,
+        minCandidateAge: 25,
+        candidateGender: GenderEnum.FEMALE,
+        region: "North",
+      })
+    );
+  });
+
+  it("leaves elections created without rules open to everyone", async function () {
+    const { electionDatabase, client, young, carol } = await loadFixture(
+      deployEligibilityFixture
+    );
+    await client.createElection(
+      "Open Election",
+      "No rules",
+      ElectionTypeEnum.PLURALITY
+    );
+
+    assert.deepEqual(await client.getEligibilityRules(1n), {
+      minVoterAge: 0,
+      minCandidateAge: 0,
+      candidateGender: undefined,
+      region: undefined,
+    });
+    await electionDatabase.write.enrollCandidate([1n], {
+      account: carol.account,
+    });
+    await electionDatabase.write.adminOpenElection([1n]);
+    await electionDatabase.write.vote([1n, carol.account.address], {
+      account: young.account,
+    });
+  });
+
+  it("only enrolls candidates meeting the age and seat rules", async function () {
+    const { electionDatabase, alice, bob, carol } = await loadFixture(
+      deployEligibilityFixture
+    );
+
+    await expect(
+      electionDatabase.write.enrollCandidate([0n], { account: bob.account })
+    ).to.be.rejectedWith("CandidateDatabase__GenderRestricted");
+    await expect(
+      electionDatabase.write.adminEnrollCandidate([0n, carol.account.address])
+    ).to.be.rejectedWith("CandidateDatabase__TooYoungForElection");
+
+    await electionDatabase.write.enrollCandidate([0n], {
+      account: alice.account,
+    });
+    assert.deepEqual(
+      await electionDatabase.read.getRegisteredCandidates([0n]),
+      [getAddress(alice.account.address)]
+    );
+  });
+
+  it("only accepts voters and candidates from the election's region", async function () {
+    const { electionDatabase, client, adult, alice } = await loadFixture(
+      deployEligibilityFixture
+    );
+    await electionDatabase.write.enrollCandidate([0n], {
+      account: alice.account,
+    });
+    await electionDatabase.write.adminOpenElection([0n]);
+    await time.increase(3600n);
+
+    await client.setVoterRegion(adult.account.address, "South");
+    await expect(
+      electionDatabase.write.vote([0n, alice.account.address], {
+        account: adult.account,
+      })
+    ).to.be.rejectedWith("VoterDatabase__OutsideRegion");
+
+    await client.setVoterRegion(adult.account.address);
+    await expect(
+      electionDatabase.write.vote([0n, alice.account.address], {
+        account: adult.account,
+      })
+    ).to.be.rejectedWith("VoterDatabase__OutsideRegion");
+
+    await client.setVoterRegion(adult.account.address, "North");
+    await electionDatabase.write.vote([0n, alice.account.address], {
+      account: adult.account,
+    });
+
+    await client.createElection(
+      "Northern Seat",
+      "Open to the North only",
+      ElectionTypeEnum.PLURALITY,
+      undefined,
+      { region: "North" }
+    );
+    await client.setCandidateRegion(alice.account.address, "South");
+    await expect(
+      electionDatabase.write.enrollCandidate([1n], { account: alice.account })
+    ).to.be.rejectedWith("CandidateDatabase__OutsideRegion");
+  });
+
+  it("checks the voter's age on the last day of the election", async function () {
+    const { electionDatabase, client, young, alice, startTime } =
+      await loadFixture(deployEligibilityFixture);
+    await electionDatabase.write.enrollCandidate([0n], {
+      account: alice.account,
+    });
+    await electionDatabase.write.adminOpenElection([0n]);
+    await time.increaseTo(startTime);
+
+    await expect(
+      electionDatabase.write.vote([0n, alice.account.address], {
+        account: young.account,
+      })
+    ).to.be.rejectedWith("VoterDatabase__TooYoungForElection");
+
+    // 21 by the end of an election running for two years
+    await client.createElection(
+      "Long Election",
+      "Runs for two years",
+      ElectionTypeEnum.PLURALITY,
+      { endTime: new Date((Number(startTime) + 2 * 365 * 86400) * 1000) },
+      { minVoterAge: 21 }
+    );
+    await electionDatabase.write.enrollCandidate([1n], {
+      account: alice.account,
+    });
+    await electionDatabase.write.adminOpenElection([1n]);
+    await electionDatabase.write.vote([1n, alice.account.address], {
+      account: young.account,
+    });
+  });
+
+  it("explains why a voter or candidate is not eligible", async function () {
+    const { client, adult, young, alice, bob, carol, voterDatabase } =
+      await loadFixture(deployEligibilityFixture);
+    await client.setVoterRegion(young.account.address, "South");
+
+    assert.deepEqual(
+      await client.checkVoterEligibility(0n, adult.account.address),
+      { eligible: true, reasons: [] }
+    );
+    const minorCheck = await client.checkVoterEligibility(
+      0n,
+      young.account.address
+    );
+    assert.isFalse(minorCheck.eligible);
+    assert.lengthOf(minorCheck.reasons, 2);
+    assert.match(
+      minorCheck.reasons[0],
+      /^is 20 on .*, the election requires 21$/
+    );
+    assert.equal(
+      minorCheck.reasons[1],
+      "is registered in South, the election is restricted to North"
+    );
+
+    assert.deepEqual(
+      await client.checkCandidateEligibility(0n, alice.account.address),
+      { eligible: true, reasons: [] }
+    );
+    assert.deepEqual(
+      await client.checkCandidateEligibility(0n, bob.account.address),
+      {
+        eligible: false,
+        reasons: ["is male, the seat is reserved for female candidates"],
+      }
+    );
+    const carolCheck = await client.checkCandidateEligibility(
+      0n,
+      carol.account.address
+    );
+    assert.isFalse(carolCheck.eligible);
+    assert.match(
+      carolCheck.reasons[0],
+      /^is 22 on .*, the election requires 25$/
+    );
+
+    await voterDatabase.write.adminRemoveVoter([adult.account.address]);
+    assert.deepEqual(
+      await client.checkVoterEligibility(0n, adult.account.address),
+      { eligible: false, reasons: ["is not a registered voter"] }
+    );
+  });
+});
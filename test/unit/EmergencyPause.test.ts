@@ -0,0 +1,161 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { hardhat } from "viem/chains";
+import { GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import { ROLES } from "../../lib/sdk";
+
+describe("Emergency Pause Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  const voterDetails = [
+    "Voter",
+    getDobEpochFromAge(30),
+    GenderEnum.MALE,
+    "1 First St",
+    "voter@example.com",
+  ] as const;
+
+  async function deployPauseFixture() {
+    const [, voter1, voter2, candidate1, candidate2] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+    await voterDatabase.write.grantRole([
+      ROLES.SYSTEM,
+      electionDatabase.address,
+    ]);
+
+    await voterDatabase.write.addVoter([...voterDetails], {
+      account: voter1.account,
+    });
+    await candidateDatabase.write.addCandidate(
+      [
+        "Candidate",
+        getDobEpochFromAge(40),
+        GenderEnum.FEMALE,
+        "2 Second St",
+        "candidate@example.com",
+        "PhD",
+        "Manifesto",
+      ],
+      { account: candidate1.account }
+    );
+    await electionDatabase.write.adminCreateElection([
+      "Election",
+      "Description",
+    ]);
+    await electionDatabase.write.enrollCandidate([0n], {
+      account: candidate1.account,
+    });
+    await electionDatabase.write.adminOpenElection([0n]);
+
+    return {
+      voterDatabase,
+      candidateDatabase,
+      electionDatabase,
+      voter1,
+      voter2,
+      candidate1,
+      candidate2,
+    };
+  }
+
+  it("blocks user writes while paused and resumes them after", async function () {
+    const {
+      voterDatabase,
+      candidateDatabase,
+      electionDatabase,
+      voter1,
+      voter2,
+      candidate1,
+      candidate2,
+    } = await loadFixture(deployPauseFixture);
+
+    await voterDatabase.write.pause();
+    await candidateDatabase.write.pause();
+    await electionDatabase.write.pause();
+    assert.isTrue(await candidateDatabase.read.isPaused());
+    const [event] = await electionDatabase.getEvents.Paused();
+    assert.isDefined(event);
+
+    await expect(
+      voterDatabase.write.addVoter([...voterDetails], {
+        account: voter2.account,
+      })
+    ).to.be.rejectedWith("AdminManagement__Paused");
+    await expect(
+      candidateDatabase.write.deleteCandidate({ account: candidate1.account })
+    ).to.be.rejectedWith("AdminManagement__Paused");
+    await expect(
+      electionDatabase.write.vote([0n, candidate1.account.address], {
+        account: voter1.account,
+      })
+    ).to.be.rejectedWith("AdminManagement__Paused");
+    await expect(
+      voterDatabase.write.adminImportAllVoters([voterDatabase.address])
+    ).to.be.rejectedWith("AdminManagement__Paused");
+
+    // views keep working
+    assert.equal(await electionDatabase.read.getTotalVoteCount([0n]), 0n);
+
+    await voterDatabase.write.unpause();
+    await candidateDatabase.write.unpause();
+    await electionDatabase.write.unpause();
+    await electionDatabase.write.vote([0n, candidate1.account.address], {
+      account: voter1.account,
+    });
+    assert.isTrue(
+      await electionDatabase.read.hasVoted([0n, voter1.account.address])
+    );
+    await candidateDatabase.write.addCandidate(
+      [
+        "Second Candidate",
+        getDobEpochFromAge(45),
+        GenderEnum.MALE,
+        "3 Third St",
+        "second@example.com",
+        "MSc",
+        "Manifesto",
+      ],
+      { account: candidate2.account }
+    );
+  });
+
+  it("keeps admin functions available while paused", async function () {
+    const { electionDatabase } = await loadFixture(deployPauseFixture);
+
+    await electionDatabase.write.pause();
+    // an election can still be closed to deal with the problem
+    await electionDatabase.write.adminCloseElection([0n]);
+  });
+
+  it("only lets the owner pause, and only once", async function () {
+    const { voterDatabase, voter1 } = await loadFixture(deployPauseFixture);
+
+    await expect(
+      voterDatabase.write.pause({ account: voter1.account })
+    ).to.be.rejectedWith("AdminManagement__NotOwner");
+    await expect(voterDatabase.write.unpause()).to.be.rejectedWith(
+      "AdminManagement__PauseUnchanged"
+    );
+    await voterDatabase.write.pause();
+    await expect(voterDatabase.write.pause()).to.be.rejectedWith(
+      "AdminManagement__PauseUnchanged"
+    );
+  });
+});
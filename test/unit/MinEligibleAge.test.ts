@@ -0,0 +1,162 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { hardhat } from "viem/chains";
+import ChainElectUpgradeableModule from "../../ignition/modules/ChainElectUpgradeable";
+import { GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import { ChainElectClient, loadChainElectAbis } from "../../lib/sdk";
+import { importVoters } from "../../lib/voter-import";
+
+describe("Minimum Eligible Age Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  // a youth council lets 16 year olds vote, but candidates must be 21
+  async function deployYouthCouncilFixture() {
+    const [owner, otherAccount, voter1, voter2] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [16n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [21n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    const addVoter = (voter: typeof voter1, age: number) =>
+      voterDatabase.write.addVoter(
+        [
+          "Voter",
+          getDobEpochFromAge(age),
+          GenderEnum.MALE,
+          "1 First St",
+          "voter@example.com",
+        ],
+        { account: voter.account }
+      );
+
+    return {
+      voterDatabase,
+      candidateDatabase,
+      client,
+      owner,
+      otherAccount,
+      voter1,
+      voter2,
+      addVoter,
+    };
+  }
+
+  it("registers from the minimum age set at deployment", async function () {
+    const { voterDatabase, candidateDatabase, client, voter1, addVoter } =
+      await loadFixture(deployYouthCouncilFixture);
+
+    assert.equal(await voterDatabase.read.getMinEligibleAge(), 16n);
+    assert.equal(await client.getVoterMinEligibleAge(), 16);
+    assert.equal(await client.getCandidateMinEligibleAge(), 21);
+
+    await addVoter(voter1, 16);
+    assert.isTrue(await client.isVoterRegistered(voter1.account.address));
+
+    await expect(
+      candidateDatabase.write.addCandidate(
+        [
+          "Young Candidate",
+          getDobEpochFromAge(20),
+          GenderEnum.FEMALE,
+          "2 Second St",
+          "young@example.com",
+          "None",
+          "Manifesto",
+        ],
+        { account: voter1.account }
+      )
+    ).to.be.rejectedWith("CandidateDatabase__NotEligible");
+  });
+
+  it("lets only the owner change the minimum age, keeping registered voters", async function () {
+    const {
+      voterDatabase,
+      client,
+      owner,
+      otherAccount,
+      voter1,
+      voter2,
+      addVoter,
+    } = await loadFixture(deployYouthCouncilFixture);
+    await addVoter(voter1, 16);
+
+    await expect(
+      voterDatabase.write.setMinEligibleAge([18n], {
+        account: otherAccount.account,
+      })
+    ).to.be.rejectedWith("AdminManagement__NotOwner");
+
+    await client.setVoterMinEligibleAge(18);
+    const [event] = await voterDatabase.getEvents.MinEligibleAgeSet();
+    assert.equal(event.args.minEligibleAge, 18n);
+    assert.equal(event.args.owner, getAddress(owner.account.address));
+
+    await expect(addVoter(voter2, 16)).to.be.rejectedWith(
+      "VoterDatabase__NotEligible"
+    );
+    assert.isTrue(await client.isVoterRegistered(voter1.account.address));
+  });
+
+  it("imports voters with the minimum age of the database by default", async function () {
+    const { client, voter1 } = await loadFixture(deployYouthCouncilFixture);
+    const birthDate = new Date();
+    birthDate.setFullYear(birthDate.getFullYear() - 17);
+
+    const [result] = await importVoters(
+      client,
+      [
+        {
+          name: "Young Voter",
+          wallet: voter1.account.address,
+          birthDate: birthDate.toISOString().slice(0, 10),
+          gender: "male",
+          address: "1 First St",
+          email: "young@example.com",
+        },
+      ],
+      { chunkSize: 1 }
+    );
+
+    assert.equal(result.status, "added");
+  });
+
+  it("deploys the minimum ages given as Ignition parameters", async function () {
+    const { voterDatabase, candidateDatabase } = await hre.ignition.deploy(
+      ChainElectUpgradeableModule,
+      {
+        parameters: {
+          ChainElectUpgradeableModule: { voterMinEligibleAge: 16 },
+        },
+      }
+    );
+
+    assert.equal(await voterDatabase.read.getMinEligibleAge(), 16n);
+    assert.equal(await candidateDatabase.read.getMinEligibleAge(), 18n);
+  });
+});
@@ -0,0 +1,108 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { getAddress, zeroAddress } from "viem";
+import { hardhat } from "viem/chains";
+import { ROLES } from "../../lib/sdk";
+
+describe("Ownership Transfer Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployOwnershipFixture() {
+    const [owner, newOwner, otherAccount] = await hre.viem.getWalletClients();
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+
+    return {
+      voterDatabase,
+      owner: getAddress(owner.account.address),
+      newOwner,
+      otherAccount,
+    };
+  }
+
+  it("hands ownership over only once the new owner accepts", async function () {
+    const { voterDatabase, owner, newOwner, otherAccount } = await loadFixture(
+      deployOwnershipFixture
+    );
+
+    await voterDatabase.write.transferOwnership([newOwner.account.address]);
+    const [started] = await voterDatabase.getEvents.OwnershipTransferStarted();
+    assert.equal(started.args.newOwner, getAddress(newOwner.account.address));
+    // nothing changes until the proposal is accepted
+    assert.equal(await voterDatabase.read.getOwner(), owner);
+    assert.equal(
+      await voterDatabase.read.getPendingOwner(),
+      getAddress(newOwner.account.address)
+    );
+    await expect(
+      voterDatabase.write.acceptOwnership({ account: otherAccount.account })
+    ).to.be.rejectedWith("AdminManagement__NotPendingOwner");
+
+    await voterDatabase.write.acceptOwnership({ account: newOwner.account });
+    const [transferred] = await voterDatabase.getEvents.OwnershipTransferred();
+    assert.equal(transferred.args.previousOwner, owner);
+    assert.equal(
+      await voterDatabase.read.getOwner(),
+      getAddress(newOwner.account.address)
+    );
+    assert.equal(await voterDatabase.read.getPendingOwner(), zeroAddress);
+
+    // the admin rights of the owner move with the ownership
+    assert.isFalse(await voterDatabase.read.isAdmin([owner]));
+    assert.isTrue(await voterDatabase.read.isAdmin([newOwner.account.address]));
+    await expect(
+      voterDatabase.write.addAdmin([otherAccount.account.address])
+    ).to.be.rejectedWith("AdminManagement__NotOwner");
+    await voterDatabase.write.addAdmin([otherAccount.account.address], {
+      account: newOwner.account,
+    });
+  });
+
+  it("lets the owner replace or cancel a proposal", async function () {
+    const { voterDatabase, newOwner, otherAccount } = await loadFixture(
+      deployOwnershipFixture
+    );
+
+    await expect(
+      voterDatabase.write.transferOwnership([otherAccount.account.address], {
+        account: otherAccount.account,
+      })
+    ).to.be.rejectedWith("AdminManagement__NotOwner");
+
+    await voterDatabase.write.transferOwnership([newOwner.account.address]);
+    await voterDatabase.write.transferOwnership([zeroAddress]);
+    await expect(
+      voterDatabase.write.acceptOwnership({ account: newOwner.account })
+    ).to.be.rejectedWith("AdminManagement__NotPendingOwner");
+  });
+
+  it("keeps admins and roles but no owner after renouncing", async function () {
+    const { voterDatabase, owner, otherAccount } = await loadFixture(
+      deployOwnershipFixture
+    );
+    await voterDatabase.write.grantRole([
+      ROLES.AUDITOR,
+      otherAccount.account.address,
+    ]);
+
+    await voterDatabase.write.renounceOwnership();
+
+    assert.equal(await voterDatabase.read.getOwner(), zeroAddress);
+    assert.isFalse(await voterDatabase.read.isAdmin([owner]));
+    assert.isFalse(await voterDatabase.read.isAdmin([zeroAddress]));
+    assert.isTrue(
+      await voterDatabase.read.hasRole([
+        ROLES.AUDITOR,
+        otherAccount.account.address,
+      ])
+    );
+    await expect(
+      voterDatabase.write.grantRole([ROLES.REGISTRAR, owner])
+    ).to.be.rejectedWith("AdminManagement__NotOwner");
+  });
+});
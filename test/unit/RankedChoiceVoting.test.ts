@@ -0,0 +1,440 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import {
+  encodeAbiParameters,
+  getAddress,
+  keccak256,
+  toBytes,
+  zeroAddress,
+  zeroHash,
+} from "viem";
+import { hardhat } from "viem/chains";
+import {
+  ElectionTypeEnum,
+  GenderEnum,
+  TieBreakPolicyEnum,
+  type TieBreakPolicy,
+} from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import {
+  ChainElectClient,
+  computeInstantRunoff,
+  formatRankedChoiceRounds,
+  getRankedChoiceCount,
+  loadChainElectAbis,
+} from "../../lib/sdk";
+
+describe("Ranked Choice Voting Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployRankedChoiceFixture() {
+    const [owner, alice, bob, carol, ...voters] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+    await voterDatabase.write.addAdmin([electionDatabase.address]);
+
+    const publicClient = await hre.viem.getPublicClient();
+
+    for (const voter of voters.slice(0, 5)) {
+      await voterDatabase.write.addVoter(
+        [
+          "Voter",
+          getDobEpochFromAge(30),
+          GenderEnum.MALE,
+          "1 First St",
+          "voter@example.com",
+        ],
+        { account: voter.account }
+      );
+    }
+    for (const [candidate, name] of [
+      [alice, "Alice"],
+      [bob, "Bob"],
+      [carol, "Carol"],
+    ] as const) {
+      await candidateDatabase.write.addCandidate(
+        [
+          name,
+          getDobEpochFromAge(40),
+          GenderEnum.FEMALE,
+          "2 Second St",
+          "candidate@example.com",
+          "PhD",
+          "Manifesto",
+        ],
+        { account: candidate.account }
+      );
+    }
+
+    // election 0 is ranked choice, election 1 is a plain plurality election
+    await electionDatabase.write.adminCreateElection([
+      "Board Election",
+      "Ranked choice board election",
+      ElectionTypeEnum.RANKED_CHOICE,
+    ]);
+    await electionDatabase.write.adminCreateElection([
+      "Plurality Election",
+      "First past the post",
+    ]);
+    for (const electionId of [0n, 1n]) {
+      for (const candidate of [alice, bob, carol]) {
+        await electionDatabase.write.enrollCandidate([electionId], {
+          account: candidate.account,
+        });
+      }
+      await electionDatabase.write.adminOpenElection([electionId]);
+    }
+
+    const client = new ChainElectClient({
+      publicClient,
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    const [A, B, C] = [alice, bob, carol].map(({ account }) =>
+      getAddress(account.address)
+    );
+
+    return {
+      electionDatabase,
+      publicClient,
+      client,
+      voters,
+      candidates: { A, B, C },
+    };
+  }
+
+  /**
+   * Casts the ballots of the first five voters in election 0:
+   * round 1 is A 2, B 1, C 2, so B is eliminated and the B ballot moves to C
+   */
+  async function castBallots() {
+    const fixture = await loadFixture(deployRankedChoiceFixture);
+    const { electionDatabase, voters, candidates } = fixture;
+    const { A, B, C } = candidates;
+
+    const ballots = [[A, B], [A, C], [B, C], [C, B], [C]];
+    for (const [i, ballot] of ballots.entries()) {
+      await electionDatabase.write.voteRanked([0n, ballot], {
+        account: voters[i].account,
+      });
+    }
+    return { ...fixture, ballots };
+  }
+
+  describe("election type", function () {
+    it("defaults to plurality and is set at creation", async function () {
+      const { electionDatabase } = await loadFixture(deployRankedChoiceFixture);
+
+      assert.equal(
+        await electionDatabase.read.getElectionType([0n]),
+        ElectionTypeEnum.RANKED_CHOICE
+      );
+      assert.equal(
+        await electionDatabase.read.getElectionType([1n]),
+        ElectionTypeEnum.PLURALITY
+      );
+    });
+
+    it("rejects ballots of the other election type", async function () {
+      const { electionDatabase, voters, candidates } = await loadFixture(
+        deployRankedChoiceFixture
+      );
+
+      await expect(
+        electionDatabase.write.vote([0n, candidates.A], {
+          account: voters[0].account,
+        })
+      ).to.be.rejectedWith("ElectionDatabase__WrongElectionType");
+      await expect(
+        electionDatabase.write.voteRanked([1n, [candidates.A]], {
+          account: voters[0].account,
+        })
+      ).to.be.rejectedWith("ElectionDatabase__WrongElectionType");
+    });
+  });
+
+  describe("voteRanked", function () {
+    it("rejects empty, repeated and unknown rankings", async function () {
+      const { electionDatabase, voters, candidates } = await loadFixture(
+        deployRankedChoiceFixture
+      );
+      const { A, B } = candidates;
+
+      for (const ballot of [[], [A, B, A], [A, voters[4].account.address]]) {
+        await expect(
+          electionDatabase.write.voteRanked([0n, ballot], {
+            account: voters[0].account,
+          })
+        ).to.be.rejectedWith("ElectionDatabase__InvalidBallot");
+      }
+    });
+
+    it("stores the ballot and counts the first choice", async function () {
+      const { electionDatabase, voters, candidates } = await loadFixture(
+        deployRankedChoiceFixture
+      );
+      const { A, B, C } = candidates;
+
+      await electionDatabase.write.voteRanked([0n, [B, C, A]], {
+        account: voters[0].account,
+      });
+
+      const [event] = await electionDatabase.getEvents.VoterRankedVoted();
+      assert.deepEqual(event.args.rankings, [B, C, A]);
+      assert.deepEqual(await electionDatabase.read.getRankedBallots([0n]), [
+        [B, C, A],
+      ]);
+      assert.equal(
+        await electionDatabase.read.getVotesOfCandidate([0n, B]),
+        1n
+      );
+      assert.equal(await electionDatabase.read.getTotalVoteCount([0n]), 1n);
+      await expect(
+        electionDatabase.write.voteRanked([0n, [A]], {
+          account: voters[0].account,
+        })
+      ).to.be.rejectedWith("ElectionDatabase__VoterAlreadyVoted");
+    });
+  });
+
+  describe("adminFinalizeRankedElection", function () {
+    it("only counts closed elections, once", async function () {
+      const { electionDatabase } = await castBallots();
+
+      await expect(
+        electionDatabase.write.adminFinalizeRankedElection([0n])
+      ).to.be.rejectedWith("ElectionDatabase__ElectionActive");
+
+      await electionDatabase.write.adminCloseElection([0n]);
+      await electionDatabase.write.adminFinalizeRankedElection([0n]);
+      await expect(
+        electionDatabase.write.adminFinalizeRankedElection([0n])
+      ).to.be.rejectedWith("ElectionDatabase__ElectionAlreadyFinalized");
+    });
+
+    it("eliminates the weakest candidate until one has a majority", async function () {
+      const { electionDatabase, candidates } = await castBallots();
+      const { B, C } = candidates;
+
+      assert.equal(await electionDatabase.read.getWinner([0n]), zeroAddress);
+      await electionDatabase.write.adminCloseElection([0n]);
+      await electionDatabase.write.adminFinalizeRankedElection([0n]);
+
+      const rounds = await electionDatabase.getEvents.RankedChoiceRound();
+      assert.equal(rounds.length, 1);
+      assert.equal(rounds[0].args.eliminated, B);
+      assert.equal(rounds[0].args.votes, 1n);
+
+      const [finalized] =
+        await electionDatabase.getEvents.RankedChoiceFinalized();
+      assert.equal(finalized.args.winner, C);
+      assert.equal(finalized.args.rounds, 2n);
+      assert.equal(await electionDatabase.read.getWinner([0n]), C);
+      assert.isTrue(await electionDatabase.read.isElectionFinalized([0n]));
+    });
+
+    it("refuses to count an election without votes or candidates", async function () {
+      const { electionDatabase } = await loadFixture(deployRankedChoiceFixture);
+
+      await electionDatabase.write.adminCloseElection([0n]);
+      await expect(
+        electionDatabase.write.adminFinalizeRankedElection([0n])
+      ).to.be.rejectedWith("ElectionDatabase__NoVotes");
+      assert.isFalse(await electionDatabase.read.isElectionFinalized([0n]));
+
+      await electionDatabase.write.adminCreateElection([
+        "Empty Election",
+        "Nobody enrolled",
+        ElectionTypeEnum.RANKED_CHOICE,
+      ]);
+      await expect(
+        electionDatabase.write.adminFinalizeRankedElection([2n])
+      ).to.be.rejectedWith("ElectionDatabase__ElectionHasNoContestant");
+    });
+
+    it("breaks ties for elimination with the tie-break policy", async function () {
+      const { electionDatabase, client, voters, candidates } =
+        await loadFixture(deployRankedChoiceFixture);
+      const { A, B, C } = candidates;
+      // B and C tie at 1 vote with 1 first choice each
+      const ballots = [[A], [A], [B, C], [C, B]];
+      const seed = keccak256(toBytes("ranked tie"));
+
+      const count = async (policy: TieBreakPolicy) => {
+        const electionId = await electionDatabase.read.getElectionCount();
+        await electionDatabase.write.adminCreateElection([
+          "Tied Election",
+          "B and C tie for elimination",
+          ElectionTypeEnum.RANKED_CHOICE,
+        ]);
+        await electionDatabase.write.adminSetTieBreakPolicy([
+          electionId,
+          policy,
+          seed,
+        ]);
+        for (const candidate of [A, B, C]) {
+          await electionDatabase.write.adminEnrollCandidate([
+            electionId,
+            candidate,
+          ]);
+        }
+        await electionDatabase.write.adminOpenElection([electionId]);
+        for (const [i, ballot] of ballots.entries()) {
+          await electionDatabase.write.voteRanked([electionId, ballot], {
+            account: voters[i].account,
+          });
+        }
+        await electionDatabase.write.adminCloseElection([electionId]);
+        await electionDatabase.write.adminFinalizeRankedElection([electionId]);
+
+        const [first] = await electionDatabase.getEvents.RankedChoiceRound(
+          { electionId },
+          { fromBlock: 0n }
+        );
+        const recount = await getRankedChoiceCount(client, electionId);
+        assert.equal(recount.rounds[0].eliminated, first.args.eliminated);
+        return first.args.eliminated;
+      };
+
+      // the candidate that enrolled last is eliminated, the seeded draw eliminates the higher hash
+      assert.equal(await count(TieBreakPolicyEnum.EARLIEST_ENROLLMENT), C);
+      const [hashB, hashC] = [B, C].map((candidate) =>
+        BigInt(
+          keccak256(
+            encodeAbiParameters(
+              [{ type: "bytes32" }, { type: "address" }],
+              [seed, candidate]
+            )
+          )
+        )
+      );
+      assert.equal(
+        await count(TieBreakPolicyEnum.SEEDED_RANDOM),
+        hashB > hashC ? B : C
+      );
+    });
+
+    it("eliminates the candidate that enrolled last after a withdrawal", async function () {
+      const { electionDatabase, client, voters, candidates } =
+        await loadFixture(deployRankedChoiceFixture);
+      const { A, B, C } = candidates;
+
+      const electionId = await electionDatabase.read.getElectionCount();
+      await electionDatabase.write.adminCreateElection([
+        "Withdrawn Election",
+        "A withdraws, B and C tie for elimination",
+        ElectionTypeEnum.RANKED_CHOICE,
+      ]);
+      for (const candidate of [A, B, C]) {
+        await electionDatabase.write.adminEnrollCandidate([
+          electionId,
+          candidate,
+        ]);
+      }
+      // swap and pop lists C before B from now on
+      await electionDatabase.write.adminWithdrawCandidate([electionId, A]);
+      assert.deepEqual(
+        await electionDatabase.read.getRegisteredCandidates([electionId]),
+        [C, B]
+      );
+
+      await electionDatabase.write.adminOpenElection([electionId]);
+      for (const [i, ballot] of [[B], [C]].entries()) {
+        await electionDatabase.write.voteRanked([electionId, ballot], {
+          account: voters[i].account,
+        });
+      }
+      await electionDatabase.write.adminCloseElection([electionId]);
+      await electionDatabase.write.adminFinalizeRankedElection([electionId]);
+
+      const [first] = await electionDatabase.getEvents.RankedChoiceRound(
+        { electionId },
+        { fromBlock: 0n }
+      );
+      assert.equal(first.args.eliminated, C);
+      const recount = await getRankedChoiceCount(client, electionId);
+      assert.equal(recount.rounds[0].eliminated, C);
+      assert.equal(recount.winner, B);
+    });
+
+    it("does not wait for an admin to decide a tie", async function () {
+      const { electionDatabase } = await loadFixture(deployRankedChoiceFixture);
+
+      await expect(
+        electionDatabase.write.adminSetTieBreakPolicy([
+          0n,
+          TieBreakPolicyEnum.ADMIN_DECISION,
+          zeroHash,
+        ])
+      ).to.be.rejectedWith("ElectionDatabase__WrongTieBreakPolicy");
+    });
+  });
+
+  describe("instant-runoff recount", function () {
+    it("reconstructs the rounds counted on-chain", async function () {
+      const { electionDatabase, client, candidates } = await castBallots();
+      const { A, B, C } = candidates;
+
+      await electionDatabase.write.adminCloseElection([0n]);
+      await electionDatabase.write.adminFinalizeRankedElection([0n]);
+      const count = await getRankedChoiceCount(client, 0n);
+
+      assert.equal(count.winner, C);
+      assert.equal(count.finalizedWinner, C);
+      assert.deepEqual(
+        count.rounds.map(({ eliminated }) => eliminated),
+        [B, undefined]
+      );
+      assert.deepEqual(count.rounds[1].tallies, [
+        { candidate: A, votes: 2n },
+        { candidate: C, votes: 3n },
+      ]);
+
+      const text = formatRankedChoiceRounds(count, new Map([[C, "Carol"]]));
+      assert.include(text, "Round 2");
+      assert.include(text, "Winner: Carol");
+    });
+
+    it("eliminates the candidate with fewer first choices on a tie", function () {
+      const [A, B, C] = [1, 2, 3].map((i) =>
+        getAddress(`0x${i.toString().padStart(40, "0")}`)
+      );
+      // B and C tie at 1 vote, C had more first choices before a withdrawal
+      const count = computeInstantRunoff(
+        [A, B, C],
+        [[A], [A], [B], [C]],
+        new Map([
+          [A, 2n],
+          [B, 1n],
+          [C, 2n],
+        ])
+      );
+
+      assert.equal(count.rounds[0].eliminated, B);
+      assert.equal(count.rounds[1].exhausted, 1n);
+      assert.equal(count.winner, A);
+      assert.equal(count.rounds.length, 2);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { getAddress, zeroHash } from "viem";
+import { hardhat } from "viem/chains";
+import { GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import { ROLES } from "../../lib/sdk";
+
+describe("Role Access Control Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployRolesFixture() {
+    const [, registrar, manager, auditor, voter1, candidate1] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+    await voterDatabase.write.grantRole([
+      ROLES.SYSTEM,
+      electionDatabase.address,
+    ]);
+    await voterDatabase.write.grantRole([
+      ROLES.REGISTRAR,
+      registrar.account.address,
+    ]);
+    await candidateDatabase.write.grantRole([
+      ROLES.REGISTRAR,
+      registrar.account.address,
+    ]);
+    await voterDatabase.write.grantRole([
+      ROLES.AUDITOR,
+      auditor.account.address,
+    ]);
+    await electionDatabase.write.grantRole([
+      ROLES.ELECTION_MANAGER,
+      manager.account.address,
+    ]);
+
+    await voterDatabase.write.addVoter(
+      [
+        "Voter One",
+        getDobEpochFromAge(30),
+        GenderEnum.MALE,
+        "1 First St",
+        "voter1@example.com",
+      ],
+      { account: voter1.account }
+    );
+    await candidateDatabase.write.addCandidate(
+      [
+        "Candidate",
+        getDobEpochFromAge(40),
+        GenderEnum.FEMALE,
+        "2 Second St",
+        "candidate@example.com",
+        "PhD",
+        "Manifesto",
+      ],
+      { account: candidate1.account }
+    );
+
+    return {
+      voterDatabase,
+      candidateDatabase,
+      electionDatabase,
+      registrar,
+      manager,
+      auditor,
+      voter1,
+      candidate1,
+    };
+  }
+
+  it("matches the role identifiers of the SDK", async function () {
+    const { voterDatabase } = await loadFixture(deployRolesFixture);
+
+    assert.deepEqual(await voterDatabase.read.getRoles(), [
+      ROLES.REGISTRAR,
+      ROLES.ELECTION_MANAGER,
+      ROLES.AUDITOR,
+      ROLES.SYSTEM,
+    ]);
+    assert.equal(await voterDatabase.read.SYSTEM_ROLE(), ROLES.SYSTEM);
+  });
+
+  it("lets each role call only its own admin functions", async function () {
+    const {
+      voterDatabase,
+      electionDatabase,
+      registrar,
+      manager,
+      auditor,
+      voter1,
+    } = await loadFixture(deployRolesFixture);
+    const voter = voter1.account.address;
+
+    await voterDatabase.write.adminUpdateVoter(
+      [
+        voter,
+        "Voter Renamed",
+        getDobEpochFromAge(30),
+        GenderEnum.MALE,
+        "1 First St",
+        "voter1@example.com",
+        0n,
+      ],
+      { account: registrar.account }
+    );
+    const [name] = await voterDatabase.read.adminGetVoterDetails([voter], {
+      account: auditor.account,
+    });
+    assert.equal(name, "Voter Renamed");
+    // registrars skip registered voters when importing
+    assert.isTrue(
+      await voterDatabase.read.adminGetRegistrationStatus([voter], {
+        account: registrar.account,
+      })
+    );
+
+    // auditors read but cannot write, managers run elections but see no PII
+    await expect(
+      voterDatabase.write.adminRemoveVoter([voter], {
+        account: auditor.account,
+      })
+    ).to.be.rejectedWith("AdminManagement__MissingRole");
+    await expect(
+      voterDatabase.read.adminGetVoterDetails([voter], {
+        account: manager.account,
+      })
+    ).to.be.rejectedWith("AdminManagement__MissingRole");
+    await expect(
+      electionDatabase.write.adminCreateElection(["Election", "Description"], {
+        account: registrar.account,
+      })
+    ).to.be.rejectedWith("AdminManagement__MissingRole");
+
+    await electionDatabase.write.adminCreateElection(
+      ["Election", "Description"],
+      { account: manager.account }
+    );
+    assert.equal(await electionDatabase.read.getElectionCount(), 1n);
+  });
+
+  it("lets ElectionDatabase mark voters through the SYSTEM role only", async function () {
+    const { voterDatabase, electionDatabase, manager, voter1, candidate1 } =
+      await loadFixture(deployRolesFixture);
+
+    await electionDatabase.write.adminCreateElection(
+      ["Election", "Description"],
+      { account: manager.account }
+    );
+    await electionDatabase.write.enrollCandidate([0n], {
+      account: candidate1.account,
+    });
+    await electionDatabase.write.adminOpenElection([0n], {
+      account: manager.account,
+    });
+    await electionDatabase.write.vote([0n, candidate1.account.address], {
+      account: voter1.account,
+    });
+
+    assert.isTrue(
+      await electionDatabase.read.hasVoted([0n, voter1.account.address])
+    );
+    assert.isFalse(
+      await voterDatabase.read.isAdmin([electionDatabase.address])
+    );
+    await expect(
+      voterDatabase.write.adminMarkVoted([voter1.account.address], {
+        account: manager.account,
+      })
+    ).to.be.rejectedWith("AdminManagement__MissingRole");
+  });
+
+  it("enumerates, grants and revokes roles", async function () {
+    const { voterDatabase, registrar, auditor } =
+      await loadFixture(deployRolesFixture);
+
+    assert.deepEqual(
+      (await voterDatabase.read.getRoleMembers([ROLES.REGISTRAR])).map(
+        getAddress
+      ),
+      [getAddress(registrar.account.address)]
+    );
+    await expect(
+      voterDatabase.write.grantRole([
+        ROLES.REGISTRAR,
+        registrar.account.address,
+      ])
+    ).to.be.rejectedWith("AdminManagement__AlreadyHasRole");
+    await expect(
+      voterDatabase.write.grantRole([zeroHash, registrar.account.address])
+    ).to.be.rejectedWith("AdminManagement__UnknownRole");
+    await expect(
+      voterDatabase.write.grantRole(
+        [ROLES.AUDITOR, registrar.account.address],
+        {
+          account: auditor.account,
+        }
+      )
+    ).to.be.rejectedWith("AdminManagement__NotOwner");
+
+    await voterDatabase.write.revokeRole([
+      ROLES.REGISTRAR,
+      registrar.account.address,
+    ]);
+    const [event] = await voterDatabase.getEvents.RoleRevoked();
+    assert.equal(event.args.role, ROLES.REGISTRAR);
+    assert.equal(
+      await voterDatabase.read.getRoleMemberCount([ROLES.REGISTRAR]),
+      0n
+    );
+    assert.isFalse(
+      await voterDatabase.read.hasRole([
+        ROLES.REGISTRAR,
+        registrar.account.address,
+      ])
+    );
+    await expect(
+      voterDatabase.write.revokeRole([
+        ROLES.REGISTRAR,
+        registrar.account.address,
+      ])
+    ).to.be.rejectedWith("AdminManagement__RoleNotFound");
+  });
+
+  it("keeps giving the owner and admins every role", async function () {
+    const { voterDatabase, electionDatabase, voter1 } =
+      await loadFixture(deployRolesFixture);
+    const [owner] = await hre.viem.getWalletClients();
+
+    await voterDatabase.write.addAdmin([voter1.account.address]);
+    for (const role of Object.values(ROLES)) {
+      assert.isTrue(
+        await voterDatabase.read.hasRole([role, owner.account.address])
+      );
+      assert.isTrue(
+        await voterDatabase.read.hasRole([role, voter1.account.address])
+      );
+    }
+    // the owner is not listed as a member, it cannot lose its roles
+    assert.deepEqual(
+      await electionDatabase.read.getRoleMembers([ROLES.REGISTRAR]),
+      []
+    );
+
+    // an admin keeps a revoked role until it is removed as an admin
+    const admin = voter1.account.address;
+    await voterDatabase.write.grantRole([ROLES.SYSTEM, admin]);
+    await voterDatabase.write.revokeRole([ROLES.SYSTEM, admin]);
+    assert.isTrue(await voterDatabase.read.hasRole([ROLES.SYSTEM, admin]));
+    await voterDatabase.write.removeAdmin([admin]);
+    assert.isFalse(await voterDatabase.read.hasRole([ROLES.SYSTEM, admin]));
+  });
+});
@@ -0,0 +1,347 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { getAddress, zeroHash } from "viem";
+import { hardhat } from "viem/chains";
+import { ElectionTypeEnum, GenderEnum, TieBreakPolicyEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import { BallotSecretStore } from "../../lib/ballot-secrets";
+import {
+  ChainElectClient,
+  computeCommitment,
+  generateSalt,
+  getElectionResults,
+  loadChainElectAbis,
+  renderResults,
+} from "../../lib/sdk";
+
+describe("Secret Ballot Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deploySecretBallotFixture() {
+    const [owner, alice, bob, ...voters] = await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+    await voterDatabase.write.addAdmin([owner.account.address]);
+    await voterDatabase.write.addAdmin([electionDatabase.address]);
+
+    for (const voter of voters.slice(0, 3)) {
+      await voterDatabase.write.addVoter(
+        [
+          "Voter",
+          getDobEpochFromAge(30),
+          GenderEnum.MALE,
+          "1 First St",
+          "voter@example.com",
+        ],
+        { account: voter.account }
+      );
+    }
+    for (const [candidate, name] of [
+      [alice, "Alice"],
+      [bob, "Bob"],
+    ] as const) {
+      await candidateDatabase.write.addCandidate(
+        [
+          name,
+          getDobEpochFromAge(40),
+          GenderEnum.FEMALE,
+          "2 Second St",
+          "candidate@example.com",
+          "PhD",
+          "Manifesto",
+        ],
+        { account: candidate.account }
+      );
+    }
+
+    await electionDatabase.write.adminCreateElection([
+      "Secret Election",
+      "Ballots stay hidden until closing",
+      ElectionTypeEnum.SECRET_BALLOT,
+    ]);
+    for (const candidate of [alice, bob]) {
+      await electionDatabase.write.enrollCandidate([0n], {
+        account: candidate.account,
+      });
+    }
+    await electionDatabase.write.adminOpenElection([0n]);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    const [A, B] = [alice, bob].map(({ account }) =>
+      getAddress(account.address)
+    );
+
+    /** Commits a ballot for the candidate, returning the salt to reveal it */
+    const commit = async (
+      voter: (typeof voters)[number],
+      candidate: string
+    ) => {
+      const salt = generateSalt();
+      await electionDatabase.write.commitVote(
+        [
+          0n,
+          computeCommitment(
+            0n,
+            voter.account.address,
+            getAddress(candidate),
+            salt
+          ),
+        ],
+        { account: voter.account }
+      );
+      return salt;
+    };
+
+    return {
+      electionDatabase,
+      client,
+      voters,
+      candidates: { A, B },
+      commit,
+    };
+  }
+
+  it("hides the choice until the ballot is revealed after closing", async function () {
+    const { electionDatabase, voters, candidates, commit } = await loadFixture(
+      deploySecretBallotFixture
+    );
+    const { A } = candidates;
+
+    const salt = await commit(voters[0], A);
+    const [committed] = await electionDatabase.getEvents.VoteCommitted();
+    assert.equal(committed.args.voter, getAddress(voters[0].account.address));
+    assert.isTrue(
+      await electionDatabase.read.hasVoted([0n, voters[0].account.address])
+    );
+    assert.equal(await electionDatabase.read.getVotesOfCandidate([0n, A]), 0n);
+
+    await expect(
+      electionDatabase.write.revealVote([0n, A, salt], {
+        account: voters[0].account,
+      })
+    ).to.be.rejectedWith("ElectionDatabase__ElectionActive");
+
+    await electionDatabase.write.adminCloseElection([0n]);
+    await electionDatabase.write.revealVote([0n, A, salt], {
+      account: voters[0].account,
+    });
+    const [revealed] = await electionDatabase.getEvents.VoteRevealed();
+    assert.equal(revealed.args.candidate, A);
+    assert.equal(await electionDatabase.read.getVotesOfCandidate([0n, A]), 1n);
+    assert.equal(await electionDatabase.read.getTotalVoteCount([0n]), 1n);
+  });
+
+  it("computes the same commitment as the contract", async function () {
+    const { electionDatabase, voters, candidates } = await loadFixture(
+      deploySecretBallotFixture
+    );
+    const salt = generateSalt();
+
+    assert.equal(
+      await electionDatabase.read.getCommitment([
+        0n,
+        voters[0].account.address,
+        candidates.B,
+        salt,
+      ]),
+      computeCommitment(0n, voters[0].account.address, candidates.B, salt)
+    );
+  });
+
+  it("only accepts one commit per voter and no plain votes", async function () {
+    const { electionDatabase, voters, candidates, commit } = await loadFixture(
+      deploySecretBallotFixture
+    );
+
+    await commit(voters[0], candidates.A);
+    await expect(commit(voters[0], candidates.B)).to.be.rejectedWith(
+      "ElectionDatabase__VoterAlreadyVoted"
+    );
+    await expect(
+      electionDatabase.write.vote([0n, candidates.A], {
+        account: voters[1].account,
+      })
+    ).to.be.rejectedWith("ElectionDatabase__WrongElectionType");
+  });
+
+  it("rejects reveals that do not match the commitment", async function () {
+    const { electionDatabase, voters, candidates, commit } = await loadFixture(
+      deploySecretBallotFixture
+    );
+    const { A, B } = candidates;
+
+    const salt = await commit(voters[0], A);
+    await electionDatabase.write.adminCloseElection([0n]);
+
+    await expect(
+      electionDatabase.write.revealVote([0n, B, salt], {
+        account: voters[0].account,
+      })
+    ).to.be.rejectedWith("ElectionDatabase__CommitmentMismatch");
+    // the commitment is bound to the voter who made it
+    await expect(
+      electionDatabase.write.revealVote([0n, A, salt], {
+        account: voters[1].account,
+      })
+    ).to.be.rejectedWith("ElectionDatabase__NothingToReveal");
+
+    await electionDatabase.write.revealVote([0n, A, salt], {
+      account: voters[0].account,
+    });
+    await expect(
+      electionDatabase.write.revealVote([0n, A, salt], {
+        account: voters[0].account,
+      })
+    ).to.be.rejectedWith("ElectionDatabase__NothingToReveal");
+  });
+
+  it("reports unrevealed commits separately from the counted votes", async function () {
+    const { electionDatabase, client, voters, candidates, commit } =
+      await loadFixture(deploySecretBallotFixture);
+    const { A, B } = candidates;
+
+    const salt = await commit(voters[0], A);
+    await commit(voters[1], B);
+    await electionDatabase.write.adminCloseElection([0n]);
+    // anyone holding the salt can reveal for the voter
+    await client.revealVote(0n, A, salt, voters[0].account.address);
+
+    const stats = await client.getCommitStats(0n);
+    assert.equal(stats.commits, 2n);
+    assert.equal(stats.reveals, 1n);
+    assert.deepEqual(stats.unrevealed, [getAddress(voters[1].account.address)]);
+
+    const results = await getElectionResults(client, 0n);
+    assert.equal(results.totalVotes, 1n);
+    assert.equal(results.unrevealedCommits, 1n);
+    assert.equal(results.winner, A);
+    assert.include(
+      renderResults(results, "markdown"),
+      "- Unrevealed commits: 1 (not counted)"
+    );
+  });
+
+  it("keeps the candidates and tie-break policy while ballots are committed", async function () {
+    const { electionDatabase, voters, candidates, commit } = await loadFixture(
+      deploySecretBallotFixture
+    );
+    const { A, B } = candidates;
+
+    const salt = await commit(voters[0], A);
+    await expect(
+      electionDatabase.write.adminSetTieBreakPolicy([
+        0n,
+        TieBreakPolicyEnum.ADMIN_DECISION,
+        zeroHash,
+      ])
+    ).to.be.rejectedWith("ElectionDatabase__TieBreakPolicyLocked");
+
+    // withdrawing A would leave the committed ballot impossible to reveal
+    await electionDatabase.write.adminCloseElection([0n]);
+    await expect(
+      electionDatabase.write.adminWithdrawCandidate([0n, A])
+    ).to.be.rejectedWith("ElectionDatabase__UnrevealedVotes");
+
+    await electionDatabase.write.revealVote([0n, A, salt], {
+      account: voters[0].account,
+    });
+    await electionDatabase.write.adminWithdrawCandidate([0n, B]);
+    assert.deepEqual(
+      await electionDatabase.read.getRegisteredCandidates([0n]),
+      [A]
+    );
+  });
+
+  it("stores salts privately and reveals them on behalf of the voter", async function () {
+    const { electionDatabase, client, voters, candidates } = await loadFixture(
+      deploySecretBallotFixture
+    );
+    const chainId = await client.publicClient.getChainId();
+    const storePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "ballots-")),
+      "secrets",
+      "ballots.json"
+    );
+    const voter = voters[2].account.address;
+
+    const store = BallotSecretStore.open(storePath);
+    const secret = store.create(
+      chainId,
+      electionDatabase.address,
+      0n,
+      voter,
+      candidates.B,
+      await client.hasVoted(0n, voter)
+    );
+    assert.equal(fs.statSync(storePath).mode & 0o777, 0o600);
+    await electionDatabase.write.commitVote([0n, secret.commitment], {
+      account: voters[2].account,
+    });
+
+    // a second commit would replace the salt of the committed ballot
+    const committed = await client.hasVoted(0n, voter);
+    assert.throws(
+      () =>
+        store.create(
+          chainId,
+          electionDatabase.address,
+          0n,
+          voter,
+          candidates.A,
+          committed
+        ),
+      /already committed a ballot in election 0/
+    );
+    await electionDatabase.write.adminCloseElection([0n]);
+
+    // the salt survives reopening the store
+    const [stored] = BallotSecretStore.open(storePath).list(
+      chainId,
+      electionDatabase.address,
+      0n,
+      true
+    );
+    await client.revealVote(0n, stored.candidate, stored.salt, stored.voter);
+    store.markRevealed(secret);
+
+    assert.equal(
+      await electionDatabase.read.getVotesOfCandidate([0n, candidates.B]),
+      1n
+    );
+    assert.isEmpty(
+      BallotSecretStore.open(storePath).list(
+        chainId,
+        electionDatabase.address,
+        0n,
+        true
+      )
+    );
+  });
+});
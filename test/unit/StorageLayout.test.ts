@@ -0,0 +1,126 @@
+import { assert } from "chai";
+import {
+  compareStorageLayouts,
+  isUpgradeSafe,
+  StorageLayout,
+  StorageType,
+  StorageVariable,
+} from "../../lib/storage-layout";
+
+describe("Storage Layout Unit Tests", function () {
+  const uint256: StorageType = {
+    encoding: "inplace",
+    label: "uint256",
+    numberOfBytes: "32",
+  };
+  const member = (label: string, slot: number): StorageVariable => ({
+    contract: "contracts/Test.sol:Test",
+    label,
+    offset: 0,
+    slot: String(slot),
+    type: "t_uint256",
+  });
+
+  /**
+   * Layout of a contract storing a struct with the given members both in a
+   * mapping and in an array
+   */
+  function layoutWithStruct(members: string[]): StorageLayout {
+    const struct: StorageType = {
+      encoding: "inplace",
+      label: "struct Test.Record",
+      numberOfBytes: String(32 * members.length),
+      members: members.map(member),
+    };
+    return {
+      storage: [
+        { ...member("s_records", 0), type: "t_mapping" },
+        { ...member("s_history", 1), type: "t_array" },
+        member("s_counter", 2),
+      ],
+      types: {
+        t_uint256: uint256,
+        t_struct: struct,
+        t_address: {
+          encoding: "inplace",
+          label: "address",
+          numberOfBytes: "20",
+        },
+        t_mapping: {
+          encoding: "mapping",
+          label: "mapping(address => struct Test.Record)",
+          numberOfBytes: "32",
+          key: "t_address",
+          value: "t_struct",
+        },
+        t_array: {
+          encoding: "dynamic_array",
+          label: "struct Test.Record[]",
+          numberOfBytes: "32",
+          base: "t_struct",
+        },
+      },
+    };
+  }
+
+  it("reports nothing for identical layouts", function () {
+    const layout = layoutWithStruct(["name", "email"]);
+    assert.deepEqual(compareStorageLayouts(layout, layout), []);
+  });
+
+  it("lets structs in a mapping grow but not structs in an array", function () {
+    const changes = compareStorageLayouts(
+      layoutWithStruct(["name", "email"]),
+      layoutWithStruct(["name", "email", "region"])
+    );
+
+    assert.deepEqual(
+      changes.map(({ kind, label, safe }) => ({ kind, label, safe })),
+      [
+        { kind: "appended", label: "s_records[].region", safe: true },
+        { kind: "appended", label: "s_history[].region", safe: false },
+      ]
+    );
+    assert.isFalse(isUpgradeSafe(changes));
+  });
+
+  it("reports reordered struct members as shifted", function () {
+    const changes = compareStorageLayouts(
+      layoutWithStruct(["name", "email"]),
+      layoutWithStruct(["email", "name"])
+    );
+
+    assert.deepEqual(
+      changes
+        .filter(({ label }) => label.startsWith("s_records"))
+        .map(({ kind, label }) => ({ kind, label })),
+      [
+        { kind: "shifted", label: "s_records[].name" },
+        { kind: "shifted", label: "s_records[].email" },
+      ]
+    );
+    assert.isFalse(isUpgradeSafe(changes));
+  });
+
+  it("reports removed, retyped and renamed variables", function () {
+    const previous = layoutWithStruct(["name", "email"]);
+    const next = layoutWithStruct(["name"]);
+    next.storage = [
+      previous.storage[0],
+      { ...previous.storage[1], label: "s_archive" },
+      { ...previous.storage[2], type: "t_address" },
+    ];
+
+    const changes = compareStorageLayouts(previous, next);
+
+    assert.deepEqual(
+      changes.map(({ kind, label, safe }) => ({ kind, label, safe })),
+      [
+        { kind: "removed", label: "s_records[].email", safe: false },
+        { kind: "renamed", label: "s_history", safe: true },
+        { kind: "removed", label: "s_history[].email", safe: false },
+        { kind: "retyped", label: "s_counter", safe: false },
+      ]
+    );
+  });
+});
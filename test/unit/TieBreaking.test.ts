@@ -0,0 +1,292 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import {
+  encodeAbiParameters,
+  getAddress,
+  keccak256,
+  toBytes,
+  zeroAddress,
+} from "viem";
+import { hardhat } from "viem/chains";
+import { GenderEnum, ResultStatusEnum, TieBreakPolicyEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import {
+  ChainElectClient,
+  getElectionResults,
+  loadChainElectAbis,
+  renderResults,
+} from "../../lib/sdk";
+
+describe("Tie Breaking Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployTieBreakingFixture() {
+    const [owner, alice, bob, carol, voter1, voter2, voter3] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+    await voterDatabase.write.addAdmin([owner.account.address]);
+    await voterDatabase.write.addAdmin([electionDatabase.address]);
+
+    for (const voter of [voter1, voter2, voter3]) {
+      await voterDatabase.write.addVoter(
+        [
+          "Voter",
+          getDobEpochFromAge(30),
+          GenderEnum.MALE,
+          "1 First St",
+          "voter@example.com",
+        ],
+        { account: voter.account }
+      );
+    }
+    for (const [candidate, name] of [
+      [alice, "Alice"],
+      [bob, "Bob"],
+      [carol, "Carol"],
+    ] as const) {
+      await candidateDatabase.write.addCandidate(
+        [
+          name,
+          getDobEpochFromAge(40),
+          GenderEnum.FEMALE,
+          "2 Second St",
+          "candidate@example.com",
+          "PhD",
+          "Manifesto",
+        ],
+        { account: candidate.account }
+      );
+    }
+
+    const [A, B, C] = [alice, bob, carol].map(({ account }) =>
+      getAddress(account.address)
+    );
+
+    // withdrawing and re-enrolling Alice moves Carol to the front of
+    // candidates[], which is now [C, B, A] while enrollment order is B, C, A
+    await electionDatabase.write.adminCreateElection([
+      "Board Election",
+      "Annual board election",
+    ]);
+    for (const candidate of [A, B, C]) {
+      await electionDatabase.write.adminEnrollCandidate([0n, candidate]);
+    }
+    await electionDatabase.write.adminWithdrawCandidate([0n, A]);
+    await electionDatabase.write.adminEnrollCandidate([0n, A]);
+
+    const client = new ChainElectClient({
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: owner,
+      addresses: {
+        voterDatabase: voterDatabase.address,
+        candidateDatabase: candidateDatabase.address,
+        electionDatabase: electionDatabase.address,
+      },
+      abis: await loadChainElectAbis(hre.artifacts),
+    });
+
+    /** Opens the election and gives Carol and Bob one vote each */
+    const castTiedVotes = async () => {
+      await electionDatabase.write.adminOpenElection([0n]);
+      await electionDatabase.write.vote([0n, C], { account: voter1.account });
+      await electionDatabase.write.vote([0n, B], { account: voter2.account });
+    };
+
+    return {
+      electionDatabase,
+      client,
+      voters: [voter1, voter2, voter3],
+      candidates: { A, B, C },
+      castTiedVotes,
+    };
+  }
+
+  describe("getWinners", function () {
+    it("reports no votes, a unique leader and ties", async function () {
+      const { electionDatabase, voters, candidates, castTiedVotes } =
+        await loadFixture(deployTieBreakingFixture);
+      const { A, B, C } = candidates;
+
+      assert.deepEqual(
+        await electionDatabase.read.getRegisteredCandidates([0n]),
+        [C, B, A]
+      );
+      assert.deepEqual(await electionDatabase.read.getWinners([0n]), [
+        [],
+        ResultStatusEnum.NO_VOTES,
+      ]);
+      assert.equal(await electionDatabase.read.getWinner([0n]), zeroAddress);
+
+      await castTiedVotes();
+      // leaders come in enrollment order, not in candidates[] order
+      assert.deepEqual(await electionDatabase.read.getWinners([0n]), [
+        [B, C],
+        ResultStatusEnum.TIE,
+      ]);
+      assert.equal(await electionDatabase.read.getWinner([0n]), B);
+
+      await electionDatabase.write.vote([0n, C], {
+        account: voters[2].account,
+      });
+      assert.deepEqual(await electionDatabase.read.getWinners([0n]), [
+        [C],
+        ResultStatusEnum.UNIQUE,
+      ]);
+    });
+  });
+
+  describe("adminSetTieBreakPolicy", function () {
+    it("cannot change the policy once votes were cast", async function () {
+      const { electionDatabase, castTiedVotes } = await loadFixture(
+        deployTieBreakingFixture
+      );
+
+      await electionDatabase.write.adminSetTieBreakPolicy([
+        0n,
+        TieBreakPolicyEnum.ADMIN_DECISION,
+        keccak256(toBytes("unused")),
+      ]);
+      const [event] = await electionDatabase.getEvents.TieBreakPolicySet();
+      assert.equal(event.args.policy, TieBreakPolicyEnum.ADMIN_DECISION);
+
+      await castTiedVotes();
+      await expect(
+        electionDatabase.write.adminSetTieBreakPolicy([
+          0n,
+          TieBreakPolicyEnum.EARLIEST_ENROLLMENT,
+          keccak256(toBytes("unused")),
+        ])
+      ).to.be.rejectedWith("ElectionDatabase__TieBreakPolicyLocked");
+    });
+  });
+
+  describe("admin decision", function () {
+    it("has no winner until an admin picks one of the tied leaders", async function () {
+      const { electionDatabase, candidates, castTiedVotes } = await loadFixture(
+        deployTieBreakingFixture
+      );
+      const { A, B, C } = candidates;
+
+      await electionDatabase.write.adminSetTieBreakPolicy([
+        0n,
+        TieBreakPolicyEnum.ADMIN_DECISION,
+        keccak256(toBytes("unused")),
+      ]);
+      await castTiedVotes();
+      assert.equal(await electionDatabase.read.getWinner([0n]), zeroAddress);
+
+      await expect(
+        electionDatabase.write.adminDecideTie([0n, C])
+      ).to.be.rejectedWith("ElectionDatabase__ElectionActive");
+      await electionDatabase.write.adminCloseElection([0n]);
+
+      await expect(
+        electionDatabase.write.adminBreakTie([0n])
+      ).to.be.rejectedWith("ElectionDatabase__WrongTieBreakPolicy");
+      await expect(
+        electionDatabase.write.adminDecideTie([0n, A])
+      ).to.be.rejectedWith("ElectionDatabase__NotTiedCandidate");
+
+      await electionDatabase.write.adminDecideTie([0n, C]);
+      const [event] = await electionDatabase.getEvents.TieBroken();
+      assert.equal(event.args.winner, C);
+      assert.equal(event.args.policy, TieBreakPolicyEnum.ADMIN_DECISION);
+      assert.deepEqual(event.args.tiedCandidates, [B, C]);
+      assert.equal(await electionDatabase.read.getWinner([0n]), C);
+
+      await expect(
+        electionDatabase.write.adminDecideTie([0n, B])
+      ).to.be.rejectedWith("ElectionDatabase__TieAlreadyBroken");
+    });
+  });
+
+  describe("automatic policies", function () {
+    it("draws the seeded random winner reproducibly", async function () {
+      const { electionDatabase, candidates, castTiedVotes } = await loadFixture(
+        deployTieBreakingFixture
+      );
+      const { B, C } = candidates;
+      const seed = keccak256(toBytes("board election 2025"));
+
+      await electionDatabase.write.adminSetTieBreakPolicy([
+        0n,
+        TieBreakPolicyEnum.SEEDED_RANDOM,
+        seed,
+      ]);
+      await castTiedVotes();
+
+      const draw = BigInt(
+        keccak256(
+          encodeAbiParameters(
+            [{ type: "bytes32" }, { type: "address[]" }],
+            [seed, [B, C]]
+          )
+        )
+      );
+      const expected = [B, C][Number(draw % 2n)];
+      assert.equal(await electionDatabase.read.getWinner([0n]), expected);
+
+      await electionDatabase.write.adminCloseElection([0n]);
+      await electionDatabase.write.adminBreakTie([0n]);
+      const [event] = await electionDatabase.getEvents.TieBroken();
+      assert.equal(event.args.winner, expected);
+      assert.equal(event.args.policy, TieBreakPolicyEnum.SEEDED_RANDOM);
+    });
+
+    it("only breaks actual ties", async function () {
+      const { electionDatabase, voters, candidates, castTiedVotes } =
+        await loadFixture(deployTieBreakingFixture);
+
+      await castTiedVotes();
+      await electionDatabase.write.vote([0n, candidates.B], {
+        account: voters[2].account,
+      });
+      await electionDatabase.write.adminCloseElection([0n]);
+
+      await expect(
+        electionDatabase.write.adminBreakTie([0n])
+      ).to.be.rejectedWith("ElectionDatabase__NoTie");
+    });
+  });
+
+  describe("results report", function () {
+    it("reports the tie and how it was broken", async function () {
+      const { electionDatabase, client, candidates, castTiedVotes } =
+        await loadFixture(deployTieBreakingFixture);
+      const { B, C } = candidates;
+
+      await castTiedVotes();
+      await electionDatabase.write.adminCloseElection([0n]);
+      await client.breakTie(0n);
+
+      const results = await getElectionResults(client, 0n);
+      assert.equal(results.status, "tie");
+      assert.isUndefined(results.winner);
+      assert.deepEqual(results.tiedCandidates, [B, C]);
+      assert.equal(
+        results.tieBreakPolicy,
+        TieBreakPolicyEnum.EARLIEST_ENROLLMENT
+      );
+      assert.equal(results.tieBreakWinner, B);
+      assert.include(
+        renderResults(results, "markdown"),
+        "- Winner: Bob by earliest enrollment after a tie between Bob, Carol"
+      );
+    });
+  });
+});
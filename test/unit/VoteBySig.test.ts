@@ -0,0 +1,167 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { assert, expect } from "chai";
+import hre from "hardhat";
+import { getAddress, zeroAddress } from "viem";
+import { hardhat } from "viem/chains";
+import { GenderEnum } from "../../types";
+import { getDobEpochFromAge } from "../../lib/utils";
+import { ChainElectClient, loadChainElectAbis } from "../../lib/sdk";
+
+describe("Vote By Signature Unit Tests", function () {
+  before(function () {
+    // we want to run this only on hardhat development chains
+    if (hre.network.config.chainId != hardhat.id) {
+      this.skip();
+    }
+  });
+
+  async function deployVoteBySigFixture() {
+    const [, relayer, voter1, voter2, candidate1] =
+      await hre.viem.getWalletClients();
+
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
+    const candidateDatabase = await hre.viem.deployContract(
+      "CandidateDatabase",
+      [18n]
+    );
+    const electionDatabase = await hre.viem.deployContract("ElectionDatabase", [
+      voterDatabase.address,
+      candidateDatabase.address,
+    ]);
+    await voterDatabase.write.addAdmin([electionDatabase.address]);
+
+    for (const voter of [voter1, voter2]) {
+      await voterDatabase.write.addVoter(
+        [
+          "Voter",
+          getDobEpochFromAge(30),
+          GenderEnum.MALE,
+          "1 First St",
+          "voter@example.com",
+        ],
+        { account: voter.account }
+      );
+    }
+    await candidateDatabase.write.addCandidate(
+      [
+        "Alice Candidate",
+        getDobEpochFromAge(40),
+        GenderEnum.FEMALE,
+        "2 Second St",
+        "alice@example.com",
+        "PhD",
+        "Manifesto",
+      ],
+      { account: candidate1.account }
+    );
+    await electionDatabase.write.adminCreateElection([
+      "Gasless Election",
+      "Voters sign, the relayer pays",
+    ]);
+    await electionDatabase.write.enrollCandidate([0n], {
+      account: candidate1.account,
+    });
+    await electionDatabase.write.adminOpenElection([0n]);
+
+    const clientOf = async (walletClient: typeof relayer) =>
+      new ChainElectClient({
+        publicClient: await hre.viem.getPublicClient(),
+        walletClient,
+        addresses: {
+          voterDatabase: voterDatabase.address,
+          candidateDatabase: candidateDatabase.address,
+          electionDatabase: electionDatabase.address,
+        },
+        abis: await loadChainElectAbis(hre.artifacts),
+      });
+    const deadline = BigInt(await time.latest()) + 3600n;
+
+    return {
+      electionDatabase,
+      voterClient: await clientOf(voter1),
+      relayerClient: await clientOf(relayer),
+      voters: [voter1, voter2],
+      candidate: getAddress(candidate1.account.address),
+      deadline,
+    };
+  }
+
+  it("counts a ballot signed by the voter and sent by someone else", async function () {
+    const {
+      electionDatabase,
+      voterClient,
+      relayerClient,
+      candidate,
+      deadline,
+    } = await loadFixture(deployVoteBySigFixture);
+
+    const ballot = await voterClient.signBallot(0n, candidate, deadline);
+    await relayerClient.voteBySig(ballot);
+
+    const [event] = await electionDatabase.getEvents.VoterVoted();
+    assert.equal(event.args.voter, ballot.voter);
+    assert.isTrue(await electionDatabase.read.hasVoted([0n, ballot.voter]));
+    assert.equal(await relayerClient.getBallotNonce(ballot.voter), 1n);
+  });
+
+  it("does not accept a signature twice", async function () {
+    const { voterClient, relayerClient, candidate, deadline } =
+      await loadFixture(deployVoteBySigFixture);
+
+    const ballot = await voterClient.signBallot(0n, candidate, deadline);
+    await relayerClient.voteBySig(ballot);
+    // the nonce moved on, so the old signature no longer matches
+    await expect(relayerClient.voteBySig(ballot)).to.be.rejectedWith(
+      "ElectionDatabase__InvalidSignature"
+    );
+  });
+
+  it("rejects ballots signed by someone else or altered", async function () {
+    const { voterClient, relayerClient, voters, candidate, deadline } =
+      await loadFixture(deployVoteBySigFixture);
+
+    const ballot = await voterClient.signBallot(0n, candidate, deadline);
+    await expect(
+      relayerClient.voteBySig({
+        ...ballot,
+        voter: getAddress(voters[1].account.address),
+      })
+    ).to.be.rejectedWith("ElectionDatabase__InvalidSignature");
+    await expect(
+      relayerClient.voteBySig({ ...ballot, deadline: deadline + 1n })
+    ).to.be.rejectedWith("ElectionDatabase__InvalidSignature");
+  });
+
+  it("rejects malformed signatures for the zero address", async function () {
+    const { relayerClient, candidate, deadline } = await loadFixture(
+      deployVoteBySigFixture
+    );
+
+    for (const signature of ["0x", `0x${"ff".repeat(65)}`] as const) {
+      await expect(
+        relayerClient.voteBySig({
+          electionId: 0n,
+          candidate,
+          voter: zeroAddress,
+          deadline,
+          signature,
+        })
+      ).to.be.rejectedWith("ElectionDatabase__InvalidSignature");
+    }
+    assert.equal(await relayerClient.getBallotNonce(zeroAddress), 0n);
+  });
+
+  it("rejects ballots past their deadline", async function () {
+    const { voterClient, relayerClient, candidate, deadline } =
+      await loadFixture(deployVoteBySigFixture);
+
+    const ballot = await voterClient.signBallot(0n, candidate, deadline);
+    await time.increaseTo(deadline);
+    await expect(relayerClient.voteBySig(ballot)).to.be.rejectedWith(
+      "ElectionDatabase__SignatureExpired"
+    );
+  });
+});
@@ -17,7 +17,7 @@ describe("VoterDatabase Unit Tests", function () {
   async function deployVoterDatabaseFixture() {
     const [owner, otherAccount, thirdAccount] =
       await hre.viem.getWalletClients();
-    const voterDatabase = await hre.viem.deployContract("VoterDatabase", []);
+    const voterDatabase = await hre.viem.deployContract("VoterDatabase", [18n]);
     const publicClient = await hre.viem.getPublicClient();
     return { voterDatabase, owner, otherAccount, thirdAccount, publicClient };
   }
@@ -312,7 +312,7 @@ describe("VoterDatabase Unit Tests", function () {
             ],
             { account: otherAccount.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert with zero address", async function () {
@@ -375,7 +375,7 @@ describe("VoterDatabase Unit Tests", function () {
             ],
             { account: otherAccount.account }
           )
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert if voter not registered", async function () {
@@ -483,7 +483,7 @@ describe("VoterDatabase Unit Tests", function () {
           voterDatabase.write.adminRemoveVoter([otherAccount.account.address], {
             account: otherAccount.account,
           })
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert if voter not registered", async function () {
@@ -565,7 +565,7 @@ describe("VoterDatabase Unit Tests", function () {
           voterDatabase.write.adminMarkVoted([otherAccount.account.address], {
             account: otherAccount.account,
           })
-        ).to.be.rejectedWith("AdminManagement__NotAdmin");
+        ).to.be.rejectedWith("AdminManagement__MissingRole");
       });
 
       it("should revert if voter not registered", async function () {
@@ -780,13 +780,13 @@ describe("VoterDatabase Unit Tests", function () {
             voterDatabase.read.adminGetAllVoters({
               account: otherAccount.account,
             })
-          ).to.be.rejectedWith("AdminManagement__NotAdmin");
+          ).to.be.rejectedWith("AdminManagement__MissingRole");
 
           await expect(
             voterDatabase.read.adminGetVoterCount({
               account: otherAccount.account,
             })
-          ).to.be.rejectedWith("AdminManagement__NotAdmin");
+          ).to.be.rejectedWith("AdminManagement__MissingRole");
         });
 
         it("should return empty array when no voters registered", async function () {
@@ -902,7 +902,7 @@ describe("VoterDatabase Unit Tests", function () {
               [otherAccount.account.address],
               { account: otherAccount.account }
             )
-          ).to.be.rejectedWith("AdminManagement__NotAdmin");
+          ).to.be.rejectedWith("AdminManagement__MissingRole");
         });
 
         it("should revert if voter not registered", async function () {
@@ -3,3 +3,28 @@ export const GenderEnum = {
   FEMALE: 1,
 } as const;
 export type Gender = (typeof GenderEnum)[keyof typeof GenderEnum];
+
+export const ElectionTypeEnum = {
+  PLURALITY: 0,
+  RANKED_CHOICE: 1,
+  APPROVAL: 2,
+  SECRET_BALLOT: 3,
+} as const;
+export type ElectionType =
+  (typeof ElectionTypeEnum)[keyof typeof ElectionTypeEnum];
+
+export const ResultStatusEnum = {
+  NO_VOTES: 0,
+  UNIQUE: 1,
+  TIE: 2,
+} as const;
+export type ResultStatus =
+  (typeof ResultStatusEnum)[keyof typeof ResultStatusEnum];
+
+export const TieBreakPolicyEnum = {
+  EARLIEST_ENROLLMENT: 0,
+  ADMIN_DECISION: 1,
+  SEEDED_RANDOM: 2,
+} as const;
+export type TieBreakPolicy =
+  (typeof TieBreakPolicyEnum)[keyof typeof TieBreakPolicyEnum];